@@ -1,8 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Camera, Printer, RotateCcw, PenTool, Bluetooth, Ruler, Battery, BatteryFull, BatteryLow, BatteryMedium, ExternalLink, AlertTriangle, X, Image as ImageIcon, Edit3, CheckCircle2, Layout, BarChart3, Layers, PlusCircle, Scan } from 'lucide-react';
-import { AppState, FilamentData, LABEL_PRESETS, LabelPreset, PrintSettings, HistoryEntry, LabelTheme, PrinterInfo, PrintJob, LabelTemplate } from './types';
+import { Camera, Printer, RotateCcw, PenTool, Bluetooth, Ruler, Battery, BatteryFull, BatteryLow, BatteryMedium, ExternalLink, AlertTriangle, X, Image as ImageIcon, Edit3, CheckCircle2, Layout, BarChart3, Layers, PlusCircle, Scan, Shapes } from 'lucide-react';
+import { AppState, FilamentData, LABEL_PRESETS, LabelPreset, PrintSettings, HistoryEntry, LabelTheme, PrinterInfo, PrintJob, LabelTemplate, PrinterStatus, PrinterStatusReport, PrintJobRecord } from './types';
 import { analyzeFilamentImage } from './services/geminiService';
-import { connectPrinter, printLabel, getBatteryLevel, getDeviceDetails, checkPrinterStatus, addConnectionListener, removeConnectionListener, getConnectedDevice, addStatusListener, removeStatusListener, tryReconnect } from './services/printerService';
+import { connectPrinter, printLabel, getBatteryLevel, getDeviceDetails, addConnectionListener, removeConnectionListener, getConnectedDevice, addStatusListener, removeStatusListener, addPrinterStateListener, removePrinterStateListener, tryReconnect, resumePrintJob, getInterruptedPrintJob } from './services/printerService';
+import { clearJobRecord, ResumeMode } from './services/printJobRecovery';
+import { RegisteredPrinter, PrinterUpdate, loadPrinters, updatePrinter, removePrinter, getRegisteredPrinter, getDefaultLabel, applyPrinterDefaults } from './services/printerRegistry';
+import { createPrintQueue, createIndexedDbQueueStore, QueuedPrintJob, QueueOptions, PrintQueueState } from './services/printQueue';
+import { createLabelRenderer, LabelRenderRequest } from './services/offscreenRenderer';
+import { LabelSource } from './services/rasterEncoder';
+import { TapeLayoutOptions, packTapeStrips, composeTapeStrip, getTapeStripSettings } from './services/tapeLayout';
+import { getQrPayload } from './services/labelRenderer';
+import { BatchCheck, checkBatch, getBatchResources, getJobNeed, getTapeStripNeeds } from './services/batchSafeguards';
+import { getLabelPresets, findLabelPreset, isLabelStock, fitsPrinter } from './services/labelStock';
 import CameraCapture from './components/CameraCapture';
 import LabelEditor from './components/LabelEditor';
 import LabelCanvas from './components/LabelCanvas';
@@ -12,9 +21,16 @@ import PrintStatus, { PrintStep } from './components/PrintStatus';
 import SuccessView from './components/SuccessView';
 import FilamentLibrary from './components/FilamentLibrary';
 import PrinterStatusModal from './components/PrinterStatusModal';
+import ResumePrintModal from './components/ResumePrintModal';
+import BatchSafeguardModal, { BatchSafeguardChoice } from './components/BatchSafeguardModal';
+import PrintVerifier from './components/PrintVerifier';
+import PrinterPicker from './components/PrinterPicker';
+import LabelStockManager from './components/LabelStockManager';
 import BatchGenerator from './components/BatchGenerator';
+import PrintQueuePanel from './components/PrintQueuePanel';
 import AnalyticsDashboard from './components/AnalyticsDashboard';
 import TemplateGallery from './components/TemplateGallery';
+import LabelDesigner from './components/LabelDesigner';
 import KeyboardShortcuts from './components/KeyboardShortcuts';
 import TopLoadingBar from './components/TopLoadingBar';
 import { useToast } from './components/ToastProvider';
@@ -46,7 +62,10 @@ const DEFAULT_SETTINGS: PrintSettings = {
   labelType: 'gap'
 };
 
-type Tab = 'editor' | 'batch' | 'templates' | 'analytics';
+type Tab = 'editor' | 'batch' | 'templates' | 'designer' | 'analytics';
+
+// Batch labels drawn ahead of the one being printed
+const BATCH_PRERENDER_AHEAD = 2;
 
 const App: React.FC = () => {
   const toast = useToast();
@@ -56,6 +75,9 @@ const App: React.FC = () => {
 
   const [printSettings, setPrintSettings] = useState<PrintSettings>(DEFAULT_SETTINGS);
   const [selectedLabel, setSelectedLabel] = useState<LabelPreset>(LABEL_PRESETS[0]); // Default to 12x40mm (Index 0)
+  // Built-in presets plus the user's label stock
+  const [labelPresets, setLabelPresets] = useState<LabelPreset[]>(getLabelPresets);
+  const [showStockManager, setShowStockManager] = useState(false);
 
   const [previewCanvas, setPreviewCanvas] = useState<HTMLCanvasElement | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -63,13 +85,21 @@ const App: React.FC = () => {
   const [statusMsg, setStatusMsg] = useState<string>('');
   const [printStep, setPrintStep] = useState<PrintStep>('idle');
   const [batteryLevel, setBatteryLevel] = useState<number | null>(null);
+  const [printerStatus, setPrinterStatus] = useState<PrinterStatus>('unknown');
+  const [interruptedJob, setInterruptedJob] = useState<PrintJobRecord | null>(null);
+  const [showRasterPreview, setShowRasterPreview] = useState(true);
   const [printerInfo, setPrinterInfo] = useState<Partial<PrinterInfo> | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [isIframe, setIsIframe] = useState(false);
   const [showIframeWarning, setShowIframeWarning] = useState(true);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [isVerifyingPrint, setIsVerifyingPrint] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
+  const [printers, setPrinters] = useState<RegisteredPrinter[]>(loadPrinters);
+  const [connectedPrinterId, setConnectedPrinterId] = useState<string | null>(null);
+  // Printer the next print goes to (null = the connected one, or the chooser)
+  const [targetPrinterId, setTargetPrinterId] = useState<string | null>(null);
   const [showPrinterStatus, setShowPrinterStatus] = useState(false);
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
 
@@ -79,15 +109,39 @@ const App: React.FC = () => {
   const [analysisSummary, setAnalysisSummary] = useState<string>('');
   const [analysisDetectedData, setAnalysisDetectedData] = useState<Partial<FilamentData>>({});
 
-  // Batch Printing State
-  const [batchQueue, setBatchQueue] = useState<PrintJob[]>([]);
-  const [currentBatchIndex, setCurrentBatchIndex] = useState<number>(-1);
-  const [batchCanvas, setBatchCanvas] = useState<HTMLCanvasElement | null>(null);
-  const [isBatchPrinting, setIsBatchPrinting] = useState(false);
-  const [batchOverrideSize, setBatchOverrideSize] = useState<LabelPreset | null>(null);
+  // Batch Printing State (the queue itself is persisted by the print queue service)
+  const printQueuedJobRef = useRef<(job: QueuedPrintJob) => Promise<void>>(async () => {});
+  const [labelRenderer] = useState(() => createLabelRenderer());
+  const [printQueue] = useState(() => createPrintQueue({
+    store: createIndexedDbQueueStore(),
+    printJob: (job) => printQueuedJobRef.current(job),
+    onJobFailed: (job, error) => {
+      setPrintStep('error');
+      setErrorMsg(`Batch failed at ${job.label.brand} ${job.label.material}: ${error.message}`);
+    },
+    onDrained: (failed) => {
+      if (failed > 0) {
+        setPrintStep('error');
+        setStatusMsg('Batch finished with errors');
+        setErrorMsg(`Batch finished, but ${failed} label${failed === 1 ? '' : 's'} failed. Retry ${failed === 1 ? 'it' : 'them'} from the print queue.`);
+        return;
+      }
+      setPrintStep('success');
+      setStatusMsg('Batch Complete!');
+      setShowSuccess(true);
+    }
+  }));
+  const [queueState, setQueueState] = useState<PrintQueueState>(printQueue.getState);
+  const [batchPrinted, setBatchPrinted] = useState(0);
+  const isBatchPrinting = queueState.running;
+  const batchTotal = Math.max(1, batchPrinted + queueState.jobs.filter(j => j.status !== 'error').length);
+  const activeQueueJob = queueState.jobs.find(j => j.status === 'printing') || null;
   const [sessionSelectedIds, setSessionSelectedIds] = useState<Set<string>>(new Set());
   const [lastBatchQueue, setLastBatchQueue] = useState<PrintJob[] | null>(null);
   const [lastBatchOverrideSizeId, setLastBatchOverrideSizeId] = useState<string | undefined>(undefined);
+  const [lastBatchTapeLayout, setLastBatchTapeLayout] = useState<TapeLayoutOptions | null>(null);
+  // Low battery / short roll warning waiting for the user's choice
+  const [batchSafeguard, setBatchSafeguard] = useState<{ check: BatchCheck; totalJobs: number; canSplit: boolean; resolve: (choice: BatchSafeguardChoice) => void } | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -107,7 +161,7 @@ const App: React.FC = () => {
     // Load Label
     const savedLabelId = localStorage.getItem('filament_label_id');
     if (savedLabelId) {
-       const preset = LABEL_PRESETS.find(p => p.id === savedLabelId);
+       const preset = findLabelPreset(savedLabelId);
        if (preset) setSelectedLabel(preset);
     }
 
@@ -126,12 +180,17 @@ const App: React.FC = () => {
       if (connected) {
         // Auto-fetch details if reconnected
         const device = getConnectedDevice();
+        setConnectedPrinterId(device?.id || null);
+        setPrinters(loadPrinters());
         if (device) {
            getBatteryLevel(device).then(setBatteryLevel);
            getDeviceDetails(device).then(setPrinterInfo);
         }
+        // Offer to finish a job the previous connection dropped
+        setInterruptedJob(getInterruptedPrintJob());
       } else {
         setBatteryLevel(null);
+        setConnectedPrinterId(null);
       }
     };
     addConnectionListener(listener);
@@ -142,6 +201,13 @@ const App: React.FC = () => {
     };
     addStatusListener(statusListener);
 
+    // Printer State Listener (paper / cover / heat / battery notifications)
+    const printerStateListener = (status: PrinterStatus, report: PrinterStatusReport | null) => {
+       setPrinterStatus(status);
+       if (report?.battery !== undefined) setBatteryLevel(report.battery);
+    };
+    addPrinterStateListener(printerStateListener);
+
     // Attempt Auto-Reconnect
     tryReconnect().catch(e => console.debug("Auto-connect failed", e));
 
@@ -173,10 +239,10 @@ const App: React.FC = () => {
           setPrintStep('idle');
         }
       }
-      // Tab shortcuts (1-4)
-      if ((e.ctrlKey || e.metaKey) && ['1', '2', '3', '4'].includes(e.key) && state === AppState.EDITING) {
+      // Tab shortcuts (1-5)
+      if ((e.ctrlKey || e.metaKey) && ['1', '2', '3', '4', '5'].includes(e.key) && state === AppState.EDITING) {
         e.preventDefault();
-        const tabs: Tab[] = ['editor', 'batch', 'templates', 'analytics'];
+        const tabs: Tab[] = ['editor', 'batch', 'templates', 'designer', 'analytics'];
         setActiveTab(tabs[parseInt(e.key) - 1]);
       }
     };
@@ -186,6 +252,7 @@ const App: React.FC = () => {
     return () => {
       removeConnectionListener(listener);
       removeStatusListener(statusListener);
+      removePrinterStateListener(printerStateListener);
       window.removeEventListener('keydown', handleKeyDown);
     };
   }, [state, printStep, errorMsg, showSuccess, showKeyboardShortcuts]);
@@ -426,7 +493,33 @@ const App: React.FC = () => {
     performPrint(previewCanvas, printSettings);
   };
 
-  const performPrint = async (canvas: HTMLCanvasElement, settings: PrintSettings, isBatchItem = false) => {
+  // Custom stock also sets how the printer finds the next label
+  const handleSelectLabel = (preset: LabelPreset) => {
+    setSelectedLabel(preset);
+    if (isLabelStock(preset)) setPrintSettings(prev => ({ ...prev, labelType: preset.labelType }));
+  };
+
+  // Picking a printer loads its label size, density and speed into the editor
+  const handleSelectPrinter = (id: string | null) => {
+    setTargetPrinterId(id);
+    const printer = id ? getRegisteredPrinter(id) : null;
+    if (!printer) return;
+    handleSelectLabel(getDefaultLabel(printer));
+    setPrintSettings(prev => applyPrinterDefaults(prev, printer));
+  };
+
+  const handleUpdatePrinter = (id: string, update: PrinterUpdate) => {
+    updatePrinter(id, update);
+    setPrinters(loadPrinters());
+  };
+
+  const handleRemovePrinter = (id: string) => {
+    removePrinter(id);
+    if (targetPrinterId === id) setTargetPrinterId(null);
+    setPrinters(loadPrinters());
+  };
+
+  const performPrint = async (canvas: LabelSource, settings: PrintSettings, isBatchItem = false, labelName = `${filamentData.brand} ${filamentData.material}`, printerId = targetPrinterId) => {
     setIsProcessing(true);
 
     // Improved UX: If already connected, skip the "Searching..." phase updates to reduce flicker
@@ -439,7 +532,7 @@ const App: React.FC = () => {
     }
 
     try {
-      const device = await connectPrinter();
+      const device = await connectPrinter(printerId || undefined);
 
       // Only fetch details if we don't have them or it's the first print
       if ((!printerInfo || !isBatchItem) && !isBatchPrinting && !isConnected) {
@@ -455,20 +548,7 @@ const App: React.FC = () => {
         if (details) setPrinterInfo(details);
       }
 
-      if (!isBatchItem) {
-         // Optimization: Skip explicit status check if we just printed (assumed ready)
-         // But for reliability, checking is safer.
-         // Let's keep it but make message less intrusive if connected
-         if (!isConnected) {
-            setPrintStep('checking');
-            setStatusMsg('Verifying printer status...');
-         }
-
-        const status = await checkPrinterStatus(device);
-        if (status === 'paper_out') throw new Error("Printer reports: Out of Paper");
-        if (status === 'cover_open') throw new Error("Printer reports: Cover Open");
-      }
-
+      // printLabel checks the printer status and refuses to start on a fault
       if (!isBatchItem) {
         setPrintStep('printing');
         setStatusMsg(settings.copies > 1
@@ -477,7 +557,9 @@ const App: React.FC = () => {
         );
       }
 
-      await printLabel(device, canvas, settings);
+      // A new job replaces any interrupted one; batch labels are retried by the batch instead of resumed
+      if (!isBatchItem) setInterruptedJob(null);
+      await printLabel(device, canvas, settings, labelName, { resumable: !isBatchItem });
 
       if (!isBatchItem) {
         setPrintStep('success');
@@ -516,108 +598,180 @@ const App: React.FC = () => {
           setPrintStep('idle');
           setStatusMsg('');
         }
+      } else if (!isBatchItem && getInterruptedPrintJob()) {
+        // Job record survived: the resume prompt appears once the printer reconnects
+        setErrorMsg(`${err.message || "Printing failed"}. Reconnect the printer to resume.`);
+        setStatusMsg("Print interrupted");
       } else {
         setErrorMsg(err.message || "Printing failed. Check connection.");
         setStatusMsg(err.message || "Print failed");
-        // Re-throw for batch handler
-        if (isBatchItem) throw err;
       }
+      // Re-throw for batch handler, whatever went wrong, so the job is not logged as printed
+      if (isBatchItem) throw err;
     } finally {
       setIsProcessing(false);
     }
   };
 
-  // Batch Processing Effect
-  useEffect(() => {
-    const processBatchItem = async () => {
-      // Safety check: ensure queue is valid and index is within bounds
-      if (!isBatchPrinting || currentBatchIndex < 0) return;
-
-      if (currentBatchIndex >= batchQueue.length) {
-         // Batch Finished
-         setIsBatchPrinting(false);
-         setPrintStep('success');
-         setStatusMsg('Batch Complete!');
-         setShowSuccess(true);
-         setBatchQueue([]);
-         setCurrentBatchIndex(-1);
-         return;
-      }
-
-      const job = batchQueue[currentBatchIndex];
-      // Safety check: if job is undefined (shouldn't happen with bounds check above)
-      if (!job) {
-         // Skip corrupt item
-         setCurrentBatchIndex(prev => prev + 1);
-         return;
-      }
+  const handleResumeJob = async (mode: ResumeMode) => {
+    setInterruptedJob(null);
+    setIsProcessing(true);
+    setPrintStep('printing');
+    setErrorMsg(null);
+    setShowSuccess(false);
 
-      // Wait for canvas to be populated?
-      // The canvas is rendered conditionally: batchQueue[currentBatchIndex] && ...
-      // We need to wait for `batchCanvas` state to update with the new canvas element reference
-      // generated by the LabelCanvas.
-      // However, LabelCanvas `onCanvasReady` sets state.
-      // If we are too fast, `batchCanvas` might be the OLD one or null.
+    try {
+      const device = getConnectedDevice() || await connectPrinter();
+      await resumePrintJob(device, mode);
 
-      if (!batchCanvas) {
-          // Waiting for canvas to mount/render
-          return;
-      }
+      setPrintStep('success');
+      setStatusMsg('Print complete!');
+      setShowSuccess(true);
+      setTimeout(() => {
+        setPrintStep('idle');
+        setStatusMsg('');
+      }, 3000);
+    } catch (err: any) {
+      console.error("Resume Error:", err);
+      setPrintStep('error');
+      setErrorMsg(`${err.message || "Resume failed"}. Reconnect the printer to try again.`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-      try {
-          setPrintStep('printing');
-          setStatusMsg(`Printing ${currentBatchIndex + 1}/${batchQueue.length}: ${job.label.brand} ${job.label.material}`);
+  const handleDiscardJob = () => {
+    clearJobRecord();
+    setInterruptedJob(null);
+  };
 
-          await performPrint(batchCanvas, job.settings, true);
+  // Print Queue
+  useEffect(() => {
+    const unsubscribe = printQueue.subscribe(setQueueState);
+    printQueue.load();
+    return unsubscribe;
+  }, [printQueue]);
+
+  useEffect(() => () => labelRenderer.dispose(), [labelRenderer]);
+
+  const toRenderRequest = (job: PrintJob): LabelRenderRequest => ({
+    data: job.label,
+    settings: job.settings,
+    size: { widthMm: job.settings.widthMm || selectedLabel.widthMm, heightMm: job.settings.heightMm || selectedLabel.heightMm }
+  });
+
+  // Renders the job offscreen, then prints it; rejects so the queue can record the failure
+  printQueuedJobRef.current = async (job: QueuedPrintJob) => {
+    const image = await labelRenderer.render(toRenderRequest(job));
+    // Draw the next labels while this one is sent
+    const upcoming = printQueue.getState().jobs.filter(j => j.status === 'queued').slice(0, BATCH_PRERENDER_AHEAD);
+    labelRenderer.prerender(upcoming.map(toRenderRequest));
+
+    const labelName = `${job.label.brand} ${job.label.material}`;
+    setPrintStep('printing');
+    setStatusMsg(`Printing ${labelName}`);
+    await performPrint(image, job.settings, true, labelName, job.printerId || null);
+    setBatchPrinted(n => n + 1);
+  };
 
-          // Prepare for next
-          setBatchCanvas(null); // Force reset to wait for new canvas
-          setCurrentBatchIndex(prev => prev + 1);
+  // Continuous tape: the labels go out on strips, each one a single raster job
+  const printTapeStrips = async (jobs: PrintJob[], layout: TapeLayoutOptions) => {
+    setErrorMsg(null);
+    setShowSuccess(false);
+    setPrintStep('printing');
+    setStatusMsg(`Laying out ${jobs.length} labels...`);
 
-      } catch (e: any) {
-          console.error("Batch failed", e);
-          setIsBatchPrinting(false);
-          setErrorMsg(`Batch failed at item ${currentBatchIndex + 1}: ${e.message}`);
-          setPrintStep('error');
+    try {
+      // Checked before rendering: density, speed and the like apply to the whole strip
+      const settings = getTapeStripSettings(jobs);
+      const images = await Promise.all(jobs.map(job => labelRenderer.render(toRenderRequest(job))));
+      const strips = packTapeStrips(images, layout);
+
+      for (const [index, strip] of strips.entries()) {
+        const name = strips.length > 1 ? `Tape strip ${index + 1}/${strips.length}` : `Tape strip (${strip.length} labels)`;
+        setStatusMsg(`Printing ${name}`);
+        await performPrint(composeTapeStrip(strip, layout), settings, true, name, jobs[0].printerId || null);
       }
-    };
 
-    // Trigger only when batchCanvas becomes available OR if we are just starting/transitioning
-    // We add a small timeout to let React render the hidden canvas
-    if (isBatchPrinting && batchCanvas) {
-         // Using requestAnimationFrame to ensure render is complete, plus a small safety buffer
-         const timer = setTimeout(() => {
-             requestAnimationFrame(() => processBatchItem());
-         }, 300);
-         return () => clearTimeout(timer);
+      setPrintStep('success');
+      setStatusMsg('Tape strip printed!');
+      setShowSuccess(true);
+    } catch (e: any) {
+      console.error("Tape strip failed", e);
+      setPrintStep('error');
+      setErrorMsg(`Tape strip failed: ${e.message}`);
     }
-  }, [batchCanvas, isBatchPrinting, currentBatchIndex, batchQueue]);
+  };
 
-  const handleBatchPrint = async (jobs: PrintJob[], overrideSizeId?: string) => {
+  const handleBatchPrint = async (jobs: PrintJob[], overrideSizeId?: string, queueOptions?: QueueOptions, tapeLayout?: TapeLayoutOptions | null) => {
     if (jobs.length === 0) return;
 
     // Save for retry capability
     setLastBatchQueue(jobs);
     setLastBatchOverrideSizeId(overrideSizeId);
+    setLastBatchTapeLayout(tapeLayout || null);
+
+    // Jobs routed to a printer use its default label unless a size was picked.
+    // The size is stored on each job so a queue restored after a reload prints the same labels.
+    const routedPrinter = jobs[0].printerId ? getRegisteredPrinter(jobs[0].printerId) : null;
+    const size = (overrideSizeId && overrideSizeId !== 'default' && findLabelPreset(overrideSizeId))
+      || (routedPrinter && getDefaultLabel(routedPrinter))
+      || selectedLabel;
+    // Reprints reuse the jobs, so each run gets fresh ids
+    const runId = Date.now().toString(36);
+    const sized = jobs.map(job => ({
+      ...job,
+      id: `${job.id}-${runId}`,
+      settings: { ...job.settings, widthMm: size.widthMm, heightMm: size.heightMm }
+    }));
+
+    // Battery and roll against what the batch will use; only the connected printer can be read
+    const targetId = sized[0].printerId || getConnectedDevice()?.id;
+    const device = getConnectedDevice();
+    const battery = device?.gatt?.connected && device.id === targetId ? await getBatteryLevel(device) : null;
+    if (battery !== null) setBatteryLevel(battery);
+    const needs = tapeLayout ? getTapeStripNeeds(sized, tapeLayout) : sized.map(getJobNeed);
+    const check = checkBatch(needs, getBatchResources(targetId, battery));
+    let holdFrom: number | undefined;
+    if (check.issues.length > 0) {
+      const choice = await new Promise<BatchSafeguardChoice>(resolve =>
+        setBatchSafeguard({ check, totalJobs: sized.length, canSplit: !tapeLayout, resolve }));
+      setBatchSafeguard(null);
+      if (choice === 'cancel') return;
+      if (choice === 'split') holdFrom = check.fitJobs;
+    }
 
-    if (overrideSizeId && overrideSizeId !== 'default') {
-        const preset = LABEL_PRESETS.find(p => p.id === overrideSizeId);
-        setBatchOverrideSize(preset || null);
-    } else {
-        setBatchOverrideSize(null);
+    if (tapeLayout) {
+      await printTapeStrips(sized, tapeLayout);
+      return;
     }
 
-    setBatchQueue(jobs);
-    setCurrentBatchIndex(0);
-    setBatchCanvas(null); // Reset canvas
-    setIsBatchPrinting(true);
+    setBatchPrinted(0);
+    setErrorMsg(null);
+    setShowSuccess(false);
     setPrintStep('connecting'); // Initial status
     setStatusMsg('Starting batch print...');
+    await printQueue.enqueue(sized, queueOptions, holdFrom);
+    if (holdFrom !== undefined) {
+      toast.info("Batch Split", `${sized.length - holdFrom} labels wait in the queue. Resume after charging or loading a new roll.`);
+    }
+  };
+
+  const handleResumeQueue = () => {
+    setBatchPrinted(0);
+    setErrorMsg(null);
+    printQueue.resume();
+  };
+
+  const handleRetryFailed = () => {
+    setBatchPrinted(0);
+    setErrorMsg(null);
+    printQueue.retryFailed();
   };
 
   const handleReprintLastBatch = () => {
       if (lastBatchQueue) {
-          handleBatchPrint(lastBatchQueue, lastBatchOverrideSizeId);
+          handleBatchPrint(lastBatchQueue, lastBatchOverrideSizeId, undefined, lastBatchTapeLayout);
       }
   };
 
@@ -639,16 +793,10 @@ const App: React.FC = () => {
       }, 500);
   };
 
+  // The template's layout is drawn as-is (scaled to the label) until a theme is picked again
   const handleSelectTemplate = (template: LabelTemplate) => {
-    const newSettings = { ...printSettings };
-    if (template.category === 'minimal') newSettings.theme = LabelTheme.MINIMAL;
-    else if (template.category === 'detailed') newSettings.theme = LabelTheme.TECHNICAL;
-    else if (template.category === 'brand') newSettings.theme = LabelTheme.BOLD;
-    else if (template.category === 'grid') newSettings.theme = LabelTheme.MODERN;
-    else if (template.tags.includes('maintenance')) newSettings.theme = LabelTheme.MAINTENANCE;
-    else newSettings.theme = LabelTheme.SWATCH;
-
-    setPrintSettings(newSettings);
+    const { id, name, layout } = template;
+    setPrintSettings(prev => ({ ...prev, template: { id, name, layout } }));
     setActiveTab('editor');
 
     setPrintStep('success');
@@ -664,6 +812,12 @@ const App: React.FC = () => {
     setPrintStep('idle');
   };
 
+  // Corrections suggested by the camera check go into the editor's settings for the next print
+  const handleApplyCorrection = (correction: Partial<PrintSettings>) => {
+    setPrintSettings(prev => ({ ...prev, ...correction }));
+    toast.success("Correction Applied", "Print again to check the result");
+  };
+
   const handleScanAnother = () => {
     setShowSuccess(false);
     setPrintStep('idle');
@@ -752,6 +906,7 @@ const App: React.FC = () => {
               { id: 'editor', label: 'Editor', icon: Edit3 },
               { id: 'batch', label: 'Batch', icon: Layers },
               { id: 'templates', label: 'Templates', icon: Layout },
+              { id: 'designer', label: 'Designer', icon: Shapes },
               { id: 'analytics', label: 'Analytics', icon: BarChart3 },
             ].map((tab, index) => (
               <button
@@ -786,8 +941,26 @@ const App: React.FC = () => {
             printerInfo={printerInfo}
             batteryLevel={batteryLevel}
             isConnected={isConnected}
+            printerStatus={printerStatus}
         />
 
+        {interruptedJob && !isProcessing && (
+          <ResumePrintModal
+              job={interruptedJob}
+              onResume={handleResumeJob}
+              onDiscard={handleDiscardJob}
+          />
+        )}
+
+        {batchSafeguard && (
+          <BatchSafeguardModal
+              check={batchSafeguard.check}
+              totalJobs={batchSafeguard.totalJobs}
+              canSplit={batchSafeguard.canSplit}
+              onChoose={batchSafeguard.resolve}
+          />
+        )}
+
         {/* Iframe Warning */}
         {isIframe && showIframeWarning && state === AppState.HOME && (
           <div className="mb-6 p-4 bg-yellow-900/20 border border-yellow-700/50 rounded-xl flex items-start gap-3 relative animate-fade-in-up">
@@ -969,26 +1142,57 @@ const App: React.FC = () => {
                     <LabelCanvas
                       data={filamentData} settings={printSettings} widthMm={selectedLabel.widthMm} heightMm={selectedLabel.heightMm}
                       onCanvasReady={setPreviewCanvas}
+                      showRaster={showRasterPreview}
+                      printer={printers.find(p => p.id === (targetPrinterId || connectedPrinterId)) || null}
                     />
                   </div>
 
-                  <div className="text-[10px] text-gray-500 font-mono mt-1">
-                    {selectedLabel.widthMm}x{selectedLabel.heightMm}mm • {printSettings.theme}
+                  <div className="text-[10px] text-gray-500 font-mono mt-1 flex items-center gap-2">
+                    <span>{selectedLabel.widthMm}x{selectedLabel.heightMm}mm • {printSettings.template ? printSettings.template.name : printSettings.theme}</span>
+                    <button
+                      onClick={() => setShowRasterPreview(v => !v)}
+                      className={`px-1.5 py-0.5 rounded border transition-colors ${showRasterPreview ? 'border-cyan-700 text-cyan-400' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                      title="Show the dots the printer will receive"
+                    >
+                      1-bit
+                    </button>
                   </div>
                 </section>
 
+                {printers.length > 0 && (
+                  <PrinterPicker
+                    printers={printers}
+                    selectedId={targetPrinterId}
+                    connectedId={connectedPrinterId}
+                    onSelect={handleSelectPrinter}
+                    onUpdate={handleUpdatePrinter}
+                    onRemove={handleRemovePrinter}
+                  />
+                )}
+
                 {/* --- LABEL SIZE SELECTOR --- */}
                 <section className="pt-2">
                   <div className="flex items-center gap-2 mb-3 text-gray-400 px-1">
                     <Ruler size={16} />
                     <h3 className="text-xs font-bold uppercase tracking-wider">Layout Size</h3>
+                    <button
+                      onClick={() => setShowStockManager(v => !v)}
+                      className="ml-auto text-[10px] text-cyan-400 hover:text-cyan-300 font-bold uppercase"
+                    >
+                      {showStockManager ? 'Done' : 'Manage Stock'}
+                    </button>
                   </div>
+                  {showStockManager && (
+                    <div className="mb-3">
+                      <LabelStockManager onChange={() => setLabelPresets(getLabelPresets())} />
+                    </div>
+                  )}
                   <div ref={labelListRef} className="flex flex-wrap justify-center gap-3 pb-4 px-1">
-                    {LABEL_PRESETS.map((preset) => (
+                    {labelPresets.filter(p => fitsPrinter(p, printers.find(pr => pr.id === (targetPrinterId || connectedPrinterId))?.model)).map((preset) => (
                       <button
                         id={`label-${preset.id}`}
                         key={preset.id}
-                        onClick={() => setSelectedLabel(preset)}
+                        onClick={() => handleSelectLabel(preset)}
                         className={`
                             w-[30%] min-w-[100px] p-2 rounded-xl border transition-all duration-200
                             flex flex-col items-center gap-2
@@ -1001,7 +1205,7 @@ const App: React.FC = () => {
                           style={{ width: `${preset.widthMm / 1.8}px`, height: `${preset.heightMm / 1.8}px` }}></div>
                         <div className="text-center leading-tight">
                           <div className={`text-xs font-bold ${selectedLabel.id === preset.id ? 'text-white' : ''}`}>{preset.name}</div>
-                          <div className={`text-[9px] opacity-70 scale-90 ${preset.group === 'D30/Small' ? 'text-cyan-200' : ''}`}>
+                          <div className={`text-[9px] opacity-70 scale-90 ${preset.group === 'D30/Small' ? 'text-cyan-200' : preset.group === 'Custom' ? 'text-green-300' : ''}`}>
                             {preset.description}
                           </div>
                         </div>
@@ -1046,29 +1250,59 @@ const App: React.FC = () => {
 
                 </section>
 
-                <PrinterTools settings={printSettings} onSettingsChange={setPrintSettings} />
+                <PrinterTools
+                  settings={printSettings}
+                  onSettingsChange={setPrintSettings}
+                  label={selectedLabel}
+                  printer={printers.find(p => p.id === (targetPrinterId || connectedPrinterId)) || null}
+                  onCalibrationSaved={() => {
+                    setPrinters(loadPrinters());
+                    toast.success("Calibration saved", `${selectedLabel.name} prints are corrected automatically`);
+                  }}
+                />
               </>
             )}
 
             {/* --- BATCH TAB --- */}
             {activeTab === 'batch' && (
-              <BatchGenerator
-                history={history}
-                onPrintBatch={handleBatchPrint}
-                initialSelectedIds={sessionSelectedIds}
-                onSelectionChange={setSessionSelectedIds}
-                onRequestScan={handleStartCapture}
-              />
+              <div className="space-y-4">
+                <PrintQueuePanel
+                  queue={queueState}
+                  onPause={printQueue.pause}
+                  onResume={handleResumeQueue}
+                  onCancel={printQueue.cancel}
+                  onCancelAll={printQueue.cancelAll}
+                  onMove={printQueue.move}
+                  onRetryFailed={handleRetryFailed}
+                  onClearLog={printQueue.clearLog}
+                />
+                <BatchGenerator
+                  history={history}
+                  printers={printers}
+                  defaultLabel={selectedLabel}
+                  labelPresets={labelPresets}
+                  batteryLevel={batteryLevel}
+                  onPrintBatch={handleBatchPrint}
+                  initialSelectedIds={sessionSelectedIds}
+                  onSelectionChange={setSessionSelectedIds}
+                  onRequestScan={handleStartCapture}
+                />
+              </div>
             )}
 
             {/* --- TEMPLATES TAB --- */}
             {activeTab === 'templates' && (
-              <TemplateGallery onSelectTemplate={handleSelectTemplate} />
+              <TemplateGallery onSelectTemplate={handleSelectTemplate} currentTemplateId={printSettings.template?.id} />
+            )}
+
+            {/* --- DESIGNER TAB --- */}
+            {activeTab === 'designer' && (
+              <LabelDesigner data={filamentData} label={selectedLabel} labelPresets={labelPresets} />
             )}
 
             {/* --- ANALYTICS TAB --- */}
             {activeTab === 'analytics' && (
-              <AnalyticsDashboard history={history} />
+              <AnalyticsDashboard history={history} printers={printers} onUpdatePrinter={handleUpdatePrinter} />
             )}
 
           </div>
@@ -1082,6 +1316,18 @@ const App: React.FC = () => {
             onPrintMore={handlePrintMore}
             onNewLabel={resetFlow}
             onDownload={handleDownloadPng}
+            onVerify={previewCanvas ? () => setIsVerifyingPrint(true) : undefined}
+          />
+        )}
+
+        {isVerifyingPrint && previewCanvas && (
+          <PrintVerifier
+            label={previewCanvas}
+            expected={getQrPayload(filamentData, printSettings)}
+            size={selectedLabel}
+            settings={printSettings}
+            onApply={handleApplyCorrection}
+            onClose={() => setIsVerifyingPrint(false)}
           />
         )}
 
@@ -1189,7 +1435,7 @@ const App: React.FC = () => {
             <div>
               <h3 className="text-xl font-bold text-white">Printing Batch...</h3>
               <p className="text-gray-400 text-sm mt-1">
-                Label {currentBatchIndex + 1} of {batchQueue.length}
+                Label {batchPrinted + 1} of {batchTotal}
               </p>
             </div>
 
@@ -1197,41 +1443,35 @@ const App: React.FC = () => {
             <div className="w-full bg-gray-800 rounded-full h-2 overflow-hidden">
               <div
                 className="bg-cyan-500 h-full transition-all duration-500 ease-out"
-                style={{ width: `${((currentBatchIndex) / batchQueue.length) * 100}%` }}
+                style={{ width: `${(batchPrinted / batchTotal) * 100}%` }}
               ></div>
             </div>
 
             <div className="bg-gray-800/50 p-4 rounded-lg text-left">
               <p className="text-xs text-gray-500 uppercase font-bold mb-1">Current Label</p>
-              <p className="text-white font-bold">{batchQueue[currentBatchIndex]?.label?.brand || 'Unknown'}</p>
-              <p className="text-cyan-400 text-sm">{batchQueue[currentBatchIndex]?.label?.material || 'Filament'}</p>
+              <p className="text-white font-bold">{activeQueueJob?.label?.brand || 'Unknown'}</p>
+              <p className="text-cyan-400 text-sm">{activeQueueJob?.label?.material || 'Filament'}</p>
             </div>
 
-            <button
-              onClick={() => setIsBatchPrinting(false)}
-              className="text-red-400 hover:text-red-300 text-sm font-bold"
-            >
-              Cancel Batch
-            </button>
+            <div className="flex justify-center gap-6">
+              <button
+                onClick={printQueue.pause}
+                disabled={queueState.paused}
+                className="text-gray-300 hover:text-white disabled:text-gray-600 text-sm font-bold"
+              >
+                {queueState.paused ? 'Pausing...' : 'Pause'}
+              </button>
+              <button
+                onClick={printQueue.cancelAll}
+                className="text-red-400 hover:text-red-300 text-sm font-bold"
+              >
+                Cancel Batch
+              </button>
+            </div>
           </div>
         </div>
       )}
 
-      {/* Hidden Batch Canvas Renderer */}
-      <div className="fixed top-0 left-0 opacity-0 pointer-events-none -z-50 overflow-hidden w-1 h-1">
-        {isBatchPrinting && currentBatchIndex >= 0 && batchQueue[currentBatchIndex] && (
-          <LabelCanvas
-            key={`batch-${currentBatchIndex}`} // Force re-mount
-            data={batchQueue[currentBatchIndex].label}
-            settings={batchQueue[currentBatchIndex].settings}
-            widthMm={batchOverrideSize ? batchOverrideSize.widthMm : selectedLabel.widthMm}
-            heightMm={batchOverrideSize ? batchOverrideSize.heightMm : selectedLabel.heightMm}
-            onCanvasReady={setBatchCanvas}
-            scale={2} // High res for print
-          />
-        )}
-      </div>
-
       {/* Keyboard Shortcuts Helper */}
       {!showKeyboardShortcuts && (
         <button
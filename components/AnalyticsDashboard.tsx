@@ -3,12 +3,16 @@ import { HistoryEntry } from '../types';
 import { generateAnalytics, searchHistory, SearchFilters } from '../services/analyticsService';
 import { BarChart3, PieChart, Search, Filter, TrendingUp, AlertTriangle, Sparkles, Calendar, Download } from 'lucide-react';
 import { useToast } from './ToastProvider';
+import { RegisteredPrinter, PrinterUpdate } from '../services/printerRegistry';
+import PrinterUsagePanel from './PrinterUsagePanel';
 
 interface AnalyticsDashboardProps {
     history: HistoryEntry[];
+    printers?: RegisteredPrinter[];
+    onUpdatePrinter?: (id: string, update: PrinterUpdate) => void;
 }
 
-const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ history }) => {
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ history, printers = [], onUpdatePrinter }) => {
     const { success } = useToast();
     const [query, setQuery] = useState('');
     const [filters, setFilters] = useState<SearchFilters>({});
@@ -108,6 +112,9 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ history }) => {
                 {renderBarChart(analytics.brandDistribution, 'Top Brands', 'bg-purple-500')}
             </div>
 
+            {/* Battery, tape and roll from print telemetry */}
+            {onUpdatePrinter && <PrinterUsagePanel printers={printers} onUpdatePrinter={onUpdatePrinter} />}
+
             {/* Search & History List */}
             <div className="bg-gray-900 p-4 rounded-xl border border-gray-800">
                 <div className="flex items-center gap-3 mb-4">
@@ -1,19 +1,32 @@
 import React, { useState, useMemo } from 'react';
 import { HistoryEntry, FilamentData, PrintJob, LABEL_PRESETS, LabelPreset } from '../types';
 import { generateBatchJobs, BatchGenerationOptions, generateBatchReport } from '../services/batchGeneratorService';
-import { Check, Printer, Settings, AlertCircle, FileText, Clock, ArrowRight, Ruler, Search, X } from 'lucide-react';
+import { RegisteredPrinter, applyPrinterDefaults, getDefaultLabel } from '../services/printerRegistry';
+import { QueueOptions, DEFAULT_QUEUE_OPTIONS } from '../services/printQueue';
+import { TapeLayoutOptions, TapeSeparator, DEFAULT_TAPE_LAYOUT, TAPE_SEPARATORS, MIN_SEPARATOR_GAP_MM } from '../services/tapeLayout';
+import { EstimateOptions, estimateLabelPrint, estimateTapeStrips, sumEstimates, formatEstimate } from '../services/printEstimator';
+import { getConnectedDevice, getLinkProfile } from '../services/printerService';
+import { checkBatch, getBatchResources, getJobNeed, getTapeStripNeeds } from '../services/batchSafeguards';
+import { Check, Printer, Settings, AlertCircle, FileText, Clock, ArrowRight, Ruler, Search, X, BatteryLow } from 'lucide-react';
 import LabelThumbnail from './LabelThumbnail';
 import LabelCanvas from './LabelCanvas';
 
 interface BatchGeneratorProps {
     history: HistoryEntry[];
-    onPrintBatch: (jobs: PrintJob[], overrideSizeId?: string) => Promise<void>;
+    printers?: RegisteredPrinter[];
+    /** Size printed when neither an override nor a target printer picks one */
+    defaultLabel?: LabelPreset;
+    /** Sizes to pick from: the built-in presets plus the user's label stock */
+    labelPresets?: LabelPreset[];
+    /** Last battery reading of the connected printer */
+    batteryLevel?: number | null;
+    onPrintBatch: (jobs: PrintJob[], overrideSizeId?: string, queueOptions?: QueueOptions, tapeLayout?: TapeLayoutOptions | null) => Promise<void>;
     initialSelectedIds?: Set<string>;
     onSelectionChange?: (ids: Set<string>) => void;
     onRequestScan?: () => void;
 }
 
-const BatchGenerator: React.FC<BatchGeneratorProps> = ({ history, onPrintBatch, initialSelectedIds, onSelectionChange, onRequestScan }) => {
+const BatchGenerator: React.FC<BatchGeneratorProps> = ({ history, printers = [], defaultLabel, labelPresets = LABEL_PRESETS, batteryLevel = null, onPrintBatch, initialSelectedIds, onSelectionChange, onRequestScan }) => {
     const [localSelectedIds, setLocalSelectedIds] = useState<Set<string>>(new Set());
 
     // Use prop if available, otherwise local state
@@ -28,11 +41,18 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({ history, onPrintBatch,
         skipDuplicates: false
     });
     const [overrideSize, setOverrideSize] = useState<string>('default'); // 'default' or preset ID
+    const [targetPrinterId, setTargetPrinterId] = useState<string>(''); // '' = connected printer
+    const [queueOptions, setQueueOptions] = useState<QueueOptions>(DEFAULT_QUEUE_OPTIONS);
+    const [useTapeStrip, setUseTapeStrip] = useState(false);
+    const [tapeLayout, setTapeLayout] = useState<TapeLayoutOptions>(DEFAULT_TAPE_LAYOUT);
     const [generatedJobs, setGeneratedJobs] = useState<PrintJob[]>([]);
     const [report, setReport] = useState<string>('');
     const [isPrinting, setIsPrinting] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
 
+    // A separator needs a gap to sit in
+    const minGapMm = tapeLayout.separator === 'none' ? 0 : MIN_SEPARATOR_GAP_MM;
+
     // Filter history based on search
     const filteredHistory = useMemo(() => {
         if (!searchTerm.trim()) return history;
@@ -94,10 +114,22 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({ history, onPrintBatch,
     const handlePrint = async () => {
         if (generatedJobs.length === 0) return;
 
+        // Route to the chosen printer: its speed always applies, its density unless recommended per material
+        const printer = printers.find(p => p.id === targetPrinterId);
+        const jobs = printer
+            ? generatedJobs.map(job => ({
+                ...job,
+                printerId: printer.id,
+                settings: options.autoRecommendSettings
+                    ? { ...job.settings, speed: printer.speed }
+                    : applyPrinterDefaults(job.settings, printer)
+            }))
+            : generatedJobs;
+
         setIsPrinting(true);
         try {
             // Pass the generated jobs AND the optional override size to App.tsx
-            await onPrintBatch(generatedJobs, overrideSize);
+            await onPrintBatch(jobs, overrideSize, queueOptions, useTapeStrip ? tapeLayout : null);
         } catch (e) {
             console.error("Batch print failed", e);
         } finally {
@@ -105,8 +137,43 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({ history, onPrintBatch,
         }
     };
 
+    // Same precedence as the batch print: picked size, then the target printer's label, then the current one
+    const getJobSize = (job: PrintJob): { widthMm: number; heightMm: number } => {
+        const printer = printers.find(p => p.id === targetPrinterId);
+        return labelPresets.find(p => p.id === overrideSize)
+            || (printer && getDefaultLabel(printer))
+            || defaultLabel
+            || { widthMm: job.settings.widthMm || 40, heightMm: job.settings.heightMm || 30 };
+    };
+
+    const estimate = useMemo(() => {
+        if (generatedJobs.length === 0) return null;
+        const printer = printers.find(p => p.id === targetPrinterId);
+        const printerId = printer?.id || getConnectedDevice()?.id;
+        const estimateOptions: EstimateOptions = { printerId, link: (printerId && getLinkProfile(printerId)) || undefined };
+        const getSettings = (job: PrintJob) => printer ? { ...job.settings, speed: printer.speed } : job.settings;
+
+        if (useTapeStrip) return estimateTapeStrips(generatedJobs.map(getJobSize), tapeLayout, getSettings(generatedJobs[0]), estimateOptions);
+
+        const total = sumEstimates(generatedJobs.map(job => {
+            const size = getJobSize(job);
+            return estimateLabelPrint(size.widthMm, size.heightMm, getSettings(job), estimateOptions);
+        }));
+        return { ...total, seconds: total.seconds + queueOptions.pauseBetweenJobs * (generatedJobs.length - 1) };
+    }, [generatedJobs, overrideSize, targetPrinterId, printers, defaultLabel, labelPresets, useTapeStrip, tapeLayout, queueOptions.pauseBetweenJobs]);
+
+    // Heads-up in the preview; App checks again with a fresh battery reading when printing starts
+    const safeguard = useMemo(() => {
+        if (generatedJobs.length === 0) return null;
+        const connectedId = getConnectedDevice()?.id;
+        const printerId = targetPrinterId || connectedId;
+        const sized = generatedJobs.map(job => ({ ...job, settings: { ...job.settings, ...getJobSize(job) } }));
+        const needs = useTapeStrip ? getTapeStripNeeds(sized, tapeLayout) : sized.map(getJobNeed);
+        return checkBatch(needs, getBatchResources(printerId, printerId === connectedId ? batteryLevel : null));
+    }, [generatedJobs, overrideSize, targetPrinterId, printers, defaultLabel, labelPresets, batteryLevel, useTapeStrip, tapeLayout]);
+
     // Helper to find preset name
-    const getPresetName = (id: string) => LABEL_PRESETS.find(p => p.id === id)?.name || id;
+    const getPresetName = (id: string) => labelPresets.find(p => p.id === id)?.name || id;
 
     return (
         <div className="space-y-6">
@@ -215,12 +282,75 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({ history, onPrintBatch,
                         className="w-full bg-gray-700 text-white text-xs rounded p-2 border border-gray-600 outline-none focus:border-cyan-500"
                     >
                         <option value="default">Use Auto Recommendation</option>
-                        {LABEL_PRESETS.map(p => (
+                        {labelPresets.map(p => (
                              <option key={p.id} value={p.id}>{p.name} ({p.widthMm}x{p.heightMm}mm)</option>
                         ))}
                     </select>
                 </div>
 
+                {/* Target Printer */}
+                {printers.length > 0 && (
+                    <div className="mb-4 p-3 bg-gray-800/50 rounded-lg border border-gray-700">
+                        <div className="flex items-center gap-2 mb-2 text-cyan-400">
+                            <Printer size={14} />
+                            <span className="text-xs font-bold uppercase">Target Printer</span>
+                        </div>
+                        <select
+                            value={targetPrinterId}
+                            onChange={(e) => setTargetPrinterId(e.target.value)}
+                            className="w-full bg-gray-700 text-white text-xs rounded p-2 border border-gray-600 outline-none focus:border-cyan-500"
+                        >
+                            <option value="">Connected Printer</option>
+                            {printers.map(p => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                {/* Tape Strip */}
+                <div className="mb-4 p-3 bg-gray-800/50 rounded-lg border border-gray-700 space-y-2">
+                    <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer hover:text-white transition-colors">
+                        <input
+                            type="checkbox"
+                            checked={useTapeStrip}
+                            onChange={e => setUseTapeStrip(e.target.checked)}
+                            className="rounded bg-gray-700 border-gray-600 text-cyan-500 focus:ring-0 w-4 h-4"
+                        />
+                        <span className="font-bold uppercase text-cyan-400">Tape Strip</span>
+                        <span className="text-[10px] text-gray-500">All labels on one continuous strip, sent as one job</span>
+                    </label>
+                    {useTapeStrip && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="text-[10px] text-gray-500 uppercase font-bold">
+                                Gap (mm)
+                                <input
+                                    type="number"
+                                    min={minGapMm}
+                                    max={20}
+                                    step={0.5}
+                                    value={tapeLayout.gapMm}
+                                    onChange={e => setTapeLayout({ ...tapeLayout, gapMm: Math.max(minGapMm, parseFloat(e.target.value) || 0) })}
+                                    className="mt-1 w-full bg-gray-700 text-white text-xs rounded p-1.5 border border-gray-600 outline-none focus:border-cyan-500 normal-case font-normal"
+                                />
+                            </label>
+                            <label className="text-[10px] text-gray-500 uppercase font-bold">
+                                Separator
+                                <select
+                                    value={tapeLayout.separator}
+                                    onChange={e => {
+                                        const separator = e.target.value as TapeSeparator;
+                                        setTapeLayout({ ...tapeLayout, separator, gapMm: separator === 'none' ? tapeLayout.gapMm : Math.max(MIN_SEPARATOR_GAP_MM, tapeLayout.gapMm) });
+                                    }}
+                                    className="mt-1 w-full bg-gray-700 text-white text-xs rounded p-1.5 border border-gray-600 outline-none focus:border-cyan-500 normal-case font-normal"
+                                >
+                                    {TAPE_SEPARATORS.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                </select>
+                            </label>
+                        </div>
+                    )}
+                </div>
+
                 {/* Options */}
                 <div className="grid grid-cols-2 gap-3 mb-4 p-3 bg-gray-800/30 rounded-lg border border-gray-700/50">
                     <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer hover:text-white transition-colors">
@@ -251,6 +381,27 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({ history, onPrintBatch,
                         />
                         <span>Include QR Codes</span>
                     </label>
+                    <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer hover:text-white transition-colors">
+                        <input
+                            type="checkbox"
+                            checked={queueOptions.continueOnError}
+                            onChange={e => setQueueOptions({ ...queueOptions, continueOnError: e.target.checked })}
+                            className="rounded bg-gray-700 border-gray-600 text-cyan-500 focus:ring-0 w-4 h-4"
+                        />
+                        <span>Continue on Error</span>
+                    </label>
+                    <label className="col-span-2 flex items-center gap-2 text-xs text-gray-300">
+                        <span>Pause between labels</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={60}
+                            value={queueOptions.pauseBetweenJobs}
+                            onChange={e => setQueueOptions({ ...queueOptions, pauseBetweenJobs: Math.max(0, parseInt(e.target.value) || 0) })}
+                            className="w-14 bg-gray-700 text-white text-xs rounded p-1 border border-gray-600 outline-none focus:border-cyan-500"
+                        />
+                        <span className="text-gray-500">s</span>
+                    </label>
                 </div>
 
                 <button
@@ -283,7 +434,9 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({ history, onPrintBatch,
                         </div>
                         <div className="flex items-center gap-2 bg-gray-800/50 px-3 py-2 rounded-lg border border-gray-700">
                             <Clock size={14} className="text-cyan-400" />
-                            <span className="text-sm font-semibold text-white">~{Math.round(generatedJobs.reduce((acc, j) => acc + j.estimatedTime, 0) / 60)} min</span>
+                            <span className="text-sm font-semibold text-white" title={estimate?.measured ? 'Based on measured prints' : 'Estimated from the label size and print speed'}>
+                                {estimate && formatEstimate(estimate)}
+                            </span>
                         </div>
                     </div>
 
@@ -304,18 +457,7 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({ history, onPrintBatch,
                             // Performance note: Scale of 0.8 provides good quality while maintaining
                             // reasonable performance. For very large batches (50+), consider reducing to 0.6
 
-                            let widthMm = 40; // Fallback
-                            let heightMm = 30;
-
-                            if (overrideSize !== 'default') {
-                                const preset = LABEL_PRESETS.find(p => p.id === overrideSize);
-                                if (preset) { widthMm = preset.widthMm; heightMm = preset.heightMm; }
-                            } else {
-                                // Use recommended size from job if available, otherwise default
-                                // This matches the auto-recommendation logic
-                                widthMm = 40;
-                                heightMm = 30;
-                            }
+                            const { widthMm, heightMm } = getJobSize(job);
 
                             return (
                                 <div key={job.id} className="relative bg-white rounded-xl overflow-hidden border-2 border-gray-700 shadow-lg hover:border-cyan-500 transition-all flex flex-col group">
@@ -353,6 +495,16 @@ const BatchGenerator: React.FC<BatchGeneratorProps> = ({ history, onPrintBatch,
                         </div>
                     )}
 
+                    {safeguard && safeguard.issues.length > 0 && (
+                        <div className="mb-4 p-3 bg-red-900/20 border-2 border-red-600/50 rounded-lg flex items-start gap-3 text-sm text-red-300" data-testid="batch-safeguard-warning">
+                            <BatteryLow size={18} className="flex-shrink-0 mt-0.5" />
+                            <div>
+                                {safeguard.issues.map(issue => <div key={issue.kind}>{issue.message}.</div>)}
+                                <div className="text-xs text-red-400/80 mt-1">You can split the batch when printing starts.</div>
+                            </div>
+                        </div>
+                    )}
+
                     <button
                         onClick={handlePrint}
                         disabled={isPrinting}
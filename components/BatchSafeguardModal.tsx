@@ -0,0 +1,83 @@
+import React from 'react';
+import { BatteryLow, Ruler, Scissors, Play, X, AlertTriangle } from 'lucide-react';
+import { BatchCheck } from '../services/batchSafeguards';
+
+export type BatchSafeguardChoice = 'split' | 'proceed' | 'cancel';
+
+interface BatchSafeguardModalProps {
+    check: BatchCheck;
+    totalJobs: number;
+    /** Tape strips print in one go, so they cannot be split */
+    canSplit: boolean;
+    onChoose: (choice: BatchSafeguardChoice) => void;
+}
+
+const BatchSafeguardModal: React.FC<BatchSafeguardModalProps> = ({ check, totalJobs, canSplit, onChoose }) => {
+    const heldJobs = totalJobs - check.fitJobs;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in">
+            <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-sm relative overflow-hidden" data-testid="batch-safeguard">
+
+                {/* Header */}
+                <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+                    <h3 className="font-bold text-white flex items-center gap-2">
+                        <AlertTriangle size={18} className="text-yellow-400" />
+                        Batch May Not Finish
+                    </h3>
+                    <button onClick={() => onChoose('cancel')} className="p-1 hover:bg-gray-800 rounded-full transition-colors text-gray-400 hover:text-white">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-4">
+                    <ul className="space-y-2">
+                        {check.issues.map(issue => (
+                            <li key={issue.kind} className="flex items-start gap-2 text-sm text-gray-300">
+                                {issue.kind === 'battery'
+                                    ? <BatteryLow size={16} className="text-red-400 shrink-0 mt-0.5" />
+                                    : <Ruler size={16} className="text-yellow-400 shrink-0 mt-0.5" />}
+                                {issue.message}.
+                            </li>
+                        ))}
+                    </ul>
+
+                    {(!canSplit || check.fitJobs === 0) && (
+                        <p className="text-xs text-gray-500">
+                            {!canSplit
+                                ? 'Tape strips print in one go, so this batch cannot be split.'
+                                : 'Not even the first label fits, so there is nothing to print before the rest is held.'}
+                        </p>
+                    )}
+
+                    <div className="space-y-2">
+                        {canSplit && check.fitJobs > 0 && (
+                            <button
+                                onClick={() => onChoose('split')}
+                                className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-sm transition-colors bg-cyan-600 hover:bg-cyan-500 text-white"
+                            >
+                                <Scissors size={16} />
+                                Print {check.fitJobs} now, hold {heldJobs}
+                            </button>
+                        )}
+                        <button
+                            onClick={() => onChoose('proceed')}
+                            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-sm transition-colors bg-gray-800 hover:bg-gray-700 text-gray-200"
+                        >
+                            <Play size={16} />
+                            Print all {totalJobs} anyway
+                        </button>
+                        <button
+                            onClick={() => onChoose('cancel')}
+                            className="w-full py-2 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                        >
+                            Cancel batch
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BatchSafeguardModal;
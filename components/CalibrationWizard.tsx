@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { Crosshair, Printer, ArrowRight, ArrowLeft, Check, Loader2 } from 'lucide-react';
+import { LabelPreset } from '../types';
+import { RegisteredPrinter, getRegisteredPrinter, findCalibration, saveCalibration } from '../services/printerRegistry';
+import {
+    CalibrationEdge, EdgeAnswer, DarknessAnswer, DARKNESS_ANSWERS, CALIBRATION_TICKS, CALIBRATION_TICK_STEP_MM,
+    buildCalibration, describeCalibration
+} from '../services/calibration';
+import { addMaintenanceEntry } from '../services/maintenanceLog';
+import { connectPrinter, sendCalibrationPattern } from '../services/printerService';
+import { PrintSpeed } from '../services/printerDrivers';
+import { mmToDots } from '../services/rasterEncoder';
+
+interface CalibrationWizardProps {
+    label: LabelPreset;
+    /** Printer to calibrate (the connected one if not set) */
+    printer: RegisteredPrinter | null;
+    onSaved?: () => void;
+}
+
+type Step = 'setup' | 'edges' | 'darkness' | 'review';
+
+/** Buttons drawn like the printed ticks, shortest on the edge */
+const TickChoice: React.FC<{ edge: CalibrationEdge; value: EdgeAnswer | null; onChange: (answer: EdgeAnswer | null) => void }> = ({ edge, value, onChange }) => {
+    const vertical = edge === 'left' || edge === 'right';
+    return (
+        <div className="flex items-center gap-2">
+            <span className="w-12 text-[10px] text-gray-400 uppercase font-bold">{edge}</span>
+            <div className={`flex-1 flex gap-1 items-center ${edge === 'right' || edge === 'bottom' ? 'flex-row-reverse' : ''}`}>
+                {Array.from({ length: CALIBRATION_TICKS }, (_, tick) => {
+                    const selected = value?.edge === edge && value.tick === tick;
+                    return (
+                        <button
+                            key={tick}
+                            onClick={() => onChange(selected ? null : { edge, tick })}
+                            className={`flex-1 h-8 rounded flex items-center justify-center transition-colors ${selected ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                            title={`${tick * CALIBRATION_TICK_STEP_MM}mm from the ${edge} edge`}
+                        >
+                            <span
+                                className="bg-white block"
+                                style={vertical ? { width: 2, height: 4 + tick * 3 } : { height: 2, width: 4 + tick * 3 }}
+                            />
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ label, printer, onSaved }) => {
+    const [step, setStep] = useState<Step | null>(null);
+    const [speed, setSpeed] = useState<PrintSpeed>(3);
+    const [printerId, setPrinterId] = useState<string | null>(null);
+    const [horizontal, setHorizontal] = useState<EdgeAnswer | null>(null);
+    const [vertical, setVertical] = useState<EdgeAnswer | null>(null);
+    const [darkness, setDarkness] = useState<DarknessAnswer>('good');
+    const [isPrinting, setIsPrinting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const existing = printer ? findCalibration(printer, mmToDots(label.widthMm), mmToDots(label.heightMm)) : null;
+
+    const start = () => {
+        setSpeed(existing?.speedOptimal || printer?.speed || 3);
+        setHorizontal(null);
+        setVertical(null);
+        setDarkness('good');
+        setError(null);
+        setStep('setup');
+    };
+
+    const printPattern = async () => {
+        setIsPrinting(true);
+        setError(null);
+        try {
+            const device = await connectPrinter(printer?.id);
+            const target = getRegisteredPrinter(device.id);
+            const calibration = target ? findCalibration(target, mmToDots(label.widthMm), mmToDots(label.heightMm)) : null;
+
+            await sendCalibrationPattern(device, label, { speed, calibration });
+            setPrinterId(device.id);
+            setStep('edges');
+        } catch (e: any) {
+            setError(e.message || 'Could not print the pattern');
+        } finally {
+            setIsPrinting(false);
+        }
+    };
+
+    const target = printerId ? getRegisteredPrinter(printerId) : null;
+    const previous = target ? findCalibration(target, mmToDots(label.widthMm), mmToDots(label.heightMm)) : null;
+    const result = buildCalibration(previous, label, { horizontal, vertical, darkness, speed });
+
+    const save = () => {
+        if (!printerId) return;
+        saveCalibration(printerId, result);
+        addMaintenanceEntry({
+            type: 'calibration',
+            result: 'success',
+            printerId,
+            notes: describeCalibration(result),
+            details: result
+        });
+        setStep(null);
+        onSaved?.();
+    };
+
+    if (!step) {
+        return (
+            <div className="bg-gray-800/50 p-2 rounded-lg border border-gray-700 col-span-2 flex items-center justify-between">
+                <div className="flex items-center gap-1.5 text-gray-400">
+                    <Crosshair size={12} />
+                    <span className="text-[10px] font-bold uppercase">Calibration</span>
+                    <span className="text-[10px] text-gray-500 normal-case">
+                        {existing ? describeCalibration(existing) : `${label.name} not calibrated`}
+                    </span>
+                </div>
+                <button
+                    onClick={start}
+                    className="text-[10px] bg-gray-700 hover:bg-gray-600 text-cyan-400 px-2 py-1 rounded font-bold uppercase"
+                >
+                    {existing ? 'Recalibrate' : 'Calibrate'}
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-gray-800/50 p-3 rounded-lg border border-cyan-800/50 col-span-2 space-y-3">
+            <div className="flex items-center justify-between text-cyan-400">
+                <div className="flex items-center gap-1.5">
+                    <Crosshair size={12} />
+                    <span className="text-[10px] font-bold uppercase">Calibrate {label.name}{printer ? ` on ${printer.name}` : ''}</span>
+                </div>
+                <button onClick={() => setStep(null)} className="text-[10px] text-gray-500 hover:text-gray-300">Cancel</button>
+            </div>
+
+            {step === 'setup' && (
+                <>
+                    <p className="text-xs text-gray-400">
+                        Load {label.name} labels and print the test pattern. It has tick marks every {CALIBRATION_TICK_STEP_MM}mm inside each edge and three density blocks.
+                        {existing && ' Your current calibration is applied, so answer about this new print.'}
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <span className="text-[10px] text-gray-400 uppercase font-bold">Speed</span>
+                        {([1, 2, 3, 4, 5] as PrintSpeed[]).map(s => (
+                            <button
+                                key={s}
+                                onClick={() => setSpeed(s)}
+                                className={`flex-1 h-6 rounded text-[10px] font-bold ${speed === s ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                            >
+                                {s}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={printPattern}
+                        disabled={isPrinting}
+                        className="w-full py-2 bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-700 text-white text-xs font-bold rounded flex items-center justify-center gap-2"
+                    >
+                        {isPrinting ? <Loader2 size={14} className="animate-spin" /> : <Printer size={14} />}
+                        Print Test Pattern
+                    </button>
+                </>
+            )}
+
+            {step === 'edges' && (
+                <>
+                    <p className="text-xs text-gray-400">
+                        Which tick lines up with the label edge? Ticks get longer away from the edge. Leave a row empty if no tick touches that edge.
+                    </p>
+                    <div className="space-y-1.5">
+                        {(['left', 'right'] as CalibrationEdge[]).map(edge => (
+                            <TickChoice key={edge} edge={edge} value={horizontal} onChange={setHorizontal} />
+                        ))}
+                        {(['top', 'bottom'] as CalibrationEdge[]).map(edge => (
+                            <TickChoice key={edge} edge={edge} value={vertical} onChange={setVertical} />
+                        ))}
+                    </div>
+                    <div className="flex justify-between">
+                        <button onClick={printPattern} disabled={isPrinting} className="text-[10px] text-gray-400 hover:text-white flex items-center gap-1">
+                            <Printer size={12} /> Print again
+                        </button>
+                        <button onClick={() => setStep('darkness')} className="text-xs text-cyan-400 font-bold flex items-center gap-1">
+                            Next <ArrowRight size={12} />
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {step === 'darkness' && (
+                <>
+                    <p className="text-xs text-gray-400">How dark do the test blocks look?</p>
+                    <div className="space-y-1">
+                        {DARKNESS_ANSWERS.map(answer => (
+                            <button
+                                key={answer.id}
+                                onClick={() => setDarkness(answer.id)}
+                                className={`w-full text-left px-2 py-1.5 rounded border text-xs transition-colors ${darkness === answer.id ? 'border-cyan-500 bg-cyan-900/20 text-white' : 'border-gray-700 text-gray-400 hover:bg-gray-700/50'}`}
+                            >
+                                <span className="font-bold">{answer.name}</span>
+                                <span className="text-[10px] text-gray-500 ml-2">{answer.description}</span>
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex justify-between">
+                        <button onClick={() => setStep('edges')} className="text-xs text-gray-400 flex items-center gap-1">
+                            <ArrowLeft size={12} /> Back
+                        </button>
+                        <button onClick={() => setStep('review')} className="text-xs text-cyan-400 font-bold flex items-center gap-1">
+                            Next <ArrowRight size={12} />
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {step === 'review' && (
+                <>
+                    <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+                        <span className="text-gray-500">Density</span><span className="text-white">{result.densityOffset > 0 ? '+' : ''}{result.densityOffset}</span>
+                        <span className="text-gray-500">Horizontal</span><span className="text-white">{result.horizontalOffsetMm}mm</span>
+                        <span className="text-gray-500">Vertical</span><span className="text-white">{result.verticalOffsetMm}mm</span>
+                        <span className="text-gray-500">Speed</span><span className="text-white">{result.speedOptimal}</span>
+                    </div>
+                    <p className="text-[10px] text-gray-500">Applied automatically to {label.name} prints on {target?.name || 'this printer'}.</p>
+                    <div className="flex justify-between">
+                        <button onClick={() => setStep('darkness')} className="text-xs text-gray-400 flex items-center gap-1">
+                            <ArrowLeft size={12} /> Back
+                        </button>
+                        <button onClick={save} className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold rounded flex items-center gap-1">
+                            <Check size={12} /> Save Calibration
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {error && <p className="text-[10px] text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+export default CalibrationWizard;
@@ -1,13 +1,22 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { Camera, X, Zap, ZapOff, ZoomIn, ZoomOut } from 'lucide-react';
+import { detectCodes, isBarcodeDetectorSupported } from '../services/printVerification';
 
 interface CameraCaptureProps {
-  onCapture: (imageSrc: string) => void;
+  // frame holds the captured pixels (cropped to the guide when one is shown)
+  onCapture: (imageSrc: string, frame: HTMLCanvasElement) => void;
   onCancel: () => void;
   onScanCode?: (code: string) => void;
+  // Width / height of a framing guide; the photo is cropped to it
+  guideAspect?: number;
+  guideHint?: string;
 }
 
-const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, onScanCode }) => {
+// Guide size as a share of the view
+const GUIDE_MAX_WIDTH = 0.8;
+const GUIDE_MAX_HEIGHT = 0.6;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, onScanCode, guideAspect, guideHint }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
@@ -25,21 +34,12 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, onSc
 
   // QR / Barcode Detection
   useEffect(() => {
-    if (!onScanCode || !('BarcodeDetector' in window)) return;
+    if (!onScanCode || !isBarcodeDetectorSupported()) return;
 
     const interval = setInterval(async () => {
        if (videoRef.current && videoRef.current.readyState === 4) {
-          try {
-             // @ts-ignore - Experimental API
-             const detector = new window.BarcodeDetector({ formats: ['qr_code', 'data_matrix', 'aztec'] });
-             const codes = await detector.detect(videoRef.current);
-             if (codes.length > 0) {
-                 const code = codes[0].rawValue;
-                 if (code) onScanCode(code);
-             }
-          } catch (e) {
-             // Silently fail or log if needed
-          }
+          const codes = await detectCodes(videoRef.current);
+          if (codes.length > 0) onScanCode(codes[0]);
        }
     }, 500);
 
@@ -103,6 +103,25 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, onSc
     }
   };
 
+  // The part of the video under the guide, in video pixels (the video is shown object-cover)
+  const getGuideCrop = (video: HTMLVideoElement) => {
+    const full = { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight };
+    if (!guideAspect) return full;
+
+    const view = video.getBoundingClientRect();
+    if (!view.width || !view.height) return full;
+    const scale = Math.max(view.width / video.videoWidth, view.height / video.videoHeight);
+    const guideWidth = Math.min(view.width * GUIDE_MAX_WIDTH, view.height * GUIDE_MAX_HEIGHT * guideAspect);
+    const guideHeight = guideWidth / guideAspect;
+
+    return {
+      x: (video.videoWidth - guideWidth / scale) / 2,
+      y: (video.videoHeight - guideHeight / scale) / 2,
+      width: guideWidth / scale,
+      height: guideHeight / scale
+    };
+  };
+
   const takePhoto = () => {
     if (videoRef.current && canvasRef.current) {
       const video = videoRef.current;
@@ -110,13 +129,14 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, onSc
       const context = canvas.getContext('2d');
       
       if (context) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const crop = getGuideCrop(video);
+        canvas.width = Math.round(crop.width);
+        canvas.height = Math.round(crop.height);
+        context.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
         
         const imageSrc = canvas.toDataURL('image/jpeg', 0.85);
         stopCamera();
-        onCapture(imageSrc);
+        onCapture(imageSrc, canvas);
       }
     }
   };
@@ -161,7 +181,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, onSc
                     </button>
                 )}
 
-                {onScanCode && 'BarcodeDetector' in window && (
+                {onScanCode && isBarcodeDetectorSupported() && (
                     <div className="bg-black/50 backdrop-blur-md border border-cyan-500/30 px-3 py-1.5 rounded-full flex items-center gap-2 h-10">
                         <div className="w-2 h-2 rounded-full bg-cyan-400 animate-pulse" />
                         <span className="text-[10px] font-bold text-cyan-400 uppercase tracking-wide">Smart Scan</span>
@@ -170,6 +190,17 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, onSc
               </div>
             </div>
 
+            {/* Framing Guide */}
+            {guideAspect && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+                    <div
+                        className="border-2 border-cyan-400 rounded-md shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+                        style={{ width: `min(${GUIDE_MAX_WIDTH * 100}%, ${GUIDE_MAX_HEIGHT * 100 * guideAspect}vh)`, aspectRatio: String(guideAspect) }}
+                    />
+                    {guideHint && <p className="mt-3 text-xs font-bold text-cyan-300 bg-black/50 px-3 py-1 rounded-full">{guideHint}</p>}
+                </div>
+            )}
+
             {/* Zoom Controls */}
             {/* @ts-ignore - zoom capability check */}
             {capabilities && capabilities.zoom && (
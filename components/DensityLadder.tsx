@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Flame, Printer, Loader2 } from 'lucide-react';
+import { PrintSettings, LabelPreset } from '../types';
+import { RegisteredPrinter, getRegisteredPrinter, findCalibration } from '../services/printerRegistry';
+import { connectPrinter, getConnectedDevice, sendDensityLadder } from '../services/printerService';
+import { PrinterDriver, getPrinterDriver, selectPrinterDriver, phomemoD30Driver, toHeatLevel, fromHeatLevel } from '../services/printerDrivers';
+import { getLadderSteps } from '../services/densityLadder';
+import { mmToDots } from '../services/rasterEncoder';
+
+interface DensityLadderProps {
+    settings: PrintSettings;
+    onSettingsChange: (settings: PrintSettings) => void;
+    label: LabelPreset;
+    /** Printer the ladder is printed on (the connected one if not set) */
+    printer: RegisteredPrinter | null;
+}
+
+/** The chosen printer's model, else the connected one's; the D30 before anything is connected */
+const getDriver = (printer: RegisteredPrinter | null): PrinterDriver => {
+    if (printer) return getPrinterDriver(printer.model);
+    const device = getConnectedDevice();
+    return device ? selectPrinterDriver(device.name) : phomemoD30Driver;
+};
+
+/**
+ * Heat level and software darkness for the printer model, with a printed ladder to pick the heat by eye
+ */
+const DensityLadder: React.FC<DensityLadderProps> = ({ settings, onSettingsChange, label, printer }) => {
+    const [steps, setSteps] = useState<number[] | null>(null);
+    const [isPrinting, setIsPrinting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const driver = getDriver(printer);
+    const heatLevel = toHeatLevel(driver, settings.density);
+    const darkness = Math.min(settings.darkness || 0, driver.maxDarkness);
+
+    const printLadder = async () => {
+        setIsPrinting(true);
+        setError(null);
+        try {
+            const device = await connectPrinter(printer?.id);
+            const target = getRegisteredPrinter(device.id);
+            const calibration = target ? findCalibration(target, mmToDots(label.widthMm), mmToDots(label.heightMm)) : null;
+            const ladder = getLadderSteps(driver, settings.density);
+
+            await sendDensityLadder(device, label, ladder, { speed: settings.speed, calibration });
+            setSteps(ladder);
+        } catch (e: any) {
+            setError(e.message || 'Could not print the ladder');
+        } finally {
+            setIsPrinting(false);
+        }
+    };
+
+    return (
+        <div className="bg-gray-800/50 p-2 rounded-lg border border-gray-700 col-span-2 space-y-2" data-testid="density-ladder">
+            <div className="flex items-center justify-between text-gray-400">
+                <div className="flex items-center gap-1.5">
+                    <Flame size={12} />
+                    <span className="text-[10px] font-bold uppercase">Density</span>
+                    <span className="text-[10px] text-gray-500">
+                        {driver.heatRange ? `Heat ${heatLevel} of ${driver.heatRange.min}-${driver.heatRange.max} on ${driver.name}` : `${driver.name} has no heat control`}
+                    </span>
+                </div>
+                {driver.heatRange && (
+                    <button
+                        onClick={printLadder}
+                        disabled={isPrinting}
+                        className="text-[10px] bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-cyan-400 px-2 py-1 rounded font-bold uppercase flex items-center gap-1"
+                    >
+                        {isPrinting ? <Loader2 size={12} className="animate-spin" /> : <Printer size={12} />} Print Ladder
+                    </button>
+                )}
+            </div>
+
+            {!driver.heatRange && (
+                <p className="text-[10px] text-gray-500">The density slider darkens the image in software on this printer.</p>
+            )}
+
+            {/* Ladder steps, in the order they were printed */}
+            {steps && steps.length > 0 && (
+                <>
+                    <p className="text-[10px] text-gray-400">
+                        Each label is marked with its number of bars. Pick the one with a solid block and crisp lines.
+                    </p>
+                    <div className="flex gap-1">
+                        {steps.map((level, i) => (
+                            <button
+                                key={level}
+                                onClick={() => onSettingsChange({ ...settings, density: fromHeatLevel(driver, level) })}
+                                className={`flex-1 py-1 rounded text-[10px] font-bold transition-colors
+                                ${heatLevel === level
+                                        ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50'
+                                        : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}
+                            `}
+                                title={`Heat level ${level}`}
+                            >
+                                <div className="flex justify-center gap-0.5 h-3">
+                                    {Array.from({ length: i + 1 }, (_, bar) => <span key={bar} className="w-0.5 h-full bg-current" />)}
+                                </div>
+                                <div className="mt-0.5 font-mono">{level}</div>
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+            {error && <div className="text-[10px] text-red-400">{error}</div>}
+
+            {/* Software darkness, on top of the heat */}
+            <div>
+                <div className="flex items-center justify-between text-[10px] text-gray-400">
+                    <span className="font-bold uppercase">Software Darkness</span>
+                    <span className="font-mono">+{darkness}%</span>
+                </div>
+                <input
+                    type="range" min="0" max={driver.maxDarkness} step="5"
+                    value={darkness}
+                    onChange={(e) => onSettingsChange({ ...settings, darkness: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default DensityLadder;
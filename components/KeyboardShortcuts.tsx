@@ -14,7 +14,8 @@ const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({ onClose }) => {
     { keys: ['Ctrl', '1'], description: 'Switch to Editor tab' },
     { keys: ['Ctrl', '2'], description: 'Switch to Batch tab' },
     { keys: ['Ctrl', '3'], description: 'Switch to Templates tab' },
-    { keys: ['Ctrl', '4'], description: 'Switch to Analytics tab' },
+    { keys: ['Ctrl', '4'], description: 'Switch to Designer tab' },
+    { keys: ['Ctrl', '5'], description: 'Switch to Analytics tab' },
   ];
 
   return (
@@ -0,0 +1,446 @@
+import React, { useRef, useState } from 'react';
+import { Shapes, Type, QrCode, Barcode, Palette, Droplet, Minus, Undo2, Redo2, Trash2, Save, AlignLeft, AlignCenter, AlignRight } from 'lucide-react';
+import { FilamentData, LabelPreset, TemplateElement, TemplateLayout, PrintSettings, BarcodeSymbology } from '../types';
+import {
+    LayoutHistory, ElementBox, DESIGNER_GRID_SIZES, DEFAULT_GRID_MM,
+    createEmptyLayout, createLayoutHistory, commitLayout, undoLayout, redoLayout,
+    getElementBox, createLayoutElement, addElement, updateElement, removeElement, moveElement, resizeElement
+} from '../services/layoutDesigner';
+import { createCustomTemplate, saveUserTemplate } from '../services/templateService';
+import { DEFAULT_LABEL_SETTINGS, LAYOUT_ICON_NAMES, getElementCodePayload } from '../services/labelRenderer';
+import { getExpressionProblems } from '../services/templateExpressions';
+import { BARCODE_SYMBOLOGIES, fitBarcode } from '../services/barcode';
+import { mmToDots } from '../services/rasterEncoder';
+import LabelCanvas from './LabelCanvas';
+import { useToast } from './ToastProvider';
+
+interface LabelDesignerProps {
+    /** Filament shown in the preview */
+    data: FilamentData;
+    /** Label size to start with */
+    label: LabelPreset;
+    labelPresets: LabelPreset[];
+}
+
+const ELEMENT_TYPES: { type: TemplateElement['type']; label: string; icon: React.ElementType }[] = [
+    { type: 'text', label: 'Text', icon: Type },
+    { type: 'qr', label: 'QR', icon: QrCode },
+    { type: 'barcode', label: 'Barcode', icon: Barcode },
+    { type: 'colorSwatch', label: 'Swatch', icon: Palette },
+    { type: 'icon', label: 'Icon', icon: Droplet },
+    { type: 'divider', label: 'Divider', icon: Minus }
+];
+
+const FIELDS: { value: NonNullable<TemplateElement['field']>; label: string }[] = [
+    { value: 'brand', label: 'Brand' },
+    { value: 'material', label: 'Material' },
+    { value: 'colorName', label: 'Color name' },
+    { value: 'colorHex', label: 'Color hex' },
+    { value: 'minTemp', label: 'Min temp' },
+    { value: 'maxTemp', label: 'Max temp' },
+    { value: 'bedTempMin', label: 'Bed min' },
+    { value: 'bedTempMax', label: 'Bed max' },
+    { value: 'weight', label: 'Weight' },
+    { value: 'remainingWeight', label: 'Remaining' },
+    { value: 'hygroscopy', label: 'Hygroscopy' },
+    { value: 'openDate', label: 'Opened' },
+    { value: 'purchaseDate', label: 'Purchased' },
+    { value: 'notes', label: 'Notes' },
+    { value: 'customQrCode', label: 'QR code' },
+    { value: 'custom', label: 'Custom text' }
+];
+
+const ZOOMS = [1, 2, 3];
+
+const inputClass = 'mt-1 w-full bg-gray-800 text-white text-xs rounded p-1.5 border border-gray-700 outline-none focus:border-cyan-500 normal-case font-normal';
+const labelClass = 'text-[10px] text-gray-500 uppercase font-bold';
+
+interface Drag {
+    index: number;
+    mode: 'move' | 'resize';
+    startX: number;
+    startY: number;
+    origin: ElementBox;
+    base: TemplateLayout;
+}
+
+/**
+ * Drag-and-drop editor for template layouts, at real size on a snapping mm grid
+ */
+const LabelDesigner: React.FC<LabelDesignerProps> = ({ data, label, labelPresets }) => {
+    const toast = useToast();
+    const [presetId, setPresetId] = useState(label.id);
+    const [history, setHistory] = useState<LayoutHistory>(() => createLayoutHistory(createEmptyLayout(label.widthMm, label.heightMm)));
+    // Layout while dragging; committed to the history on release
+    const [draft, setDraft] = useState<TemplateLayout | null>(null);
+    const [selected, setSelected] = useState<number | null>(null);
+    const [grid, setGrid] = useState(DEFAULT_GRID_MM);
+    const [zoom, setZoom] = useState(2);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const surfaceRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<Drag | null>(null);
+
+    const layout = draft || history.present;
+    const widthMm = layout.widthMm || label.widthMm;
+    const heightMm = layout.heightMm || label.heightMm;
+    const element = selected !== null ? layout.elements[selected] : undefined;
+
+    const commit = (next: TemplateLayout) => setHistory(h => commitLayout(h, next));
+
+    const undo = () => { setHistory(undoLayout); setSelected(null); };
+    const redo = () => { setHistory(redoLayout); setSelected(null); };
+
+    const handleAdd = (type: TemplateElement['type']) => {
+        commit(addElement(layout, createLayoutElement(type)));
+        setSelected(layout.elements.length);
+    };
+
+    const handleRemove = () => {
+        if (selected === null) return;
+        commit(removeElement(layout, selected));
+        setSelected(null);
+    };
+
+    const updateSelected = (patch: Partial<TemplateElement>) => {
+        if (selected !== null) commit(updateElement(layout, selected, patch));
+    };
+
+    const handleSizeChange = (id: string) => {
+        const preset = labelPresets.find(p => p.id === id);
+        if (!preset) return;
+        setPresetId(id);
+        commit({ ...layout, widthMm: preset.widthMm, heightMm: preset.heightMm });
+    };
+
+    // --- Dragging ---
+
+    const startDrag = (e: React.PointerEvent, index: number, mode: Drag['mode']) => {
+        e.preventDefault();
+        e.stopPropagation();
+        surfaceRef.current?.setPointerCapture(e.pointerId);
+        setSelected(index);
+        dragRef.current = {
+            index, mode,
+            startX: e.clientX,
+            startY: e.clientY,
+            origin: getElementBox(layout.elements[index], layout),
+            base: history.present
+        };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const surface = surfaceRef.current;
+        if (!drag || !surface) return;
+        const mmPerPx = widthMm / surface.getBoundingClientRect().width;
+        const dx = (e.clientX - drag.startX) * mmPerPx;
+        const dy = (e.clientY - drag.startY) * mmPerPx;
+        setDraft(drag.mode === 'move'
+            ? moveElement(drag.base, drag.index, drag.origin.x + dx, drag.origin.y + dy, grid)
+            : resizeElement(drag.base, drag.index, drag.origin.width + dx, drag.origin.height + dy, grid));
+    };
+
+    const handlePointerUp = () => {
+        if (!dragRef.current) return;
+        dragRef.current = null;
+        if (draft) commit(draft);
+        setDraft(null);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if ((e.target as HTMLElement).closest('input, select, textarea')) return;
+        const key = e.key.toLowerCase();
+        if ((e.ctrlKey || e.metaKey) && key === 'z') {
+            e.preventDefault();
+            if (e.shiftKey) redo(); else undo();
+        } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+            e.preventDefault();
+            redo();
+        } else if (selected !== null && (e.key === 'Delete' || e.key === 'Backspace')) {
+            e.preventDefault();
+            handleRemove();
+        } else if (element && e.key.startsWith('Arrow')) {
+            e.preventDefault();
+            const dx = e.key === 'ArrowLeft' ? -grid : e.key === 'ArrowRight' ? grid : 0;
+            const dy = e.key === 'ArrowUp' ? -grid : e.key === 'ArrowDown' ? grid : 0;
+            commit(moveElement(layout, selected!, element.x + dx, element.y + dy, grid));
+        }
+    };
+
+    const handleSave = () => {
+        const template = createCustomTemplate(name.trim(), description.trim() || 'Made in the designer', history.present, [presetId]);
+        saveUserTemplate(template);
+        toast.success("Template Saved", `${template.name} is in your Templates`);
+    };
+
+    const previewSettings: PrintSettings = { ...DEFAULT_LABEL_SETTINGS, template: { id: 'designer', name: name || 'Draft', layout } };
+    const hasField = element && element.type !== 'divider';
+    const showsText = element && element.field === 'custom' && element.type !== 'colorSwatch';
+    const textProblems = showsText ? getExpressionProblems(element.customText || '') : [];
+    const hasBrokenText = history.present.elements.some(el => el.field === 'custom' && getExpressionProblems(el.customText || '').length > 0);
+
+    // Whether the selected barcode prints for the preview filament, and how fine its bars are
+    let barcodeProblem: string | null = null;
+    let barcodeModuleDots = 0;
+    if (element?.type === 'barcode' && textProblems.length === 0) {
+        const box = getElementBox(element, layout);
+        try {
+            barcodeModuleDots = fitBarcode(element.symbology || 'code128', getElementCodePayload(data, element), mmToDots(box.width), mmToDots(box.height)).moduleDots;
+        } catch (e: any) {
+            barcodeProblem = e.message;
+        }
+    }
+
+    return (
+        <div className="space-y-4 outline-none" tabIndex={0} onKeyDown={handleKeyDown} data-testid="label-designer">
+            {/* Toolbar */}
+            <div className="bg-gray-900 p-3 rounded-xl border border-gray-800 flex flex-wrap items-center gap-2">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400 flex items-center gap-1 mr-2">
+                    <Shapes size={12} className="text-cyan-400" /> Designer
+                </span>
+                {ELEMENT_TYPES.map(({ type, label: typeLabel, icon: Icon }) => (
+                    <button
+                        key={type}
+                        onClick={() => handleAdd(type)}
+                        className="px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-[10px] font-bold uppercase text-gray-300 flex items-center gap-1"
+                        title={`Add ${typeLabel.toLowerCase()}`}
+                    >
+                        <Icon size={12} /> {typeLabel}
+                    </button>
+                ))}
+                <div className="ml-auto flex gap-1">
+                    <button onClick={undo} disabled={history.past.length === 0} className="p-1.5 rounded bg-gray-800 hover:bg-gray-700 disabled:opacity-40 text-gray-300" title="Undo (Ctrl+Z)">
+                        <Undo2 size={14} />
+                    </button>
+                    <button onClick={redo} disabled={history.future.length === 0} className="p-1.5 rounded bg-gray-800 hover:bg-gray-700 disabled:opacity-40 text-gray-300" title="Redo (Ctrl+Shift+Z)">
+                        <Redo2 size={14} />
+                    </button>
+                </div>
+            </div>
+
+            {/* Surface: the rendered label under draggable element boxes */}
+            <div className="bg-gray-900 p-4 rounded-xl border border-gray-800 overflow-auto custom-scrollbar">
+                <div
+                    ref={surfaceRef}
+                    className="relative bg-white mx-auto select-none touch-none"
+                    style={{ width: `${widthMm * zoom}mm`, height: `${heightMm * zoom}mm` }}
+                    onPointerDown={() => setSelected(null)}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                >
+                    <div className="absolute inset-0 pointer-events-none">
+                        <LabelCanvas data={data} settings={previewSettings} widthMm={widthMm} heightMm={heightMm} scale={zoom} />
+                    </div>
+                    {/* Grid */}
+                    <div
+                        className="absolute inset-0 pointer-events-none opacity-30"
+                        style={{
+                            backgroundImage: 'linear-gradient(to right, #22d3ee 1px, transparent 1px), linear-gradient(to bottom, #22d3ee 1px, transparent 1px)',
+                            backgroundSize: `${grid * zoom}mm ${grid * zoom}mm`
+                        }}
+                    />
+                    {layout.elements.map((el, index) => {
+                        const box = getElementBox(el, layout);
+                        const isSelected = index === selected;
+                        return (
+                            <div
+                                key={index}
+                                onPointerDown={e => startDrag(e, index, 'move')}
+                                className={`absolute cursor-move ${isSelected ? 'outline outline-2 outline-cyan-500' : 'outline outline-1 outline-dashed outline-cyan-500/40 hover:outline-cyan-400'}`}
+                                style={{
+                                    left: `${box.x * zoom}mm`,
+                                    top: `${box.y * zoom}mm`,
+                                    width: `${box.width * zoom}mm`,
+                                    height: `${Math.max(box.height, 0.5) * zoom}mm`
+                                }}
+                            >
+                                {isSelected && (
+                                    <span
+                                        onPointerDown={e => startDrag(e, index, 'resize')}
+                                        className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-cyan-500 border border-white rounded-sm cursor-nwse-resize"
+                                        title="Resize"
+                                    />
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="mt-2 text-center text-[10px] text-gray-500 font-mono">
+                    {widthMm}x{heightMm}mm • {layout.elements.length} element{layout.elements.length !== 1 ? 's' : ''} • {zoom === 1 ? 'actual size' : `${zoom}x`}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Selected element */}
+                <div className="bg-gray-900 p-3 rounded-xl border border-gray-800 space-y-2">
+                    {!element && <p className="text-xs text-gray-500">Add an element or click one on the label to edit it.</p>}
+                    {element && (
+                        <>
+                            <div className="flex items-center justify-between">
+                                <span className="text-[10px] font-bold uppercase tracking-wider text-cyan-400">{ELEMENT_TYPES.find(t => t.type === element.type)?.label}</span>
+                                <button onClick={handleRemove} className="p-1 text-gray-500 hover:text-red-400" title="Remove (Delete)">
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                            {hasField && (
+                                <label className={`block ${labelClass}`}>
+                                    Field
+                                    <select value={element.field || 'custom'} onChange={e => updateSelected({ field: e.target.value as TemplateElement['field'] })} className={inputClass}>
+                                        {FIELDS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                                    </select>
+                                </label>
+                            )}
+                            {showsText && (
+                                <label className={`block ${labelClass}`}>
+                                    Text
+                                    <input value={element.customText || ''} onChange={e => updateSelected({ customText: e.target.value })} placeholder="{brand} {minTemp}-{maxTemp}°C" className={inputClass} />
+                                    {textProblems.length > 0
+                                        ? <span className="block mt-1 normal-case font-normal text-red-400">{textProblems.join('. ')}</span>
+                                        : <span className="block mt-1 normal-case font-normal text-gray-600">{'{field}, {field|upper}, {openDate|age}, {hygroscopy=high?DRY ME}'}</span>}
+                                </label>
+                            )}
+                            {element.type === 'icon' && !element.customText && (
+                                <label className={`block ${labelClass}`}>
+                                    Icon
+                                    <select value={element.icon || ''} onChange={e => updateSelected({ icon: e.target.value })} className={inputClass}>
+                                        {LAYOUT_ICON_NAMES.map(icon => <option key={icon} value={icon}>{icon}</option>)}
+                                    </select>
+                                </label>
+                            )}
+                            {element.type === 'barcode' && (
+                                <label className={`block ${labelClass}`}>
+                                    Symbology
+                                    <select value={element.symbology || 'code128'} onChange={e => updateSelected({ symbology: e.target.value as BarcodeSymbology })} className={inputClass}>
+                                        {BARCODE_SYMBOLOGIES.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+                                    </select>
+                                    {barcodeProblem && <span className="block mt-1 normal-case font-normal text-red-400">{barcodeProblem}</span>}
+                                    {barcodeModuleDots === 1 && (
+                                        <span className="block mt-1 normal-case font-normal text-amber-400">Bars are one dot wide: widen the box or shorten the text for reliable scans</span>
+                                    )}
+                                    {barcodeModuleDots > 1 && (
+                                        <span className="block mt-1 normal-case font-normal text-gray-600">{barcodeModuleDots} dots per module</span>
+                                    )}
+                                </label>
+                            )}
+                            {element.type === 'text' && (
+                                <div className="grid grid-cols-3 gap-2">
+                                    <label className={labelClass}>
+                                        Size (pt)
+                                        <input type="number" min={4} max={48} value={element.fontSize || 8} onChange={e => updateSelected({ fontSize: parseFloat(e.target.value) || 8 })} className={inputClass} />
+                                    </label>
+                                    <label className={labelClass}>
+                                        Weight
+                                        <select value={element.fontWeight || 'normal'} onChange={e => updateSelected({ fontWeight: e.target.value as TemplateElement['fontWeight'] })} className={inputClass}>
+                                            <option value="light">Light</option>
+                                            <option value="normal">Normal</option>
+                                            <option value="bold">Bold</option>
+                                        </select>
+                                    </label>
+                                    <div className={labelClass}>
+                                        Align
+                                        <div className="mt-1 flex gap-1">
+                                            {([['left', AlignLeft], ['center', AlignCenter], ['right', AlignRight]] as const).map(([align, Icon]) => (
+                                                <button
+                                                    key={align}
+                                                    onClick={() => updateSelected({ align })}
+                                                    className={`flex-1 py-1.5 rounded flex justify-center ${(element.align || 'left') === align ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+                                                >
+                                                    <Icon size={12} />
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                            <div className="grid grid-cols-4 gap-2">
+                                {(['x', 'y', 'width', 'height'] as const).map(key => {
+                                    const box = getElementBox(element, layout);
+                                    const fixed = key === 'height' && (element.type === 'text' || element.type === 'divider');
+                                    return (
+                                        <label key={key} className={labelClass}>
+                                            {key === 'width' ? 'W' : key === 'height' ? 'H' : key.toUpperCase()} (mm)
+                                            <input
+                                                type="number" min={0} step={grid}
+                                                value={Math.round(box[key] * 100) / 100}
+                                                disabled={fixed}
+                                                onChange={e => {
+                                                    const value = parseFloat(e.target.value) || 0;
+                                                    commit(key === 'x' || key === 'y'
+                                                        ? moveElement(layout, selected!, key === 'x' ? value : box.x, key === 'y' ? value : box.y, grid)
+                                                        : resizeElement(layout, selected!, key === 'width' ? value : box.width, key === 'height' ? value : box.height, grid));
+                                                }}
+                                                className={`${inputClass} disabled:opacity-40`}
+                                            />
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                {/* Layout and saving */}
+                <div className="bg-gray-900 p-3 rounded-xl border border-gray-800 space-y-2">
+                    <div className="grid grid-cols-3 gap-2">
+                        <label className={labelClass}>
+                            Label
+                            <select value={presetId} onChange={e => handleSizeChange(e.target.value)} className={inputClass}>
+                                {labelPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                        </label>
+                        <label className={labelClass}>
+                            Grid
+                            <select value={grid} onChange={e => setGrid(parseFloat(e.target.value))} className={inputClass}>
+                                {DESIGNER_GRID_SIZES.map(g => <option key={g} value={g}>{g}mm</option>)}
+                            </select>
+                        </label>
+                        <label className={labelClass}>
+                            Zoom
+                            <select value={zoom} onChange={e => setZoom(parseInt(e.target.value))} className={inputClass}>
+                                {ZOOMS.map(z => <option key={z} value={z}>{z === 1 ? 'Actual' : `${z}x`}</option>)}
+                            </select>
+                        </label>
+                        <label className={labelClass}>
+                            Border
+                            <select value={layout.borderStyle || 'none'} onChange={e => commit({ ...layout, borderStyle: e.target.value as TemplateLayout['borderStyle'] })} className={inputClass}>
+                                <option value="none">None</option>
+                                <option value="solid">Solid</option>
+                                <option value="dashed">Dashed</option>
+                                <option value="rounded">Rounded</option>
+                            </select>
+                        </label>
+                        <label className={labelClass}>
+                            Width (pt)
+                            <input
+                                type="number" min={0.5} max={6} step={0.5}
+                                value={layout.borderWidth || 1}
+                                disabled={!layout.borderStyle || layout.borderStyle === 'none'}
+                                onChange={e => commit({ ...layout, borderWidth: parseFloat(e.target.value) || 1 })}
+                                className={`${inputClass} disabled:opacity-40`}
+                            />
+                        </label>
+                    </div>
+                    <label className={`block ${labelClass}`}>
+                        Name
+                        <input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Shelf tag" className={inputClass} />
+                    </label>
+                    <label className={`block ${labelClass}`}>
+                        Description
+                        <input value={description} onChange={e => setDescription(e.target.value)} className={inputClass} />
+                    </label>
+                    <button
+                        onClick={handleSave}
+                        disabled={!name.trim() || history.present.elements.length === 0 || hasBrokenText}
+                        className="w-full flex items-center justify-center gap-1 py-2 rounded-lg text-xs font-bold bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-800 disabled:text-gray-500 text-white transition-colors"
+                    >
+                        <Save size={14} /> Save to Templates
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LabelDesigner;
@@ -69,7 +69,7 @@ const LabelEditor: React.FC<LabelEditorProps> = ({
   };
 
   const handleThemeChange = (theme: LabelTheme) => {
-      onSettingsChange({ ...settings, theme });
+      onSettingsChange({ ...settings, theme, template: undefined });
   };
 
   const handleMaterialPreset = (preset: MaterialPreset) => {
@@ -373,12 +373,15 @@ const LabelEditor: React.FC<LabelEditorProps> = ({
             <div className="flex items-center gap-2 mb-3 text-gray-400">
                 <Palette size={14} />
                 <span className="text-xs font-bold uppercase">Label Style</span>
+                {settings.template && (
+                    <span className="ml-auto text-[10px] text-cyan-400 normal-case">Template: {settings.template.name}</span>
+                )}
             </div>
             <div className="grid grid-cols-3 gap-2">
                 {[LabelTheme.SWATCH, LabelTheme.MINIMAL, LabelTheme.TECHNICAL, LabelTheme.BOLD, LabelTheme.MODERN, LabelTheme.MAINTENANCE].map(theme => {
                     const info = THEME_INFO[theme];
                     const Icon = info.icon;
-                    const isSelected = settings.theme === theme;
+                    const isSelected = !settings.template && settings.theme === theme;
                     
                     return (
                         <button
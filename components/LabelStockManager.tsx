@@ -0,0 +1,158 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, Download, Upload, Package } from 'lucide-react';
+import { LabelStock } from '../types';
+import { LabelStockInput, loadLabelStock, addLabelStock, removeLabelStock, getLabelStockProblems, importLabelStock, downloadLabelStock } from '../services/labelStock';
+import { PRINTER_DRIVERS } from '../services/printerDrivers';
+import { useToast } from './ToastProvider';
+
+interface LabelStockManagerProps {
+    /** Called after stock is added, removed or imported */
+    onChange: () => void;
+}
+
+const EMPTY_STOCK: LabelStockInput = {
+    name: '',
+    description: '',
+    widthMm: 40,
+    heightMm: 30,
+    gapMm: 3,
+    cornerRadiusMm: 1,
+    labelType: 'gap',
+    printableWidthMm: 38,
+    printableHeightMm: 28,
+    printerModel: ''
+};
+
+const NUMBER_FIELDS: { key: keyof LabelStockInput; label: string }[] = [
+    { key: 'widthMm', label: 'Width' },
+    { key: 'heightMm', label: 'Height' },
+    { key: 'gapMm', label: 'Gap' },
+    { key: 'cornerRadiusMm', label: 'Corner R' },
+    { key: 'printableWidthMm', label: 'Print W' },
+    { key: 'printableHeightMm', label: 'Print H' }
+];
+
+const inputClass = 'mt-1 w-full bg-gray-800 text-white text-xs rounded p-1.5 border border-gray-700 outline-none focus:border-cyan-500 normal-case font-normal';
+
+const LabelStockManager: React.FC<LabelStockManagerProps> = ({ onChange }) => {
+    const toast = useToast();
+    const [stock, setStock] = useState<LabelStock[]>(loadLabelStock);
+    const [draft, setDraft] = useState<LabelStockInput>(EMPTY_STOCK);
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    const problems = getLabelStockProblems(draft);
+
+    const update = (patch: Partial<LabelStockInput>) => setDraft(prev => ({ ...prev, ...patch }));
+
+    const handleAdd = () => {
+        const added = addLabelStock(draft);
+        setStock(loadLabelStock());
+        setDraft(EMPTY_STOCK);
+        onChange();
+        toast.success("Stock Added", `${added.name} (${added.widthMm}x${added.heightMm}mm)`);
+    };
+
+    const handleRemove = (id: string) => {
+        setStock(removeLabelStock(id));
+        onChange();
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const added = importLabelStock(await file.text());
+            setStock(loadLabelStock());
+            onChange();
+            toast.success("Stock Imported", `${added.length} definition${added.length !== 1 ? 's' : ''} added`);
+        } catch (err: any) {
+            toast.error("Import Failed", err.message);
+        }
+    };
+
+    return (
+        <div className="bg-gray-900 p-3 rounded-xl border border-gray-800 space-y-3" data-testid="label-stock-manager">
+            <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400 flex items-center gap-1">
+                    <Package size={12} className="text-cyan-400" /> Label Stock
+                </span>
+                <div className="flex gap-3">
+                    <button onClick={() => fileRef.current?.click()} className="text-[10px] text-cyan-400 hover:text-cyan-300 font-bold uppercase flex items-center gap-1">
+                        <Upload size={12} /> Import
+                    </button>
+                    <button onClick={downloadLabelStock} disabled={stock.length === 0} className="text-[10px] text-cyan-400 hover:text-cyan-300 disabled:text-gray-600 font-bold uppercase flex items-center gap-1">
+                        <Download size={12} /> Export
+                    </button>
+                    <input ref={fileRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+                </div>
+            </div>
+
+            {stock.length > 0 && (
+                <ul className="space-y-1">
+                    {stock.map(s => (
+                        <li key={s.id} className="flex items-center gap-2 text-xs text-gray-300 bg-gray-800/50 rounded px-2 py-1.5">
+                            <span className="font-bold text-white">{s.name}</span>
+                            <span className="text-gray-500 truncate">
+                                {s.widthMm}x{s.heightMm}mm, {s.labelType}{s.labelType !== 'continuous' && ` ${s.gapMm}mm`}
+                                {s.printerModel && ` • ${PRINTER_DRIVERS.find(d => d.id === s.printerModel)?.name || s.printerModel}`}
+                            </span>
+                            <button onClick={() => handleRemove(s.id)} className="ml-auto p-1 text-gray-500 hover:text-red-400" title="Remove">
+                                <Trash2 size={12} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {/* New definition */}
+            <div className="grid grid-cols-3 gap-2 pt-2 border-t border-gray-800">
+                <label className="col-span-2 text-[10px] text-gray-500 uppercase font-bold">
+                    Name
+                    <input value={draft.name} onChange={e => update({ name: e.target.value })} placeholder="e.g. 40x30 White" className={inputClass} />
+                </label>
+                <label className="text-[10px] text-gray-500 uppercase font-bold">
+                    Type
+                    <select value={draft.labelType} onChange={e => update({ labelType: e.target.value as LabelStockInput['labelType'] })} className={inputClass}>
+                        <option value="gap">Gap</option>
+                        <option value="continuous">Continuous</option>
+                        <option value="mark">Black mark</option>
+                    </select>
+                </label>
+                {NUMBER_FIELDS.map(field => (
+                    <label key={field.key} className="text-[10px] text-gray-500 uppercase font-bold">
+                        {field.label} (mm)
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={draft[field.key] as number}
+                            onChange={e => update({ [field.key]: parseFloat(e.target.value) || 0 })}
+                            disabled={field.key === 'gapMm' && draft.labelType === 'continuous'}
+                            className={inputClass}
+                        />
+                    </label>
+                ))}
+                <label className="col-span-3 text-[10px] text-gray-500 uppercase font-bold">
+                    Fits Printer
+                    <select value={draft.printerModel} onChange={e => update({ printerModel: e.target.value })} className={inputClass}>
+                        <option value="">Any printer</option>
+                        {PRINTER_DRIVERS.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                    </select>
+                </label>
+            </div>
+            {draft.name && problems.length > 0 && (
+                <div className="text-[10px] text-yellow-400">{problems.join('. ')}</div>
+            )}
+            <button
+                onClick={handleAdd}
+                disabled={problems.length > 0}
+                className="w-full flex items-center justify-center gap-1 py-2 rounded-lg text-xs font-bold bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-800 disabled:text-gray-500 text-white transition-colors"
+            >
+                <Plus size={14} /> Add Stock
+            </button>
+        </div>
+    );
+};
+
+export default LabelStockManager;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ListOrdered, Play, Pause, RotateCcw, X, ChevronUp, ChevronDown, CheckCircle2, AlertCircle, Loader2, Ban, Trash2 } from 'lucide-react';
+import { PrintQueueState, QueuedPrintJob } from '../services/printQueue';
+
+interface PrintQueuePanelProps {
+    queue: PrintQueueState;
+    onPause: () => void;
+    onResume: () => void;
+    onCancel: (id: string) => void;
+    onCancelAll: () => void;
+    onMove: (id: string, toIndex: number) => void;
+    onRetryFailed: () => void;
+    onClearLog: () => void;
+}
+
+const StatusIcon: React.FC<{ job: QueuedPrintJob }> = ({ job }) => {
+    switch (job.status) {
+        case 'printing': return <Loader2 size={12} className="text-cyan-400 animate-spin" />;
+        case 'complete': return <CheckCircle2 size={12} className="text-green-400" />;
+        case 'error': return <AlertCircle size={12} className="text-red-400" />;
+        case 'cancelled': return <Ban size={12} className="text-gray-500" />;
+        default: return <span className="w-3 h-3 rounded-full border border-gray-600 block" />;
+    }
+};
+
+const jobName = (job: QueuedPrintJob) => `${job.label.brand} ${job.label.material}`;
+
+const PrintQueuePanel: React.FC<PrintQueuePanelProps> = ({ queue, onPause, onResume, onCancel, onCancelAll, onMove, onRetryFailed, onClearLog }) => {
+    const [showLog, setShowLog] = useState(false);
+    const failed = queue.jobs.filter(j => j.status === 'error').length;
+    const waiting = queue.jobs.filter(j => j.status === 'queued').length;
+
+    if (queue.jobs.length === 0 && queue.log.length === 0) return null;
+
+    return (
+        <div className="bg-gray-900 p-4 rounded-xl border border-gray-800 space-y-3" data-testid="print-queue">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-cyan-400">
+                    <ListOrdered size={16} />
+                    <h3 className="text-xs font-bold uppercase tracking-wider">Print Queue</h3>
+                    <span className="text-[10px] text-gray-500 normal-case">
+                        {waiting} waiting{failed > 0 && `, ${failed} failed`}{queue.paused && queue.jobs.length > 0 && ' • paused'}
+                    </span>
+                </div>
+                <div className="flex gap-2">
+                    {failed > 0 && (
+                        <button onClick={onRetryFailed} className="text-[10px] text-amber-400 hover:text-amber-300 font-bold flex items-center gap-1">
+                            <RotateCcw size={12} /> Retry Failed
+                        </button>
+                    )}
+                    {queue.running && !queue.paused ? (
+                        <button onClick={onPause} className="text-[10px] text-gray-300 hover:text-white font-bold flex items-center gap-1">
+                            <Pause size={12} /> Pause
+                        </button>
+                    ) : waiting > 0 && (
+                        <button onClick={onResume} className="text-[10px] text-cyan-400 hover:text-cyan-300 font-bold flex items-center gap-1">
+                            <Play size={12} /> Resume
+                        </button>
+                    )}
+                    {queue.jobs.length > 0 && (
+                        <button onClick={onCancelAll} className="text-[10px] text-red-400 hover:text-red-300 font-bold flex items-center gap-1">
+                            <X size={12} /> Cancel All
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {queue.jobs.length > 0 && (
+                <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+                    {queue.jobs.map((job, index) => (
+                        <div key={job.id} className={`flex items-center gap-2 px-2 py-1.5 rounded border text-xs ${job.status === 'error' ? 'border-red-900/50 bg-red-900/10' : 'border-gray-800 bg-gray-800/40'}`}>
+                            <StatusIcon job={job} />
+                            <div className="flex-1 min-w-0">
+                                <div className="text-white truncate">{jobName(job)}</div>
+                                {job.error && <div className="text-[10px] text-red-400 truncate">{job.error}</div>}
+                            </div>
+                            {job.status !== 'printing' && (
+                                <>
+                                    <button
+                                        onClick={() => onMove(job.id, index - 1)}
+                                        disabled={index === 0}
+                                        className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30"
+                                        title="Move up"
+                                    >
+                                        <ChevronUp size={14} />
+                                    </button>
+                                    <button
+                                        onClick={() => onMove(job.id, index + 1)}
+                                        disabled={index === queue.jobs.length - 1}
+                                        className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30"
+                                        title="Move down"
+                                    >
+                                        <ChevronDown size={14} />
+                                    </button>
+                                    <button onClick={() => onCancel(job.id)} className="p-0.5 text-gray-500 hover:text-red-400" title="Remove from queue">
+                                        <X size={14} />
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {queue.log.length > 0 && (
+                <div className="pt-2 border-t border-gray-800">
+                    <div className="flex justify-between items-center">
+                        <button onClick={() => setShowLog(v => !v)} className="text-[10px] text-gray-400 hover:text-white font-bold uppercase">
+                            {showLog ? 'Hide' : 'Show'} Completed ({queue.log.length})
+                        </button>
+                        {showLog && (
+                            <button onClick={onClearLog} className="text-[10px] text-gray-500 hover:text-red-400 flex items-center gap-1">
+                                <Trash2 size={12} /> Clear
+                            </button>
+                        )}
+                    </div>
+                    {showLog && (
+                        <div className="mt-2 space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                            {queue.log.map(job => (
+                                <div key={`${job.id}-${job.finishedAt}`} className="flex items-center gap-2 px-2 py-1 text-[11px] text-gray-400">
+                                    <StatusIcon job={job} />
+                                    <span className="flex-1 truncate">{jobName(job)}</span>
+                                    {job.attempts > 1 && <span className="text-[10px] text-gray-600">{job.attempts} tries</span>}
+                                    <span className="text-[10px] text-gray-600">{job.finishedAt ? new Date(job.finishedAt).toLocaleTimeString() : ''}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PrintQueuePanel;
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle2, AlertTriangle, XCircle, ScanLine, X, Wrench } from 'lucide-react';
+import { PrintSettings } from '../types';
+import { PrintVerification, CorrectionSettings, measureDesignInk, measureCapturedInk, verifyPrint, detectCodes, isBarcodeDetectorSupported } from '../services/printVerification';
+import { getQrModuleCount } from '../services/labelRenderer';
+import CameraCapture from './CameraCapture';
+
+interface PrintVerifierProps {
+    /** The label as rendered for printing */
+    label: HTMLCanvasElement;
+    /** QR payload the label carries, null if it has none */
+    expected: string | null;
+    size: { widthMm: number; heightMm: number };
+    settings: PrintSettings;
+    onApply: (settings: Partial<PrintSettings>) => void;
+    onClose: () => void;
+}
+
+const STATUS_TEXT: Record<PrintVerification['status'], { title: string; icon: React.ReactNode }> = {
+    verified: { title: 'Label verified', icon: <CheckCircle2 size={18} className="text-green-400" /> },
+    mismatch: { title: 'Wrong code on label', icon: <XCircle size={18} className="text-red-400" /> },
+    unreadable: { title: 'Label hard to read', icon: <AlertTriangle size={18} className="text-yellow-400" /> }
+};
+
+const SETTING_NAMES: Record<keyof CorrectionSettings, string> = {
+    density: 'Density',
+    horizontalOffsetMm: 'Horizontal offset on the label (mm)',
+    printOffsetMm: 'Vertical offset on the label (mm)'
+};
+
+const getPixels = (canvas: HTMLCanvasElement) => canvas.getContext('2d')?.getImageData(0, 0, canvas.width, canvas.height) || null;
+
+const PrintVerifier: React.FC<PrintVerifierProps> = ({ label, expected, size, settings, onApply, onClose }) => {
+    const [result, setResult] = useState<PrintVerification | null>(null);
+
+    const design = useMemo(() => {
+        const pixels = getPixels(label);
+        return pixels ? measureDesignInk(pixels) : { coverage: 0, contrast: 1, bounds: null };
+    }, [label]);
+
+    const verify = (decoded: string[], frame: HTMLCanvasElement | null) => {
+        const pixels = frame && getPixels(frame);
+        setResult(verifyPrint({
+            expected,
+            decoded,
+            design,
+            captured: pixels ? measureCapturedInk(pixels) : null,
+            size,
+            settings,
+            qrModules: expected ? getQrModuleCount(expected) : undefined
+        }));
+    };
+
+    // The live scan finishes as soon as the expected code is read
+    const handleScanCode = (code: string) => {
+        if (expected !== null && code === expected) verify([code], null);
+    };
+
+    const handleCapture = async (_imageSrc: string, frame: HTMLCanvasElement) => {
+        verify(await detectCodes(frame), frame);
+    };
+
+    if (!result) {
+        return (
+            <CameraCapture
+                onCapture={handleCapture}
+                onCancel={onClose}
+                onScanCode={expected !== null ? handleScanCode : undefined}
+                guideAspect={size.widthMm / size.heightMm}
+                guideHint={expected !== null && isBarcodeDetectorSupported()
+                    ? 'Fit the label in the frame, or tap the shutter to check it'
+                    : 'Fit the label in the frame and tap the shutter'}
+            />
+        );
+    }
+
+    const status = STATUS_TEXT[result.status];
+    const changes = result.correction ? Object.entries(result.correction.settings) as [keyof CorrectionSettings, number][] : [];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in">
+            <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-sm relative overflow-hidden" data-testid="print-verifier">
+
+                {/* Header */}
+                <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+                    <h3 className="font-bold text-white flex items-center gap-2">
+                        {status.icon}
+                        {status.title}
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-800 rounded-full transition-colors text-gray-400 hover:text-white">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-4">
+                    {result.status === 'verified' && expected !== null && (
+                        <p className="text-sm text-gray-300">The QR code reads back exactly what was printed.</p>
+                    )}
+                    {result.status === 'verified' && expected === null && (
+                        <p className="text-sm text-gray-300">The print matches the design: no faint areas or cut-off edges.</p>
+                    )}
+                    {result.status === 'mismatch' && (
+                        <p className="text-sm text-gray-300">
+                            Read <span className="font-mono text-red-300 break-all">{result.decoded[0]}</span> instead of <span className="font-mono text-white break-all">{expected}</span>. Is this the label you just printed?
+                        </p>
+                    )}
+                    {result.status === 'unreadable' && expected !== null && (
+                        <p className="text-sm text-gray-300">The QR code could not be read from the photo.</p>
+                    )}
+
+                    {result.correction && (
+                        <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-3 space-y-2">
+                            <ul className="text-xs text-gray-300 list-disc list-inside space-y-1">
+                                {result.correction.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                            </ul>
+                            {changes.length > 0 && (
+                                <div className="text-[11px] text-gray-400 font-mono">
+                                    {changes.map(([key, value]) => (
+                                        <div key={key}>{SETTING_NAMES[key]}: {settings[key] ?? 0} → <span className="text-cyan-300">{value}</span></div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        {changes.length > 0 && (
+                            <button
+                                onClick={() => { onApply(result.correction!.settings); onClose(); }}
+                                className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-sm transition-colors bg-cyan-600 hover:bg-cyan-500 text-white"
+                            >
+                                <Wrench size={16} />
+                                Apply Correction
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setResult(null)}
+                            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-sm transition-colors bg-gray-800 hover:bg-gray-700 text-gray-200"
+                        >
+                            <ScanLine size={16} />
+                            Check Again
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PrintVerifier;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Printer, Settings2, Trash2, Check } from 'lucide-react';
+import { RegisteredPrinter, PrinterUpdate } from '../services/printerRegistry';
+import { getLabelPresets } from '../services/labelStock';
+import { getPrinterDriver, PrintSpeed } from '../services/printerDrivers';
+
+interface PrinterPickerProps {
+    printers: RegisteredPrinter[];
+    /** null = whichever printer is connected (or the chooser) */
+    selectedId: string | null;
+    connectedId: string | null;
+    onSelect: (id: string | null) => void;
+    onUpdate: (id: string, update: PrinterUpdate) => void;
+    onRemove: (id: string) => void;
+}
+
+const PrinterPicker: React.FC<PrinterPickerProps> = ({ printers, selectedId, connectedId, onSelect, onUpdate, onRemove }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const selected = printers.find(p => p.id === selectedId) || null;
+
+    return (
+        <div className="bg-gray-900 p-3 rounded-xl border border-gray-800 space-y-3">
+            <div className="flex items-center gap-2">
+                <Printer size={14} className="text-cyan-400 shrink-0" />
+                <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400 shrink-0">Print to</span>
+                <select
+                    value={selectedId || ''}
+                    onChange={(e) => onSelect(e.target.value || null)}
+                    className="flex-1 min-w-0 bg-gray-800 text-white text-xs rounded p-1.5 border border-gray-700 outline-none focus:border-cyan-500"
+                    data-testid="printer-picker"
+                >
+                    <option value="">{connectedId ? 'Connected printer' : 'Choose when printing'}</option>
+                    {printers.map(p => (
+                        <option key={p.id} value={p.id}>
+                            {p.name}{p.id === connectedId ? ' (connected)' : ''}
+                        </option>
+                    ))}
+                </select>
+                {selected && (
+                    <button
+                        onClick={() => setIsEditing(v => !v)}
+                        className={`p-1.5 rounded border transition-colors ${isEditing ? 'border-cyan-700 text-cyan-400' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                        title="Printer defaults"
+                    >
+                        <Settings2 size={14} />
+                    </button>
+                )}
+            </div>
+
+            {selected && isEditing && (
+                <div className="grid grid-cols-2 gap-2 pt-2 border-t border-gray-800">
+                    <label className="col-span-2 text-[10px] text-gray-500 uppercase font-bold">
+                        Name
+                        <input
+                            type="text"
+                            value={selected.name}
+                            onChange={(e) => onUpdate(selected.id, { name: e.target.value })}
+                            className="mt-1 w-full bg-gray-800 text-white text-xs rounded p-1.5 border border-gray-700 outline-none focus:border-cyan-500 normal-case font-normal"
+                        />
+                    </label>
+                    <div className="col-span-2 text-[10px] text-gray-500">
+                        {getPrinterDriver(selected.model).name}{selected.deviceName && ` • ${selected.deviceName}`}
+                    </div>
+                    <label className="text-[10px] text-gray-500 uppercase font-bold">
+                        Default Label
+                        <select
+                            value={selected.defaultLabelId}
+                            onChange={(e) => onUpdate(selected.id, { defaultLabelId: e.target.value })}
+                            className="mt-1 w-full bg-gray-800 text-white text-xs rounded p-1.5 border border-gray-700 outline-none focus:border-cyan-500 normal-case font-normal"
+                        >
+                            {getLabelPresets(selected.model).map(p => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-[10px] text-gray-500 uppercase font-bold">
+                        Speed
+                        <select
+                            value={selected.speed}
+                            onChange={(e) => onUpdate(selected.id, { speed: parseInt(e.target.value) as PrintSpeed })}
+                            className="mt-1 w-full bg-gray-800 text-white text-xs rounded p-1.5 border border-gray-700 outline-none focus:border-cyan-500 normal-case font-normal"
+                        >
+                            {[1, 2, 3, 4, 5].map(s => <option key={s} value={s}>{s}</option>)}
+                        </select>
+                    </label>
+                    <label className="col-span-2 text-[10px] text-gray-500 uppercase font-bold">
+                        <div className="flex justify-between">
+                            <span>Density</span>
+                            <span className="text-cyan-400 font-mono">{selected.density}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={selected.density}
+                            onChange={(e) => onUpdate(selected.id, { density: parseInt(e.target.value) })}
+                            className="w-full accent-cyan-500"
+                        />
+                    </label>
+                    <div className="col-span-2 flex justify-between items-center">
+                        <span className="text-[10px] text-gray-500">
+                            {selected.calibrations.length > 0
+                                ? `Calibrated for ${selected.calibrations.map(c => `${c.labelHeightMm}x${c.labelWidthMm}`).join(', ')}`
+                                : 'Not calibrated'}
+                        </span>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => { onRemove(selected.id); setIsEditing(false); }}
+                                className="text-[10px] text-red-400 hover:text-red-300 flex items-center gap-1"
+                            >
+                                <Trash2 size={12} /> Forget
+                            </button>
+                            <button
+                                onClick={() => { onSelect(selected.id); setIsEditing(false); }}
+                                className="text-[10px] text-cyan-400 hover:text-cyan-300 font-bold flex items-center gap-1"
+                                title="Apply these defaults to the current label"
+                            >
+                                <Check size={12} /> Apply
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PrinterPicker;
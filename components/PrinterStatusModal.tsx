@@ -1,6 +1,6 @@
 import React from 'react';
 import { Battery, BatteryFull, BatteryLow, BatteryMedium, Bluetooth, Printer, X, Activity, Cpu } from 'lucide-react';
-import { PrinterInfo } from '../types';
+import { PrinterInfo, PrinterStatus } from '../types';
 
 interface PrinterStatusModalProps {
     isOpen: boolean;
@@ -8,13 +8,26 @@ interface PrinterStatusModalProps {
     printerInfo: Partial<PrinterInfo> | null;
     batteryLevel: number | null;
     isConnected: boolean;
+    printerStatus?: PrinterStatus;
 }
 
+const STATUS_LABELS: Record<PrinterStatus, { label: string; color: string }> = {
+    ready: { label: 'Ready', color: 'text-white' },
+    busy: { label: 'Printing', color: 'text-cyan-400' },
+    low_battery: { label: 'Low Battery', color: 'text-yellow-400' },
+    paper_out: { label: 'Out of Paper', color: 'text-red-400' },
+    cover_open: { label: 'Cover Open', color: 'text-red-400' },
+    overheat: { label: 'Overheated', color: 'text-red-400' },
+    unknown: { label: 'Ready', color: 'text-white' }
+};
+
 const PrinterStatusModal: React.FC<PrinterStatusModalProps> = ({
-    isOpen, onClose, printerInfo, batteryLevel, isConnected
+    isOpen, onClose, printerInfo, batteryLevel, isConnected, printerStatus = 'unknown'
 }) => {
     if (!isOpen) return null;
 
+    const statusDisplay = isConnected ? STATUS_LABELS[printerStatus] : { label: 'Offline', color: 'text-white' };
+
     let BatteryIcon = Battery;
     let batteryColor = 'text-gray-400';
     if (batteryLevel !== null) {
@@ -71,8 +84,8 @@ const PrinterStatusModal: React.FC<PrinterStatusModalProps> = ({
                                 <Activity size={14} />
                                 <span className="text-[10px] font-bold uppercase">Status</span>
                             </div>
-                            <div className="text-lg font-bold text-white">
-                                {isConnected ? 'Ready' : 'Offline'}
+                            <div className={`text-lg font-bold ${statusDisplay.color}`}>
+                                {statusDisplay.label}
                             </div>
                         </div>
 
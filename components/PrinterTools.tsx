@@ -1,13 +1,30 @@
 import React, { useState } from 'react';
-import { Wrench, Gauge, AlignCenter, ScanLine } from 'lucide-react';
-import { PrintSettings } from '../types';
+import { Wrench, Gauge, AlignCenter, ScanLine, Grid3x3, RotateCw, FlipHorizontal } from 'lucide-react';
+import { PrintSettings, LabelPreset, LabelRotation } from '../types';
+import { RASTER_MODES, DEFAULT_RASTER_MODE } from '../services/dithering';
+import { RegisteredPrinter } from '../services/printerRegistry';
+import CalibrationWizard from './CalibrationWizard';
+import DensityLadder from './DensityLadder';
+import ProtocolConsole from './ProtocolConsole';
 
 interface PrinterToolsProps {
     settings: PrintSettings;
     onSettingsChange: (settings: PrintSettings) => void;
+    /** Label size and printer the calibration wizard works on */
+    label?: LabelPreset;
+    printer?: RegisteredPrinter | null;
+    onCalibrationSaved?: () => void;
 }
 
-const PrinterTools: React.FC<PrinterToolsProps> = ({ settings, onSettingsChange }) => {
+const ROTATIONS: { value: LabelRotation; label: string }[] = [
+    { value: 'auto', label: 'Auto' },
+    { value: 0, label: '0°' },
+    { value: 90, label: '90°' },
+    { value: 180, label: '180°' },
+    { value: 270, label: '270°' }
+];
+
+const PrinterTools: React.FC<PrinterToolsProps> = ({ settings, onSettingsChange, label, printer = null, onCalibrationSaved }) => {
 
     const updateSetting = (key: keyof PrintSettings, value: any) => {
         onSettingsChange({ ...settings, [key]: value });
@@ -63,12 +80,41 @@ const PrinterTools: React.FC<PrinterToolsProps> = ({ settings, onSettingsChange
                     </select>
                 </div>
 
+                {/* Raster Mode */}
+                <div className="bg-gray-800/50 p-2 rounded-lg border border-gray-700 col-span-2">
+                    <div className="flex items-center justify-between mb-2 text-gray-400">
+                        <div className="flex items-center gap-1.5">
+                            <Grid3x3 size={12} />
+                            <span className="text-[10px] font-bold uppercase">Raster Mode</span>
+                        </div>
+                        <span className="text-[10px] text-gray-500">
+                            {RASTER_MODES.find(m => m.id === (settings.rasterMode || DEFAULT_RASTER_MODE))?.description}
+                        </span>
+                    </div>
+                    <select
+                        value={settings.rasterMode || DEFAULT_RASTER_MODE}
+                        onChange={(e) => updateSetting('rasterMode', e.target.value)}
+                        className="w-full bg-gray-700 text-white text-xs rounded p-1 border border-gray-600 outline-none focus:border-cyan-500"
+                    >
+                        {RASTER_MODES.map(mode => (
+                            <option key={mode.id} value={mode.id}>{mode.name}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {/* Calibration */}
+                {label && <CalibrationWizard label={label} printer={printer} onSaved={onCalibrationSaved} />}
+
+                {/* Density */}
+                {label && <DensityLadder settings={settings} onSettingsChange={onSettingsChange} label={label} printer={printer} />}
+
                 {/* Print Offset */}
                 <div className="bg-gray-800/50 p-2 rounded-lg border border-gray-700 col-span-2">
                     <div className="flex items-center justify-between mb-2 text-gray-400">
                         <div className="flex items-center gap-1.5">
                             <AlignCenter size={12} className="rotate-90" />
-                            <span className="text-[10px] font-bold uppercase">Vertical Offset</span>
+                            <span className="text-[10px] font-bold uppercase" title="Positive moves the print down the label, as it feeds with its automatic rotation">Vertical Offset (label)</span>
+                            {label && <span className="text-[10px] text-gray-500">on top of calibration</span>}
                         </div>
                         <span className="text-[10px] font-mono text-cyan-400">{settings.printOffsetMm || 0}mm</span>
                     </div>
@@ -86,6 +132,67 @@ const PrinterTools: React.FC<PrinterToolsProps> = ({ settings, onSettingsChange
                         <span className="text-[9px] text-gray-500 font-bold">+10</span>
                     </div>
                 </div>
+
+                {/* Horizontal Offset */}
+                <div className="bg-gray-800/50 p-2 rounded-lg border border-gray-700 col-span-2">
+                    <div className="flex items-center justify-between mb-2 text-gray-400">
+                        <div className="flex items-center gap-1.5">
+                            <AlignCenter size={12} />
+                            <span className="text-[10px] font-bold uppercase" title="Positive moves the print right on the label, as it feeds with its automatic rotation">Horizontal Offset (label)</span>
+                            {label && <span className="text-[10px] text-gray-500">on top of calibration</span>}
+                        </div>
+                        <span className="text-[10px] font-mono text-cyan-400">{settings.horizontalOffsetMm || 0}mm</span>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <span className="text-[9px] text-gray-500 font-bold">-5</span>
+                        <input
+                            type="range"
+                            min="-5"
+                            max="5"
+                            step="0.25"
+                            value={settings.horizontalOffsetMm || 0}
+                            onChange={(e) => updateSetting('horizontalOffsetMm', parseFloat(e.target.value))}
+                            className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                        />
+                        <span className="text-[9px] text-gray-500 font-bold">+5</span>
+                    </div>
+                </div>
+
+                {/* Orientation */}
+                <div className="bg-gray-800/50 p-2 rounded-lg border border-gray-700 col-span-2">
+                    <div className="flex items-center justify-between mb-2 text-gray-400">
+                        <div className="flex items-center gap-1.5">
+                            <RotateCw size={12} />
+                            <span className="text-[10px] font-bold uppercase">Rotation</span>
+                        </div>
+                        <span className="text-[10px] text-gray-500">Use 270° if labels come out upside down</span>
+                    </div>
+                    <div className="flex gap-1">
+                        {ROTATIONS.map(r => (
+                            <button
+                                key={r.value}
+                                onClick={() => updateSetting('rotation', r.value)}
+                                className={`flex-1 h-6 rounded text-[10px] font-bold transition-colors
+                                    ${(settings.rotation ?? 'auto') === r.value
+                                        ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50'
+                                        : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                            >
+                                {r.label}
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => updateSetting('mirror', !settings.mirror)}
+                            className={`px-2 h-6 rounded text-[10px] font-bold flex items-center gap-1 transition-colors
+                                ${settings.mirror ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                            title="Flip left-right, for clear tape read from the back"
+                        >
+                            <FlipHorizontal size={12} /> Mirror
+                        </button>
+                    </div>
+                </div>
+
+                {/* Raw GATT access for clone printers */}
+                <ProtocolConsole />
             </div>
         </div>
     );
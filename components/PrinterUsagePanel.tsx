@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { Activity, BatteryMedium, Ruler, AlertTriangle, PackagePlus } from 'lucide-react';
+import { RegisteredPrinter, PrinterUpdate, getDefaultLabel } from '../services/printerRegistry';
+import { loadTelemetry, computePrinterStats, getBatteryDrainPerLabel, getTapeUsageByDay, getRollForecast } from '../services/printTelemetry';
+import { getLastMaintenance } from '../services/maintenanceLog';
+import { getRasterSize, getTapeLengthMm } from '../services/printEstimator';
+
+interface PrinterUsagePanelProps {
+    printers: RegisteredPrinter[];
+    onUpdatePrinter: (id: string, update: PrinterUpdate) => void;
+}
+
+const USAGE_DAYS = 30;
+// Labels on a typical roll
+const DEFAULT_ROLL_LABELS = 160;
+
+const formatLength = (mm: number) => mm >= 1000 ? `${(mm / 1000).toFixed(1)} m` : `${Math.round(mm / 10)} cm`;
+
+const PrinterUsagePanel: React.FC<PrinterUsagePanelProps> = ({ printers, onUpdatePrinter }) => {
+    const telemetry = useMemo(() => loadTelemetry(), []);
+    const [printerId, setPrinterId] = useState(() => printers[0]?.id || telemetry[0]?.printerId || '');
+    const [rollLabels, setRollLabels] = useState(DEFAULT_ROLL_LABELS);
+
+    const printer = printers.find(p => p.id === printerId);
+    const records = useMemo(() => telemetry.filter(r => r.printerId === printerId), [telemetry, printerId]);
+    const stats = useMemo(() => computePrinterStats(records, getLastMaintenance('cleaning', printerId)?.timestamp), [records, printerId]);
+    const drain = useMemo(() => getBatteryDrainPerLabel(records), [records]);
+    const usage = useMemo(() => getTapeUsageByDay(records, USAGE_DAYS), [records]);
+    const forecast = printer?.roll ? getRollForecast(records, printer.roll) : null;
+
+    if (telemetry.length === 0 && printers.length === 0) return null;
+
+    const maxDay = Math.max(1, ...usage.map(u => u.mm));
+    const totalMm = usage.reduce((sum, u) => sum + u.mm, 0);
+
+    const handleNewRoll = () => {
+        if (!printer) return;
+        // Roll length from the label the printer is loaded with, in the direction it feeds
+        const label = getDefaultLabel(printer);
+        const lengthMm = getTapeLengthMm(getRasterSize(label.widthMm, label.heightMm), 'gap', rollLabels);
+        onUpdatePrinter(printer.id, { roll: { loadedAt: Date.now(), lengthMm } });
+    };
+
+    return (
+        <div className="bg-gray-900 p-4 rounded-xl border border-gray-800 space-y-4" data-testid="printer-usage">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                    <Activity size={16} className="text-cyan-400" /> Printer Usage
+                </h3>
+                {printers.length > 1 && (
+                    <select
+                        value={printerId}
+                        onChange={e => setPrinterId(e.target.value)}
+                        className="bg-gray-800 text-white text-xs rounded p-1.5 border border-gray-700 outline-none focus:border-cyan-500"
+                    >
+                        {printers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                )}
+            </div>
+
+            {/* Stats */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700">
+                    <div className="text-gray-400 text-[10px] font-bold uppercase mb-1">Labels</div>
+                    <div className="text-xl font-bold text-white">{stats.totalLabels}</div>
+                    <div className="text-[10px] text-gray-500">{stats.totalPrints} jobs, {stats.averageQuality}% completed</div>
+                </div>
+                <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700">
+                    <div className="text-gray-400 text-[10px] font-bold uppercase mb-1">Tape Used</div>
+                    <div className="text-xl font-bold text-cyan-400">{formatLength(stats.totalInches * 25.4)}</div>
+                    <div className="text-[10px] text-gray-500">Head wear {stats.printHeadWear}%</div>
+                </div>
+                <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700">
+                    <div className="text-gray-400 text-[10px] font-bold uppercase mb-1 flex items-center gap-1"><BatteryMedium size={12} /> Per Label</div>
+                    <div className="text-xl font-bold text-green-400">{drain !== null ? `${drain.toFixed(2)}%` : '-'}</div>
+                    <div className="text-[10px] text-gray-500">Battery health {stats.batteryHealth}%</div>
+                </div>
+                <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700">
+                    <div className="text-gray-400 text-[10px] font-bold uppercase mb-1">Firmware</div>
+                    <div className="text-sm font-bold text-white truncate">{printer?.firmware || '-'}</div>
+                    <div className="text-[10px] text-gray-500">
+                        {stats.firstPrintDate ? `Since ${new Date(stats.firstPrintDate).toLocaleDateString()}` : 'No prints yet'}
+                    </div>
+                </div>
+            </div>
+
+            {/* Tape over time */}
+            <div>
+                <div className="flex justify-between text-[10px] font-bold uppercase text-gray-500 mb-1">
+                    <span className="flex items-center gap-1"><Ruler size={12} /> Tape per day</span>
+                    <span>{formatLength(totalMm)} in {USAGE_DAYS} days</span>
+                </div>
+                <div className="flex items-end gap-0.5 h-16">
+                    {usage.map(u => (
+                        <div
+                            key={u.day}
+                            className="flex-1 bg-cyan-500/70 rounded-t-sm min-h-[1px]"
+                            style={{ height: `${(u.mm / maxDay) * 100}%` }}
+                            title={`${new Date(u.day).toLocaleDateString()}: ${formatLength(u.mm)}`}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            {/* Roll forecast */}
+            {printer && (
+                <div className="pt-3 border-t border-gray-800 space-y-2">
+                    {forecast ? (
+                        <div className={`flex items-start gap-2 text-xs ${forecast.replaceSoon ? 'text-yellow-400' : 'text-gray-300'}`}>
+                            {forecast.replaceSoon && <AlertTriangle size={14} className="shrink-0 mt-0.5" />}
+                            <span>
+                                {forecast.replaceSoon && <b>Replace roll soon. </b>}
+                                About {formatLength(forecast.remainingMm)} left on the roll
+                                {forecast.daysLeft !== null && `, roughly ${Math.max(0, Math.round(forecast.daysLeft))} days at your current rate`}.
+                            </span>
+                        </div>
+                    ) : (
+                        <div className="text-xs text-gray-500">Mark when a new roll goes in to get a replace-roll forecast.</div>
+                    )}
+                    <div className="flex items-center gap-2 text-xs text-gray-400">
+                        <input
+                            type="number"
+                            min={1}
+                            value={rollLabels}
+                            onChange={e => setRollLabels(Math.max(1, parseInt(e.target.value) || 1))}
+                            className="w-16 bg-gray-800 text-white text-xs rounded p-1 border border-gray-700 outline-none focus:border-cyan-500"
+                        />
+                        <span>labels of {getDefaultLabel(printer).name}</span>
+                        <button
+                            onClick={handleNewRoll}
+                            className="ml-auto text-[10px] text-cyan-400 hover:text-cyan-300 font-bold uppercase flex items-center gap-1"
+                        >
+                            <PackagePlus size={12} /> New Roll Loaded
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PrinterUsagePanel;
@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Terminal, Search, Send, BookOpen, Bell, BellOff, Download, Trash2 } from 'lucide-react';
+import { getConnectedDevice } from '../services/printerService';
+import { ProtocolConsole as Console, ConsoleLogEntry, GattServiceInfo, createProtocolConsole, downloadCapture } from '../services/protocolConsole';
+
+const DIRECTION_STYLES: Record<ConsoleLogEntry['direction'], string> = {
+    tx: 'text-cyan-300',
+    rx: 'text-green-300',
+    info: 'text-gray-500',
+    error: 'text-red-400'
+};
+
+const formatTime = (time: number) => {
+    const date = new Date(time);
+    return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+const shortUuid = (uuid: string) => /^0000[0-9a-f]{4}-0000-1000-8000-00805f9b34fb$/i.test(uuid) ? uuid.slice(4, 8) : uuid.slice(0, 8);
+
+/**
+ * Developer console for probing a connected printer over raw GATT
+ */
+const ProtocolConsole: React.FC = () => {
+    const consoleRef = useRef<Console | null>(null);
+    const [deviceName, setDeviceName] = useState<string | null>(null);
+    const [services, setServices] = useState<GattServiceInfo[]>([]);
+    const [target, setTarget] = useState<{ service: string; characteristic: string } | null>(null);
+    const [hex, setHex] = useState('');
+    const [log, setLog] = useState<ConsoleLogEntry[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [, setSubscriptionsChanged] = useState(0);
+    const logEndRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => () => consoleRef.current?.dispose(), []);
+
+    useEffect(() => {
+        logEndRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [log]);
+
+    const run = async (action: (c: Console) => Promise<void>) => {
+        if (!consoleRef.current) return;
+        setError(null);
+        try {
+            await action(consoleRef.current);
+        } catch (e: any) {
+            setError(e.message || String(e));
+        }
+    };
+
+    const handleDiscover = async () => {
+        const device = getConnectedDevice();
+        if (!device) {
+            setError('Connect a printer first');
+            return;
+        }
+        // A different printer gets a fresh console
+        if (!consoleRef.current || deviceName !== (device.name || device.id)) {
+            consoleRef.current?.dispose();
+            consoleRef.current = createProtocolConsole(device);
+            consoleRef.current.onLog(setLog);
+            setLog([]);
+            setTarget(null);
+            setDeviceName(device.name || device.id);
+        }
+        await run(async c => {
+            const found = await c.discover();
+            setServices(found);
+            // Default to the first writable characteristic
+            const writable = found.flatMap(s => s.characteristics.filter(ch => ch.properties.some(p => p.startsWith('write'))).map(ch => ({ service: s.uuid, characteristic: ch.uuid })));
+            setTarget(prev => prev || writable[0] || null);
+        });
+    };
+
+    const handleSend = () => run(async c => {
+        if (!target) throw new Error('Pick a characteristic to write to');
+        await c.send(target.service, target.characteristic, hex);
+    });
+
+    const toggleNotifications = (service: string, characteristic: string) => run(async c => {
+        if (c.isSubscribed(service, characteristic)) c.unsubscribe(service, characteristic);
+        else await c.subscribe(service, characteristic);
+        setSubscriptionsChanged(n => n + 1);
+    });
+
+    return (
+        <div className="bg-gray-800/50 p-2 rounded-lg border border-gray-700 col-span-2 space-y-2" data-testid="protocol-console">
+            <div className="flex items-center justify-between text-gray-400">
+                <div className="flex items-center gap-1.5">
+                    <Terminal size={12} />
+                    <span className="text-[10px] font-bold uppercase">Protocol Console</span>
+                    {deviceName && <span className="text-[10px] text-gray-500">{deviceName}</span>}
+                </div>
+                <button onClick={handleDiscover} className="text-[10px] text-cyan-400 hover:text-cyan-300 font-bold uppercase flex items-center gap-1">
+                    <Search size={12} /> {services.length > 0 ? 'Rescan' : 'Discover'}
+                </button>
+            </div>
+
+            {/* Services and characteristics */}
+            {services.length > 0 && (
+                <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-2">
+                    {services.map(service => (
+                        <div key={service.uuid}>
+                            <div className="text-[10px] font-mono text-gray-300" title={service.uuid}>
+                                {service.name ? `${service.name} ` : ''}<span className="text-gray-500">{shortUuid(service.uuid)}</span>
+                            </div>
+                            {service.characteristics.map(ch => {
+                                const writable = ch.properties.some(p => p.startsWith('write'));
+                                const notifies = ch.properties.includes('notify') || ch.properties.includes('indicate');
+                                const selected = target?.service === service.uuid && target.characteristic === ch.uuid;
+                                const subscribed = consoleRef.current?.isSubscribed(service.uuid, ch.uuid) ?? false;
+                                return (
+                                    <div key={ch.uuid} className={`ml-2 flex items-center gap-1 text-[10px] font-mono rounded px-1 ${selected ? 'bg-cyan-900/40' : ''}`}>
+                                        <span className="text-gray-400" title={ch.uuid}>{ch.name || shortUuid(ch.uuid)}</span>
+                                        <span className="text-gray-600 truncate">{ch.properties.join(' ')}</span>
+                                        <span className="ml-auto flex gap-1 shrink-0">
+                                            {writable && (
+                                                <button onClick={() => setTarget({ service: service.uuid, characteristic: ch.uuid })} className={`p-0.5 ${selected ? 'text-cyan-300' : 'text-gray-500 hover:text-white'}`} title="Send to this characteristic">
+                                                    <Send size={11} />
+                                                </button>
+                                            )}
+                                            {ch.properties.includes('read') && (
+                                                <button onClick={() => run(c => c.read(service.uuid, ch.uuid))} className="p-0.5 text-gray-500 hover:text-white" title="Read value">
+                                                    <BookOpen size={11} />
+                                                </button>
+                                            )}
+                                            {notifies && (
+                                                <button onClick={() => toggleNotifications(service.uuid, ch.uuid)} className={`p-0.5 ${subscribed ? 'text-green-300' : 'text-gray-500 hover:text-white'}`} title={subscribed ? 'Stop logging notifications' : 'Log notifications'}>
+                                                    {subscribed ? <BellOff size={11} /> : <Bell size={11} />}
+                                                </button>
+                                            )}
+                                        </span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Send */}
+            {consoleRef.current && (
+                <div className="flex gap-1">
+                    <input
+                        value={hex}
+                        onChange={e => setHex(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') handleSend(); }}
+                        placeholder="1F 11 11"
+                        className="flex-1 min-w-0 bg-gray-700 text-white text-xs font-mono rounded p-1 border border-gray-600 outline-none focus:border-cyan-500"
+                    />
+                    <button
+                        onClick={handleSend}
+                        disabled={!target || !hex.trim()}
+                        className="px-2 rounded text-[10px] font-bold bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-700 disabled:text-gray-500 text-white"
+                    >
+                        Send
+                    </button>
+                </div>
+            )}
+            {error && <div className="text-[10px] text-red-400">{error}</div>}
+
+            {/* Log */}
+            {consoleRef.current && (
+                <>
+                    <div className="bg-gray-950 rounded border border-gray-800 p-1.5 h-40 overflow-y-auto custom-scrollbar font-mono text-[10px] leading-relaxed">
+                        {log.length === 0 && <div className="text-gray-600">No traffic yet</div>}
+                        {log.map((entry, i) => (
+                            <div key={i} className={DIRECTION_STYLES[entry.direction]}>
+                                <span className="text-gray-600">{formatTime(entry.time)}</span>{' '}
+                                <span className="font-bold uppercase">{entry.direction}</span>{' '}
+                                {entry.characteristicUuid && <span className="text-gray-500">{shortUuid(entry.characteristicUuid)} </span>}
+                                {entry.hex}{entry.detail && <span className="text-gray-500"> {entry.hex ? `(${entry.detail})` : entry.detail}</span>}
+                            </div>
+                        ))}
+                        <div ref={logEndRef} />
+                    </div>
+                    <div className="flex justify-end gap-3">
+                        <button onClick={() => consoleRef.current?.clearLog()} className="text-[10px] text-gray-500 hover:text-gray-300 font-bold uppercase flex items-center gap-1">
+                            <Trash2 size={12} /> Clear
+                        </button>
+                        <button
+                            onClick={() => consoleRef.current && downloadCapture(consoleRef.current, deviceName || undefined)}
+                            disabled={log.length === 0}
+                            className="text-[10px] text-cyan-400 hover:text-cyan-300 disabled:text-gray-600 font-bold uppercase flex items-center gap-1"
+                        >
+                            <Download size={12} /> Export Log
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ProtocolConsole;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { RotateCcw, Play, X, AlertTriangle } from 'lucide-react';
+import { PrintJobRecord } from '../types';
+import { getResumeOptions, ResumeMode } from '../services/printJobRecovery';
+
+interface ResumePrintModalProps {
+    job: PrintJobRecord;
+    onResume: (mode: ResumeMode) => void;
+    onDiscard: () => void;
+}
+
+const ResumePrintModal: React.FC<ResumePrintModalProps> = ({ job, onResume, onDiscard }) => {
+    const options = getResumeOptions(job);
+    const percent = Math.round(options.currentProgress * 100);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in">
+            <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-sm relative overflow-hidden">
+
+                {/* Header */}
+                <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+                    <h3 className="font-bold text-white flex items-center gap-2">
+                        <AlertTriangle size={18} className="text-yellow-400" />
+                        Print Interrupted
+                    </h3>
+                    <button onClick={onDiscard} className="p-1 hover:bg-gray-800 rounded-full transition-colors text-gray-400 hover:text-white">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-4">
+                    <div className="text-sm text-gray-300">
+                        <span className="font-bold text-white">{job.labelName}</span> stopped during copy {options.currentCopy} of {job.totalCopies}.
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between text-[10px] font-bold uppercase text-gray-500 mb-1">
+                            <span>Copy {options.currentCopy} acknowledged</span>
+                            <span>{percent}%</span>
+                        </div>
+                        <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                            <div className="h-full bg-cyan-500" style={{ width: `${percent}%` }} />
+                        </div>
+                        {job.error && <div className="text-xs text-gray-500 mt-2 truncate">{job.error}</div>}
+                    </div>
+
+                    {options.currentLikelyPrinted && (
+                        <div className="text-xs text-yellow-400/80">
+                            Every row of copy {options.currentCopy} reached the printer. Check whether it came out before printing it again.
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <button
+                            onClick={() => onResume('resume')}
+                            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-sm transition-colors bg-cyan-600 hover:bg-cyan-500 text-white"
+                        >
+                            <Play size={16} />
+                            {options.isLastCopy ? `Reprint copy ${options.currentCopy}, finish job` : `Resume from copy ${options.currentCopy} (${options.copiesLeft} left)`}
+                        </button>
+                        {!options.isLastCopy && (
+                            <button
+                                onClick={() => onResume('reprint')}
+                                className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-sm transition-colors bg-gray-800 hover:bg-gray-700 text-gray-200"
+                            >
+                                <RotateCcw size={16} />
+                                Reprint copy {options.currentCopy} only
+                            </button>
+                        )}
+                        <button
+                            onClick={onDiscard}
+                            className="w-full py-2 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                        >
+                            Discard job
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ResumePrintModal;
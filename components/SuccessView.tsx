@@ -1,5 +1,5 @@
 import React from 'react';
-import { CheckCircle2, Printer, RotateCcw, Download } from 'lucide-react';
+import { CheckCircle2, Printer, RotateCcw, Download, ScanLine } from 'lucide-react';
 import { FilamentData } from '../types';
 
 interface SuccessViewProps {
@@ -8,6 +8,7 @@ interface SuccessViewProps {
   onPrintMore: () => void;
   onNewLabel: () => void;
   onDownload: () => void;
+  onVerify?: () => void;
 }
 
 const SuccessView: React.FC<SuccessViewProps> = ({ 
@@ -15,7 +16,8 @@ const SuccessView: React.FC<SuccessViewProps> = ({
   copies, 
   onPrintMore, 
   onNewLabel,
-  onDownload 
+  onDownload,
+  onVerify
 }) => {
   return (
     <div className="flex flex-col items-center justify-center py-12 animate-fade-in">
@@ -63,6 +65,16 @@ const SuccessView: React.FC<SuccessViewProps> = ({
           <Printer size={18} />
           Print More Copies
         </button>
+
+        {onVerify && (
+          <button
+            onClick={onVerify}
+            className="flex items-center justify-center gap-2 w-full py-3 px-4 bg-gray-800 hover:bg-gray-700 text-cyan-400 rounded-xl font-bold transition-all text-sm"
+          >
+            <ScanLine size={16} />
+            Verify Print with Camera
+          </button>
+        )}
         
         <div className="flex gap-3">
           <button
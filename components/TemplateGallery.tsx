@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { LabelTemplate } from '../types';
-import { PREMIUM_TEMPLATES, downloadTemplatePack, uploadTemplatePack, filterTemplates } from '../services/templateService';
-import { Layout, Download, Upload, Search, Tag, Star, CheckCircle } from 'lucide-react';
+import { PREMIUM_TEMPLATES, downloadTemplatePack, uploadTemplatePack, filterTemplates, loadUserTemplates, saveUserTemplate, removeUserTemplate } from '../services/templateService';
+import { Layout, Download, Upload, Search, Tag, Star, CheckCircle, Trash2 } from 'lucide-react';
 import { useToast } from './ToastProvider';
 
 interface TemplateGalleryProps {
@@ -11,7 +11,8 @@ interface TemplateGalleryProps {
 
 const TemplateGallery: React.FC<TemplateGalleryProps> = ({ onSelectTemplate, currentTemplateId }) => {
     const { success, error } = useToast();
-    const [templates, setTemplates] = useState<LabelTemplate[]>(PREMIUM_TEMPLATES);
+    const [templates, setTemplates] = useState<LabelTemplate[]>(() => [...PREMIUM_TEMPLATES, ...loadUserTemplates()]);
+    const [userTemplateIds, setUserTemplateIds] = useState(() => new Set(loadUserTemplates().map(t => t.id)));
     const [category, setCategory] = useState<string>('all');
     const [search, setSearch] = useState('');
 
@@ -23,7 +24,9 @@ const TemplateGallery: React.FC<TemplateGalleryProps> = ({ onSelectTemplate, cur
     const handleImport = async () => {
         try {
             const imported = await uploadTemplatePack();
+            imported.forEach(saveUserTemplate);
             setTemplates(prev => [...prev, ...imported]);
+            setUserTemplateIds(prev => new Set([...prev, ...imported.map(t => t.id)]));
             success(`Imported ${imported.length} templates!`);
         } catch (e) {
             console.error(e);
@@ -31,6 +34,13 @@ const TemplateGallery: React.FC<TemplateGalleryProps> = ({ onSelectTemplate, cur
         }
     };
 
+    const handleRemove = (e: React.MouseEvent, id: string) => {
+        e.stopPropagation();
+        removeUserTemplate(id);
+        setTemplates(prev => prev.filter(t => t.id !== id));
+        setUserTemplateIds(prev => new Set([...prev].filter(t => t !== id)));
+    };
+
     const handleExport = () => {
         downloadTemplatePack(templates, 'my-collection', {
             author: 'User',
@@ -122,6 +132,11 @@ const TemplateGallery: React.FC<TemplateGalleryProps> = ({ onSelectTemplate, cur
                                 <Layout size={20} />
                             </div>
                             {template.isFavorite && <Star size={14} className="text-yellow-400 fill-yellow-400" />}
+                            {userTemplateIds.has(template.id) && (
+                                <button onClick={e => handleRemove(e, template.id)} className="p-1 text-gray-500 hover:text-red-400" title="Remove from library">
+                                    <Trash2 size={14} />
+                                </button>
+                            )}
                         </div>
 
                         <h3 className="font-bold text-white mb-1">{template.name}</h3>
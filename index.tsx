@@ -5,18 +5,29 @@ import { ToastProvider } from './components/ToastProvider';
 import ErrorBoundary from './components/ErrorBoundary';
 import './styles.css';
 
+// Developer / e2e stand-in for a D30 (?virtualPrinter). Only dev servers and builds made with
+// VITE_VIRTUAL_PRINTER=true load it; production bundles leave the emulator out.
+const setupVirtualPrinter = async () => {
+  if (!import.meta.env.DEV && import.meta.env.VITE_VIRTUAL_PRINTER !== 'true') return;
+  const { isVirtualPrinterRequested, installVirtualPrinter } = await import('./services/virtualPrinter');
+  if (isVirtualPrinterRequested()) installVirtualPrinter();
+};
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <ErrorBoundary>
-      <ToastProvider>
-        <App />
-      </ToastProvider>
-    </ErrorBoundary>
-  </React.StrictMode>
-);
\ No newline at end of file
+// The printer has to be in place before the app tries to reconnect
+setupVirtualPrinter()
+  .catch(e => console.warn("Virtual printer unavailable", e))
+  .then(() => root.render(
+    <React.StrictMode>
+      <ErrorBoundary>
+        <ToastProvider>
+          <App />
+        </ToastProvider>
+      </ErrorBoundary>
+    </React.StrictMode>
+  ));
@@ -0,0 +1,412 @@
+import { BarcodeSymbology } from '../types';
+
+/**
+ * Barcodes
+ * Code 128, EAN-13/UPC-A and DataMatrix (ECC200) encoded to modules. Drawing is left to the
+ * renderer, which sizes every module in whole printer dots so bars stay crisp at 203 DPI.
+ */
+
+export const BARCODE_SYMBOLOGIES: { id: BarcodeSymbology; label: string }[] = [
+    { id: 'code128', label: 'Code 128' },
+    { id: 'ean13', label: 'EAN-13' },
+    { id: 'upca', label: 'UPC-A' },
+    { id: 'datamatrix', label: 'DataMatrix' }
+];
+
+/** Modules are dark where true; quietZone is the blank margin in modules needed on every side */
+export type Barcode =
+    | { kind: 'linear'; modules: boolean[]; quietZone: number }
+    | { kind: 'matrix'; rows: number; cols: number; modules: boolean[][]; quietZone: number };
+
+/**
+ * Thrown for text a symbology cannot hold, or a code that does not fit its box
+ */
+export class BarcodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BarcodeError';
+    }
+}
+
+/** Bar and space widths to modules, starting with a bar */
+const widthsToModules = (widths: string): boolean[] =>
+    widths.split('').flatMap((w, i) => Array<boolean>(parseInt(w)).fill(i % 2 === 0));
+
+// --- Code 128 ---
+
+// Bar/space widths of each symbol value; 103-105 are the start codes, 106 the stop
+const CODE128_PATTERNS = [
+    '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+    '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+    '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+    '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+    '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+    '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+    '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+    '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+    '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+    '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+    '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const CODE_B = 100;
+const CODE_C = 99;
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+/** Number of digits from position i */
+const digitRun = (text: string, i: number) => {
+    let end = i;
+    while (end < text.length && text[end] >= '0' && text[end] <= '9') end++;
+    return end - i;
+};
+
+/**
+ * Symbol values for printable ASCII: code set B, switching to set C (two digits per symbol)
+ * for runs of digits long enough to pay for the switch
+ */
+export const getCode128Values = (text: string): number[] => {
+    if (!text) throw new BarcodeError('Code 128 needs some text');
+    if (!/^[\x20-\x7E]*$/.test(text)) throw new BarcodeError('Code 128 can only hold letters, digits and ASCII punctuation');
+
+    const values: number[] = [];
+    let setC = digitRun(text, 0) >= 4;
+    values.push(setC ? START_C : START_B);
+
+    let i = 0;
+    while (i < text.length) {
+        const run = digitRun(text, i);
+        if (setC) {
+            if (run >= 2) {
+                values.push(parseInt(text.slice(i, i + 2)));
+                i += 2;
+                continue;
+            }
+            values.push(CODE_B);
+            setC = false;
+        }
+        // Worth switching for six digits, or four that end the text; an odd digit goes first in B
+        if (run >= 6 || (run >= 4 && i + run === text.length)) {
+            if (run % 2 === 1) {
+                values.push(text.charCodeAt(i) - 32);
+                i++;
+            }
+            values.push(CODE_C);
+            setC = true;
+            continue;
+        }
+        values.push(text.charCodeAt(i) - 32);
+        i++;
+    }
+
+    const checksum = values.reduce((sum, value, position) => sum + value * Math.max(1, position), 0) % 103;
+    return [...values, checksum, STOP];
+};
+
+export const encodeCode128 = (text: string): Barcode => ({
+    kind: 'linear',
+    modules: getCode128Values(text).flatMap(value => widthsToModules(CODE128_PATTERNS[value])),
+    quietZone: 10
+});
+
+// --- EAN-13 / UPC-A ---
+
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_R = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+// L/G choice for the left half, set by the first digit (which has no bars of its own)
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+/** Check digit for the first 12 digits of an EAN-13 */
+export const getEanCheckDigit = (digits: string) => {
+    const sum = digits.slice(0, 12).split('').reduce((total, d, i) => total + parseInt(d) * (i % 2 === 0 ? 1 : 3), 0);
+    return (10 - (sum % 10)) % 10;
+};
+
+/** EAN-13 from 12 digits (check digit added) or 13 (check digit verified) */
+export const encodeEan13 = (text: string): Barcode => {
+    const digits = text.replace(/[\s-]/g, '');
+    if (!/^\d{12,13}$/.test(digits)) throw new BarcodeError('EAN-13 holds 12 digits, or 13 with the check digit');
+    const check = getEanCheckDigit(digits);
+    if (digits.length === 13 && parseInt(digits[12]) !== check) {
+        throw new BarcodeError(`EAN-13 check digit should be ${check}, not ${digits[12]}`);
+    }
+    const full = digits.slice(0, 12) + check;
+    const parity = EAN_PARITY[parseInt(full[0])];
+
+    let bits = '101';
+    for (let i = 1; i <= 6; i++) bits += (parity[i - 1] === 'L' ? EAN_L : EAN_G)[parseInt(full[i])];
+    bits += '01010';
+    for (let i = 7; i <= 12; i++) bits += EAN_R[parseInt(full[i])];
+    bits += '101';
+
+    return { kind: 'linear', modules: bits.split('').map(b => b === '1'), quietZone: 11 };
+};
+
+/** UPC-A from 11 digits (check digit added) or 12; the bars are an EAN-13 with a leading 0 */
+export const encodeUpcA = (text: string): Barcode => {
+    const digits = text.replace(/[\s-]/g, '');
+    if (!/^\d{11,12}$/.test(digits)) throw new BarcodeError('UPC-A holds 11 digits, or 12 with the check digit');
+    try {
+        return encodeEan13('0' + digits);
+    } catch (e) {
+        if (e instanceof BarcodeError) throw new BarcodeError(e.message.replace('EAN-13', 'UPC-A'));
+        throw e;
+    }
+};
+
+// --- DataMatrix (ECC200) ---
+
+interface DataMatrixSize {
+    rows: number;
+    cols: number;
+    /** Data region size; larger symbols repeat it with finder patterns in between */
+    regionRows: number;
+    regionCols: number;
+    dataCodewords: number;
+    ecCodewords: number;
+}
+
+// Single-block symbols, squares then rectangles (the rectangles suit short, narrow labels)
+const DATAMATRIX_SIZES: DataMatrixSize[] = [
+    { rows: 10, cols: 10, regionRows: 8, regionCols: 8, dataCodewords: 3, ecCodewords: 5 },
+    { rows: 12, cols: 12, regionRows: 10, regionCols: 10, dataCodewords: 5, ecCodewords: 7 },
+    { rows: 14, cols: 14, regionRows: 12, regionCols: 12, dataCodewords: 8, ecCodewords: 10 },
+    { rows: 16, cols: 16, regionRows: 14, regionCols: 14, dataCodewords: 12, ecCodewords: 12 },
+    { rows: 18, cols: 18, regionRows: 16, regionCols: 16, dataCodewords: 18, ecCodewords: 14 },
+    { rows: 20, cols: 20, regionRows: 18, regionCols: 18, dataCodewords: 22, ecCodewords: 18 },
+    { rows: 22, cols: 22, regionRows: 20, regionCols: 20, dataCodewords: 30, ecCodewords: 20 },
+    { rows: 24, cols: 24, regionRows: 22, regionCols: 22, dataCodewords: 36, ecCodewords: 24 },
+    { rows: 26, cols: 26, regionRows: 24, regionCols: 24, dataCodewords: 44, ecCodewords: 28 },
+    { rows: 32, cols: 32, regionRows: 14, regionCols: 14, dataCodewords: 62, ecCodewords: 36 },
+    { rows: 36, cols: 36, regionRows: 16, regionCols: 16, dataCodewords: 86, ecCodewords: 42 },
+    { rows: 40, cols: 40, regionRows: 18, regionCols: 18, dataCodewords: 114, ecCodewords: 48 },
+    { rows: 44, cols: 44, regionRows: 20, regionCols: 20, dataCodewords: 144, ecCodewords: 56 },
+    { rows: 8, cols: 18, regionRows: 6, regionCols: 16, dataCodewords: 5, ecCodewords: 7 },
+    { rows: 8, cols: 32, regionRows: 6, regionCols: 14, dataCodewords: 10, ecCodewords: 11 },
+    { rows: 12, cols: 26, regionRows: 10, regionCols: 24, dataCodewords: 16, ecCodewords: 14 },
+    { rows: 12, cols: 36, regionRows: 10, regionCols: 16, dataCodewords: 22, ecCodewords: 18 },
+    { rows: 16, cols: 36, regionRows: 14, regionCols: 16, dataCodewords: 32, ecCodewords: 24 },
+    { rows: 16, cols: 48, regionRows: 14, regionCols: 22, dataCodewords: 49, ecCodewords: 28 }
+];
+
+/** ASCII encodation: digit pairs share a codeword, bytes above 127 take an upper shift */
+export const getDataMatrixCodewords = (text: string): number[] => {
+    const bytes = new TextEncoder().encode(text);
+    const isDigit = (b: number) => b >= 0x30 && b <= 0x39;
+    const codewords: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+        const b = bytes[i];
+        if (isDigit(b) && i + 1 < bytes.length && isDigit(bytes[i + 1])) {
+            codewords.push(130 + (b - 0x30) * 10 + (bytes[i + 1] - 0x30));
+            i++;
+        } else if (b > 127) {
+            codewords.push(235, b - 127);
+        } else {
+            codewords.push(b + 1);
+        }
+    }
+    return codewords;
+};
+
+// GF(256) over x^8 + x^5 + x^3 + x^2 + 1
+const GF_EXP: number[] = [];
+const GF_LOG: number[] = [];
+for (let i = 0, x = 1; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x12D;
+}
+const gfMultiply = (a: number, b: number) => (a === 0 || b === 0 ? 0 : GF_EXP[(GF_LOG[a] + GF_LOG[b]) % 255]);
+
+/** Reed-Solomon error correction codewords for the data */
+export const getReedSolomonCodewords = (data: number[], count: number): number[] => {
+    // Generator with roots a^1..a^count, highest power first
+    let generator = [1];
+    for (let i = 1; i <= count; i++) {
+        const next = Array<number>(generator.length + 1).fill(0);
+        generator.forEach((g, j) => {
+            next[j] ^= g;
+            next[j + 1] ^= gfMultiply(g, GF_EXP[i]);
+        });
+        generator = next;
+    }
+
+    const remainder = Array<number>(count).fill(0);
+    for (const codeword of data) {
+        const factor = codeword ^ remainder[0];
+        remainder.shift();
+        remainder.push(0);
+        for (let j = 0; j < count; j++) remainder[j] ^= gfMultiply(generator[j + 1], factor);
+    }
+    return remainder;
+};
+
+/**
+ * Module order of the codeword bits in the data area (ISO/IEC 16022 annex F): each cell holds
+ * codeword * 8 + bit (bit 0 the most significant), -1 for the fixed corner pattern's dark cells,
+ * -2 for its light ones
+ */
+const getPlacement = (rows: number, cols: number): number[] => {
+    const cells = Array<number>(rows * cols).fill(-3);
+
+    const place = (row: number, col: number, codeword: number, bit: number) => {
+        if (row < 0) {
+            row += rows;
+            col += 4 - ((rows + 4) % 8);
+        }
+        if (col < 0) {
+            col += cols;
+            row += 4 - ((cols + 4) % 8);
+        }
+        cells[row * cols + col] = codeword * 8 + bit;
+    };
+    const utah = (row: number, col: number, codeword: number) => {
+        place(row - 2, col - 2, codeword, 0);
+        place(row - 2, col - 1, codeword, 1);
+        place(row - 1, col - 2, codeword, 2);
+        place(row - 1, col - 1, codeword, 3);
+        place(row - 1, col, codeword, 4);
+        place(row, col - 2, codeword, 5);
+        place(row, col - 1, codeword, 6);
+        place(row, col, codeword, 7);
+    };
+    const corner = (codeword: number, positions: [number, number][]) =>
+        positions.forEach(([row, col], bit) => place(row, col, codeword, bit));
+
+    let codeword = 0;
+    let row = 4;
+    let col = 0;
+    do {
+        if (row === rows && col === 0) {
+            corner(codeword++, [[rows - 1, 0], [rows - 1, 1], [rows - 1, 2], [0, cols - 2], [0, cols - 1], [1, cols - 1], [2, cols - 1], [3, cols - 1]]);
+        }
+        if (row === rows - 2 && col === 0 && cols % 4 !== 0) {
+            corner(codeword++, [[rows - 3, 0], [rows - 2, 0], [rows - 1, 0], [0, cols - 4], [0, cols - 3], [0, cols - 2], [0, cols - 1], [1, cols - 1]]);
+        }
+        if (row === rows - 2 && col === 0 && cols % 8 === 4) {
+            corner(codeword++, [[rows - 3, 0], [rows - 2, 0], [rows - 1, 0], [0, cols - 2], [0, cols - 1], [1, cols - 1], [2, cols - 1], [3, cols - 1]]);
+        }
+        if (row === rows + 4 && col === 2 && cols % 8 === 0) {
+            corner(codeword++, [[rows - 1, 0], [rows - 1, cols - 1], [0, cols - 3], [0, cols - 2], [0, cols - 1], [1, cols - 3], [1, cols - 2], [1, cols - 1]]);
+        }
+        // Diagonal up and to the right, then down and to the left
+        do {
+            if (row < rows && col >= 0 && cells[row * cols + col] === -3) utah(row, col, codeword++);
+            row -= 2;
+            col += 2;
+        } while (row >= 0 && col < cols);
+        row += 1;
+        col += 3;
+        do {
+            if (row >= 0 && col < cols && cells[row * cols + col] === -3) utah(row, col, codeword++);
+            row += 2;
+            col -= 2;
+        } while (row < rows && col >= 0);
+        row += 3;
+        col += 1;
+    } while (row < rows || col < cols);
+
+    // Sizes whose area is not a whole number of codewords end with a fixed pattern
+    if (cells[rows * cols - 1] === -3) {
+        for (let r = rows - 2; r < rows; r++) {
+            for (let c = cols - 2; c < cols; c++) cells[r * cols + c] = (r - c === rows - cols) ? -1 : -2;
+        }
+    }
+    return cells;
+};
+
+/**
+ * DataMatrix for the text. With a box (in any unit) the symbol that gets the biggest modules
+ * in it is used, so short labels get a rectangle; otherwise the smallest square.
+ */
+export const encodeDataMatrix = (text: string, box?: { width: number; height: number }): Barcode => {
+    if (!text) throw new BarcodeError('DataMatrix needs some text');
+    const data = getDataMatrixCodewords(text);
+    const candidates = DATAMATRIX_SIZES.filter(s => s.dataCodewords >= data.length && (box || s.rows === s.cols));
+    if (candidates.length === 0) {
+        throw new BarcodeError(`Too long for DataMatrix: ${data.length} codewords, at most ${DATAMATRIX_SIZES[12].dataCodewords}`);
+    }
+    const moduleSize = (s: DataMatrixSize) => box ? Math.min(box.width / (s.cols + 2), box.height / (s.rows + 2)) : 0;
+    const size = candidates.reduce((best, s) => {
+        const difference = moduleSize(s) - moduleSize(best);
+        return difference > 0 || (difference === 0 && s.rows * s.cols < best.rows * best.cols) ? s : best;
+    });
+
+    // Pad to capacity: one 129, then pseudo-random pads
+    const padded = [...data];
+    if (padded.length < size.dataCodewords) padded.push(129);
+    while (padded.length < size.dataCodewords) {
+        const pad = 129 + ((149 * (padded.length + 1)) % 253) + 1;
+        padded.push(pad > 254 ? pad - 254 : pad);
+    }
+    const codewords = [...padded, ...getReedSolomonCodewords(padded, size.ecCodewords)];
+
+    // Data area without the finder patterns, then split into regions
+    const regionsDown = size.rows / (size.regionRows + 2);
+    const regionsAcross = size.cols / (size.regionCols + 2);
+    const areaRows = regionsDown * size.regionRows;
+    const areaCols = regionsAcross * size.regionCols;
+    const placement = getPlacement(areaRows, areaCols);
+
+    const modules = Array.from({ length: size.rows }, () => Array<boolean>(size.cols).fill(false));
+    for (let r = 0; r < areaRows; r++) {
+        for (let c = 0; c < areaCols; c++) {
+            const cell = placement[r * areaCols + c];
+            const dark = cell === -1 || (cell >= 0 && ((codewords[cell >> 3] >> (7 - (cell & 7))) & 1) === 1);
+            modules[r + 2 * Math.floor(r / size.regionRows) + 1][c + 2 * Math.floor(c / size.regionCols) + 1] = dark;
+        }
+    }
+    // Finder pattern around each region: solid left and bottom, alternating top and right
+    for (let r = 0; r < size.rows; r++) {
+        for (let c = 0; c < size.cols; c++) {
+            const regionRow = r % (size.regionRows + 2);
+            const regionCol = c % (size.regionCols + 2);
+            if (regionCol === 0 || regionRow === size.regionRows + 1) modules[r][c] = true;
+            else if (regionRow === 0) modules[r][c] = regionCol % 2 === 0;
+            else if (regionCol === size.regionCols + 1) modules[r][c] = regionRow % 2 === 1;
+        }
+    }
+
+    return { kind: 'matrix', rows: size.rows, cols: size.cols, modules, quietZone: 1 };
+};
+
+// --- Sizing ---
+
+export const encodeBarcode = (symbology: BarcodeSymbology, text: string, box?: { width: number; height: number }): Barcode => {
+    switch (symbology) {
+        case 'ean13': return encodeEan13(text);
+        case 'upca': return encodeUpcA(text);
+        case 'datamatrix': return encodeDataMatrix(text, box);
+        default: return encodeCode128(text);
+    }
+};
+
+/** Modules across and down, quiet zones included */
+export const getBarcodeModules = (barcode: Barcode) => barcode.kind === 'linear'
+    ? { across: barcode.modules.length + 2 * barcode.quietZone, down: 0 }
+    : { across: barcode.cols + 2 * barcode.quietZone, down: barcode.rows + 2 * barcode.quietZone };
+
+export interface BarcodeFit {
+    barcode: Barcode;
+    /** Printer dots per module */
+    moduleDots: number;
+}
+
+/**
+ * The code for the text at the most whole dots per module that fit the box (in printer dots);
+ * throws BarcodeError if the text cannot be encoded or does not fit at one dot per module
+ */
+export const fitBarcode = (symbology: BarcodeSymbology, text: string, widthDots: number, heightDots: number): BarcodeFit => {
+    const barcode = encodeBarcode(symbology, text, { width: widthDots, height: heightDots });
+    const { across, down } = getBarcodeModules(barcode);
+    const moduleDots = Math.floor(Math.min(widthDots / across, down ? heightDots / down : Infinity));
+    if (moduleDots < 1 || (barcode.kind === 'linear' && heightDots < 1)) {
+        const name = BARCODE_SYMBOLOGIES.find(s => s.id === symbology)?.label || symbology;
+        const needed = barcode.kind === 'linear' ? `${across} dots wide` : `${across}x${down} dots`;
+        throw new BarcodeError(`${name} for "${text}" needs ${needed}; the box is ${widthDots}x${heightDots}`);
+    }
+    return { barcode, moduleDots };
+};
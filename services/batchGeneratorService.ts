@@ -1,6 +1,8 @@
 import { FilamentData, HistoryEntry, PrintJob, AdvancedPrintSettings, PrintSettings } from '../types';
 import { recommendLayout, recommendPrintSettings } from './smartLayoutService';
+import { isLabelStock } from './labelStock';
 import { analyzeBatchContent } from './smartLayoutService';
+import { estimateLabelPrint } from './printEstimator';
 
 /**
  * Batch Label Generator
@@ -75,6 +77,7 @@ export const generateBatchJobs = (
     // Generate print jobs
     const jobs: PrintJob[] = [];
     let totalEstimatedTime = 0;
+    let estimatedLengthMm = 0;
     const labelsBySize = new Map<string, number>();
 
     groups.forEach((filamentGroup, groupKey) => {
@@ -88,7 +91,7 @@ export const generateBatchJobs = (
                     copies: 1,
                     includeQr: options.includeQrCodes,
                     speed: 3, // Medium speed for batch
-                    labelType: 'gap',
+                    labelType: isLabelStock(recommendation.preset) ? recommendation.preset.labelType : 'gap',
                     justification: 'center',
                     autoCalibrate: false,
                     qualityMode: 'normal',
@@ -113,18 +116,20 @@ export const generateBatchJobs = (
                     heightMm: recommendation.preset.heightMm
                 };
 
+            const estimate = estimateLabelPrint(recommendation.preset.widthMm, recommendation.preset.heightMm, baseSettings);
             const job: PrintJob = {
                 id: `batch-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
                 label: filament,
                 settings: baseSettings,
                 status: 'queued',
                 progress: 0,
-                estimatedTime: estimatePrintTime(recommendation.preset),
+                estimatedTime: Math.round(estimate.seconds),
                 createdAt: Date.now()
             };
 
             jobs.push(job);
             totalEstimatedTime += job.estimatedTime;
+            estimatedLengthMm += estimate.tapeMm;
 
             // Track label sizes
             const size = `${recommendation.preset.widthMm}x${recommendation.preset.heightMm}`;
@@ -132,9 +137,6 @@ export const generateBatchJobs = (
         });
     });
 
-    // Calculate paper usage
-    const estimatedLengthMm = calculatePaperUsage(labelsBySize);
-
     if (options.autoRecommendSettings) {
         optimizations.push('AI-recommended optimal label sizes and themes for each filament');
     }
@@ -155,33 +157,6 @@ export const generateBatchJobs = (
     };
 };
 
-/**
- * Estimate print time for a label
- */
-const estimatePrintTime = (preset: any): number => {
-    // Base time: 5 seconds
-    // Add time based on label area
-    const area = preset.widthMm * preset.heightMm;
-    const areaFactor = area / 500; // Normalize to ~500mm² base
-
-    return Math.round(5 + (areaFactor * 3)); // 5-15 seconds typical
-};
-
-/**
- * Calculate total paper usage
- */
-const calculatePaperUsage = (labelsBySize: Map<string, number>): number => {
-    let totalMm = 0;
-
-    labelsBySize.forEach((count, size) => {
-        const [width, height] = size.split('x').map(Number);
-        // Use height (length along paper roll) + small gap
-        totalMm += (height + 5) * count; // 5mm gap between labels
-    });
-
-    return totalMm;
-};
-
 /**
  * Generate smart batch name suggestion
  */
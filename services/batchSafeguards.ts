@@ -0,0 +1,117 @@
+import { PrintJob } from '../types';
+import { getRegisteredPrinter } from './printerRegistry';
+import { loadTelemetry, getBatteryDrainPerLabel, getRollForecast } from './printTelemetry';
+import { getRasterSize, getTapeLengthMm, getTapeStripRasters } from './printEstimator';
+import { LOW_BATTERY_PERCENT } from './printerDrivers';
+import { TapeLayoutOptions } from './tapeLayout';
+
+/**
+ * Batch Safeguards
+ * Before a batch starts, the printer's battery and the tape left on its roll are compared
+ * with what the batch will use, so it can be split, forced or cancelled instead of dying halfway.
+ */
+
+// Percent per label until telemetry has measured the printer
+const DEFAULT_DRAIN_PER_LABEL = 0.25;
+
+/** What one job (or one tape strip) uses */
+export interface JobNeed {
+    labels: number;
+    tapeMm: number;
+}
+
+export interface BatchResources {
+    /** Current level in percent, null when the printer cannot be read */
+    battery: number | null;
+    /** Measured percent per label, null before any readings */
+    drainPerLabel: number | null;
+    /** null when no roll has been marked as loaded */
+    rollRemainingMm: number | null;
+}
+
+export interface BatchIssue {
+    kind: 'battery' | 'roll';
+    message: string;
+}
+
+export interface BatchCheck {
+    issues: BatchIssue[];
+    /** Leading needs (jobs, or strips) that can print with what is left (all of them when there are no issues) */
+    fitJobs: number;
+}
+
+export const getJobNeed = (job: PrintJob): JobNeed => {
+    const copies = job.settings.copies || 1;
+    const raster = getRasterSize(job.settings.widthMm || 40, job.settings.heightMm || 30, job.settings.rotation);
+    return { labels: copies, tapeMm: getTapeLengthMm(raster, job.settings.labelType, copies) };
+};
+
+/** One need per tape strip the jobs print as: the strip's tape, not a feed per label. Copies are not repeated on strips */
+export const getTapeStripNeeds = (jobs: PrintJob[], layout: TapeLayoutOptions): JobNeed[] =>
+    getTapeStripRasters(jobs.map(job => ({ widthMm: job.settings.widthMm || 40, heightMm: job.settings.heightMm || 30 })), layout)
+        .map(strip => ({ labels: strip.labels, tapeMm: getTapeLengthMm(strip.raster, 'continuous') }));
+
+/**
+ * Battery drain and roll remaining from the printer's telemetry and registry entry.
+ * The battery level itself has to be read from the printer by the caller.
+ */
+export const getBatchResources = (printerId: string | undefined, battery: number | null): BatchResources => {
+    if (!printerId) return { battery, drainPerLabel: null, rollRemainingMm: null };
+    const records = loadTelemetry(printerId);
+    const roll = getRegisteredPrinter(printerId)?.roll;
+    return {
+        battery,
+        drainPerLabel: getBatteryDrainPerLabel(records),
+        rollRemainingMm: roll ? getRollForecast(records, roll).remainingMm : null
+    };
+};
+
+const formatLength = (mm: number) => mm >= 1000 ? `${(mm / 1000).toFixed(1)} m` : `${Math.round(mm / 10)} cm`;
+
+/** Number of leading jobs whose running total stays within the budget */
+const countFitting = (needs: JobNeed[], budget: number, use: (need: JobNeed) => number) => {
+    let used = 0;
+    for (const [index, need] of needs.entries()) {
+        used += use(need);
+        if (used > budget) return index;
+    }
+    return needs.length;
+};
+
+/**
+ * Compare a batch against the battery and roll. Unknown resources are not checked.
+ */
+export const checkBatch = (needs: JobNeed[], resources: BatchResources): BatchCheck => {
+    const issues: BatchIssue[] = [];
+    const totalLabels = needs.reduce((sum, n) => sum + n.labels, 0);
+    const labelsIn = (jobs: number) => needs.slice(0, jobs).reduce((sum, n) => sum + n.labels, 0);
+    let fitJobs = needs.length;
+
+    if (resources.battery !== null) {
+        const drain = resources.drainPerLabel || DEFAULT_DRAIN_PER_LABEL;
+        const budget = Math.max(0, resources.battery - LOW_BATTERY_PERCENT);
+        const fits = countFitting(needs, budget, n => n.labels * drain);
+        if (fits < needs.length) {
+            issues.push({
+                kind: 'battery',
+                message: resources.battery <= LOW_BATTERY_PERCENT
+                    ? `Battery at ${resources.battery}% is too low to print safely`
+                    : `Battery at ${resources.battery}% lasts about ${labelsIn(fits)} of ${totalLabels} labels`
+            });
+            fitJobs = Math.min(fitJobs, fits);
+        }
+    }
+
+    if (resources.rollRemainingMm !== null) {
+        const fits = countFitting(needs, resources.rollRemainingMm, n => n.tapeMm);
+        if (fits < needs.length) {
+            issues.push({
+                kind: 'roll',
+                message: `About ${formatLength(resources.rollRemainingMm)} left on the roll, enough for ${labelsIn(fits)} of ${totalLabels} labels`
+            });
+            fitJobs = Math.min(fitJobs, fits);
+        }
+    }
+
+    return { issues, fitJobs };
+};
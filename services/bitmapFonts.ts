@@ -0,0 +1,456 @@
+/**
+ * Bitmap Fonts
+ * Hand-drawn fonts for text too small for vector glyphs at 203 DPI, where antialiasing leaves
+ * the dither pass nothing but grey. Glyphs are one dot per pixel, so they print exactly as drawn.
+ * Accented letters are built from a base glyph and a mark (É is E with an acute above).
+ */
+
+export type BitmapFontName = 'regular' | 'condensed' | 'small';
+
+interface BitmapFont {
+    /** Rows from the top of the capitals to the baseline; glyph rows past this are descenders */
+    capHeight: number;
+    /** Rows of lowercase letters; marks on lowercase sit in the rows above */
+    xHeight: number;
+    spaceWidth: number;
+    /** Lowercase text is drawn in capitals */
+    capitalsOnly?: boolean;
+    /** Glyphs as rows of # (ink) and . separated by spaces */
+    glyphs: Record<string, string>;
+    /** Font to borrow missing glyphs from */
+    fallback?: BitmapFontName;
+}
+
+/** Vector text this many printer dots tall or less is drawn with a bitmap font instead */
+export const BITMAP_FONT_MAX_PX = 8;
+
+/** Preferred order: the narrower fonts are for text that does not fit */
+export const BITMAP_FONT_ORDER: BitmapFontName[] = ['regular', 'condensed', 'small'];
+
+// 5x7, the classic LCD shapes
+const REGULAR: BitmapFont = {
+    capHeight: 7,
+    xHeight: 5,
+    spaceWidth: 3,
+    glyphs: {
+        '0': '.###. #...# #..## #.#.# ##..# #...# .###.',
+        '1': '..#.. .##.. ..#.. ..#.. ..#.. ..#.. .###.',
+        '2': '.###. #...# ....# ...#. ..#.. .#... #####',
+        '3': '##### ...#. ..#.. ...#. ....# #...# .###.',
+        '4': '...#. ..##. .#.#. #..#. ##### ...#. ...#.',
+        '5': '##### #.... ####. ....# ....# #...# .###.',
+        '6': '..##. .#... #.... ####. #...# #...# .###.',
+        '7': '##### ....# ...#. ..#.. .#... .#... .#...',
+        '8': '.###. #...# #...# .###. #...# #...# .###.',
+        '9': '.###. #...# #...# .#### ....# ...#. .##..',
+        'A': '.###. #...# #...# #...# ##### #...# #...#',
+        'B': '####. #...# #...# ####. #...# #...# ####.',
+        'C': '.###. #...# #.... #.... #.... #...# .###.',
+        'D': '###.. #..#. #...# #...# #...# #..#. ###..',
+        'E': '##### #.... #.... ####. #.... #.... #####',
+        'F': '##### #.... #.... ####. #.... #.... #....',
+        'G': '.###. #...# #.... #.### #...# #...# .####',
+        'H': '#...# #...# #...# ##### #...# #...# #...#',
+        'I': '### .#. .#. .#. .#. .#. ###',
+        'J': '..### ...#. ...#. ...#. ...#. #..#. .##..',
+        'K': '#...# #..#. #.#.. ##... #.#.. #..#. #...#',
+        'L': '#.... #.... #.... #.... #.... #.... #####',
+        'M': '#...# ##.## #.#.# #.#.# #...# #...# #...#',
+        'N': '#...# #...# ##..# #.#.# #..## #...# #...#',
+        'O': '.###. #...# #...# #...# #...# #...# .###.',
+        'P': '####. #...# #...# ####. #.... #.... #....',
+        'Q': '.###. #...# #...# #...# #.#.# #..#. .##.#',
+        'R': '####. #...# #...# ####. #.#.. #..#. #...#',
+        'S': '.#### #.... #.... .###. ....# ....# ####.',
+        'T': '##### ..#.. ..#.. ..#.. ..#.. ..#.. ..#..',
+        'U': '#...# #...# #...# #...# #...# #...# .###.',
+        'V': '#...# #...# #...# #...# #...# .#.#. ..#..',
+        'W': '#...# #...# #...# #.#.# #.#.# #.#.# .#.#.',
+        'X': '#...# #...# .#.#. ..#.. .#.#. #...# #...#',
+        'Y': '#...# #...# .#.#. ..#.. ..#.. ..#.. ..#..',
+        'Z': '##### ....# ...#. ..#.. .#... #.... #####',
+        'a': '..... ..... .###. ....# .#### #...# .####',
+        'b': '#.... #.... #.##. ##..# #...# #...# ####.',
+        'c': '..... ..... .###. #.... #.... #...# .###.',
+        'd': '....# ....# .##.# #..## #...# #...# .####',
+        'e': '..... ..... .###. #...# ##### #.... .###.',
+        'f': '..## .#.. .#.. ###. .#.. .#.. .#..',
+        'g': '..... ..... .#### #...# #...# #...# .#### ....# .###.',
+        'h': '#.... #.... #.##. ##..# #...# #...# #...#',
+        'i': '.#. ... ##. .#. .#. .#. ###',
+        'j': '...# .... ..## ...# ...# ...# ...# #..# .##.',
+        'k': '#... #... #..# #.#. ##.. #.#. #..#',
+        'l': '##. .#. .#. .#. .#. .#. ###',
+        'm': '..... ..... ##.#. #.#.# #.#.# #.#.# #.#.#',
+        'n': '..... ..... #.##. ##..# #...# #...# #...#',
+        'o': '..... ..... .###. #...# #...# #...# .###.',
+        'p': '..... ..... ####. #...# #...# #...# ####. #.... #....',
+        'q': '..... ..... .#### #...# #...# #...# .#### ....# ....#',
+        'r': '..... ..... #.##. ##..# #.... #.... #....',
+        's': '..... ..... .###. #.... .###. ....# ####.',
+        't': '.#.. .#.. ###. .#.. .#.. .#.# ..#.',
+        'u': '..... ..... #...# #...# #...# #..## .##.#',
+        'v': '..... ..... #...# #...# #...# .#.#. ..#..',
+        'w': '..... ..... #...# #...# #.#.# #.#.# .#.#.',
+        'x': '..... ..... #...# .#.#. ..#.. .#.#. #...#',
+        'y': '..... ..... #...# #...# #...# #...# .#### ....# .###.',
+        'z': '..... ..... ##### ...#. ..#.. .#... #####',
+        '.': '. . . . . . #',
+        ',': '.. .. .. .. .. .# .# #.',
+        ':': '. . # . . # .',
+        ';': '.. .. .# .. .. .# .# #.',
+        '!': '# # # # # . #',
+        '?': '.###. #...# ....# ...#. ..#.. ..... ..#..',
+        "'": '# # . . . . .',
+        '"': '#.# #.# ... ... ... ... ...',
+        '-': '.... .... .... #### .... .... ....',
+        '+': '..... ..#.. ..#.. ##### ..#.. ..#.. .....',
+        '=': '..... ..... ##### ..... ##### ..... .....',
+        '*': '..... ..#.. #.#.# .###. #.#.# ..#.. .....',
+        '/': '....# ....# ...#. ..#.. .#... #.... #....',
+        '\\': '#.... #.... .#... ..#.. ...#. ....# ....#',
+        '|': '# # # # # # #',
+        '_': '..... ..... ..... ..... ..... ..... #####',
+        '(': '..# .#. #.. #.. #.. .#. ..#',
+        ')': '#.. .#. ..# ..# ..# .#. #..',
+        '[': '## #. #. #. #. #. ##',
+        ']': '## .# .# .# .# .# ##',
+        '{': '..# .#. .#. #.. .#. .#. ..#',
+        '}': '#.. .#. .#. ..# .#. .#. #..',
+        '<': '...# ..#. .#.. #... .#.. ..#. ...#',
+        '>': '#... .#.. ..#. ...# ..#. .#.. #...',
+        '%': '##... ##..# ...#. ..#.. .#... #..## ...##',
+        '#': '.#.#. .#.#. ##### .#.#. ##### .#.#. .#.#.',
+        '&': '.##.. #..#. #.#.. .#... #.#.# #..#. .##.#',
+        '@': '.###. #...# ....# .##.# #.#.# #.#.# .###.',
+        '$': '..#.. .#### #.#.. .###. ..#.# ####. ..#..',
+        '^': '..#.. .#.#. #...# ..... ..... ..... .....',
+        '~': '..... ..... .#... #.#.# ...#. ..... .....',
+        '`': '#. .# .. .. .. .. ..',
+        '°': '.#. #.# .#. ... ... ... ...',
+        '·': '. . . # . . .',
+        '±': '..#.. ..#.. ##### ..#.. ..#.. ..... #####',
+        '€': '..### .#... ####. .#... ####. .#... ..###',
+        'ß': '.##.. #..#. #..#. #.##. #...# #...# #.##.',
+        'Ø': '.###. #..## #.#.# #.#.# #.#.# ##..# .###.',
+        'ø': '..... ..... .###. #..## #.#.# ##..# .###.',
+        'Æ': '.#### #.#.. #.#.. ##### #.#.. #.#.. #.###',
+        'æ': '..... ..... ##.#. ..#.# .#### #.#.. .#.##',
+        'Ł': '#.... #.... #.#.. ##... #.... #.... #####',
+        'ł': '##.. .#.. .##. ##.. .#.. .#.. ###.'
+    }
+};
+
+// Three dots wide where the shape allows, for names that do not fit in regular
+const CONDENSED: BitmapFont = {
+    capHeight: 7,
+    xHeight: 5,
+    spaceWidth: 2,
+    fallback: 'regular',
+    glyphs: {
+        '0': '.#. #.# #.# #.# #.# #.# .#.',
+        '1': '.#. ##. .#. .#. .#. .#. ###',
+        '2': '##. ..# ..# .#. #.. #.. ###',
+        '3': '##. ..# ..# .#. ..# ..# ##.',
+        '4': '#.# #.# #.# ### ..# ..# ..#',
+        '5': '### #.. #.. ##. ..# ..# ##.',
+        '6': '.## #.. #.. ##. #.# #.# .#.',
+        '7': '### ..# ..# .#. .#. #.. #..',
+        '8': '.#. #.# #.# .#. #.# #.# .#.',
+        '9': '.#. #.# #.# .## ..# ..# ##.',
+        'A': '.#. #.# #.# ### #.# #.# #.#',
+        'B': '##. #.# #.# ##. #.# #.# ##.',
+        'C': '.## #.. #.. #.. #.. #.. .##',
+        'D': '##. #.# #.# #.# #.# #.# ##.',
+        'E': '### #.. #.. ##. #.. #.. ###',
+        'F': '### #.. #.. ##. #.. #.. #..',
+        'G': '.## #.. #.. #.# #.# #.# .##',
+        'H': '#.# #.# #.# ### #.# #.# #.#',
+        'I': '### .#. .#. .#. .#. .#. ###',
+        'J': '..# ..# ..# ..# ..# #.# .#.',
+        'K': '#.# #.# ##. #.. ##. #.# #.#',
+        'L': '#.. #.. #.. #.. #.. #.. ###',
+        'N': '#..# ##.# ##.# #.## #.## #..# #..#',
+        'O': '.#. #.# #.# #.# #.# #.# .#.',
+        'P': '##. #.# #.# ##. #.. #.. #..',
+        'Q': '.#. #.# #.# #.# #.# ##. .##',
+        'R': '##. #.# #.# ##. #.# #.# #.#',
+        'S': '.## #.. #.. .#. ..# ..# ##.',
+        'T': '### .#. .#. .#. .#. .#. .#.',
+        'U': '#.# #.# #.# #.# #.# #.# .#.',
+        'V': '#.# #.# #.# #.# #.# .#. .#.',
+        'X': '#.# #.# #.# .#. #.# #.# #.#',
+        'Y': '#.# #.# #.# .#. .#. .#. .#.',
+        'Z': '### ..# ..# .#. #.. #.. ###',
+        'a': '... ... ##. ..# .## #.# .##',
+        'b': '#.. #.. ##. #.# #.# #.# ##.',
+        'c': '... ... .## #.. #.. #.. .##',
+        'd': '..# ..# .## #.# #.# #.# .##',
+        'e': '... ... .#. #.# ### #.. .##',
+        'f': '.## #.. ##. #.. #.. #.. #..',
+        'g': '... ... .## #.# #.# #.# .## ..# ##.',
+        'h': '#.. #.. ##. #.# #.# #.# #.#',
+        'i': '# . # # # # #',
+        'j': '.# .. .# .# .# .# .# .# #.',
+        'k': '#.. #.. #.# #.# ##. #.# #.#',
+        'l': '#. #. #. #. #. #. .#',
+        'm': '..... ..... ####. #.#.# #.#.# #.#.# #.#.#',
+        'n': '... ... ##. #.# #.# #.# #.#',
+        'o': '... ... .#. #.# #.# #.# .#.',
+        'p': '... ... ##. #.# #.# #.# ##. #.. #..',
+        'q': '... ... .## #.# #.# #.# .## ..# ..#',
+        'r': '... ... #.# ##. #.. #.. #..',
+        's': '... ... .## #.. .#. ..# ##.',
+        't': '.#. .#. ### .#. .#. .#. ..#',
+        'u': '... ... #.# #.# #.# #.# .##',
+        'v': '... ... #.# #.# #.# .#. .#.',
+        'x': '... ... #.# #.# .#. #.# #.#',
+        'y': '... ... #.# #.# #.# #.# .## ..# ##.',
+        'z': '... ... ### ..# .#. #.. ###',
+        '-': '... ... ... ### ... ... ...',
+        '+': '... ... .#. ### .#. ... ...',
+        '=': '... ... ### ... ### ... ...',
+        '*': '... #.# .#. ### .#. #.# ...',
+        '/': '..# ..# .#. .#. .#. #.. #..',
+        '%': '#.# ..# .#. .#. .#. #.. #.#',
+        '?': '##. ..# ..# .#. .#. ... .#.',
+        '<': '... ..# .#. #.. .#. ..# ...',
+        '>': '... #.. .#. ..# .#. #.. ...',
+        '_': '... ... ... ... ... ... ###',
+        'ß': '.#. #.# #.# ##. #.# #.# ##.',
+        'Ø': '.## #.# #.# ### #.# #.# ##.',
+        'ø': '... ... .## #.# ### #.# ##.'
+    }
+};
+
+// 3x5 capitals, for lines only five or six dots tall
+const SMALL: BitmapFont = {
+    capHeight: 5,
+    xHeight: 5,
+    spaceWidth: 2,
+    capitalsOnly: true,
+    glyphs: {
+        '0': '### #.# #.# #.# ###',
+        '1': '.#. ##. .#. .#. ###',
+        '2': '##. ..# .#. #.. ###',
+        '3': '##. ..# .#. ..# ##.',
+        '4': '#.# #.# ### ..# ..#',
+        '5': '### #.. ##. ..# ##.',
+        '6': '.## #.. ### #.# ###',
+        '7': '### ..# .#. .#. .#.',
+        '8': '### #.# ### #.# ###',
+        '9': '### #.# ### ..# ##.',
+        'A': '.#. #.# ### #.# #.#',
+        'B': '##. #.# ##. #.# ##.',
+        'C': '.## #.. #.. #.. .##',
+        'D': '##. #.# #.# #.# ##.',
+        'E': '### #.. ### #.. ###',
+        'F': '### #.. ### #.. #..',
+        'G': '.## #.. #.# #.# .##',
+        'H': '#.# #.# ### #.# #.#',
+        'I': '### .#. .#. .#. ###',
+        'J': '..# ..# ..# #.# .#.',
+        'K': '#.# #.# ##. #.# #.#',
+        'L': '#.. #.. #.. #.. ###',
+        'M': '#...# ##.## #.#.# #...# #...#',
+        'N': '#..# ##.# #.## #..# #..#',
+        'O': '.#. #.# #.# #.# .#.',
+        'P': '##. #.# ##. #.. #..',
+        'Q': '.#. #.# #.# ##. .##',
+        'R': '##. #.# ##. #.# #.#',
+        'S': '.## #.. .#. ..# ##.',
+        'T': '### .#. .#. .#. .#.',
+        'U': '#.# #.# #.# #.# ###',
+        'V': '#.# #.# #.# .#. .#.',
+        'W': '#...# #...# #.#.# ##.## #...#',
+        'X': '#.# #.# .#. #.# #.#',
+        'Y': '#.# #.# .#. .#. .#.',
+        'Z': '### ..# .#. #.. ###',
+        '.': '. . . . #',
+        ',': '.. .. .. .# .# #.',
+        ':': '. # . # .',
+        '!': '# # # . #',
+        '?': '##. ..# .#. ... .#.',
+        "'": '# # . . .',
+        '"': '#.# #.# ... ... ...',
+        '-': '... ... ### ... ...',
+        '+': '... .#. ### .#. ...',
+        '=': '... ### ... ### ...',
+        '/': '..# ..# .#. #.. #..',
+        '|': '# # # # #',
+        '_': '... ... ... ... ###',
+        '(': '.# #. #. #. .#',
+        ')': '#. .# .# .# #.',
+        '%': '#.# ..# .#. #.. #.#',
+        '#': '#.# ### #.# ### #.#',
+        '°': '.#. #.# .#. ... ...',
+        'Ø': '.## #.# ### #.# ##.'
+    }
+};
+
+export const BITMAP_FONTS: Record<BitmapFontName, BitmapFont> = { regular: REGULAR, condensed: CONDENSED, small: SMALL };
+
+// Typographic characters drawn with the nearest plain glyph
+const ALIASES: Record<string, string> = {
+    '–': '-', '—': '-', '‐': '-', '−': '-',
+    '‘': "'", '’': "'", '“': '"', '”': '"',
+    '•': '·', '×': 'x', '\u00A0': ' '
+};
+
+// Combining marks as rows over (or under) a base glyph, centred on it
+const MARKS_ABOVE: Record<string, string[]> = {
+    '\u0300': ['#..', '.#.'], // grave
+    '\u0301': ['..#', '.#.'], // acute
+    '\u0302': ['.#.', '#.#'], // circumflex
+    '\u0303': ['.#.#', '#.#.'], // tilde
+    '\u0304': ['###', '...'], // macron
+    '\u0307': ['.#.', '...'], // dot
+    '\u0308': ['#.#', '...'], // diaeresis
+    '\u030A': ['.#.', '#.#'], // ring
+    '\u030B': ['.#.#', '#.#.'], // double acute
+    '\u030C': ['#.#', '.#.'] // caron
+};
+const MARKS_BELOW: Record<string, string[]> = {
+    '\u0327': ['.#.', '##.'], // cedilla
+    '\u0328': ['.#.', '..#'] // ogonek
+};
+
+interface Glyph {
+    rows: string[];
+    /** Row of rows[0] from the top of the capitals (negative for marks above them) */
+    top: number;
+    width: number;
+}
+
+const parseGlyph = (pattern: string): Glyph => {
+    const rows = pattern.split(' ');
+    return { rows, top: 0, width: rows[0].length };
+};
+
+const findPattern = (font: BitmapFont, char: string): string | undefined =>
+    font.glyphs[char] ?? (font.fallback ? findPattern(BITMAP_FONTS[font.fallback], char) : undefined);
+
+/** Draw a mark's rows into a glyph, starting at the given row from the top of the capitals */
+const overlay = (glyph: Glyph, mark: string[], row: number): Glyph => {
+    const top = Math.min(glyph.top, row);
+    const bottom = Math.max(glyph.top + glyph.rows.length, row + mark.length);
+    const blank = '.'.repeat(glyph.width);
+    const rows = Array.from({ length: bottom - top }, (_, i) => glyph.rows[top + i - glyph.top] ?? blank);
+    const offset = Math.floor((glyph.width - mark[0].length) / 2);
+    mark.forEach((markRow, i) => {
+        const target = rows[row + i - top].split('');
+        markRow.split('').forEach((cell, j) => {
+            if (cell === '#' && offset + j >= 0 && offset + j < glyph.width) target[offset + j] = '#';
+        });
+        rows[row + i - top] = target.join('');
+    });
+    return { rows, top, width: glyph.width };
+};
+
+const glyphCache = new Map<string, Glyph | null>();
+
+/** The glyph for a character, composing accented letters; null when the font cannot draw it */
+const getGlyph = (fontName: BitmapFontName, char: string): Glyph | null => {
+    const key = `${fontName}:${char}`;
+    if (glyphCache.has(key)) return glyphCache.get(key)!;
+
+    const font = BITMAP_FONTS[fontName];
+    let glyph: Glyph | null = null;
+    const pattern = findPattern(font, char);
+    if (pattern) {
+        glyph = parseGlyph(pattern);
+    } else {
+        const [base, ...marks] = Array.from(char.normalize('NFD'));
+        const basePattern = marks.length > 0 ? findPattern(font, base) : undefined;
+        if (basePattern && marks.every(m => MARKS_ABOVE[m] || MARKS_BELOW[m])) {
+            glyph = parseGlyph(basePattern);
+            const isLower = base !== base.toUpperCase();
+            marks.forEach(mark => {
+                if (MARKS_BELOW[mark]) {
+                    glyph = overlay(glyph!, MARKS_BELOW[mark], font.capHeight);
+                } else if (isLower && glyph!.top === 0) {
+                    // Over lowercase the mark replaces whatever is above the x-height (the dot of i and j)
+                    const above = font.capHeight - font.xHeight;
+                    glyph = { ...glyph!, rows: glyph!.rows.map((row, i) => (i < above ? '.'.repeat(row.length) : row)) };
+                    glyph = overlay(glyph, MARKS_ABOVE[mark], above - MARKS_ABOVE[mark].length);
+                } else {
+                    glyph = overlay(glyph!, MARKS_ABOVE[mark], glyph!.top - MARKS_ABOVE[mark].length);
+                }
+            });
+        }
+    }
+    glyphCache.set(key, glyph);
+    return glyph;
+};
+
+export interface BitmapText {
+    font: BitmapFontName;
+    /** Size in printer dots, from the highest mark to the lowest descender */
+    width: number;
+    height: number;
+    /** Rows above the capitals (marks on capitals); the baseline is capHeight rows below them */
+    above: number;
+    capHeight: number;
+    /** Runs of ink along each row, relative to the top left */
+    runs: { x: number; y: number; length: number }[];
+}
+
+/**
+ * Lay out text in a bitmap font, one dot per pixel; bold doubles every column one dot to the
+ * right. Null when the font has no glyph for one of the characters.
+ */
+export const layoutBitmapText = (text: string, fontName: BitmapFontName, bold = false): BitmapText | null => {
+    const font = BITMAP_FONTS[fontName];
+    const source = font.capitalsOnly ? text.toUpperCase() : text;
+    const chars = Array.from(source.normalize('NFC')).map(c => ALIASES[c] ?? c);
+
+    const placed: { glyph: Glyph | null; x: number; width: number }[] = [];
+    let x = 0;
+    for (const char of chars) {
+        if (x > 0) x += 1;
+        if (char === ' ') {
+            placed.push({ glyph: null, x, width: font.spaceWidth });
+            x += font.spaceWidth;
+            continue;
+        }
+        const glyph = getGlyph(fontName, char);
+        if (!glyph) return null;
+        const width = glyph.width + (bold ? 1 : 0);
+        placed.push({ glyph, x, width });
+        x += width;
+    }
+
+    const glyphs = placed.filter(p => p.glyph);
+    const above = Math.max(0, ...glyphs.map(p => -p.glyph!.top));
+    const top = -above;
+    const bottom = Math.max(font.capHeight, ...glyphs.map(p => p.glyph!.top + p.glyph!.rows.length));
+
+    const runs: BitmapText['runs'] = [];
+    glyphs.forEach(({ glyph, x: left, width }) => {
+        glyph!.rows.forEach((row, i) => {
+            // Bold: ink where this column or the one to its left has ink
+            const cells = Array.from({ length: width }, (_, col) => row[col] === '#' || (bold && row[col - 1] === '#'));
+            let col = 0;
+            while (col < width) {
+                if (!cells[col]) { col++; continue; }
+                const start = col;
+                while (col < width && cells[col]) col++;
+                runs.push({ x: left + start, y: glyph!.top + i - top, length: col - start });
+            }
+        });
+    });
+
+    return { font: fontName, width: x, height: bottom - top, above, capHeight: font.capHeight, runs };
+};
+
+/**
+ * The first bitmap font in BITMAP_FONT_ORDER that draws all of the text within the box
+ * (in printer dots); null if none does
+ */
+export const fitBitmapText = (text: string, maxWidth: number, maxHeight: number, bold = false): BitmapText | null => {
+    for (const font of BITMAP_FONT_ORDER) {
+        const layout = layoutBitmapText(text, font, bold);
+        if (layout && layout.width <= maxWidth && layout.height <= maxHeight) return layout;
+    }
+    return null;
+};
@@ -0,0 +1,206 @@
+/**
+ * BLE Transmission Scheduler
+ * Streams raster data to the printer's write characteristic.
+ * The chunk size shrinks to what the link accepts, pacing speeds up on a clean link and backs
+ * off on write failures, and back-pressure comes from write-with-response checkpoints or the
+ * printer's own flow-control notifications.
+ */
+
+/** ATT default MTU (23) minus the 3 byte header. Every BLE link accepts this */
+export const MIN_CHUNK_SIZE = 20;
+/** Largest attribute value the ATT protocol allows */
+export const MAX_CHUNK_SIZE = 512;
+
+const MIN_DELAY_MS = 2;
+const MAX_DELAY_MS = 250;
+const DEFAULT_DELAY_MS = 20;
+/** Consecutive clean writes before pacing speeds up */
+const SPEEDUP_AFTER = 16;
+/** Consecutive failures of the same chunk before giving up */
+const MAX_RETRIES = 4;
+/** Bytes between write-with-response checkpoints */
+const CHECKPOINT_BYTES = 1024;
+/** How long to honor a printer "pause" before assuming the resume was lost */
+const FLOW_PAUSE_TIMEOUT_MS = 5000;
+
+/** What we have learned about one connection; reused across copies and jobs */
+export interface LinkProfile {
+    chunkSize: number;
+    delayMs: number;
+}
+
+export interface TransmitProgress {
+    bytesSent: number;
+    /** Bytes up to the last write the printer acknowledged; writes without response prove nothing */
+    bytesAcknowledged: number;
+    totalBytes: number;
+    percent: number;
+    /** Measured throughput since the transfer started */
+    bytesPerSecond: number;
+    chunkSize: number;
+    delayMs: number;
+}
+
+export interface TransmitResult {
+    bytesSent: number;
+    durationMs: number;
+    bytesPerSecond: number;
+    retries: number;
+}
+
+/**
+ * Back-pressure signalled by the printer (e.g. XOFF / XON on ESC/POS UART bridges).
+ * printerService opens and closes it from notifications; the transmitter waits on it.
+ */
+export interface FlowGate {
+    isPaused: () => boolean;
+    pause: () => void;
+    resume: () => void;
+    waitUntilOpen: (timeoutMs: number) => Promise<void>;
+}
+
+export interface TransmitOptions {
+    profile: LinkProfile;
+    flowGate?: FlowGate;
+    /** Called before every chunk; throw to abort the transfer */
+    beforeChunk?: () => void;
+    onProgress?: (progress: TransmitProgress) => void;
+}
+
+export const createLinkProfile = (maxChunkSize: number): LinkProfile => ({
+    chunkSize: Math.max(MIN_CHUNK_SIZE, Math.min(MAX_CHUNK_SIZE, maxChunkSize)),
+    delayMs: DEFAULT_DELAY_MS
+});
+
+export const createFlowGate = (): FlowGate => {
+    let paused = false;
+    let waiters: (() => void)[] = [];
+
+    const resume = () => {
+        paused = false;
+        const pending = waiters;
+        waiters = [];
+        pending.forEach(w => w());
+    };
+
+    return {
+        isPaused: () => paused,
+        pause: () => { paused = true; },
+        resume,
+        waitUntilOpen: (timeoutMs) => {
+            if (!paused) return Promise.resolve();
+            return new Promise(resolve => {
+                const timer = setTimeout(() => {
+                    console.warn("Printer flow-control pause timed out, resuming");
+                    resume();
+                }, timeoutMs);
+                waiters.push(() => {
+                    clearTimeout(timer);
+                    resolve();
+                });
+            });
+        }
+    };
+};
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+const writeChunk = async (char: BluetoothRemoteGATTCharacteristic, chunk: Uint8Array, withResponse: boolean) => {
+    if (withResponse) {
+        if (char.writeValueWithResponse) await char.writeValueWithResponse(chunk as any);
+        else await char.writeValue(chunk as any);
+    } else {
+        await char.writeValueWithoutResponse(chunk as any);
+    }
+};
+
+/**
+ * Send a payload in chunks, adapting chunk size and pacing to the link.
+ * The profile is updated in place so the next transfer starts from what was learned.
+ */
+export const transmit = async (
+    char: BluetoothRemoteGATTCharacteristic,
+    data: Uint8Array,
+    options: TransmitOptions
+): Promise<TransmitResult> => {
+    const { profile, flowGate, beforeChunk, onProgress } = options;
+    const props = char.properties || ({} as BluetoothCharacteristicProperties);
+    const canWriteWithoutResponse = !!props.writeWithoutResponse;
+    // Acknowledged writes already wait for the printer, so they double as checkpoints
+    const canCheckpoint = !!props.write;
+
+    const start = Date.now();
+    let offset = 0;
+    let acknowledged = 0;
+    let sinceCheckpoint = 0;
+    let cleanStreak = 0;
+    let failures = 0;
+    let retries = 0;
+
+    const report = () => {
+        if (!onProgress) return;
+        const elapsed = Math.max(1, Date.now() - start);
+        onProgress({
+            bytesSent: offset,
+            bytesAcknowledged: acknowledged,
+            totalBytes: data.length,
+            percent: data.length ? Math.round((offset / data.length) * 100) : 100,
+            bytesPerSecond: Math.round((offset / elapsed) * 1000),
+            chunkSize: profile.chunkSize,
+            delayMs: profile.delayMs
+        });
+    };
+
+    while (offset < data.length) {
+        beforeChunk?.();
+        if (flowGate?.isPaused()) await flowGate.waitUntilOpen(FLOW_PAUSE_TIMEOUT_MS);
+
+        const chunk = data.subarray(offset, offset + profile.chunkSize);
+        const withResponse = !canWriteWithoutResponse ||
+            (canCheckpoint && sinceCheckpoint + chunk.length >= CHECKPOINT_BYTES);
+
+        try {
+            await writeChunk(char, chunk, withResponse);
+        } catch (e) {
+            failures++;
+            retries++;
+            if (failures > MAX_RETRIES) throw e;
+
+            // A rejected write usually means the chunk exceeds the MTU or the buffer is full:
+            // shrink the chunk, slow down, and resend from the same offset
+            profile.chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(profile.chunkSize / 2));
+            profile.delayMs = Math.min(MAX_DELAY_MS, Math.max(DEFAULT_DELAY_MS, profile.delayMs * 2));
+            cleanStreak = 0;
+            console.warn(`BLE write failed, retrying with ${profile.chunkSize} byte chunks`, e);
+            await sleep(profile.delayMs);
+            continue;
+        }
+
+        offset += chunk.length;
+        if (withResponse) acknowledged = offset;
+        failures = 0;
+        sinceCheckpoint = withResponse ? 0 : sinceCheckpoint + chunk.length;
+
+        if (++cleanStreak >= SPEEDUP_AFTER) {
+            profile.delayMs = Math.max(MIN_DELAY_MS, Math.floor(profile.delayMs * 0.75));
+            cleanStreak = 0;
+        }
+
+        report();
+
+        // Acknowledged writes are their own pacing
+        if (!withResponse && offset < data.length) await sleep(profile.delayMs);
+    }
+
+    const durationMs = Date.now() - start;
+    return {
+        bytesSent: offset,
+        durationMs,
+        bytesPerSecond: Math.round((offset / Math.max(1, durationMs)) * 1000),
+        retries
+    };
+};
+
+/** Human readable throughput for status messages */
+export const formatThroughput = (bytesPerSecond: number): string =>
+    bytesPerSecond >= 1024 ? `${(bytesPerSecond / 1024).toFixed(1)} KB/s` : `${bytesPerSecond} B/s`;
@@ -0,0 +1,162 @@
+import { CalibrationData, PrintSettings } from '../types';
+import { PrintSpeed } from './printerDrivers';
+import { mmToDots } from './rasterEncoder';
+
+/**
+ * Printer Calibration
+ * The test pattern the calibration wizard prints, turning the user's answers about it into a
+ * CalibrationData record, and applying a record to the settings of a print.
+ *
+ * The pattern (label orientation) has a tick scale inside each edge: ticks every 0.5mm from the
+ * edge inwards, each one longer than the last. If the print lands shifted, one tick ends up on the
+ * physical edge and its distance from that edge is the correction. The middle holds density blocks.
+ */
+
+export const CALIBRATION_TICK_STEP_MM = 0.5;
+/** Ticks per edge: 0 to 3mm */
+export const CALIBRATION_TICKS = 7;
+
+const TICK_WIDTH = 2;
+/** Margin kept clear of ticks around the density blocks */
+const SCALE_DEPTH_MM = 4;
+const MAX_OFFSET_MM = 5;
+const MAX_DENSITY_OFFSET = 50;
+
+export type CalibrationEdge = 'left' | 'right' | 'top' | 'bottom';
+
+/** Tick touching the physical edge (0 = the one on the nominal edge) */
+export interface EdgeAnswer {
+    edge: CalibrationEdge;
+    tick: number;
+}
+
+export type DarknessAnswer = 'faded' | 'light' | 'good' | 'dark' | 'bleeding';
+
+export const DARKNESS_ANSWERS: { id: DarknessAnswer; name: string; description: string; densityChange: number }[] = [
+    { id: 'faded', name: 'Faded', description: 'Solid block is gray or streaky', densityChange: 10 },
+    { id: 'light', name: 'A bit light', description: 'Solid block is black, checkerboard looks pale', densityChange: 5 },
+    { id: 'good', name: 'Just right', description: 'Solid black, crisp checkerboard and lines', densityChange: 0 },
+    { id: 'dark', name: 'A bit dark', description: 'Checkerboard is close to solid', densityChange: -5 },
+    { id: 'bleeding', name: 'Bleeding', description: 'Fine lines run together', densityChange: -10 }
+];
+
+export interface CalibrationAnswers {
+    /** null = no tick on either edge, the print is centered */
+    horizontal: EdgeAnswer | null;
+    vertical: EdgeAnswer | null;
+    darkness: DarknessAnswer;
+    speed: PrintSpeed;
+}
+
+/**
+ * Correction in mm for an edge answer. A tick on the left / top edge means the print landed
+ * too far left / up, so it has to move right / down (positive), and the other way round.
+ */
+export const getEdgeCorrectionMm = (answer: EdgeAnswer | null): number => {
+    if (!answer) return 0;
+    const distance = answer.tick * CALIBRATION_TICK_STEP_MM;
+    return answer.edge === 'left' || answer.edge === 'top' ? distance : -distance;
+};
+
+/**
+ * The calibration pattern as RGBA (black on white) for a label of width x height dots
+ */
+export const createCalibrationPattern = (width: number, height: number): Uint8ClampedArray => {
+    const rgba = new Uint8ClampedArray(width * height * 4).fill(255);
+
+    const fill = (x0: number, y0: number, x1: number, y1: number, dot: (x: number, y: number) => boolean = () => true) => {
+        for (let y = Math.max(0, y0); y < Math.min(height, y1); y++) {
+            for (let x = Math.max(0, x0); x < Math.min(width, x1); x++) {
+                if (!dot(x, y)) continue;
+                const i = (y * width + x) * 4;
+                rgba[i] = rgba[i + 1] = rgba[i + 2] = 0;
+            }
+        }
+    };
+
+    const depth = mmToDots(SCALE_DEPTH_MM);
+    // Tick length grows by one unit per tick; the scales stay clear of each other's corners
+    const xUnit = Math.max(1, Math.floor((width / 2 - depth) / CALIBRATION_TICKS));
+    const yUnit = Math.max(1, Math.floor((height / 2 - depth) / CALIBRATION_TICKS));
+    const cx = Math.floor(width / 2);
+    const cy = Math.floor(height / 2);
+
+    for (let tick = 0; tick < CALIBRATION_TICKS; tick++) {
+        const offset = mmToDots(tick * CALIBRATION_TICK_STEP_MM);
+        const halfX = (tick + 1) * xUnit;
+        const halfY = (tick + 1) * yUnit;
+
+        // Left / right edges: vertical ticks
+        fill(offset, cy - halfY, offset + TICK_WIDTH, cy + halfY);
+        fill(width - offset - TICK_WIDTH, cy - halfY, width - offset, cy + halfY);
+        // Top / bottom edges: horizontal ticks
+        fill(cx - halfX, offset, cx + halfX, offset + TICK_WIDTH);
+        fill(cx - halfX, height - offset - TICK_WIDTH, cx + halfX, height - offset);
+    }
+
+    // Density blocks: solid, checkerboard, fine lines
+    const x0 = depth, x1 = width - depth;
+    const y0 = depth, y1 = height - depth;
+    if (x1 - x0 >= 12 && y1 - y0 >= 4) {
+        const gap = Math.max(2, Math.floor((x1 - x0) / 24));
+        const blockWidth = Math.floor((x1 - x0 - gap * 2) / 3);
+        const blocks: ((x: number, y: number) => boolean)[] = [
+            () => true,
+            (x, y) => (x + y) % 2 === 0,
+            (x) => x % 3 === 0
+        ];
+        blocks.forEach((dot, i) => {
+            const start = x0 + i * (blockWidth + gap);
+            fill(start, y0, start + blockWidth, y1, dot);
+        });
+    }
+
+    return rgba;
+};
+
+const roundMm = (mm: number) => Math.round(mm * 100) / 100;
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * New calibration from the answers. The pattern is printed with the previous calibration applied,
+ * so the answers are corrections on top of it.
+ */
+export const buildCalibration = (
+    previous: CalibrationData | null,
+    label: { widthMm: number; heightMm: number },
+    answers: CalibrationAnswers
+): CalibrationData => {
+    const darkness = DARKNESS_ANSWERS.find(a => a.id === answers.darkness);
+
+    return {
+        labelWidthMm: label.widthMm,
+        labelHeightMm: label.heightMm,
+        densityOffset: clamp((previous?.densityOffset || 0) + (darkness?.densityChange || 0), -MAX_DENSITY_OFFSET, MAX_DENSITY_OFFSET),
+        horizontalOffsetMm: roundMm(clamp((previous?.horizontalOffsetMm || 0) + getEdgeCorrectionMm(answers.horizontal), -MAX_OFFSET_MM, MAX_OFFSET_MM)),
+        verticalOffsetMm: roundMm(clamp((previous?.verticalOffsetMm || 0) + getEdgeCorrectionMm(answers.vertical), -MAX_OFFSET_MM, MAX_OFFSET_MM)),
+        speedOptimal: answers.speed,
+        lastCalibrated: Date.now(),
+        calibratedBy: 'user'
+    };
+};
+
+/**
+ * Settings for a print with the calibration applied: density and offsets are corrected
+ * on top of the chosen ones (manual offsets become fine tuning), speed is replaced.
+ */
+export const applyCalibration = (settings: PrintSettings, calibration: CalibrationData | null): PrintSettings => {
+    if (!calibration) return settings;
+    return {
+        ...settings,
+        density: clamp(settings.density + calibration.densityOffset, 0, 100),
+        speed: calibration.speedOptimal,
+        printOffsetMm: roundMm((settings.printOffsetMm || 0) + calibration.verticalOffsetMm),
+        horizontalOffsetMm: roundMm((settings.horizontalOffsetMm || 0) + calibration.horizontalOffsetMm)
+    };
+};
+
+export const describeCalibration = (calibration: CalibrationData): string => {
+    const signed = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+    return `${calibration.labelHeightMm}x${calibration.labelWidthMm}mm: density ${signed(calibration.densityOffset)}, ` +
+        `offset ${signed(calibration.horizontalOffsetMm)} / ${signed(calibration.verticalOffsetMm)}mm, speed ${calibration.speedOptimal}`;
+};
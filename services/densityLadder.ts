@@ -0,0 +1,72 @@
+import { PrinterDriver, toHeatLevel } from './printerDrivers';
+
+/**
+ * Density Ladder
+ * A short run of labels, one per heat level around the current density, so the best step can be
+ * picked by eye. Each label shows its position in the run as tally bars on the left (grouped in
+ * fives), then a solid block, a one-dot checkerboard and one-dot lines that fill in when too hot.
+ */
+
+export const DEFAULT_LADDER_STEPS = 5;
+
+const TALLY_WIDTH = 2;
+const TALLY_GAP = 3;
+const TALLY_GROUP_GAP = 8;
+
+/**
+ * Heat levels to print: `count` consecutive levels centred on the one the density selects,
+ * shifted to stay inside the model's range. Empty for models without hardware density.
+ */
+export const getLadderSteps = (driver: Pick<PrinterDriver, 'heatRange'>, density: number, count = DEFAULT_LADDER_STEPS): number[] => {
+    const current = toHeatLevel(driver, density);
+    if (current === null || !driver.heatRange) return [];
+    const { min, max } = driver.heatRange;
+    const size = Math.min(count, max - min + 1);
+    const first = Math.max(min, Math.min(max - size + 1, current - Math.floor(size / 2)));
+    return Array.from({ length: size }, (_, i) => first + i);
+};
+
+/** Width in dots the tally bars for `marks` take */
+const getTallyWidth = (marks: number) =>
+    marks * (TALLY_WIDTH + TALLY_GAP) + Math.floor((marks - 1) / 5) * TALLY_GROUP_GAP;
+
+/**
+ * The ladder label for position `mark` (1-based) as RGBA, width x height dots in label orientation
+ */
+export const createLadderPattern = (width: number, height: number, mark: number): Uint8ClampedArray => {
+    const rgba = new Uint8ClampedArray(width * height * 4).fill(255);
+
+    const fill = (x0: number, y0: number, x1: number, y1: number, dot: (x: number, y: number) => boolean = () => true) => {
+        for (let y = Math.max(0, y0); y < Math.min(height, y1); y++) {
+            for (let x = Math.max(0, x0); x < Math.min(width, x1); x++) {
+                if (!dot(x, y)) continue;
+                const i = (y * width + x) * 4;
+                rgba[i] = rgba[i + 1] = rgba[i + 2] = 0;
+            }
+        }
+    };
+
+    const margin = Math.max(2, Math.round(height * 0.15));
+    const top = margin;
+    const bottom = height - margin;
+
+    // Tally bars
+    let x = margin;
+    for (let i = 0; i < mark; i++) {
+        if (i > 0 && i % 5 === 0) x += TALLY_GROUP_GAP;
+        fill(x, top, x + TALLY_WIDTH, bottom);
+        x += TALLY_WIDTH + TALLY_GAP;
+    }
+
+    // Test blocks share what is left
+    const blocksStart = margin + getTallyWidth(mark) + margin;
+    const blockWidth = Math.floor((width - margin - blocksStart) / 3);
+    if (blockWidth < 4) return rgba;
+
+    const [solid, checker, lines] = [0, 1, 2].map(i => blocksStart + i * blockWidth);
+    fill(solid, top, solid + blockWidth - margin, bottom);
+    fill(checker, top, checker + blockWidth - margin, bottom, (px, py) => (px + py) % 2 === 0);
+    fill(lines, top, lines + blockWidth - margin, bottom, px => px % 3 === 0);
+
+    return rgba;
+};
@@ -0,0 +1,168 @@
+import { RasterMode } from '../types';
+
+/**
+ * Dithering / Thresholding
+ * Turns a grayscale buffer (0 = black, 255 = white) into printer dots (1 = black).
+ * All functions are pure and work on typed arrays; the input buffer is never modified.
+ */
+
+export const DEFAULT_RASTER_MODE: RasterMode = 'floyd-steinberg';
+export const DEFAULT_THRESHOLD = 128;
+
+export const RASTER_MODES: { id: RasterMode; name: string; description: string }[] = [
+    { id: 'text-sharp', name: 'Text Sharp', description: 'Crisp text, dithered swatches and images' },
+    { id: 'floyd-steinberg', name: 'Floyd–Steinberg', description: 'Smooth gradients, softer edges' },
+    { id: 'atkinson', name: 'Atkinson', description: 'High contrast, lighter shading' },
+    { id: 'bayer', name: 'Bayer', description: 'Regular pattern, no drifting noise' },
+    { id: 'threshold', name: 'Threshold', description: 'Pure black and white, no shading' }
+];
+
+// [dx, dy, weight]
+type DiffusionKernel = { taps: [number, number, number][]; divisor: number };
+
+const FLOYD_STEINBERG: DiffusionKernel = {
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+    divisor: 16
+};
+
+// Atkinson only spreads 6/8 of the error, which keeps highlights clean on thermal paper
+const ATKINSON: DiffusionKernel = {
+    taps: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+    divisor: 8
+};
+
+const BAYER_8X8 = [
+    0, 32, 8, 40, 2, 34, 10, 42,
+    48, 16, 56, 24, 50, 18, 58, 26,
+    12, 44, 4, 36, 14, 46, 6, 38,
+    60, 28, 52, 20, 62, 30, 54, 22,
+    3, 35, 11, 43, 1, 33, 9, 41,
+    51, 19, 59, 27, 49, 17, 57, 25,
+    15, 47, 7, 39, 13, 45, 5, 37,
+    63, 31, 55, 23, 61, 29, 53, 21
+];
+
+export const thresholdDither = (gray: Float32Array, width: number, height: number, threshold = DEFAULT_THRESHOLD): Uint8Array => {
+    const out = new Uint8Array(width * height);
+    for (let i = 0; i < out.length; i++) out[i] = gray[i] < threshold ? 1 : 0;
+    return out;
+};
+
+/**
+ * Error diffusion with the given kernel.
+ * When a mask is given, only masked pixels are dithered and receive error; the rest are thresholded.
+ */
+const diffuseError = (
+    gray: Float32Array,
+    width: number,
+    height: number,
+    kernel: DiffusionKernel,
+    threshold: number,
+    mask?: Uint8Array
+): Uint8Array => {
+    const work = Float32Array.from(gray);
+    const out = new Uint8Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const idx = y * width + x;
+            const oldPixel = work[idx];
+            const newPixel = oldPixel < threshold ? 0 : 255;
+            out[idx] = newPixel === 0 ? 1 : 0;
+
+            if (mask && !mask[idx]) continue;
+
+            const quantError = oldPixel - newPixel;
+            for (const [dx, dy, weight] of kernel.taps) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx < 0 || nx >= width || ny >= height) continue;
+                const nIdx = ny * width + nx;
+                if (mask && !mask[nIdx]) continue;
+                work[nIdx] += quantError * weight / kernel.divisor;
+            }
+        }
+    }
+    return out;
+};
+
+export const floydSteinbergDither = (gray: Float32Array, width: number, height: number, threshold = DEFAULT_THRESHOLD): Uint8Array =>
+    diffuseError(gray, width, height, FLOYD_STEINBERG, threshold);
+
+export const atkinsonDither = (gray: Float32Array, width: number, height: number, threshold = DEFAULT_THRESHOLD): Uint8Array =>
+    diffuseError(gray, width, height, ATKINSON, threshold);
+
+export const bayerDither = (gray: Float32Array, width: number, height: number): Uint8Array => {
+    const out = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const level = (BAYER_8X8[(y & 7) * 8 + (x & 7)] + 0.5) / 64 * 255;
+            const idx = y * width + x;
+            out[idx] = gray[idx] < level ? 1 : 0;
+        }
+    }
+    return out;
+};
+
+// Text-sharp tuning: anti-aliased glyph edges are a thin fringe of mid-tones,
+// swatches and images are mostly mid-tones
+const MIDTONE_MIN = 48;
+const MIDTONE_MAX = 208;
+const IMAGE_AREA_RADIUS = 3;
+const IMAGE_AREA_FRACTION = 0.5;
+
+/**
+ * Mark pixels that sit in a continuous-tone area (1) as opposed to text / line art (0),
+ * by the share of mid-tone pixels in the surrounding window.
+ */
+export const detectImageAreas = (gray: Float32Array, width: number, height: number): Uint8Array => {
+    // Summed-area table of mid-tone pixels
+    const stride = width + 1;
+    const sums = new Uint32Array(stride * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            const v = gray[y * width + x];
+            if (v >= MIDTONE_MIN && v <= MIDTONE_MAX) rowSum++;
+            sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+        }
+    }
+
+    const mask = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.max(0, y - IMAGE_AREA_RADIUS);
+        const y1 = Math.min(height, y + IMAGE_AREA_RADIUS + 1);
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.max(0, x - IMAGE_AREA_RADIUS);
+            const x1 = Math.min(width, x + IMAGE_AREA_RADIUS + 1);
+            const count = sums[y1 * stride + x1] - sums[y0 * stride + x1] - sums[y1 * stride + x0] + sums[y0 * stride + x0];
+            const area = (x1 - x0) * (y1 - y0);
+            mask[y * width + x] = count / area >= IMAGE_AREA_FRACTION ? 1 : 0;
+        }
+    }
+    return mask;
+};
+
+/**
+ * Threshold text and line art so glyph edges stay crisp; Floyd–Steinberg only inside image areas
+ */
+export const textSharpDither = (gray: Float32Array, width: number, height: number, threshold = DEFAULT_THRESHOLD): Uint8Array =>
+    diffuseError(gray, width, height, FLOYD_STEINBERG, threshold, detectImageAreas(gray, width, height));
+
+export const ditherGrayscale = (
+    gray: Float32Array,
+    width: number,
+    height: number,
+    mode: RasterMode = DEFAULT_RASTER_MODE,
+    threshold = DEFAULT_THRESHOLD
+): Uint8Array => {
+    switch (mode) {
+        case 'threshold': return thresholdDither(gray, width, height, threshold);
+        case 'atkinson': return atkinsonDither(gray, width, height, threshold);
+        case 'bayer': return bayerDither(gray, width, height);
+        case 'text-sharp': return textSharpDither(gray, width, height, threshold);
+        case 'floyd-steinberg':
+        default:
+            return floydSteinbergDither(gray, width, height, threshold);
+    }
+};
@@ -0,0 +1,18 @@
+import { renderLabelImage } from './labelRenderer';
+import type { LabelRenderRequest, LabelRenderResponse } from './offscreenRenderer';
+
+/**
+ * Label render worker: draws labels on an OffscreenCanvas off the main thread
+ */
+
+self.onmessage = (event: MessageEvent<{ id: number; request: LabelRenderRequest }>) => {
+    const { id, request } = event.data;
+    try {
+        const image = renderLabelImage(request.data, request.settings, request.size);
+        const response: LabelRenderResponse = { id, image };
+        self.postMessage(response, { transfer: [image.data.buffer] });
+    } catch (e: any) {
+        const response: LabelRenderResponse = { id, error: e?.message || 'Render failed' };
+        self.postMessage(response);
+    }
+};
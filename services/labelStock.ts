@@ -0,0 +1,156 @@
+import { LABEL_PRESETS, LabelPreset, LabelStock } from '../types';
+
+/**
+ * Label Stock
+ * User-defined label sizes (gap, corners, label type, printable area, printer) kept in
+ * localStorage. They are listed after the built-in LABEL_PRESETS wherever a size is picked,
+ * and can be exported and imported as JSON.
+ */
+
+export const LABEL_STOCK_STORAGE_KEY = 'label_stock';
+const EXPORT_VERSION = 1;
+
+export type LabelStockInput = Omit<LabelStock, 'id' | 'group' | 'deviceId' | 'gatt'>;
+
+export interface LabelStockExport {
+    version: number;
+    exportDate: number;
+    stock: LabelStockInput[];
+}
+
+export const loadLabelStock = (): LabelStock[] => {
+    try {
+        const saved = localStorage.getItem(LABEL_STOCK_STORAGE_KEY);
+        const stock = saved ? JSON.parse(saved) : [];
+        return Array.isArray(stock) ? stock : [];
+    } catch (e) {
+        console.warn("Discarding unreadable label stock", e);
+        return [];
+    }
+};
+
+const saveLabelStock = (stock: LabelStock[]) => {
+    try {
+        localStorage.setItem(LABEL_STOCK_STORAGE_KEY, JSON.stringify(stock));
+    } catch (e) {
+        console.warn("Failed to persist label stock", e);
+    }
+};
+
+/** What is wrong with a definition; empty when it can be saved */
+export const getLabelStockProblems = (input: LabelStockInput): string[] => {
+    const problems: string[] = [];
+    if (!input.name?.trim()) problems.push('Name is required');
+    if (!(input.widthMm > 0) || !(input.heightMm > 0)) problems.push('Width and height must be above 0');
+    if (!(input.gapMm >= 0)) problems.push('Gap cannot be negative');
+    if (!(input.cornerRadiusMm >= 0) || input.cornerRadiusMm > Math.min(input.widthMm, input.heightMm) / 2) {
+        problems.push('Corner radius must fit the label');
+    }
+    if (!(input.printableWidthMm > 0) || input.printableWidthMm > input.widthMm
+        || !(input.printableHeightMm > 0) || input.printableHeightMm > input.heightMm) {
+        problems.push('Printable area must fit the label');
+    }
+    if (!['gap', 'continuous', 'mark'].includes(input.labelType)) problems.push('Unknown label type');
+    return problems;
+};
+
+const toStock = (input: LabelStockInput, id: string): LabelStock => ({
+    id,
+    name: input.name.trim(),
+    widthMm: input.widthMm,
+    heightMm: input.heightMm,
+    description: input.description || 'Custom stock',
+    gapMm: input.labelType === 'continuous' ? 0 : input.gapMm,
+    cornerRadiusMm: input.cornerRadiusMm,
+    labelType: input.labelType,
+    printableWidthMm: input.printableWidthMm,
+    printableHeightMm: input.printableHeightMm,
+    printerModel: input.printerModel || '',
+    group: 'Custom',
+    deviceId: ''
+});
+
+const createStockId = () => `stock-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+/** Save a new definition; throws if it is not valid */
+export const addLabelStock = (input: LabelStockInput): LabelStock => {
+    const problems = getLabelStockProblems(input);
+    if (problems.length > 0) throw new Error(problems.join('. '));
+    const stock = toStock(input, createStockId());
+    saveLabelStock([...loadLabelStock(), stock]);
+    return stock;
+};
+
+export const updateLabelStock = (id: string, input: LabelStockInput): LabelStock[] => {
+    const problems = getLabelStockProblems(input);
+    if (problems.length > 0) throw new Error(problems.join('. '));
+    const stock = loadLabelStock().map(s => s.id === id ? toStock(input, id) : s);
+    saveLabelStock(stock);
+    return stock;
+};
+
+export const removeLabelStock = (id: string): LabelStock[] => {
+    const stock = loadLabelStock().filter(s => s.id !== id);
+    saveLabelStock(stock);
+    return stock;
+};
+
+// --- Lookup ---
+
+/** Custom stock carries its own label type; built-in presets leave the current one */
+export const isLabelStock = (preset: LabelPreset): preset is LabelStock => preset.group === 'Custom';
+
+/** Built-in presets and stock without a printer model fit any printer */
+export const fitsPrinter = (preset: LabelPreset, printerModel?: string) =>
+    !printerModel || !isLabelStock(preset) || !preset.printerModel || preset.printerModel === printerModel;
+
+/** Built-in presets followed by the user's stock, leaving out stock made for another printer model */
+export const getLabelPresets = (printerModel?: string): LabelPreset[] =>
+    [...LABEL_PRESETS, ...loadLabelStock()].filter(p => fitsPrinter(p, printerModel));
+
+export const findLabelPreset = (id: string): LabelPreset | undefined =>
+    getLabelPresets().find(p => p.id === id);
+
+// --- Import / export ---
+
+export const exportLabelStock = (stock: LabelStock[] = loadLabelStock()): string => {
+    const exportData: LabelStockExport = {
+        version: EXPORT_VERSION,
+        exportDate: Date.now(),
+        stock: stock.map(({ id, group, deviceId, gatt, ...input }) => input)
+    };
+    return JSON.stringify(exportData, null, 2);
+};
+
+/**
+ * Add the definitions from an export. Invalid entries are skipped; returns what was added.
+ */
+export const importLabelStock = (json: string): LabelStock[] => {
+    let data: LabelStockExport;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Invalid label stock file');
+    }
+    if (!data || !Array.isArray(data.stock)) throw new Error('Invalid label stock file');
+
+    const added = data.stock
+        .filter(input => input && getLabelStockProblems(input).length === 0)
+        .map(input => toStock(input, createStockId()));
+    saveLabelStock([...loadLabelStock(), ...added]);
+    return added;
+};
+
+/** Download the user's stock as a JSON file */
+export const downloadLabelStock = (): void => {
+    const blob = new Blob([exportLabelStock()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'label-stock.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,134 @@
+import { TemplateElement, TemplateLayout } from '../types';
+import { LAYOUT_ELEMENT_SIZES, PT_TO_MM } from './labelRenderer';
+
+/**
+ * Layout Designer
+ * Editing operations behind the drag-and-drop designer. Layouts are never changed in place:
+ * every operation returns a new layout, which the undo history keeps as a snapshot.
+ */
+
+export const DESIGNER_GRID_SIZES = [0.5, 1, 2];
+export const DEFAULT_GRID_MM = 1;
+
+const MAX_HISTORY = 100;
+
+export interface LayoutHistory {
+    past: TemplateLayout[];
+    present: TemplateLayout;
+    future: TemplateLayout[];
+}
+
+export interface ElementBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const createEmptyLayout = (widthMm: number, heightMm: number): TemplateLayout => ({
+    elements: [],
+    backgroundColor: '#FFFFFF',
+    borderStyle: 'none',
+    widthMm,
+    heightMm
+});
+
+// --- History ---
+
+export const createLayoutHistory = (layout: TemplateLayout): LayoutHistory => ({ past: [], present: layout, future: [] });
+
+/** Record a change; redo steps are dropped */
+export const commitLayout = (history: LayoutHistory, layout: TemplateLayout): LayoutHistory => {
+    if (layout === history.present) return history;
+    return { past: [...history.past, history.present].slice(-MAX_HISTORY), present: layout, future: [] };
+};
+
+export const undoLayout = (history: LayoutHistory): LayoutHistory => {
+    if (history.past.length === 0) return history;
+    return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future]
+    };
+};
+
+export const redoLayout = (history: LayoutHistory): LayoutHistory => {
+    if (history.future.length === 0) return history;
+    return { past: [...history.past, history.present], present: history.future[0], future: history.future.slice(1) };
+};
+
+// --- Geometry ---
+
+/** Rounded to 0.01mm so grid steps like 0.5 do not pick up float noise */
+export const snapToGrid = (mm: number, gridMm: number) =>
+    Math.round(Math.round(mm / gridMm) * gridMm * 100) / 100;
+
+const getLayoutWidth = (layout: TemplateLayout) => layout.widthMm || 40;
+const getLayoutHeight = (layout: TemplateLayout) => layout.heightMm || 12;
+
+/**
+ * The area an element covers, as the renderer draws it: text runs to the right edge
+ * (or is centred) when it has no width, dividers span the label unless limited.
+ */
+export const getElementBox = (element: TemplateElement, layout: TemplateLayout): ElementBox => {
+    const layoutWidth = getLayoutWidth(layout);
+    if (element.type === 'text') {
+        const width = element.width ?? (element.align === 'center' ? layoutWidth - 2 * element.x : layoutWidth - element.x);
+        return { x: element.x, y: element.y, width, height: (element.fontSize || 8) * PT_TO_MM * 1.2 };
+    }
+    if (element.type === 'divider') {
+        return { x: element.x, y: element.y, width: Math.min(element.width ?? layoutWidth, layoutWidth - element.x), height: 0.5 };
+    }
+    const defaults = LAYOUT_ELEMENT_SIZES[element.type];
+    return { x: element.x, y: element.y, width: element.width ?? defaults.width, height: element.height ?? defaults.height };
+};
+
+// --- Elements ---
+
+/** A new element of the given type near the top left, with something to show */
+export const createLayoutElement = (type: TemplateElement['type']): TemplateElement => {
+    switch (type) {
+        case 'text': return { type, field: 'brand', x: 1, y: 1, fontSize: 8, fontWeight: 'normal', align: 'left' };
+        case 'qr': return { type, field: 'custom', x: 1, y: 1, ...LAYOUT_ELEMENT_SIZES.qr };
+        case 'barcode': return { type, field: 'custom', x: 1, y: 1, ...LAYOUT_ELEMENT_SIZES.barcode };
+        case 'colorSwatch': return { type, field: 'colorHex', x: 1, y: 1, ...LAYOUT_ELEMENT_SIZES.colorSwatch };
+        case 'icon': return { type, field: 'hygroscopy', icon: 'droplet', x: 1, y: 1, ...LAYOUT_ELEMENT_SIZES.icon };
+        case 'divider': return { type, x: 0, y: 1 };
+    }
+};
+
+export const addElement = (layout: TemplateLayout, element: TemplateElement): TemplateLayout =>
+    ({ ...layout, elements: [...layout.elements, element] });
+
+export const updateElement = (layout: TemplateLayout, index: number, patch: Partial<TemplateElement>): TemplateLayout =>
+    ({ ...layout, elements: layout.elements.map((el, i) => i === index ? { ...el, ...patch } : el) });
+
+export const removeElement = (layout: TemplateLayout, index: number): TemplateLayout =>
+    ({ ...layout, elements: layout.elements.filter((_, i) => i !== index) });
+
+/** Move to a snapped position that keeps the element's box on the label */
+export const moveElement = (layout: TemplateLayout, index: number, x: number, y: number, gridMm: number): TemplateLayout => {
+    const element = layout.elements[index];
+    if (!element) return layout;
+    const box = getElementBox(element, layout);
+    // Boxes that follow the position (unsized text) only need their start on the label
+    const width = element.type === 'text' && element.width === undefined ? 0 : box.width;
+    const clamp = (value: number, max: number) => Math.max(0, Math.min(max, value));
+    return updateElement(layout, index, {
+        x: clamp(snapToGrid(x, gridMm), Math.max(0, getLayoutWidth(layout) - width)),
+        y: clamp(snapToGrid(y, gridMm), Math.max(0, getLayoutHeight(layout) - box.height))
+    });
+};
+
+/** Resize to snapped dimensions of at least one grid step, within the label */
+export const resizeElement = (layout: TemplateLayout, index: number, width: number, height: number, gridMm: number): TemplateLayout => {
+    const element = layout.elements[index];
+    if (!element) return layout;
+    const size = (value: number, available: number) => Math.max(gridMm, Math.min(available, snapToGrid(value, gridMm)));
+    const patch: Partial<TemplateElement> = { width: size(width, getLayoutWidth(layout) - element.x) };
+    // Text height comes from the font size, dividers are lines
+    if (element.type !== 'text' && element.type !== 'divider') {
+        patch.height = size(height, getLayoutHeight(layout) - element.y);
+    }
+    return updateElement(layout, index, patch);
+};
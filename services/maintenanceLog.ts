@@ -0,0 +1,40 @@
+import { MaintenanceLog } from '../types';
+
+/**
+ * Maintenance Log
+ * Calibrations, test prints and other upkeep, newest first, kept in localStorage.
+ */
+
+export const MAINTENANCE_LOG_STORAGE_KEY = 'maintenance_log';
+const MAX_ENTRIES = 200;
+
+export const loadMaintenanceLog = (printerId?: string): MaintenanceLog[] => {
+    try {
+        const saved = localStorage.getItem(MAINTENANCE_LOG_STORAGE_KEY);
+        const entries = saved ? JSON.parse(saved) : [];
+        if (!Array.isArray(entries)) return [];
+        return printerId ? entries.filter((e: MaintenanceLog) => e.printerId === printerId) : entries;
+    } catch (e) {
+        console.warn("Discarding unreadable maintenance log", e);
+        return [];
+    }
+};
+
+export const addMaintenanceEntry = (entry: Omit<MaintenanceLog, 'id' | 'timestamp'>): MaintenanceLog => {
+    const logged: MaintenanceLog = {
+        id: `maint-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+        timestamp: Date.now(),
+        ...entry
+    };
+    try {
+        const entries = [logged, ...loadMaintenanceLog()].slice(0, MAX_ENTRIES);
+        localStorage.setItem(MAINTENANCE_LOG_STORAGE_KEY, JSON.stringify(entries));
+    } catch (e) {
+        console.warn("Failed to persist maintenance log", e);
+    }
+    return logged;
+};
+
+/** Most recent entry of a type, e.g. when a printer was last calibrated */
+export const getLastMaintenance = (type: MaintenanceLog['type'], printerId?: string): MaintenanceLog | null =>
+    loadMaintenanceLog(printerId).find(e => e.type === type) || null;
@@ -0,0 +1,140 @@
+import { FilamentData, PrintSettings } from '../types';
+import { LabelRenderSize, renderLabelImage } from './labelRenderer';
+
+/**
+ * Offscreen Renderer
+ * Renders labels to ImageData for printing without a mounted LabelCanvas. Drawing runs in a
+ * Web Worker when the browser supports OffscreenCanvas there, otherwise on the main thread.
+ * Labels passed to prerender() are kept until render() asks for them, so a batch can draw
+ * the next labels while the current one is being sent.
+ */
+
+export interface LabelRenderRequest {
+    data: FilamentData;
+    settings: PrintSettings;
+    size: LabelRenderSize;
+}
+
+export type LabelRenderResponse =
+    | { id: number; image: ImageData; error?: undefined }
+    | { id: number; error: string; image?: undefined };
+
+/** The parts of Worker the renderer uses */
+export interface RenderWorker {
+    postMessage: (message: { id: number; request: LabelRenderRequest }) => void;
+    onmessage: ((event: MessageEvent<LabelRenderResponse>) => void) | null;
+    onerror: ((event: ErrorEvent) => void) | null;
+    terminate: () => void;
+}
+
+export interface LabelRendererConfig {
+    /** null = render on the main thread */
+    createWorker?: () => RenderWorker | null;
+    renderOnMainThread?: (request: LabelRenderRequest) => ImageData;
+    /** Pre-rendered labels kept at most */
+    maxPrerendered?: number;
+}
+
+const MAX_PRERENDERED = 4;
+
+const createDefaultWorker = (): RenderWorker | null => {
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+    try {
+        return new Worker(new URL('./labelRenderer.worker.ts', import.meta.url), { type: 'module' });
+    } catch (e) {
+        console.warn("Label render worker unavailable, rendering on the main thread", e);
+        return null;
+    }
+};
+
+const getRenderKey = (request: LabelRenderRequest) => JSON.stringify(request);
+
+export const createLabelRenderer = (config: LabelRendererConfig = {}) => {
+    const renderOnMainThread = config.renderOnMainThread || ((r: LabelRenderRequest) => renderLabelImage(r.data, r.settings, r.size));
+    const maxPrerendered = config.maxPrerendered ?? MAX_PRERENDERED;
+
+    // undefined = not started yet, null = main thread
+    let worker: RenderWorker | null | undefined;
+    let nextId = 1;
+    const pending = new Map<number, { request: LabelRenderRequest; resolve: (image: ImageData) => void; reject: (error: Error) => void }>();
+    const prerendered = new Map<string, Promise<ImageData>>();
+
+    const renderLocally = (request: LabelRenderRequest) => new Promise<ImageData>(resolve => resolve(renderOnMainThread(request)));
+
+    /** Drop the worker; labels it was drawing are drawn on the main thread instead */
+    const stopWorker = () => {
+        worker?.terminate();
+        worker = null;
+        const requests = [...pending.values()];
+        pending.clear();
+        requests.forEach(({ request, resolve, reject }) => renderLocally(request).then(resolve, reject));
+    };
+
+    const getWorker = () => {
+        if (worker !== undefined) return worker;
+        worker = (config.createWorker || createDefaultWorker)();
+        if (worker) {
+            worker.onmessage = (event) => {
+                const { id, image, error } = event.data;
+                const job = pending.get(id);
+                if (!job) return;
+                pending.delete(id);
+                if (image) job.resolve(image);
+                else job.reject(new Error(error));
+            };
+            worker.onerror = (event) => {
+                console.warn("Label render worker failed, rendering on the main thread", event.message);
+                stopWorker();
+            };
+        }
+        return worker;
+    };
+
+    const renderNow = (request: LabelRenderRequest): Promise<ImageData> => {
+        const target = getWorker();
+        if (!target) return renderLocally(request);
+
+        const id = nextId++;
+        return new Promise<ImageData>((resolve, reject) => {
+            pending.set(id, { request, resolve, reject });
+            target.postMessage({ id, request });
+        });
+    };
+
+    return {
+        /** The label's pixels, from the pre-rendered ones when available */
+        render: (request: LabelRenderRequest): Promise<ImageData> => {
+            const key = getRenderKey(request);
+            const ready = prerendered.get(key);
+            if (ready) {
+                prerendered.delete(key);
+                return ready;
+            }
+            return renderNow(request);
+        },
+
+        /** Start drawing labels that will be asked for soon */
+        prerender: (requests: LabelRenderRequest[]) => {
+            requests.slice(0, maxPrerendered).forEach(request => {
+                const key = getRenderKey(request);
+                if (prerendered.has(key)) return;
+                // Forget the oldest when full
+                if (prerendered.size >= maxPrerendered) prerendered.delete(prerendered.keys().next().value!);
+
+                const image = renderNow(request);
+                image.catch(() => { if (prerendered.get(key) === image) prerendered.delete(key); });
+                prerendered.set(key, image);
+            });
+        },
+
+        dispose: () => {
+            prerendered.clear();
+            worker?.terminate();
+            worker = undefined;
+            pending.forEach(({ reject }) => reject(new Error("Renderer closed")));
+            pending.clear();
+        }
+    };
+};
+
+export type LabelRenderer = ReturnType<typeof createLabelRenderer>;
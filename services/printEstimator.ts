@@ -0,0 +1,203 @@
+import { PrintSettings } from '../types';
+import { LinkProfile, createLinkProfile } from './bleTransmitter';
+import { PrintSpeed } from './printerDrivers';
+import { RasterImage, mmToDots, resolveRotation } from './rasterEncoder';
+import { TapeLayoutOptions, getStripLengthDots, packTapeStrips } from './tapeLayout';
+
+/**
+ * Print Estimator
+ * Predicts how long a label takes to print and how much tape it uses from the raster it
+ * encodes to: the bytes sent over the link's chunk pacing, raced against the head feeding
+ * the rows at the chosen speed. Measured copy durations are kept per printer and raster
+ * size; an exact match replaces the model, otherwise they scale it for that printer.
+ */
+
+export const PRINT_TIMINGS_STORAGE_KEY = 'print_timings';
+const MAX_TIMINGS = 200;
+// Recent samples used for one printer / size
+const SAMPLE_WINDOW = 5;
+
+const DOTS_PER_MM = mmToDots(25.4) / 25.4;
+// init, density, header and end-of-label
+const COMMAND_OVERHEAD_BYTES = 32;
+// Status query plus the speed and label type commands, once per job
+const JOB_SETUP_MS = 1000;
+// init, density and end each wait 50ms after being written
+const COPY_SETUP_MS = 150;
+// printerService waits this long between copies
+const COPY_PAUSE_MS = 1000;
+// Time one BLE write takes on top of the pacing delay (about one connection interval)
+const WRITE_MS = 8;
+// Head feed rate per speed setting (1 = slowest)
+const FEED_MM_PER_SECOND: Record<PrintSpeed, number> = { 1: 10, 2: 15, 3: 20, 4: 25, 5: 30 };
+// Tape fed past the printed area per label
+const TAPE_FEED_MM: Record<NonNullable<PrintSettings['labelType']>, number> = { gap: 3, mark: 3, continuous: 0 };
+// Chunk size of the Phomemo drivers, used before a link has been measured
+const DEFAULT_CHUNK_SIZE = 128;
+
+export type RasterSize = Pick<RasterImage, 'widthBytes' | 'height'>;
+
+export type EstimateSettings = Pick<PrintSettings, 'speed' | 'copies' | 'labelType' | 'rotation'>;
+
+export interface PrintEstimate {
+    bytes: number;
+    seconds: number;
+    tapeMm: number;
+    /** Based on measurements of this printer (and size) rather than the model alone */
+    measured: boolean;
+}
+
+/** One copy as it actually printed */
+export interface PrintTiming {
+    printerId: string;
+    widthBytes: number;
+    height: number;
+    speed: PrintSpeed;
+    durationMs: number;
+    timestamp: number;
+}
+
+export interface EstimateOptions {
+    /** Use measurements of this printer; any printer when omitted */
+    printerId?: string;
+    /** Pacing of the current connection */
+    link?: LinkProfile;
+    timings?: PrintTiming[];
+}
+
+// --- Measurements ---
+
+/** Newest first */
+export const loadPrintTimings = (): PrintTiming[] => {
+    try {
+        const saved = localStorage.getItem(PRINT_TIMINGS_STORAGE_KEY);
+        const timings = saved ? JSON.parse(saved) : [];
+        return Array.isArray(timings) ? timings : [];
+    } catch (e) {
+        console.warn("Discarding unreadable print timings", e);
+        return [];
+    }
+};
+
+export const recordPrintTiming = (timing: Omit<PrintTiming, 'timestamp'>) => {
+    if (!(timing.durationMs > 0)) return;
+    try {
+        const timings = [{ ...timing, timestamp: Date.now() }, ...loadPrintTimings()].slice(0, MAX_TIMINGS);
+        localStorage.setItem(PRINT_TIMINGS_STORAGE_KEY, JSON.stringify(timings));
+    } catch (e) {
+        console.warn("Failed to persist print timing", e);
+    }
+};
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// --- Model ---
+
+/** Raster a label of this many dots encodes to (after auto or manual rotation) */
+const getRasterSizeDots = (width: number, height: number, rotation: PrintSettings['rotation'] = 'auto'): RasterSize =>
+    [90, 270].includes(resolveRotation(width, height, rotation))
+        ? { widthBytes: Math.ceil(height / 8), height: width }
+        : { widthBytes: Math.ceil(width / 8), height };
+
+export const getRasterSize = (widthMm: number, heightMm: number, rotation: PrintSettings['rotation'] = 'auto'): RasterSize =>
+    getRasterSizeDots(mmToDots(widthMm), mmToDots(heightMm), rotation);
+
+export const getCopyBytes = (raster: RasterSize) => raster.widthBytes * raster.height + COMMAND_OVERHEAD_BYTES;
+
+/** Tape fed for this many copies: the raster rows plus the feed past each label */
+export const getTapeLengthMm = (raster: Pick<RasterSize, 'height'>, labelType: PrintSettings['labelType'] = 'gap', copies = 1) =>
+    (raster.height / DOTS_PER_MM + TAPE_FEED_MM[labelType]) * copies;
+
+/** Modelled time for one copy: sending and printing overlap, the slower one sets the pace */
+const modelCopyMs = (raster: RasterSize, speed: PrintSpeed, link: LinkProfile) => {
+    const chunks = Math.ceil(getCopyBytes(raster) / link.chunkSize);
+    const sendMs = chunks * (link.delayMs + WRITE_MS);
+    const feedMs = (raster.height / DOTS_PER_MM) / FEED_MM_PER_SECOND[speed] * 1000;
+    return COPY_SETUP_MS + Math.max(sendMs, feedMs);
+};
+
+/** Measured time for one copy, or the model scaled by how this printer compares to it */
+const getCopyMs = (raster: RasterSize, speed: PrintSpeed, link: LinkProfile, options: EstimateOptions): { ms: number; measured: boolean } => {
+    const timings = (options.timings || loadPrintTimings())
+        .filter(t => !options.printerId || t.printerId === options.printerId);
+
+    const exact = timings
+        .filter(t => t.widthBytes === raster.widthBytes && t.height === raster.height && t.speed === speed)
+        .slice(0, SAMPLE_WINDOW);
+    if (exact.length > 0) return { ms: median(exact.map(t => t.durationMs)), measured: true };
+
+    const modelled = modelCopyMs(raster, speed, link);
+    const recent = timings.slice(0, SAMPLE_WINDOW);
+    if (recent.length === 0) return { ms: modelled, measured: false };
+
+    const ratio = median(recent.map(t => t.durationMs / modelCopyMs(t, t.speed, link)));
+    return { ms: modelled * ratio, measured: true };
+};
+
+/**
+ * Time, bytes and tape for printing a raster of this size
+ */
+export const estimateRasterPrint = (raster: RasterSize, settings: EstimateSettings, options: EstimateOptions = {}): PrintEstimate => {
+    const copies = Math.max(1, settings.copies || 1);
+    const speed = settings.speed || 3;
+    const link = options.link || createLinkProfile(DEFAULT_CHUNK_SIZE);
+    const copy = getCopyMs(raster, speed, link, options);
+
+    return {
+        bytes: getCopyBytes(raster) * copies,
+        seconds: (JOB_SETUP_MS + copy.ms * copies + COPY_PAUSE_MS * (copies - 1)) / 1000,
+        tapeMm: getTapeLengthMm(raster, settings.labelType, copies),
+        measured: copy.measured
+    };
+};
+
+export const estimateLabelPrint = (widthMm: number, heightMm: number, settings: EstimateSettings, options: EstimateOptions = {}): PrintEstimate =>
+    estimateRasterPrint(getRasterSize(widthMm, heightMm, settings.rotation), settings, options);
+
+/**
+ * The strips these labels pack onto (see tapeLayout): how many labels each holds and its raster.
+ * Strips always print turned along the tape.
+ */
+export const getTapeStripRasters = (labels: { widthMm: number; heightMm: number }[], layout: TapeLayoutOptions): { labels: number; raster: RasterSize }[] => {
+    const sized = labels.map(l => ({ width: mmToDots(l.widthMm), height: mmToDots(l.heightMm) }));
+    return packTapeStrips(sized, layout).map(strip => {
+        const length = getStripLengthDots(strip.map(l => l.width), layout);
+        const height = Math.max(...strip.map(l => l.height));
+        return { labels: strip.length, raster: getRasterSizeDots(length, height, 90) };
+    });
+};
+
+/**
+ * Labels packed onto continuous tape strips, one job per strip
+ */
+export const estimateTapeStrips = (
+    labels: { widthMm: number; heightMm: number }[],
+    layout: TapeLayoutOptions,
+    settings: EstimateSettings,
+    options: EstimateOptions = {}
+): PrintEstimate => {
+    const stripSettings: EstimateSettings = { ...settings, copies: 1, labelType: 'continuous' };
+    return sumEstimates(getTapeStripRasters(labels, layout).map(strip => estimateRasterPrint(strip.raster, stripSettings, options)));
+};
+
+export const sumEstimates = (estimates: PrintEstimate[]): PrintEstimate => ({
+    bytes: estimates.reduce((sum, e) => sum + e.bytes, 0),
+    seconds: estimates.reduce((sum, e) => sum + e.seconds, 0),
+    tapeMm: estimates.reduce((sum, e) => sum + e.tapeMm, 0),
+    measured: estimates.length > 0 && estimates.every(e => e.measured)
+});
+
+/** e.g. "about 3 min, 1.2 m of tape" */
+export const formatEstimate = (estimate: Pick<PrintEstimate, 'seconds' | 'tapeMm'>): string => {
+    const time = estimate.seconds < 90
+        ? `${Math.max(1, Math.round(estimate.seconds))} s`
+        : `${Math.round(estimate.seconds / 60)} min`;
+    const tape = estimate.tapeMm < 1000
+        ? `${Math.round(estimate.tapeMm / 10)} cm`
+        : `${(estimate.tapeMm / 1000).toFixed(1)} m`;
+    return `about ${time}, ${tape} of tape`;
+};
@@ -0,0 +1,83 @@
+import { PrintJobRecord } from '../types';
+
+/**
+ * Print Job Recovery
+ * Keeps the label job that is currently printing in localStorage, with the copy and raster
+ * rows the printer acknowledged, so an interrupted job can be resumed after a reconnect.
+ */
+
+export const PRINT_JOB_STORAGE_KEY = 'active_print_job';
+
+export type ResumeMode = 'resume' | 'reprint';
+
+export interface ResumeOptions {
+    /** 1-based copy that was printing when the job stopped */
+    currentCopy: number;
+    /** Copies "resume" prints, the interrupted one included */
+    copiesLeft: number;
+    /** Fraction of the interrupted copy's rows the printer acknowledged */
+    currentProgress: number;
+    /** All rows of the interrupted copy were acknowledged, so it may have printed after all */
+    currentLikelyPrinted: boolean;
+    /** The interrupted copy is the last one, so both modes print the same */
+    isLastCopy: boolean;
+}
+
+export const saveJobRecord = (record: PrintJobRecord) => {
+    try {
+        localStorage.setItem(PRINT_JOB_STORAGE_KEY, JSON.stringify(record));
+    } catch (e) {
+        console.warn("Failed to persist print job", e);
+    }
+};
+
+export const loadJobRecord = (): PrintJobRecord | null => {
+    try {
+        const saved = localStorage.getItem(PRINT_JOB_STORAGE_KEY);
+        if (!saved) return null;
+        const record = JSON.parse(saved) as PrintJobRecord;
+        if (!record?.raster?.data || record.copiesCompleted >= record.totalCopies) return null;
+        return record;
+    } catch (e) {
+        console.warn("Discarding unreadable print job", e);
+        return null;
+    }
+};
+
+export const clearJobRecord = () => {
+    localStorage.removeItem(PRINT_JOB_STORAGE_KEY);
+};
+
+export const encodeRasterData = (data: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < data.length; i++) binary += String.fromCharCode(data[i]);
+    return btoa(binary);
+};
+
+export const decodeRasterData = (encoded: string): Uint8Array => {
+    const binary = atob(encoded);
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+    return data;
+};
+
+export const getResumeOptions = (record: PrintJobRecord): ResumeOptions => {
+    const currentCopy = record.copiesCompleted + 1;
+    const currentProgress = record.raster.height > 0 ? Math.min(1, record.rowsConfirmed / record.raster.height) : 0;
+    return {
+        currentCopy,
+        copiesLeft: record.totalCopies - record.copiesCompleted,
+        currentProgress,
+        currentLikelyPrinted: currentProgress >= 1,
+        isLastCopy: currentCopy >= record.totalCopies
+    };
+};
+
+/**
+ * 0-based copies to print, end exclusive. Both modes start with the interrupted copy, since a label
+ * cut off part way cannot be continued: 'resume' finishes the job, 'reprint' sends that copy alone.
+ */
+export const getResumeCopies = (record: PrintJobRecord, mode: ResumeMode): { start: number; end: number } => ({
+    start: record.copiesCompleted,
+    end: mode === 'reprint' ? Math.min(record.copiesCompleted + 1, record.totalCopies) : record.totalCopies
+});
@@ -0,0 +1,275 @@
+import { BatchPrintConfig, PrintJob } from '../types';
+
+/**
+ * Print Queue
+ * Jobs waiting for the printer, run one at a time in order and persisted (IndexedDB in the
+ * browser) so a reload or a failed label doesn't lose the rest of the batch.
+ *
+ * Failed jobs stay in the queue until retried or cancelled; finished and cancelled jobs move to
+ * the completed log. A queue restored after a reload starts paused so nothing prints unasked.
+ */
+
+export type QueueOptions = Pick<BatchPrintConfig, 'pauseBetweenJobs' | 'continueOnError'>;
+
+export interface QueuedPrintJob extends PrintJob {
+    /** Options of the batch the job was queued with */
+    options: QueueOptions;
+    attempts: number;
+    /** The queue pauses before printing this job (the rest of a split batch) */
+    holdBefore?: boolean;
+    startedAt?: number;
+    finishedAt?: number;
+}
+
+export interface PrintQueueSnapshot {
+    jobs: QueuedPrintJob[];
+    /** Completed and cancelled jobs, newest first */
+    log: QueuedPrintJob[];
+    paused: boolean;
+}
+
+export interface PrintQueueState extends PrintQueueSnapshot {
+    /** A job is printing or the queue is waiting between jobs */
+    running: boolean;
+}
+
+export interface PrintQueueStore {
+    load: () => Promise<PrintQueueSnapshot | null>;
+    save: (snapshot: PrintQueueSnapshot) => Promise<void>;
+}
+
+export interface PrintQueueConfig {
+    store: PrintQueueStore;
+    /** Prints one job; rejects when it fails */
+    printJob: (job: QueuedPrintJob) => Promise<void>;
+    onJobFailed?: (job: QueuedPrintJob, error: Error) => void;
+    /** The queue ran out of jobs to print; `failed` jobs are left in it for a retry */
+    onDrained?: (failed: number) => void;
+    sleep?: (ms: number) => Promise<void>;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = { pauseBetweenJobs: 0, continueOnError: false };
+
+const MAX_LOG_ENTRIES = 100;
+const DB_NAME = 'filament_print_queue';
+const DB_STORE = 'queue';
+const SNAPSHOT_KEY = 'snapshot';
+
+// --- Stores ---
+
+export const createMemoryQueueStore = (initial: PrintQueueSnapshot | null = null): PrintQueueStore & { snapshot: PrintQueueSnapshot | null } => {
+    const store = {
+        snapshot: initial,
+        load: async () => store.snapshot,
+        save: async (snapshot: PrintQueueSnapshot) => { store.snapshot = structuredClone(snapshot); }
+    };
+    return store;
+};
+
+const openQueueDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/** IndexedDB store; falls back to memory where IndexedDB is unavailable (private mode, tests) */
+export const createIndexedDbQueueStore = (): PrintQueueStore => {
+    if (typeof indexedDB === 'undefined') return createMemoryQueueStore();
+
+    let db: Promise<IDBDatabase> | null = null;
+    const getDb = () => (db ??= openQueueDb());
+
+    const request = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) =>
+        getDb().then(database => new Promise<T>((resolve, reject) => {
+            const req = run(database.transaction(DB_STORE, mode).objectStore(DB_STORE));
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        }));
+
+    return {
+        load: async () => {
+            try {
+                return (await request<PrintQueueSnapshot | undefined>('readonly', s => s.get(SNAPSHOT_KEY))) || null;
+            } catch (e) {
+                console.warn("Failed to load print queue", e);
+                return null;
+            }
+        },
+        save: async (snapshot) => {
+            try {
+                await request('readwrite', s => s.put(snapshot, SNAPSHOT_KEY));
+            } catch (e) {
+                console.warn("Failed to persist print queue", e);
+            }
+        }
+    };
+};
+
+// --- Queue ---
+
+export const createPrintQueue = (config: PrintQueueConfig) => {
+    const sleep = config.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+    const listeners = new Set<(state: PrintQueueState) => void>();
+
+    let jobs: QueuedPrintJob[] = [];
+    let log: QueuedPrintJob[] = [];
+    let paused = false;
+    let running = false;
+    // Settles once a load() in progress has restored the saved queue
+    let loading: Promise<void> = Promise.resolve();
+
+    const getState = (): PrintQueueState => ({ jobs, log, paused, running });
+
+    const commit = async () => {
+        const state = getState();
+        listeners.forEach(listener => listener(state));
+        await config.store.save({ jobs, log, paused });
+    };
+
+    const updateJob = (id: string, update: Partial<QueuedPrintJob>) => {
+        jobs = jobs.map(j => (j.id === id ? { ...j, ...update } : j));
+    };
+
+    const finishJob = (id: string, update: Partial<QueuedPrintJob>) => {
+        const job = jobs.find(j => j.id === id);
+        if (!job) return;
+        jobs = jobs.filter(j => j.id !== id);
+        log = [{ ...job, ...update, finishedAt: Date.now() }, ...log].slice(0, MAX_LOG_ENTRIES);
+    };
+
+    const nextJob = () => jobs.find(j => j.status === 'queued');
+
+    const run = async () => {
+        if (running) return;
+        running = true;
+        await commit();
+
+        try {
+            while (!paused) {
+                const job = nextJob();
+                if (!job) {
+                    config.onDrained?.(jobs.filter(j => j.status === 'error').length);
+                    break;
+                }
+                if (job.holdBefore) {
+                    // Held once: resuming prints it
+                    updateJob(job.id, { holdBefore: undefined });
+                    paused = true;
+                    break;
+                }
+
+                updateJob(job.id, { status: 'printing', progress: 0, error: undefined, attempts: job.attempts + 1, startedAt: Date.now() });
+                await commit();
+
+                try {
+                    await config.printJob(jobs.find(j => j.id === job.id)!);
+                    finishJob(job.id, { status: 'complete', progress: 100 });
+                } catch (e: any) {
+                    const error = e instanceof Error ? e : new Error(String(e));
+                    updateJob(job.id, { status: 'error', error: error.message || 'Print failed' });
+                    if (!job.options.continueOnError) paused = true;
+                    config.onJobFailed?.(jobs.find(j => j.id === job.id)!, error);
+                }
+                await commit();
+
+                if (!paused && nextJob() && job.options.pauseBetweenJobs > 0) {
+                    await sleep(job.options.pauseBetweenJobs * 1000);
+                }
+            }
+        } finally {
+            running = false;
+            await commit();
+        }
+    };
+
+    return {
+        getState,
+
+        subscribe: (listener: (state: PrintQueueState) => void) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        /** Restore the persisted queue; interrupted jobs are queued again and the queue waits for resume */
+        load: () => {
+            loading = (async () => {
+                const saved = await config.store.load();
+                if (!saved) return;
+                jobs = (saved.jobs || []).map(j => (j.status === 'printing' ? { ...j, status: 'queued' as const, progress: 0 } : j));
+                log = saved.log || [];
+                paused = saved.paused || jobs.length > 0;
+                await commit();
+            })();
+            return loading;
+        },
+
+        /**
+         * Add jobs at the end and start printing.
+         * With holdFrom, the queue pauses before newJobs[holdFrom] until resumed.
+         */
+        enqueue: async (newJobs: PrintJob[], options: QueueOptions = DEFAULT_QUEUE_OPTIONS, holdFrom?: number) => {
+            // Jobs added while the saved queue loads would be replaced by it
+            await loading;
+            const existing = new Set(jobs.map(j => j.id));
+            jobs = [
+                ...jobs,
+                ...newJobs
+                    .map((j, index) => ({ ...j, status: 'queued' as const, progress: 0, error: undefined, options, attempts: 0, holdBefore: index === holdFrom || undefined }))
+                    .filter(j => !existing.has(j.id))
+            ];
+            paused = false;
+            await run();
+        },
+
+        /** Stop after the job that is printing */
+        pause: async () => {
+            paused = true;
+            await commit();
+        },
+
+        resume: async () => {
+            paused = false;
+            await run();
+        },
+
+        /** Remove a job that isn't printing */
+        cancel: async (id: string) => {
+            const job = jobs.find(j => j.id === id);
+            if (!job || job.status === 'printing') return;
+            finishJob(id, { status: 'cancelled' });
+            await commit();
+        },
+
+        /** Cancel everything except the job that is printing, which finishes */
+        cancelAll: async () => {
+            paused = true;
+            jobs.filter(j => j.status !== 'printing').forEach(j => finishJob(j.id, { status: 'cancelled' }));
+            await commit();
+        },
+
+        /** Move a job to a new position in the queue */
+        move: async (id: string, toIndex: number) => {
+            const job = jobs.find(j => j.id === id);
+            if (!job) return;
+            const rest = jobs.filter(j => j.id !== id);
+            const index = Math.max(0, Math.min(rest.length, toIndex));
+            jobs = [...rest.slice(0, index), job, ...rest.slice(index)];
+            await commit();
+        },
+
+        /** Queue failed jobs again (in place) and continue */
+        retryFailed: async () => {
+            jobs = jobs.map(j => (j.status === 'error' ? { ...j, status: 'queued' as const, progress: 0 } : j));
+            paused = false;
+            await run();
+        },
+
+        clearLog: async () => {
+            log = [];
+            await commit();
+        }
+    };
+};
+
+export type PrintQueue = ReturnType<typeof createPrintQueue>;
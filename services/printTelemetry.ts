@@ -0,0 +1,161 @@
+import { PrintTelemetry, PrinterStats } from '../types';
+
+/**
+ * Print Telemetry
+ * One record per print job (printer, battery before and after, bytes, tape, duration), newest
+ * first in localStorage. Per-printer stats, battery drain, tape use over time and the
+ * replace-roll forecast are all derived from these records.
+ */
+
+export const PRINT_TELEMETRY_STORAGE_KEY = 'print_telemetry';
+const MAX_RECORDS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Typical rated life of a thermal print head
+const HEAD_LIFE_MM = 50 * 1000 * 1000;
+// Jobs compared at the start and end of the history for battery health
+const BATTERY_SAMPLE_JOBS = 20;
+// Tape use rate is taken over this many recent days
+const FORECAST_WINDOW_DAYS = 14;
+const REPLACE_ROLL_DAYS = 7;
+const REPLACE_ROLL_FRACTION = 0.1;
+
+export interface TapeUsageDay {
+    /** Start of the day (local time) */
+    day: number;
+    mm: number;
+}
+
+export interface RollForecast {
+    usedMm: number;
+    remainingMm: number;
+    /** Average over the recent window; 0 if nothing printed lately */
+    mmPerDay: number;
+    /** null when the rate is unknown */
+    daysLeft: number | null;
+    replaceSoon: boolean;
+}
+
+export const loadTelemetry = (printerId?: string): PrintTelemetry[] => {
+    try {
+        const saved = localStorage.getItem(PRINT_TELEMETRY_STORAGE_KEY);
+        const records = saved ? JSON.parse(saved) : [];
+        if (!Array.isArray(records)) return [];
+        return printerId ? records.filter((r: PrintTelemetry) => r.printerId === printerId) : records;
+    } catch (e) {
+        console.warn("Discarding unreadable print telemetry", e);
+        return [];
+    }
+};
+
+export const addTelemetryRecord = (record: Omit<PrintTelemetry, 'id' | 'timestamp'>): PrintTelemetry => {
+    const logged: PrintTelemetry = {
+        id: `tel-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+        timestamp: Date.now(),
+        ...record
+    };
+    try {
+        const records = [logged, ...loadTelemetry()].slice(0, MAX_RECORDS);
+        localStorage.setItem(PRINT_TELEMETRY_STORAGE_KEY, JSON.stringify(records));
+    } catch (e) {
+        console.warn("Failed to persist print telemetry", e);
+    }
+    return logged;
+};
+
+// --- Derived stats ---
+
+/**
+ * Battery percent used per printed label, from jobs with readings before and after.
+ * Jobs where the level rose (charging) are left out. null without usable readings.
+ */
+export const getBatteryDrainPerLabel = (records: PrintTelemetry[]): number | null => {
+    const usable = records.filter(r =>
+        r.batteryBefore !== null && r.batteryAfter !== null && r.copies > 0 && r.batteryAfter <= r.batteryBefore);
+    const labels = usable.reduce((sum, r) => sum + r.copies, 0);
+    if (labels === 0) return null;
+    return usable.reduce((sum, r) => sum + (r.batteryBefore! - r.batteryAfter!), 0) / labels;
+};
+
+/**
+ * Battery health (0-100): how the recent drain per label compares to the first recorded jobs
+ */
+const getBatteryHealth = (records: PrintTelemetry[]): number => {
+    if (records.length < BATTERY_SAMPLE_JOBS * 2) return 100;
+    const recent = getBatteryDrainPerLabel(records.slice(0, BATTERY_SAMPLE_JOBS));
+    const early = getBatteryDrainPerLabel(records.slice(-BATTERY_SAMPLE_JOBS));
+    if (!recent || !early) return 100;
+    return Math.round(Math.min(1, early / recent) * 100);
+};
+
+/**
+ * PrinterStats for one printer's records (newest first)
+ */
+export const computePrinterStats = (records: PrintTelemetry[], lastMaintenance = 0): PrinterStats => {
+    const totalMm = records.reduce((sum, r) => sum + r.labelLengthMm, 0);
+    const succeeded = records.filter(r => !r.error).length;
+
+    return {
+        totalPrints: records.length,
+        totalLabels: records.reduce((sum, r) => sum + r.copies, 0),
+        totalInches: Math.round((totalMm / 25.4) * 10) / 10,
+        batteryHealth: getBatteryHealth(records),
+        printHeadWear: Math.round((totalMm / HEAD_LIFE_MM) * 1000) / 10,
+        lastMaintenance,
+        // Share of jobs that completed
+        averageQuality: records.length > 0 ? Math.round((succeeded / records.length) * 100) : 100,
+        firstPrintDate: records.length > 0 ? records[records.length - 1].timestamp : 0
+    };
+};
+
+const startOfDay = (timestamp: number) => {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+};
+
+/** Tape fed per day over the last `days` days, oldest first, including empty days */
+export const getTapeUsageByDay = (records: PrintTelemetry[], days = 30, now = Date.now()): TapeUsageDay[] => {
+    const today = startOfDay(now);
+    const usage: TapeUsageDay[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+        // setDate keeps local midnight across daylight saving changes
+        const date = new Date(today);
+        date.setDate(date.getDate() - i);
+        usage.push({ day: date.getTime(), mm: 0 });
+    }
+
+    const byDay = new Map(usage.map(u => [u.day, u]));
+    records.forEach(r => {
+        const entry = byDay.get(startOfDay(r.timestamp));
+        if (entry) entry.mm += r.labelLengthMm;
+    });
+    return usage;
+};
+
+/**
+ * Tape left on the loaded roll and when it runs out at the recent rate of use
+ */
+export const getRollForecast = (records: PrintTelemetry[], roll: { loadedAt: number; lengthMm: number }, now = Date.now()): RollForecast => {
+    const usedMm = records
+        .filter(r => r.timestamp >= roll.loadedAt)
+        .reduce((sum, r) => sum + r.labelLengthMm, 0);
+    const remainingMm = Math.max(0, roll.lengthMm - usedMm);
+
+    // Rate over the window, or since the roll went in if that is more recent
+    const windowStart = Math.max(roll.loadedAt, now - FORECAST_WINDOW_DAYS * DAY_MS);
+    const windowDays = Math.max(1, (now - windowStart) / DAY_MS);
+    const recentMm = records
+        .filter(r => r.timestamp >= windowStart)
+        .reduce((sum, r) => sum + r.labelLengthMm, 0);
+    const mmPerDay = recentMm / windowDays;
+    const daysLeft = mmPerDay > 0 ? remainingMm / mmPerDay : null;
+
+    return {
+        usedMm,
+        remainingMm,
+        mmPerDay,
+        daysLeft,
+        replaceSoon: remainingMm <= roll.lengthMm * REPLACE_ROLL_FRACTION || (daysLeft !== null && daysLeft <= REPLACE_ROLL_DAYS)
+    };
+};
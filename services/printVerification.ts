@@ -0,0 +1,241 @@
+import { PrintSettings } from '../types';
+import { LabelPixels, mmToDots, getOffsetRotation, toPaperShift } from './rasterEncoder';
+
+/**
+ * Print Verification
+ * Checks a freshly printed label with the camera: its QR code should decode to the payload
+ * that was sent, and its ink should cover about as much of the label as the design does.
+ * A faint print, a bleeding one or content cut off at an edge becomes a suggested density or
+ * offset change. Pixel analysis is pure; only detectCodes needs the browser's BarcodeDetector.
+ */
+
+export type VerificationStatus = 'verified' | 'mismatch' | 'unreadable';
+
+/** Where the ink is and how much of it, with bounds as fractions of the image (0-1) */
+export interface InkProfile {
+    coverage: number;
+    /** Spread between dark and light (0-1); low for a faint print */
+    contrast: number;
+    bounds: { left: number; top: number; right: number; bottom: number } | null;
+}
+
+export type CorrectionSettings = Pick<PrintSettings, 'density' | 'horizontalOffsetMm' | 'printOffsetMm'>;
+
+/** Settings the correction starts from; a rotation override turns shifts seen on the label against the offsets */
+export type VerifiedSettings = CorrectionSettings & Pick<PrintSettings, 'rotation'>;
+
+export interface PrintCorrection {
+    /** Settings with the correction applied */
+    settings: Partial<CorrectionSettings>;
+    reasons: string[];
+}
+
+export interface PrintVerification {
+    status: VerificationStatus;
+    expected: string | null;
+    decoded: string[];
+    correction: PrintCorrection | null;
+}
+
+export interface VerificationInput {
+    /** QR payload printed on the label, null for labels without one */
+    expected: string | null;
+    decoded: string[];
+    design: InkProfile;
+    /** The photographed label; null when only the live scan ran */
+    captured: InkProfile | null;
+    size: { widthMm: number; heightMm: number };
+    settings: VerifiedSettings;
+    /** Modules per side of the QR code, for the too-small hint */
+    qrModules?: number;
+}
+
+const MIN_CONTRAST = 0.3;
+const FAINT_RATIO = 0.6;
+const VERY_FAINT_RATIO = 0.35;
+const BLEEDING_RATIO = 1.6;
+const DENSITY_STEP = 10;
+// Ink this close to the photo's edge is taken as cut off
+const EDGE_FRACTION = 0.02;
+// Smaller shifts are within how precisely a label can be framed by hand
+const MIN_SHIFT_MM = 0.75;
+const MAX_OFFSET_MM = 5;
+const OFFSET_STEP_MM = 0.25;
+// Phone cameras rarely resolve QR modules smaller than this on thermal paper
+const MIN_QR_MODULE_DOTS = 3;
+
+// --- Ink analysis ---
+
+const toLuma = (pixels: LabelPixels): Uint8Array => {
+    const luma = new Uint8Array(pixels.width * pixels.height);
+    for (let i = 0; i < luma.length; i++) {
+        luma[i] = Math.round(0.299 * pixels.data[i * 4] + 0.587 * pixels.data[i * 4 + 1] + 0.114 * pixels.data[i * 4 + 2]);
+    }
+    return luma;
+};
+
+const percentile = (histogram: Uint32Array, total: number, fraction: number) => {
+    let seen = 0;
+    for (let v = 0; v < histogram.length; v++) {
+        seen += histogram[v];
+        if (seen >= total * fraction) return v;
+    }
+    return histogram.length - 1;
+};
+
+/** Coverage and bounds of pixels darker than the threshold */
+export const measureInk = (luma: ArrayLike<number>, width: number, height: number, threshold: number, contrast = 1): InkProfile => {
+    let dark = 0;
+    let left = width, top = height, right = -1, bottom = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (luma[y * width + x] >= threshold) continue;
+            dark++;
+            if (x < left) left = x;
+            if (x > right) right = x;
+            if (y < top) top = y;
+            if (y > bottom) bottom = y;
+        }
+    }
+    return {
+        coverage: dark / (width * height),
+        contrast,
+        bounds: dark > 0 ? { left: left / width, top: top / height, right: (right + 1) / width, bottom: (bottom + 1) / height } : null
+    };
+};
+
+/** Ink of the rendered design (black on white) */
+export const measureDesignInk = (pixels: LabelPixels): InkProfile =>
+    measureInk(toLuma(pixels), pixels.width, pixels.height, 128);
+
+/**
+ * Ink of a photographed label. Lighting varies, so the threshold sits halfway between the
+ * darkest and lightest few percent of the photo.
+ */
+export const measureCapturedInk = (pixels: LabelPixels): InkProfile => {
+    const luma = toLuma(pixels);
+    const histogram = new Uint32Array(256);
+    luma.forEach(v => histogram[v]++);
+    const low = percentile(histogram, luma.length, 0.05);
+    const high = percentile(histogram, luma.length, 0.95);
+    return measureInk(luma, pixels.width, pixels.height, (low + high) / 2, (high - low) / 255);
+};
+
+// --- Corrections ---
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const roundOffset = (mm: number) => Math.round(mm / OFFSET_STEP_MM) * OFFSET_STEP_MM;
+
+/**
+ * Shift (mm, positive = right / down) of content cut off at one edge of the photo, measured
+ * from the opposite edge. 0 when nothing is cut off or the shift is too small to trust.
+ */
+const getCroppedShiftMm = (design: [number, number], captured: [number, number], lengthMm: number) => {
+    const cutStart = captured[0] <= EDGE_FRACTION && design[0] > EDGE_FRACTION;
+    const cutEnd = captured[1] >= 1 - EDGE_FRACTION && design[1] < 1 - EDGE_FRACTION;
+    if (cutStart === cutEnd) return 0;
+    const shift = (cutEnd ? captured[0] - design[0] : captured[1] - design[1]) * lengthMm;
+    return Math.abs(shift) >= MIN_SHIFT_MM ? shift : 0;
+};
+
+/**
+ * Density and offset changes that would fix what the photo shows, or null if it looks right
+ */
+export const suggestCorrection = (
+    design: InkProfile,
+    captured: InkProfile,
+    size: { widthMm: number; heightMm: number },
+    settings: VerifiedSettings
+): PrintCorrection | null => {
+    const patch: Partial<CorrectionSettings> = {};
+    const reasons: string[] = [];
+
+    const ratio = design.coverage > 0 ? captured.coverage / design.coverage : 1;
+    if (captured.contrast < MIN_CONTRAST || ratio < FAINT_RATIO) {
+        const step = ratio < VERY_FAINT_RATIO ? DENSITY_STEP * 2 : DENSITY_STEP;
+        patch.density = clamp(settings.density + step, 0, 100);
+        reasons.push('Print looks faint');
+    } else if (ratio > BLEEDING_RATIO) {
+        patch.density = clamp(settings.density - DENSITY_STEP, 0, 100);
+        reasons.push('Ink is bleeding, fine details run together');
+    }
+    if (patch.density === settings.density) delete patch.density;
+
+    if (design.bounds && captured.bounds) {
+        const dx = getCroppedShiftMm([design.bounds.left, design.bounds.right], [captured.bounds.left, captured.bounds.right], size.widthMm);
+        const dy = getCroppedShiftMm([design.bounds.top, design.bounds.bottom], [captured.bounds.top, captured.bounds.bottom], size.heightMm);
+        if (dx !== 0) reasons.push(`Content is cut off on the ${dx > 0 ? 'right' : 'left'}`);
+        if (dy !== 0) reasons.push(`Content is cut off at the ${dy > 0 ? 'bottom' : 'top'}`);
+
+        const shift = toPaperShift({ x: dx, y: dy }, getOffsetRotation(mmToDots(size.widthMm), mmToDots(size.heightMm), settings.rotation));
+        if (shift.x !== 0) {
+            patch.horizontalOffsetMm = clamp(roundOffset((settings.horizontalOffsetMm || 0) - shift.x), -MAX_OFFSET_MM, MAX_OFFSET_MM);
+        }
+        if (shift.y !== 0) {
+            patch.printOffsetMm = clamp(roundOffset((settings.printOffsetMm || 0) - shift.y), -MAX_OFFSET_MM, MAX_OFFSET_MM);
+        }
+    }
+
+    return reasons.length > 0 ? { settings: patch, reasons } : null;
+};
+
+/** Printer dots per QR module when the code fills the label's height */
+export const getQrModuleDots = (heightMm: number, modules: number) =>
+    modules > 0 ? mmToDots(heightMm) / modules : Infinity;
+
+/**
+ * Compare what the camera decoded (and saw) with what was printed
+ */
+export const verifyPrint = (input: VerificationInput): PrintVerification => {
+    const { expected, decoded, design, captured, size, settings } = input;
+
+    const status: VerificationStatus = expected === null
+        ? 'verified'
+        : decoded.includes(expected) ? 'verified'
+        : decoded.length > 0 ? 'mismatch'
+        : 'unreadable';
+
+    let correction = captured ? suggestCorrection(design, captured, size, settings) : null;
+    if (expected !== null && status === 'unreadable' && input.qrModules
+        && getQrModuleDots(size.heightMm, input.qrModules) < MIN_QR_MODULE_DOTS) {
+        const hint = `QR modules are under ${MIN_QR_MODULE_DOTS} dots on ${size.heightMm}mm tape; use a shorter QR text or a taller label`;
+        correction = { settings: correction?.settings || {}, reasons: [...(correction?.reasons || []), hint] };
+    }
+
+    return {
+        // A label without a QR code passes when its ink looks right
+        status: expected === null && correction ? 'unreadable' : status,
+        expected,
+        decoded,
+        correction
+    };
+};
+
+// --- Camera ---
+
+interface DetectedBarcode {
+    rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+    detect: (source: CanvasImageSource) => Promise<DetectedBarcode[]>;
+}
+
+const SCAN_FORMATS = ['qr_code', 'data_matrix', 'aztec', 'code_128', 'ean_13', 'upc_a'];
+
+export const isBarcodeDetectorSupported = () => typeof window !== 'undefined' && 'BarcodeDetector' in window;
+
+/**
+ * Payloads of the codes in an image or video frame (BarcodeDetector is still experimental:
+ * empty when it is missing or fails)
+ */
+export const detectCodes = async (source: CanvasImageSource): Promise<string[]> => {
+    if (!isBarcodeDetectorSupported()) return [];
+    try {
+        const Detector = (window as unknown as { BarcodeDetector: new (options: { formats: string[] }) => BarcodeDetectorInstance }).BarcodeDetector;
+        const codes = await new Detector({ formats: SCAN_FORMATS }).detect(source);
+        return codes.map(c => c.rawValue).filter(Boolean);
+    } catch (e) {
+        return [];
+    }
+};
@@ -0,0 +1,307 @@
+import { PrintSettings, PrinterStatusReport } from '../types';
+
+/**
+ * Printer Driver Layer
+ * Model-specific command sets for the BLE label printers we support.
+ * printerService owns the connection and the print loop; drivers only build bytes.
+ */
+
+// Services and Characteristics
+export const PRINTER_SERVICES = {
+    // Phomemo Standard
+    PHOMEMO: '000018f0-0000-1000-8000-00805f9b34fb',
+    ALT_SERVICE: '0000ff00-0000-1000-8000-00805f9b34fb',
+    PROPRIETARY: 'e7810a71-73ae-499d-8c15-faa9aef0c3f2',
+
+    // HM-10 UART (Common in generic/iDPRT S1?)
+    HM10_UART: '0000ffe0-0000-1000-8000-00805f9b34fb',
+
+    // Nordic UART (Common in BLE devices)
+    NORDIC_UART: '6e400001-b5a3-f393-e0a9-e50e24dcca9e',
+
+    // Standard Info
+    BATTERY: '0000180f-0000-1000-8000-00805f9b34fb',
+    DEVICE_INFO: '0000180a-0000-1000-8000-00805f9b34fb'
+};
+
+export const WRITE_CHARACTERISTICS = {
+    // HM-10
+    HM10_TX: '0000ffe1-0000-1000-8000-00805f9b34fb',
+    // Nordic
+    NORDIC_TX: '6e400002-b5a3-f393-e0a9-e50e24dcca9e'
+};
+
+export const NOTIFY_CHARACTERISTICS = {
+    // Nordic (RX from the device's point of view is our TX, so notifications come on 0003)
+    NORDIC_RX: '6e400003-b5a3-f393-e0a9-e50e24dcca9e'
+};
+
+export type PrinterDriverId = 'phomemo-d30' | 'phomemo-m110' | 'generic-escpos';
+export type LabelType = 'gap' | 'continuous' | 'mark';
+export type PrintSpeed = 1 | 2 | 3 | 4 | 5;
+export type FlowControlSignal = 'pause' | 'resume';
+
+export interface PrinterDriver {
+    id: PrinterDriverId;
+    name: string;
+    /** Advertised device name prefixes this driver claims (matched case-insensitively) */
+    namePrefixes: string[];
+    /** GATT services that identify this family when the name is not conclusive */
+    serviceUuids: string[];
+    /** Reset / initialize the printer before a job */
+    init: () => Uint8Array;
+    /** Heat levels the model's density command accepts; null = no hardware density */
+    heatRange: { min: number; max: number } | null;
+    /** Density command for a heat level within heatRange. null = not supported */
+    density: (heatLevel: number) => Uint8Array | null;
+    /** Most software darkening (0-100) worth applying before fine detail fills in on this head */
+    maxDarkness: number;
+    speed: (speed: PrintSpeed) => Uint8Array | null;
+    labelType: (type: LabelType) => Uint8Array | null;
+    justification: (align: 'left' | 'center' | 'right') => Uint8Array | null;
+    /** Raster block header for a bitmap of widthBytes x heightRows */
+    rasterHeader: (widthBytes: number, heightRows: number) => Uint8Array;
+    /** Print buffer and feed n dot lines */
+    feed: (lines: number) => Uint8Array;
+    /** Sent after the raster of each copy (e.g. "print and advance to gap"). null = nothing */
+    endOfLabel: () => Uint8Array | null;
+    /** Ask the printer to report its state on the notify characteristic. null = no status support */
+    statusQuery: () => Uint8Array | null;
+    /** Decode one notification into the status fields it carries. null = not a status message */
+    parseStatus: (data: Uint8Array) => Partial<PrinterStatusReport> | null;
+    /** Largest raster write to start with; the transmitter shrinks it if the link rejects it */
+    maxChunkSize: number;
+    /** Decode a flow-control notification. null = not a flow-control message */
+    flowControl: (data: Uint8Array) => FlowControlSignal | null;
+}
+
+// --- Shared ESC/POS building blocks ---
+
+const escInit = () => new Uint8Array([0x1B, 0x40]);
+
+// GS v 0 m xL xH yL yH
+const gsRasterHeader = (widthBytes: number, heightRows: number) => new Uint8Array([
+    0x1D, 0x76, 0x30, 0x00,
+    widthBytes % 256, Math.floor(widthBytes / 256),
+    heightRows % 256, Math.floor(heightRows / 256)
+]);
+
+// ESC d n (Print and feed n lines)
+const escFeed = (lines: number) => new Uint8Array([0x1B, 0x64, Math.max(0, Math.min(255, Math.round(lines)))]);
+
+// ESC a n (0 = left, 1 = center, 2 = right)
+const escJustify = (align: 'left' | 'center' | 'right') =>
+    new Uint8Array([0x1B, 0x61, align === 'left' ? 0 : align === 'center' ? 1 : 2]);
+
+// ESC N 0x0D n (1 = slowest, 5 = fastest)
+const phomemoSpeed = (speed: PrintSpeed) => new Uint8Array([0x1B, 0x4E, 0x0D, speed]);
+
+// 1F 11 n: 0x0A = gaps, 0x0B = continuous, 0x26 = black marks
+const phomemoLabelType = (type: LabelType) =>
+    new Uint8Array([0x1F, 0x11, type === 'gap' ? 0x0A : type === 'continuous' ? 0x0B : 0x26]);
+
+/** Battery percentage at or below which the printer is reported as low */
+export const LOW_BATTERY_PERCENT = 10;
+
+/**
+ * Phomemo notifications are 3 bytes: 0x1A [field] [value]
+ * 0x03 = head temperature (0xA9 overheated, 0xA8 normal)
+ * 0x04 = battery percent
+ * 0x05 = paper (0x88 out, 0x89 loaded)
+ * 0x06 = cover (0x88 open, 0x89 closed)
+ * 0x0F = job state (0x0C finished printing)
+ */
+const parsePhomemoStatus = (data: Uint8Array): Partial<PrinterStatusReport> | null => {
+    if (data.length < 3 || data[0] !== 0x1A) return null;
+    const value = data[2];
+    switch (data[1]) {
+        case 0x03: return { overheat: value === 0xA9 };
+        case 0x04: return { battery: value, lowBattery: value <= LOW_BATTERY_PERCENT };
+        case 0x05: return { paperOut: value === 0x88 };
+        case 0x06: return { coverOpen: value === 0x88 };
+        case 0x0F: return { busy: value !== 0x0C };
+        default: return null;
+    }
+};
+
+/**
+ * ESC/POS DLE EOT 2 (offline status) reply, a single byte:
+ * bit 2 = cover open, bit 3 = feeding, bit 5 = stopped on paper end
+ */
+const parseEscPosStatus = (data: Uint8Array): Partial<PrinterStatusReport> | null => {
+    // Status bytes always have bit 4 set and bits 0/7 clear
+    if (data.length !== 1 || (data[0] & 0x93) !== 0x12) return null;
+    const byte = data[0];
+    return {
+        coverOpen: (byte & 0x04) !== 0,
+        busy: (byte & 0x08) !== 0,
+        paperOut: (byte & 0x20) !== 0
+    };
+};
+
+/**
+ * ESC/POS software handshaking: the printer sends XOFF (0x13) when its
+ * receive buffer is nearly full and XON (0x11) once it has drained
+ */
+const parseXonXoff = (data: Uint8Array): FlowControlSignal | null => {
+    if (data.length !== 1) return null;
+    if (data[0] === 0x13) return 'pause';
+    if (data[0] === 0x11) return 'resume';
+    return null;
+};
+
+// --- Density ---
+
+/** What a print's density turns into on a given model */
+export interface DensityPlan {
+    /** Sent with the density command; null when the model has none */
+    heatLevel: number | null;
+    /** Software shift for the raster encoder (50 = unchanged, 100 = darkest) */
+    rasterDensity: number;
+}
+
+/** Map 0-100 UI density onto the model's heat scale; null without hardware density */
+export const toHeatLevel = (driver: Pick<PrinterDriver, 'heatRange'>, density: number): number | null => {
+    if (!driver.heatRange) return null;
+    const { min, max } = driver.heatRange;
+    return Math.max(min, Math.min(max, Math.ceil(density / 100 * max)));
+};
+
+/** Lowest UI density that selects this heat level */
+export const fromHeatLevel = (driver: Pick<PrinterDriver, 'heatRange'>, heatLevel: number): number =>
+    driver.heatRange ? Math.floor(heatLevel * 100 / driver.heatRange.max) : 50;
+
+/**
+ * Split a print's density between the head and the raster. Density drives the heat level and
+ * darkness the software shift, each within the model's range. Models without a heat command get
+ * the density as a software shift instead, so the slider still does something.
+ */
+export const resolveDensity = (driver: Pick<PrinterDriver, 'heatRange' | 'maxDarkness'>, settings: Pick<PrintSettings, 'density' | 'darkness'>): DensityPlan => {
+    const darkness = Math.max(0, Math.min(driver.maxDarkness, settings.darkness || 0));
+    if (!driver.heatRange) {
+        return { heatLevel: null, rasterDensity: Math.max(0, Math.min(50 + driver.maxDarkness / 2, settings.density + darkness / 2)) };
+    }
+    return { heatLevel: toHeatLevel(driver, settings.density), rasterDensity: 50 + darkness / 2 };
+};
+
+// --- Drivers ---
+
+/**
+ * Phomemo D30 / Q30 handheld label makers.
+ * Density via the proprietary 0x1F 0x11 0x24 command.
+ */
+export const phomemoD30Driver: PrinterDriver = {
+    id: 'phomemo-d30',
+    name: 'Phomemo D30 / Q30',
+    namePrefixes: ['D30', 'D35', 'D50', 'Q30', 'Q31'],
+    serviceUuids: [PRINTER_SERVICES.PHOMEMO, PRINTER_SERVICES.ALT_SERVICE, PRINTER_SERVICES.PROPRIETARY],
+    init: escInit,
+    heatRange: { min: 1, max: 15 },
+    density: (heatLevel) => new Uint8Array([0x1F, 0x11, 0x24, heatLevel]),
+    // The 12-15mm head bleeds quickly on small text
+    maxDarkness: 40,
+    speed: phomemoSpeed,
+    labelType: phomemoLabelType,
+    justification: escJustify,
+    rasterHeader: gsRasterHeader,
+    feed: escFeed,
+    endOfLabel: () => null,
+    // 1F 11 11: request device status
+    statusQuery: () => new Uint8Array([0x1F, 0x11, 0x11]),
+    parseStatus: parsePhomemoStatus,
+    maxChunkSize: 128,
+    flowControl: () => null
+};
+
+/**
+ * Phomemo M-series desktop label printers (M02, M110, M120, M220).
+ * Density via ESC N 0x04, and a footer that advances to the next gap.
+ */
+export const phomemoM110Driver: PrinterDriver = {
+    id: 'phomemo-m110',
+    name: 'Phomemo M-Series',
+    namePrefixes: ['M02', 'M03', 'M04', 'M110', 'M120', 'M220'],
+    serviceUuids: [],
+    init: escInit,
+    heatRange: { min: 1, max: 15 },
+    density: (heatLevel) => new Uint8Array([0x1B, 0x4E, 0x04, heatLevel]),
+    maxDarkness: 60,
+    speed: phomemoSpeed,
+    labelType: phomemoLabelType,
+    justification: escJustify,
+    rasterHeader: gsRasterHeader,
+    feed: escFeed,
+    endOfLabel: () => new Uint8Array([0x1F, 0xF0, 0x05, 0x00, 0x1F, 0xF0, 0x03, 0x00]),
+    statusQuery: () => new Uint8Array([0x1F, 0x11, 0x11]),
+    parseStatus: parsePhomemoStatus,
+    maxChunkSize: 128,
+    flowControl: () => null
+};
+
+/**
+ * Plain ESC/POS over a UART bridge (iDPRT, HM-10 / Nordic UART clones).
+ * Only the commands every ESC/POS raster printer understands.
+ */
+export const genericEscPosDriver: PrinterDriver = {
+    id: 'generic-escpos',
+    name: 'Generic ESC/POS',
+    namePrefixes: ['iD', 'S1'],
+    serviceUuids: [PRINTER_SERVICES.HM10_UART, PRINTER_SERVICES.NORDIC_UART],
+    init: escInit,
+    heatRange: null,
+    density: () => null,
+    // Software is the only way to darken these
+    maxDarkness: 100,
+    speed: () => null,
+    labelType: () => null,
+    justification: escJustify,
+    rasterHeader: gsRasterHeader,
+    feed: escFeed,
+    endOfLabel: () => null,
+    // DLE EOT 2: transmit offline status
+    statusQuery: () => new Uint8Array([0x10, 0x04, 0x02]),
+    parseStatus: parseEscPosStatus,
+    // UART bridges are often stuck at the default MTU; 60 is what these have always been sent
+    maxChunkSize: 60,
+    flowControl: parseXonXoff
+};
+
+export const PRINTER_DRIVERS: PrinterDriver[] = [
+    phomemoD30Driver,
+    phomemoM110Driver,
+    genericEscPosDriver
+];
+
+/**
+ * Pick the driver for a device.
+ * The advertised name wins (longest matching prefix), then the GATT service the
+ * write characteristic was found on, then plain ESC/POS.
+ */
+export const selectPrinterDriver = (deviceName?: string, serviceUuid?: string): PrinterDriver => {
+    const name = (deviceName || '').trim().toUpperCase();
+
+    if (name) {
+        let best: PrinterDriver | null = null;
+        let bestLength = 0;
+        PRINTER_DRIVERS.forEach(driver => {
+            driver.namePrefixes.forEach(prefix => {
+                if (name.startsWith(prefix.toUpperCase()) && prefix.length > bestLength) {
+                    best = driver;
+                    bestLength = prefix.length;
+                }
+            });
+        });
+        if (best) return best;
+    }
+
+    if (serviceUuid) {
+        const uuid = serviceUuid.toLowerCase();
+        const byService = PRINTER_DRIVERS.find(d => d.serviceUuids.includes(uuid));
+        if (byService) return byService;
+    }
+
+    return genericEscPosDriver;
+};
+
+export const getPrinterDriver = (id: PrinterDriverId): PrinterDriver =>
+    PRINTER_DRIVERS.find(d => d.id === id) || genericEscPosDriver;
@@ -0,0 +1,142 @@
+import { CalibrationData, LABEL_PRESETS, LabelPreset, PrintSettings } from '../types';
+import { PrinterDriverId, PrintSpeed, selectPrinterDriver } from './printerDrivers';
+import { mmToDots } from './rasterEncoder';
+import { findLabelPreset } from './labelStock';
+
+/**
+ * Printer Registry
+ * Every printer this browser has connected to, with a user-given name and the defaults
+ * (label size, density, speed, calibration) applied when it is the print target.
+ * Entries are keyed by the Bluetooth device id, which is stable per browser profile.
+ */
+
+export const PRINTER_REGISTRY_STORAGE_KEY = 'printer_registry';
+
+export interface RegisteredPrinter {
+    /** Bluetooth device id */
+    id: string;
+    /** User-given name, e.g. "Dry box D30" */
+    name: string;
+    /** Name the printer advertises */
+    deviceName: string;
+    model: PrinterDriverId;
+    defaultLabelId: string;
+    /** One per label size */
+    calibrations: CalibrationData[];
+    density: number;
+    speed: PrintSpeed;
+    /** Firmware revision last read from the printer */
+    firmware?: string;
+    /** Roll currently loaded, for the replace-roll forecast */
+    roll?: { loadedAt: number; lengthMm: number };
+    addedAt: number;
+    lastUsedAt: number;
+}
+
+export type PrinterUpdate = Partial<Omit<RegisteredPrinter, 'id' | 'addedAt'>>;
+
+const DEFAULT_DENSITY = 50;
+const DEFAULT_SPEED: PrintSpeed = 3;
+
+/** Most recently used first */
+export const loadPrinters = (): RegisteredPrinter[] => {
+    try {
+        const saved = localStorage.getItem(PRINTER_REGISTRY_STORAGE_KEY);
+        const printers = saved ? JSON.parse(saved) : [];
+        if (!Array.isArray(printers)) return [];
+        return (printers as RegisteredPrinter[])
+            .filter(p => p && typeof p.id === 'string')
+            .map(p => ({ ...p, calibrations: Array.isArray(p.calibrations) ? p.calibrations : [] }))
+            .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    } catch (e) {
+        console.warn("Discarding unreadable printer registry", e);
+        return [];
+    }
+};
+
+const savePrinters = (printers: RegisteredPrinter[]) => {
+    try {
+        localStorage.setItem(PRINTER_REGISTRY_STORAGE_KEY, JSON.stringify(printers));
+    } catch (e) {
+        console.warn("Failed to persist printer registry", e);
+    }
+};
+
+export const getRegisteredPrinter = (id: string): RegisteredPrinter | null =>
+    loadPrinters().find(p => p.id === id) || null;
+
+/**
+ * Add a newly connected printer or mark a known one as used.
+ * User edits (name, defaults) are kept; only the advertised name is refreshed.
+ */
+export const registerPrinter = (device: Pick<BluetoothDevice, 'id' | 'name'>): RegisteredPrinter => {
+    const printers = loadPrinters();
+    const now = Date.now();
+    const existing = printers.find(p => p.id === device.id);
+
+    if (existing) {
+        existing.deviceName = device.name || existing.deviceName;
+        existing.lastUsedAt = now;
+        savePrinters(printers);
+        return existing;
+    }
+
+    const printer: RegisteredPrinter = {
+        id: device.id,
+        name: device.name || 'Printer',
+        deviceName: device.name || '',
+        model: selectPrinterDriver(device.name).id,
+        defaultLabelId: LABEL_PRESETS[0].id,
+        calibrations: [],
+        density: DEFAULT_DENSITY,
+        speed: DEFAULT_SPEED,
+        addedAt: now,
+        lastUsedAt: now
+    };
+    savePrinters([printer, ...printers]);
+    return printer;
+};
+
+export const updatePrinter = (id: string, update: PrinterUpdate): RegisteredPrinter | null => {
+    const printers = loadPrinters();
+    const index = printers.findIndex(p => p.id === id);
+    if (index < 0) return null;
+
+    printers[index] = { ...printers[index], ...update };
+    savePrinters(printers);
+    return printers[index];
+};
+
+export const removePrinter = (id: string) => {
+    savePrinters(loadPrinters().filter(p => p.id !== id));
+};
+
+/**
+ * Calibration for a label size, matched on the printed size in dots so custom sizes
+ * that round to the same raster share it
+ */
+export const findCalibration = (printer: RegisteredPrinter, widthDots: number, heightDots: number): CalibrationData | null =>
+    printer.calibrations.find(c => mmToDots(c.labelWidthMm) === widthDots && mmToDots(c.labelHeightMm) === heightDots) || null;
+
+/** Store a calibration, replacing the one for the same label size */
+export const saveCalibration = (printerId: string, calibration: CalibrationData): RegisteredPrinter | null => {
+    const printer = getRegisteredPrinter(printerId);
+    if (!printer) return null;
+
+    const widthDots = mmToDots(calibration.labelWidthMm);
+    const heightDots = mmToDots(calibration.labelHeightMm);
+    const others = printer.calibrations.filter(c => mmToDots(c.labelWidthMm) !== widthDots || mmToDots(c.labelHeightMm) !== heightDots);
+    return updatePrinter(printerId, { calibrations: [...others, calibration] });
+};
+
+export const getDefaultLabel = (printer: RegisteredPrinter): LabelPreset =>
+    findLabelPreset(printer.defaultLabelId) || LABEL_PRESETS[0];
+
+/**
+ * Settings for a print on this printer: its density and speed replace the current ones
+ */
+export const applyPrinterDefaults = (settings: PrintSettings, printer: RegisteredPrinter): PrintSettings => ({
+    ...settings,
+    density: printer.density,
+    speed: printer.speed
+});
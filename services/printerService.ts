@@ -1,12 +1,60 @@
-import { FilamentData, PrintSettings, PrinterInfo, CalibrationData } from '../types';
+import { FilamentData, PrintSettings, PrinterInfo, CalibrationData, LabelPreset, PrinterStatus, PrinterStatusReport, PrintJobRecord } from '../types';
+import { PRINTER_SERVICES, WRITE_CHARACTERISTICS, NOTIFY_CHARACTERISTICS, PrinterDriver, PrintSpeed, LabelType, selectPrinterDriver, resolveDensity, fromHeatLevel } from './printerDrivers';
+import { RasterImage, LabelSource, encodeCanvas, encodeRaster, frameLabel, mmToDots } from './rasterEncoder';
+import { LinkProfile, TransmitResult, createFlowGate, createLinkProfile, transmit, formatThroughput } from './bleTransmitter';
+import { registerPrinter, getRegisteredPrinter, findCalibration, updatePrinter } from './printerRegistry';
+import { applyCalibration, createCalibrationPattern } from './calibration';
+import { createLadderPattern } from './densityLadder';
+import { ResumeMode, saveJobRecord, loadJobRecord, clearJobRecord, encodeRasterData, decodeRasterData, getResumeCopies } from './printJobRecovery';
+import { recordPrintTiming, getTapeLengthMm } from './printEstimator';
+import { addTelemetryRecord } from './printTelemetry';
 
 // Persistent Connection State
 let cachedDevice: BluetoothDevice | null = null;
 let connectionListeners: ((isConnected: boolean) => void)[] = [];
 let statusListeners: ((status: string) => void)[] = [];
 
+let printerStateListeners: ((status: PrinterStatus, report: PrinterStatusReport | null) => void)[] = [];
+
+// Printer state decoded from notifications (null until the printer reports something)
+let statusReport: PrinterStatusReport | null = null;
+let statusSubscription: { deviceId: string; characteristic: BluetoothRemoteGATTCharacteristic } | null = null;
+let pendingStatusReplies: (() => void)[] = [];
+
+const STATUS_REPLY_TIMEOUT_MS = 800;
+// Status replies arrive as a burst of notifications; wait this long after the first one
+const STATUS_BURST_MS = 100;
+
+// Transmission state learned per connection (chunk size, pacing) and printer back-pressure
+const linkProfiles = new Map<string, LinkProfile>();
+const flowGate = createFlowGate();
+
+// Job currently being sent; its persisted record is not "interrupted" while this is set
+let activeJobId: string | null = null;
+
+const FAULT_MESSAGES: Partial<Record<PrinterStatus, string>> = {
+    paper_out: 'Out of Paper',
+    cover_open: 'Cover Open',
+    overheat: 'Print Head Overheated'
+};
+
+/**
+ * Thrown when the printer reports a condition that makes printing impossible
+ * (before the job starts or while chunks are being sent).
+ */
+export class PrinterFaultError extends Error {
+    status: PrinterStatus;
+
+    constructor(status: PrinterStatus) {
+        super(`Printer reports: ${FAULT_MESSAGES[status] || status}`);
+        this.name = 'PrinterFaultError';
+        this.status = status;
+    }
+}
+
 const notifyListeners = (isConnected: boolean) => {
     connectionListeners.forEach(l => l(isConnected));
+    if (!isConnected) resetPrinterState();
 };
 
 const notifyStatus = (status: string) => {
@@ -31,6 +79,46 @@ export const removeStatusListener = (listener: (status: string) => void) => {
     statusListeners = statusListeners.filter(l => l !== listener);
 };
 
+export const addPrinterStateListener = (listener: (status: PrinterStatus, report: PrinterStatusReport | null) => void) => {
+    printerStateListeners.push(listener);
+    listener(summarizeStatus(statusReport), statusReport);
+};
+
+export const removePrinterStateListener = (listener: (status: PrinterStatus, report: PrinterStatusReport | null) => void) => {
+    printerStateListeners = printerStateListeners.filter(l => l !== listener);
+};
+
+/**
+ * Collapse the individual flags into the single most important state.
+ * Faults come first, then busy, then the low-battery warning.
+ */
+export const summarizeStatus = (report: PrinterStatusReport | null): PrinterStatus => {
+    if (!report) return 'unknown';
+    if (report.coverOpen) return 'cover_open';
+    if (report.paperOut) return 'paper_out';
+    if (report.overheat) return 'overheat';
+    if (report.busy) return 'busy';
+    if (report.lowBattery) return 'low_battery';
+    return 'ready';
+};
+
+export const isFaultStatus = (status: PrinterStatus): boolean =>
+    status === 'paper_out' || status === 'cover_open' || status === 'overheat';
+
+const notifyPrinterState = () => {
+    const status = summarizeStatus(statusReport);
+    printerStateListeners.forEach(l => l(status, statusReport));
+};
+
+const resetPrinterState = () => {
+    statusReport = null;
+    statusSubscription = null;
+    pendingStatusReplies = [];
+    linkProfiles.clear();
+    flowGate.resume();
+    notifyPrinterState();
+};
+
 export const getConnectedDevice = (): BluetoothDevice | null => {
     if (cachedDevice && cachedDevice.gatt?.connected) {
         return cachedDevice;
@@ -39,6 +127,7 @@ export const getConnectedDevice = (): BluetoothDevice | null => {
 };
 
 export const disconnectPrinter = () => {
+    cachedDevice?.removeEventListener('gattserverdisconnected', handleDisconnect);
     if (cachedDevice?.gatt?.connected) {
         try {
             cachedDevice.gatt.disconnect();
@@ -50,31 +139,6 @@ export const disconnectPrinter = () => {
     notifyListeners(false);
 };
 
-// Services and Characteristics
-const PRINTER_SERVICES = {
-    // Phomemo Standard
-    PHOMEMO: '000018f0-0000-1000-8000-00805f9b34fb',
-    ALT_SERVICE: '0000ff00-0000-1000-8000-00805f9b34fb',
-    PROPRIETARY: 'e7810a71-73ae-499d-8c15-faa9aef0c3f2',
-
-    // HM-10 UART (Common in generic/iDPRT S1?)
-    HM10_UART: '0000ffe0-0000-1000-8000-00805f9b34fb',
-
-    // Nordic UART (Common in BLE devices)
-    NORDIC_UART: '6e400001-b5a3-f393-e0a9-e50e24dcca9e',
-
-    // Standard Info
-    BATTERY: '0000180f-0000-1000-8000-00805f9b34fb',
-    DEVICE_INFO: '0000180a-0000-1000-8000-00805f9b34fb'
-};
-
-const WRITE_CHARACTERISTICS = {
-    // HM-10
-    HM10_TX: '0000ffe1-0000-1000-8000-00805f9b34fb',
-    // Nordic
-    NORDIC_TX: '6e400002-b5a3-f393-e0a9-e50e24dcca9e'
-};
-
 const ALL_FILTERS = [
     { namePrefix: 'M' }, // M110, M02
     { namePrefix: 'D' }, // D30
@@ -95,6 +159,29 @@ const ALL_OPTIONAL_SERVICES = [
     PRINTER_SERVICES.DEVICE_INFO
 ];
 
+// Backoff between silent reconnect attempts after a job was cut off
+const RECONNECT_DELAYS_MS = [2000, 5000, 10000, 20000];
+
+const handleDisconnect = () => {
+    console.log("Printer disconnected");
+    cachedDevice = null;
+    notifyListeners(false);
+
+    // A job was cut off: get the printer back so it can be resumed
+    if (loadJobRecord()) reconnectAfterInterruption();
+};
+
+const reconnectAfterInterruption = async () => {
+    for (const delay of RECONNECT_DELAYS_MS) {
+        await new Promise(r => setTimeout(r, delay));
+        if (cachedDevice?.gatt?.connected) return;
+
+        notifyStatus("Reconnecting to printer...");
+        if (await tryReconnect().catch(() => false)) return;
+    }
+    notifyStatus("Printer not found. Reconnect to resume the print.");
+};
+
 /**
  * Attempt to reconnect to a previously authorized device without user interaction
  */
@@ -122,16 +209,13 @@ export const tryReconnect = async (): Promise<boolean> => {
             // Try to connect to the first available one that looks like a printer
             for (const device of devices) {
                 try {
-                    device.addEventListener('gattserverdisconnected', () => {
-                        console.log("Printer disconnected");
-                        cachedDevice = null;
-                        notifyListeners(false);
-                    });
+                    device.addEventListener('gattserverdisconnected', handleDisconnect);
 
                     if (device.gatt) {
                          const server = await device.gatt.connect();
                          if (server && server.connected) {
                              cachedDevice = device;
+                             registerPrinter(device);
                              notifyListeners(true);
                              return true;
                          }
@@ -147,19 +231,32 @@ export const tryReconnect = async (): Promise<boolean> => {
     return false;
 };
 
-export const connectPrinter = async (): Promise<BluetoothDevice> => {
+/**
+ * Connect to a printer, reusing the current connection when possible.
+ * With a registered printer id, switches to that printer: it is reconnected silently if the
+ * browser already has permission for it, otherwise the chooser is shown.
+ */
+export const connectPrinter = async (printerId?: string): Promise<BluetoothDevice> => {
     if (!navigator.bluetooth) {
         throw new Error("Web Bluetooth is not supported in this browser.");
     }
 
-    // Return cached device if still connected
-    if (cachedDevice && cachedDevice.gatt?.connected) {
+    // Return cached device if still connected (and it is the one asked for)
+    if (cachedDevice && cachedDevice.gatt?.connected && (!printerId || cachedDevice.id === printerId)) {
         return cachedDevice;
     }
 
+    // One printer at a time: release the current one before switching
+    if (cachedDevice?.gatt?.connected) disconnectPrinter();
+
     // Clean up old reference if it exists but disconnected
     cachedDevice = null;
 
+    if (printerId) {
+        const device = await connectAuthorizedDevice(printerId);
+        if (device) return device;
+    }
+
     try {
         const device = await navigator.bluetooth.requestDevice({
             filters: ALL_FILTERS,
@@ -167,14 +264,11 @@ export const connectPrinter = async (): Promise<BluetoothDevice> => {
         });
 
         // Add disconnect listener
-        device.addEventListener('gattserverdisconnected', () => {
-            console.log("Printer disconnected");
-            cachedDevice = null;
-            notifyListeners(false);
-        });
+        device.addEventListener('gattserverdisconnected', handleDisconnect);
 
         cachedDevice = device;
         localStorage.setItem('last_printer_id', device.id);
+        registerPrinter(device);
         notifyListeners(true);
         return device;
     } catch (e) {
@@ -184,6 +278,33 @@ export const connectPrinter = async (): Promise<BluetoothDevice> => {
     }
 };
 
+const connectAuthorizedDevice = async (printerId: string): Promise<BluetoothDevice | null> => {
+    if (!('getDevices' in navigator.bluetooth)) return null;
+
+    try {
+        const devices: BluetoothDevice[] = await (navigator.bluetooth as any).getDevices();
+        const device = devices.find(d => d.id === printerId);
+        if (!device?.gatt) return null;
+
+        notifyStatus(`Connecting to ${device.name || 'printer'}...`);
+        device.addEventListener('gattserverdisconnected', handleDisconnect);
+        const server = await device.gatt.connect().catch(e => {
+            device.removeEventListener('gattserverdisconnected', handleDisconnect);
+            throw e;
+        });
+        if (!server?.connected) return null;
+
+        cachedDevice = device;
+        localStorage.setItem('last_printer_id', device.id);
+        registerPrinter(device);
+        notifyListeners(true);
+        return device;
+    } catch (e) {
+        console.warn(`Failed to connect to printer ${printerId}`, e);
+        return null;
+    }
+};
+
 export const getDeviceDetails = async (device: BluetoothDevice): Promise<Partial<PrinterInfo>> => {
     const info: Partial<PrinterInfo> = { name: device.name || 'Printer' };
     try {
@@ -209,6 +330,8 @@ export const getDeviceDetails = async (device: BluetoothDevice): Promise<Partial
                 const val = await fwChar.readValue();
                 const decoder = new TextDecoder('utf-8');
                 info.firmware = decoder.decode(val);
+                // Kept with the printer so telemetry records which firmware printed
+                if (getRegisteredPrinter(device.id)?.firmware !== info.firmware) updatePrinter(device.id, { firmware: info.firmware });
             } catch (e) { }
 
         } catch (e) {
@@ -237,7 +360,17 @@ export const getBatteryLevel = async (device: BluetoothDevice): Promise<number |
     }
 };
 
-const getWriteCharacteristic = async (device: BluetoothDevice): Promise<BluetoothRemoteGATTCharacteristic> => {
+interface PrinterChannel {
+    characteristic: BluetoothRemoteGATTCharacteristic;
+    serviceUuid: string;
+    driver: PrinterDriver;
+}
+
+/**
+ * Find the write characteristic and pick the command driver for the device.
+ * The driver is chosen from the device name, falling back to the service the characteristic lives on.
+ */
+const getPrinterChannel = async (device: BluetoothDevice): Promise<PrinterChannel> => {
     if (!device.gatt?.connected) await device.gatt?.connect();
     const server = device.gatt;
     if (!server) throw new Error("GATT Server not found");
@@ -251,6 +384,12 @@ const getWriteCharacteristic = async (device: BluetoothDevice): Promise<Bluetoot
         PRINTER_SERVICES.NORDIC_UART
     ];
 
+    const channel = (characteristic: BluetoothRemoteGATTCharacteristic, serviceUuid: string): PrinterChannel => ({
+        characteristic,
+        serviceUuid,
+        driver: selectPrinterDriver(device.name, serviceUuid)
+    });
+
     // 1. Try known specific Write Characteristics first (Fast Path)
     for (const sUuid of servicesToCheck) {
         try {
@@ -258,19 +397,19 @@ const getWriteCharacteristic = async (device: BluetoothDevice): Promise<Bluetoot
 
             // Check for HM-10 TX specific
             if (sUuid === PRINTER_SERVICES.HM10_UART) {
-                try { return await service.getCharacteristic(WRITE_CHARACTERISTICS.HM10_TX); } catch(e) {}
+                try { return channel(await service.getCharacteristic(WRITE_CHARACTERISTICS.HM10_TX), sUuid); } catch(e) {}
             }
 
             // Check for Nordic TX specific
             if (sUuid === PRINTER_SERVICES.NORDIC_UART) {
-                try { return await service.getCharacteristic(WRITE_CHARACTERISTICS.NORDIC_TX); } catch(e) {}
+                try { return channel(await service.getCharacteristic(WRITE_CHARACTERISTICS.NORDIC_TX), sUuid); } catch(e) {}
             }
 
             // Fallback: Generic enumeration
             const chars = await service.getCharacteristics();
             for (const c of chars) {
                 if (c.properties.write || c.properties.writeWithoutResponse) {
-                    return c;
+                    return channel(c, sUuid);
                 }
             }
         } catch (e) { continue; }
@@ -278,241 +417,358 @@ const getWriteCharacteristic = async (device: BluetoothDevice): Promise<Bluetoot
     throw new Error("No writeable characteristic found. Device might be incompatible.");
 }
 
+/**
+ * Resolve which driver will be used for a connected device (for display / diagnostics)
+ */
+export const detectPrinterDriver = async (device: BluetoothDevice): Promise<PrinterDriver> => {
+    const { driver } = await getPrinterChannel(device);
+    return driver;
+};
+
 export const feedPaper = async (device: BluetoothDevice) => {
     try {
-        const char = await getWriteCharacteristic(device);
-        // ESC d n (Print and feed n lines)
-        const cmd = new Uint8Array([0x1B, 0x64, 150]);
-        await writeValue(char, cmd);
+        const { characteristic, driver } = await getPrinterChannel(device);
+        await writeValue(characteristic, driver.feed(150));
     } catch (e) {
         console.error("Feed failed", e);
         throw e;
     }
 };
 
-export const checkPrinterStatus = async (device: BluetoothDevice): Promise<'ready' | 'paper_out' | 'cover_open' | 'unknown'> => {
-    if (!device.gatt?.connected) return 'unknown';
+/**
+ * Find the characteristic the printer sends replies on.
+ * UART bridges use a dedicated RX (Nordic) or share the TX characteristic (HM-10);
+ * Phomemo services expose a separate notify characteristic next to the write one.
+ */
+const getNotifyCharacteristic = async (device: BluetoothDevice, channel: PrinterChannel): Promise<BluetoothRemoteGATTCharacteristic | null> => {
+    const { characteristic, serviceUuid } = channel;
+    try {
+        const service = await device.gatt!.getPrimaryService(serviceUuid);
 
-    // Most cheap printers don't reliably report status via standard characteristics
-    // TODO: Implement specific status checks for supported models if possible.
-    // For now, assume ready if connected to avoid blocking prints.
-    return 'ready';
-};
+        if (serviceUuid === PRINTER_SERVICES.NORDIC_UART) {
+            try { return await service.getCharacteristic(NOTIFY_CHARACTERISTICS.NORDIC_RX); } catch (e) { }
+        }
 
-export const printLabel = async (device: BluetoothDevice, canvas: HTMLCanvasElement, settings: PrintSettings) => {
-    const status = await checkPrinterStatus(device);
-    if (status === 'paper_out') throw new Error("Printer is out of paper");
+        const chars = await service.getCharacteristics();
+        const notifyChar = chars.find(c => c.properties.notify || c.properties.indicate);
+        if (notifyChar) return notifyChar;
+    } catch (e) {
+        console.debug("Notify characteristic lookup failed", e);
+    }
 
-    const characteristic = await getWriteCharacteristic(device);
+    if (characteristic.properties?.notify || characteristic.properties?.indicate) return characteristic;
+    return null;
+};
 
-    // Apply advanced settings if present
-    if (settings.speed) {
-        try { await setPrintSpeed(device, settings.speed); } catch (e) { console.warn("Failed to set speed", e); }
-    }
-    if (settings.labelType) {
-        try { await setLabelType(device, settings.labelType); } catch (e) { console.warn("Failed to set label type", e); }
+/**
+ * Subscribe to status notifications once per connection.
+ * Returns false if the printer has no notify characteristic (status stays 'unknown').
+ */
+const ensureStatusSubscription = async (device: BluetoothDevice, channel: PrinterChannel): Promise<boolean> => {
+    if (statusSubscription?.deviceId === device.id) return true;
+
+    // A different printer: forget what the previous one reported
+    if (statusReport) {
+        statusReport = null;
+        notifyPrinterState();
     }
 
-    // --- PREPARE DATA ---
-    const width = canvas.width;
-    const height = canvas.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error("No canvas context");
-
-    const imgData = ctx.getImageData(0, 0, width, height);
-    const pixels = imgData.data;
-
-    // Software Contrast Adjustment
-    let grayscale = new Float32Array(width * height);
-
-    for (let i = 0; i < pixels.length / 4; i++) {
-        const r = pixels[i * 4];
-        const g = pixels[i * 4 + 1];
-        const b = pixels[i * 4 + 2];
-        const a = pixels[i * 4 + 3];
-
-        if (a < 128) {
-            grayscale[i] = 255; // Transparent -> White paper
-        } else {
-            // Standard Luminance
-            let gray = r * 0.299 + g * 0.587 + b * 0.114;
-
-            // Apply Density/Contrast (Enhanced)
-            // 50 is neutral. 0 is lightest, 100 is darkest.
-            if (settings.density !== 50) {
-                 // Convert 0-100 to a contrast factor
-                 // 50 -> 0 change
-                 // 100 -> reduce brightness by significant amount to darken
-
-                 // Shift brightness.
-                 // If density is 100, we want darker, so SUBTRACT from gray value.
-                 // Factor 4.0 is aggressive. (50 * 4 = 200 shift possible)
-                 const shift = (settings.density - 50) * 4.0;
-                 gray = gray - shift;
-
-                 if (gray < 0) gray = 0;
-                 if (gray > 255) gray = 255;
-            }
+    const notifyChar = await getNotifyCharacteristic(device, channel);
+    if (!notifyChar) return false;
 
-            grayscale[i] = gray;
-        }
+    try {
+        notifyChar.addEventListener('characteristicvaluechanged', (event: Event) => {
+            const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+            if (!value) return;
+            handleStatusNotification(channel.driver, new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        });
+        await notifyChar.startNotifications();
+        statusSubscription = { deviceId: device.id, characteristic: notifyChar };
+        return true;
+    } catch (e) {
+        console.warn("Status notifications not available", e);
+        return false;
     }
+};
 
-    // Base Threshold for dithering - standard is 128
-    const baseThreshold = 128;
+const handleStatusNotification = (driver: PrinterDriver, data: Uint8Array) => {
+    const flow = driver.flowControl(data);
+    if (flow === 'pause') return flowGate.pause();
+    if (flow === 'resume') return flowGate.resume();
+
+    const update = driver.parseStatus(data);
+    if (!update) return;
+
+    const previous = summarizeStatus(statusReport);
+    statusReport = {
+        paperOut: false, coverOpen: false, overheat: false, lowBattery: false, busy: false,
+        ...statusReport,
+        ...update,
+        updatedAt: Date.now()
+    };
+
+    const status = summarizeStatus(statusReport);
+    if (status !== previous && isFaultStatus(status)) {
+        notifyStatus(`Printer reports: ${FAULT_MESSAGES[status]}`);
+    }
+    notifyPrinterState();
 
-    // --- OFFSET LOGIC (Software Shift) ---
-    const offsetMm = settings.printOffsetMm || 0;
-    const offsetPx = Math.round((offsetMm / 25.4) * 203);
+    const waiting = pendingStatusReplies;
+    pendingStatusReplies = [];
+    waiting.forEach(resolve => resolve());
+};
 
-    let offsetGrayscale = new Float32Array(width * height);
+const waitForStatusReply = (timeoutMs: number) => new Promise<boolean>(resolve => {
+    const timer = setTimeout(() => {
+        pendingStatusReplies = pendingStatusReplies.filter(r => r !== done);
+        resolve(false);
+    }, timeoutMs);
+    const done = () => {
+        clearTimeout(timer);
+        resolve(true);
+    };
+    pendingStatusReplies.push(done);
+});
 
-    if (offsetPx !== 0) {
-        console.log(`Applying print offset: ${offsetMm}mm (${offsetPx}px)`);
-        // Fill with white (255) initially
-        offsetGrayscale.fill(255);
+/**
+ * Query the printer for its current state.
+ * Printers without a status channel report 'ready' so they can still print.
+ */
+export const checkPrinterStatus = async (device: BluetoothDevice): Promise<PrinterStatus> => {
+    if (!device.gatt?.connected) return 'unknown';
 
-        for (let y = 0; y < height; y++) {
-            const targetY = y + offsetPx;
-            // Check bounds
-            if (targetY >= 0 && targetY < height) {
-                for (let x = 0; x < width; x++) {
-                    offsetGrayscale[targetY * width + x] = grayscale[y * width + x];
-                }
-            }
+    try {
+        const channel = await getPrinterChannel(device);
+        const subscribed = await ensureStatusSubscription(device, channel);
+        const query = channel.driver.statusQuery();
+
+        if (subscribed && query) {
+            const reply = waitForStatusReply(STATUS_REPLY_TIMEOUT_MS);
+            await writeValue(channel.characteristic, query);
+            if (await reply) await new Promise(r => setTimeout(r, STATUS_BURST_MS));
         }
-        // Replace original grayscale with shifted version
-        grayscale = offsetGrayscale;
+    } catch (e) {
+        console.warn("Status check failed", e);
     }
 
-    // --- AUTO ROTATION LOGIC ---
-    let finalWidth = width;
-    let finalHeight = height;
-    let finalGrayscale = grayscale;
-
-    if (width > height && height < 180) {
-        console.log(`Auto-rotating label (W:${width} > H:${height}) for narrow printhead`);
-        const rotatedWidth = height;
-        const rotatedHeight = width;
-        const rotatedData = new Float32Array(rotatedWidth * rotatedHeight);
-
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                // Rotate 90 deg Clockwise: (x, y) -> (height - 1 - y, x)
-                const srcIdx = y * width + x;
-                const destX = height - 1 - y;
-                const destY = x;
-                const destIdx = destY * rotatedWidth + destX;
-                rotatedData[destIdx] = grayscale[srcIdx];
-            }
-        }
-        finalWidth = rotatedWidth;
-        finalHeight = rotatedHeight;
-        finalGrayscale = rotatedData;
-    }
+    // No reply (or no status support): assume ready if connected to avoid blocking prints
+    const status = summarizeStatus(statusReport);
+    return status === 'unknown' ? 'ready' : status;
+};
 
-    // --- DITHERING ---
-    const monochrome = new Uint8Array(finalWidth * finalHeight);
+/**
+ * Latest status pushed by the printer, without sending a query
+ */
+export const getLastPrinterStatus = (): { status: PrinterStatus; report: PrinterStatusReport | null } => ({
+    status: summarizeStatus(statusReport),
+    report: statusReport
+});
+
+const assertNoFault = () => {
+    const status = summarizeStatus(statusReport);
+    if (isFaultStatus(status)) throw new PrinterFaultError(status);
+};
 
-    for (let y = 0; y < finalHeight; y++) {
-        for (let x = 0; x < finalWidth; x++) {
-            const idx = y * finalWidth + x;
-            const oldPixel = finalGrayscale[idx];
-            const newPixel = oldPixel < baseThreshold ? 0 : 255;
-            monochrome[idx] = newPixel === 0 ? 1 : 0;
+/**
+ * Print a label. Unless `resumable` is false, the job is persisted so a disconnect mid-label
+ * can be resumed; callers that retry failed labels themselves (the print queue) turn it off.
+ */
+export const printLabel = async (device: BluetoothDevice, canvas: LabelSource, requestedSettings: PrintSettings, labelName = 'Label', { resumable = true }: { resumable?: boolean } = {}) => {
+    const status = await checkPrinterStatus(device);
+    if (isFaultStatus(status)) throw new PrinterFaultError(status);
+
+    // Density, offset and speed corrections saved for this printer and label size
+    const settings = applyCalibration(requestedSettings, getPrinterCalibration(device, canvas.width, canvas.height));
+
+    const channel = await getPrinterChannel(device);
+    await applyJobSettings(channel, settings);
+
+    // Density goes to the head, darkness into the raster, so neither is applied twice
+    const raster = encodeCanvas(canvas, { ...settings, density: resolveDensity(channel.driver, settings).rasterDensity });
+
+    // Persist before sending so a disconnect mid-label can be resumed
+    const record: PrintJobRecord = {
+        id: `job-${Date.now()}`,
+        deviceId: device.id,
+        labelName,
+        settings,
+        raster: { widthBytes: raster.widthBytes, height: raster.height, data: encodeRasterData(raster.data) },
+        totalCopies: settings.copies,
+        copiesCompleted: 0,
+        rowsConfirmed: 0,
+        startedAt: Date.now()
+    };
+    if (resumable) saveJobRecord(record);
+
+    await runPrintJob(device, channel, record, raster, resumable);
+};
 
-            const quantError = oldPixel - newPixel;
+export const getPrinterCalibration = (device: BluetoothDevice, widthDots: number, heightDots: number): CalibrationData | null => {
+    const printer = getRegisteredPrinter(device.id);
+    return printer ? findCalibration(printer, widthDots, heightDots) : null;
+};
 
-            if (x + 1 < finalWidth) finalGrayscale[idx + 1] += quantError * 7 / 16;
-            if (x - 1 >= 0 && y + 1 < finalHeight) finalGrayscale[idx + finalWidth - 1] += quantError * 3 / 16;
-            if (y + 1 < finalHeight) finalGrayscale[idx + finalWidth] += quantError * 5 / 16;
-            if (x + 1 < finalWidth && y + 1 < finalHeight) finalGrayscale[idx + finalWidth + 1] += quantError * 1 / 16;
-        }
+/**
+ * Continue the interrupted job after a reconnect, starting over with the copy that was cut off.
+ * 'resume' prints the rest of the job, 'reprint' only that copy.
+ */
+export const resumePrintJob = async (device: BluetoothDevice, mode: ResumeMode) => {
+    const record = loadJobRecord();
+    if (!record) throw new Error("No interrupted print job to resume");
+
+    const { start, end } = getResumeCopies(record, mode);
+    if (start >= end) {
+        clearJobRecord();
+        notifyStatus("Print job complete");
+        return;
     }
 
-    // Pack bits
-    const widthBytes = Math.ceil(finalWidth / 8);
-    const buffer: number[] = [];
-
-    for (let y = 0; y < finalHeight; y++) {
-        for (let x = 0; x < widthBytes; x++) {
-            let byte = 0;
-            for (let b = 0; b < 8; b++) {
-                const px = x * 8 + b;
-                if (px < finalWidth) {
-                    if (monochrome[y * finalWidth + px] === 1) {
-                        byte |= (1 << (7 - b));
-                    }
-                }
-            }
-            buffer.push(byte);
-        }
-    }
+    const status = await checkPrinterStatus(device);
+    if (isFaultStatus(status)) throw new PrinterFaultError(status);
+
+    const channel = await getPrinterChannel(device);
+    await applyJobSettings(channel, record.settings);
+
+    record.deviceId = device.id;
+    record.copiesCompleted = start;
+    record.totalCopies = end;
+    record.rowsConfirmed = 0;
+    delete record.error;
+    delete record.interruptedAt;
+    saveJobRecord(record);
+
+    const raster = {
+        widthBytes: record.raster.widthBytes,
+        height: record.raster.height,
+        data: decodeRasterData(record.raster.data)
+    };
+    await runPrintJob(device, channel, record, raster);
+};
 
-    // --- COMMAND GENERATION ---
-    const initCmd = new Uint8Array([0x1B, 0x40]);
+/**
+ * The persisted job left behind by a disconnect (or a closed tab), if any.
+ * Returns null while that job is still printing.
+ */
+export const getInterruptedPrintJob = (): PrintJobRecord | null => {
+    const record = loadJobRecord();
+    if (!record || record.id === activeJobId) return null;
+    return record;
+};
 
-    // Set Density (Hardware) - Using standard ESC/POS or Phomemo proprietary
-    // The "Complete Verification Summary" suggested 0x1F 0x11 0x24 [n]
-    // Standard ESC/POS is GS ( E ...
-    // We will trust the user provided summary for the experimental support
-    const densityByte = Math.max(1, Math.min(15, Math.ceil(settings.density / 100 * 15)));
-    const densityCmd = new Uint8Array([0x1F, 0x11, 0x24, densityByte]);
+// Apply advanced settings if present (drivers return null for unsupported commands)
+const applyJobSettings = async ({ characteristic, driver }: PrinterChannel, settings: PrintSettings) => {
+    if (settings.speed) {
+        try { await sendCommand(characteristic, driver.speed(settings.speed)); } catch (e) { console.warn("Failed to set speed", e); }
+    }
+    if (settings.labelType) {
+        try { await sendCommand(characteristic, driver.labelType(settings.labelType)); } catch (e) { console.warn("Failed to set label type", e); }
+    }
+};
 
-    const xL = widthBytes % 256;
-    const xH = Math.floor(widthBytes / 256);
-    const yL = finalHeight % 256;
-    const yH = Math.floor(finalHeight / 256);
+/** Battery level for telemetry: the battery service, else the last level the printer pushed */
+const readBattery = async (device: BluetoothDevice): Promise<number | null> => {
+    // Reading would reconnect a dropped link
+    if (!device.gatt?.connected) return null;
+    return (await getBatteryLevel(device)) ?? statusReport?.battery ?? null;
+};
 
-    const header = new Uint8Array([0x1D, 0x76, 0x30, 0x00, xL, xH, yL, yH]);
-    const dataPayload = new Uint8Array(buffer);
+/**
+ * Send copies from record.copiesCompleted onwards, recording each acknowledged copy and row.
+ * On failure the record is kept (marked interrupted) so the job can be resumed; with `persist`
+ * off it is only tracked in memory and nothing is left to resume.
+ * Either way a telemetry record is added for the copies that went out.
+ */
+const runPrintJob = async (device: BluetoothDevice, channel: PrinterChannel, record: PrintJobRecord, raster: Pick<RasterImage, 'widthBytes' | 'height' | 'data'>, persist = true) => {
+    const { characteristic, driver } = channel;
+    const { settings } = record;
+
+    const commands = frameLabel(driver, raster, settings.density);
+    const save = persist ? saveJobRecord : () => {};
+
+    const startedAt = Date.now();
+    const firstCopy = record.copiesCompleted;
+    const batteryBefore = await readBattery(device);
+    let bytesSent = 0;
+
+    const logTelemetry = async (error?: string) => {
+        const copies = record.copiesCompleted - firstCopy;
+        addTelemetryRecord({
+            printerId: device.id,
+            firmware: getRegisteredPrinter(device.id)?.firmware,
+            labelName: record.labelName,
+            copies,
+            batteryBefore,
+            batteryAfter: await readBattery(device),
+            bytesSent,
+            labelLengthMm: getTapeLengthMm(raster, settings.labelType, copies),
+            durationMs: Date.now() - startedAt,
+            error
+        });
+    };
 
-    for (let i = 0; i < settings.copies; i++) {
-        if (settings.copies > 1) notifyStatus(`Printing copy ${i + 1}/${settings.copies}...`);
-        else notifyStatus("Sending data to printer...");
+    activeJobId = record.id;
+    try {
+        for (let i = record.copiesCompleted; i < record.totalCopies; i++) {
+            if (record.totalCopies > 1) notifyStatus(`Printing copy ${i + 1}/${record.totalCopies}...`);
+            else notifyStatus("Sending data to printer...");
 
-        await writeValue(characteristic, initCmd);
-        await new Promise(r => setTimeout(r, 50));
+            const copyStartedAt = Date.now();
+            await sendCommand(characteristic, commands.init);
+            await sendCommand(characteristic, commands.density);
 
-        await writeValue(characteristic, densityCmd);
-        await new Promise(r => setTimeout(r, 50));
+            await writeValue(characteristic, commands.header);
 
-        await writeValue(characteristic, header);
+            const result = await sendRaster(device, channel, commands.data, (confirmed) => {
+                record.rowsConfirmed = Math.floor(confirmed / raster.widthBytes);
+            });
+            bytesSent += result.bytesSent;
 
-        // Chunk size 60 is standard for BLE MTU limits on these devices
-        const CHUNK_SIZE = 60;
-        const totalChunks = Math.ceil(dataPayload.length / CHUNK_SIZE);
+            await sendCommand(characteristic, commands.end);
 
-        for (let j = 0; j < dataPayload.length; j += CHUNK_SIZE) {
-            const chunkIndex = Math.floor(j / CHUNK_SIZE);
-            if (chunkIndex % 5 === 0) {
-                 const percent = Math.round((chunkIndex / totalChunks) * 100);
-                 notifyStatus(`Sending data... ${percent}%`);
-            }
+            // Measured copies refine later time estimates for this printer and size
+            recordPrintTiming({
+                printerId: device.id,
+                widthBytes: raster.widthBytes,
+                height: raster.height,
+                speed: settings.speed || 3,
+                durationMs: Date.now() - copyStartedAt
+            });
 
-            const chunk = dataPayload.slice(j, j + CHUNK_SIZE);
-            await writeValue(characteristic, chunk);
-            await new Promise(r => setTimeout(r, 20));
-        }
+            record.copiesCompleted = i + 1;
+            record.rowsConfirmed = 0;
+            save(record);
 
-        notifyStatus("Print command sent!");
+            notifyStatus(`Print command sent! (${formatThroughput(result.bytesPerSecond)})`);
 
-        if (i < settings.copies - 1) await new Promise(r => setTimeout(r, 1000));
+            if (i < record.totalCopies - 1) {
+                await new Promise(r => setTimeout(r, 1000));
+                assertNoFault();
+            }
+        }
+    } catch (e: any) {
+        record.interruptedAt = Date.now();
+        record.error = e?.message || String(e);
+        save(record);
+        await logTelemetry(record.error);
+        throw e;
+    } finally {
+        activeJobId = null;
     }
+
+    if (persist) clearJobRecord();
+    await logTelemetry();
 };
 
 // ===== ADVANCED D30 PRO FEATURES =====
 
 /**
- * Set print speed on D30 (1=slowest, 5=fastest)
- * ESC N 0x0D [speed]
+ * Set print speed (1=slowest, 5=fastest)
+ * Phomemo: ESC N 0x0D [speed]
  */
-export const setPrintSpeed = async (device: BluetoothDevice, speed: 1 | 2 | 3 | 4 | 5): Promise<void> => {
+export const setPrintSpeed = async (device: BluetoothDevice, speed: PrintSpeed): Promise<void> => {
     try {
-        const char = await getWriteCharacteristic(device);
-        const cmd = new Uint8Array([0x1B, 0x4E, 0x0D, speed]);
-        await writeValue(char, cmd);
-        await new Promise(r => setTimeout(r, 50));
+        const { characteristic, driver } = await getPrinterChannel(device);
+        await sendCommand(characteristic, driver.speed(speed));
     } catch (e) {
         console.error("Speed setting failed", e);
         throw e;
@@ -520,19 +776,16 @@ export const setPrintSpeed = async (device: BluetoothDevice, speed: 1 | 2 | 3 |
 };
 
 /**
- * Set label type on D30
- * ESC N [type]
+ * Set label type
+ * Phomemo: 0x1F 0x11 [type]
  * 0x0A = Label with gaps
- * 0x0B = Continuous  
+ * 0x0B = Continuous
  * 0x26 = Label with black marks
  */
-export const setLabelType = async (device: BluetoothDevice, type: 'gap' | 'continuous' | 'mark'): Promise<void> => {
+export const setLabelType = async (device: BluetoothDevice, type: LabelType): Promise<void> => {
     try {
-        const char = await getWriteCharacteristic(device);
-        const typeCode = type === 'gap' ? 0x0A : type === 'continuous' ? 0x0B : 0x26;
-        const cmd = new Uint8Array([0x1F, 0x11, typeCode]);
-        await writeValue(char, cmd);
-        await new Promise(r => setTimeout(r, 50));
+        const { characteristic, driver } = await getPrinterChannel(device);
+        await sendCommand(characteristic, driver.labelType(type));
     } catch (e) {
         console.error("Label type setting failed", e);
         throw e;
@@ -546,11 +799,8 @@ export const setLabelType = async (device: BluetoothDevice, type: 'gap' | 'conti
  */
 export const setJustification = async (device: BluetoothDevice, align: 'left' | 'center' | 'right'): Promise<void> => {
     try {
-        const char = await getWriteCharacteristic(device);
-        const alignCode = align === 'left' ? 0 : align === 'center' ? 1 : 2;
-        const cmd = new Uint8Array([0x1B, 0x61, alignCode]);
-        await writeValue(char, cmd);
-        await new Promise(r => setTimeout(r, 50));
+        const { characteristic, driver } = await getPrinterChannel(device);
+        await sendCommand(characteristic, driver.justification(align));
     } catch (e) {
         console.error("Justification setting failed", e);
         throw e;
@@ -558,61 +808,134 @@ export const setJustification = async (device: BluetoothDevice, align: 'left' |
 };
 
 /**
- * Send calibration test pattern
+ * Print the calibration pattern (see calibration.ts) on a label of the given size.
+ * An existing calibration is applied, so the answers about the print are corrections on top of it.
  */
-export const sendCalibrationPattern = async (device: BluetoothDevice, widthMm: number): Promise<void> => {
+export const sendCalibrationPattern = async (
+    device: BluetoothDevice,
+    label: Pick<LabelPreset, 'widthMm' | 'heightMm'>,
+    options: { speed?: PrintSpeed; calibration?: CalibrationData | null } = {}
+): Promise<void> => {
     try {
-        const char = await getWriteCharacteristic(device);
-
-        // Create test pattern with vertical lines at 5mm intervals
-        const dpi = 203;
-        const widthPx = Math.floor((widthMm / 25.4) * dpi);
-        const heightPx = 100;
-        const widthBytes = Math.ceil(widthPx / 8);
-
-        const buffer: number[] = [];
-        for (let y = 0; y < heightPx; y++) {
-            for (let x = 0; x < widthBytes; x++) {
-                let byte = 0;
-                // Draw vertical line every 40 pixels (~5mm at 203 DPI)
-                for (let b = 0; b < 8; b++) {
-                    const px = x * 8 + b;
-                    if (px % 40 === 0 || y === 0 || y === heightPx - 1) {
-                        byte |= (1 << (7 - b));
-                    }
-                }
-                buffer.push(byte);
-            }
-        }
+        const channel = await getPrinterChannel(device);
+        const { characteristic: char, driver } = channel;
+        // Listen for flow-control so the pattern respects printer back-pressure too
+        await ensureStatusSubscription(device, channel);
+
+        const width = mmToDots(label.widthMm);
+        const height = mmToDots(label.heightMm);
+        const calibration = options.calibration || null;
+
+        // Black and white only: the density is judged on the hardware heat alone
+        const raster = encodeRaster(createCalibrationPattern(width, height), width, height, {
+            density: 50,
+            rasterMode: 'threshold',
+            printOffsetMm: calibration?.verticalOffsetMm,
+            horizontalOffsetMm: calibration?.horizontalOffsetMm
+        });
+        const commands = frameLabel(driver, raster, 50 + (calibration?.densityOffset || 0));
 
-        // Send pattern
-        const initCmd = new Uint8Array([0x1B, 0x40]);
-        await writeValue(char, initCmd);
-        await new Promise(r => setTimeout(r, 50));
-
-        const header = new Uint8Array([
-            0x1D, 0x76, 0x30, 0x00,
-            widthBytes % 256, Math.floor(widthBytes / 256),
-            heightPx % 256, Math.floor(heightPx / 256)
-        ]);
-        await writeValue(char, header);
-
-        const dataPayload = new Uint8Array(buffer);
-        const CHUNK_SIZE = 60;
-        for (let j = 0; j < dataPayload.length; j += CHUNK_SIZE) {
-            const chunk = dataPayload.slice(j, j + CHUNK_SIZE);
-            await writeValue(char, chunk);
-            await new Promise(r => setTimeout(r, 20));
-        }
+        const speed = options.speed || calibration?.speedOptimal;
+        if (speed) await sendCommand(char, driver.speed(speed));
 
-        const feedCmd = new Uint8Array([0x1B, 0x64, 3]);
-        await writeValue(char, feedCmd);
+        await sendCommand(char, commands.init);
+        await sendCommand(char, commands.density);
+        await writeValue(char, commands.header);
+        await sendRaster(device, channel, commands.data);
+
+        if (commands.end) await writeValue(char, commands.end);
+        else await writeValue(char, driver.feed(3));
     } catch (e) {
         console.error("Calibration pattern failed", e);
         throw e;
     }
 };
 
+/**
+ * Print one ladder label (see densityLadder.ts) per heat level, marked 1..n in order.
+ * The calibration's density offset is applied as in a normal print, so the step picked
+ * from the ladder prints the same when chosen as the density.
+ */
+export const sendDensityLadder = async (
+    device: BluetoothDevice,
+    label: Pick<LabelPreset, 'widthMm' | 'heightMm'>,
+    heatLevels: number[],
+    options: { speed?: PrintSpeed; calibration?: CalibrationData | null } = {}
+): Promise<void> => {
+    try {
+        const channel = await getPrinterChannel(device);
+        const { characteristic: char, driver } = channel;
+        await ensureStatusSubscription(device, channel);
+
+        const width = mmToDots(label.widthMm);
+        const height = mmToDots(label.heightMm);
+        const calibration = options.calibration || null;
+
+        const speed = options.speed || calibration?.speedOptimal;
+        if (speed) await sendCommand(char, driver.speed(speed));
+
+        for (let i = 0; i < heatLevels.length; i++) {
+            const raster = encodeRaster(createLadderPattern(width, height, i + 1), width, height, {
+                density: 50,
+                rasterMode: 'threshold',
+                printOffsetMm: calibration?.verticalOffsetMm,
+                horizontalOffsetMm: calibration?.horizontalOffsetMm
+            });
+            const commands = frameLabel(driver, raster, fromHeatLevel(driver, heatLevels[i]) + (calibration?.densityOffset || 0));
+
+            await sendCommand(char, commands.init);
+            await sendCommand(char, commands.density);
+            await writeValue(char, commands.header);
+            await sendRaster(device, channel, commands.data);
+
+            if (commands.end) await writeValue(char, commands.end);
+            else await writeValue(char, driver.feed(3));
+        }
+    } catch (e) {
+        console.error("Density ladder failed", e);
+        throw e;
+    }
+};
+
+/** Chunk size and pacing learned on the connection to this printer, if it has printed yet */
+export const getLinkProfile = (deviceId: string): LinkProfile | null => linkProfiles.get(deviceId) || null;
+
+/**
+ * Stream raster bytes through the transmission scheduler.
+ * Reuses the link profile learned earlier on this connection and reports throughput.
+ */
+const sendRaster = async (
+    device: BluetoothDevice,
+    channel: Pick<PrinterChannel, 'characteristic' | 'driver'>,
+    data: Uint8Array,
+    onBytesConfirmed?: (bytesAcknowledged: number) => void
+): Promise<TransmitResult> => {
+    let profile = linkProfiles.get(device.id);
+    if (!profile) {
+        profile = createLinkProfile(channel.driver.maxChunkSize);
+        linkProfiles.set(device.id, profile);
+    }
+
+    let lastReport = 0;
+    return transmit(channel.characteristic, data, {
+        profile,
+        flowGate,
+        beforeChunk: () => {
+            // No point retrying writes into a dropped link; the job record takes over from here
+            if (device.gatt && !device.gatt.connected) throw new Error("Printer disconnected");
+            // Stop as soon as the printer pushes a fault instead of streaming into a jammed head
+            assertNoFault();
+        },
+        onProgress: (p) => {
+            onBytesConfirmed?.(p.bytesAcknowledged);
+            const now = Date.now();
+            if (now - lastReport < 250 && p.bytesSent < p.totalBytes) return;
+            lastReport = now;
+            notifyStatus(`Sending data... ${p.percent}% (${formatThroughput(p.bytesPerSecond)})`);
+        }
+    });
+};
+
 const writeValue = async (char: BluetoothRemoteGATTCharacteristic, value: Uint8Array) => {
     if (char.properties.writeWithoutResponse) {
         await char.writeValueWithoutResponse(value as any);
@@ -620,3 +943,13 @@ const writeValue = async (char: BluetoothRemoteGATTCharacteristic, value: Uint8A
         await char.writeValue(value as any);
     }
 };
+
+/**
+ * Write a single setup command and give the printer time to process it.
+ * Skips commands the driver doesn't support (null).
+ */
+const sendCommand = async (char: BluetoothRemoteGATTCharacteristic, cmd: Uint8Array | null) => {
+    if (!cmd) return;
+    await writeValue(char, cmd);
+    await new Promise(r => setTimeout(r, 50));
+};
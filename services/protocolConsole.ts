@@ -0,0 +1,245 @@
+import { PRINTER_SERVICES, WRITE_CHARACTERISTICS, NOTIFY_CHARACTERISTICS } from './printerDrivers';
+
+/**
+ * Protocol Console
+ * Raw GATT access for probing unknown printers: enumerate services and characteristics,
+ * write hex sequences, read values and listen to notifications. Every exchange lands in a
+ * timestamped TX/RX log that exports as JSON, ready to turn into a driver or a test fixture.
+ */
+
+export type ConsoleDirection = 'tx' | 'rx' | 'info' | 'error';
+
+export interface ConsoleLogEntry {
+    time: number;
+    direction: ConsoleDirection;
+    serviceUuid?: string;
+    characteristicUuid?: string;
+    hex: string;
+    detail?: string;
+}
+
+export interface GattCharacteristicInfo {
+    uuid: string;
+    name?: string;
+    /** Property names that are set, e.g. ['write', 'notify'] */
+    properties: string[];
+}
+
+export interface GattServiceInfo {
+    uuid: string;
+    name?: string;
+    characteristics: GattCharacteristicInfo[];
+}
+
+export interface ConsoleCapture {
+    device: { id: string; name?: string };
+    exportedAt: number;
+    services: GattServiceInfo[];
+    log: ConsoleLogEntry[];
+}
+
+export interface ProtocolConsole {
+    /** Connect if needed and list every primary service with its characteristics */
+    discover: () => Promise<GattServiceInfo[]>;
+    send: (serviceUuid: string, characteristicUuid: string, hex: string) => Promise<void>;
+    read: (serviceUuid: string, characteristicUuid: string) => Promise<void>;
+    /** Log notifications from a characteristic until unsubscribed */
+    subscribe: (serviceUuid: string, characteristicUuid: string) => Promise<void>;
+    unsubscribe: (serviceUuid: string, characteristicUuid: string) => void;
+    isSubscribed: (serviceUuid: string, characteristicUuid: string) => boolean;
+    getLog: () => ConsoleLogEntry[];
+    clearLog: () => void;
+    /** Called with the full log on every new entry; returns an unsubscribe function */
+    onLog: (listener: (log: ConsoleLogEntry[]) => void) => () => void;
+    exportCapture: () => string;
+    /** Remove notification listeners */
+    dispose: () => void;
+}
+
+const MAX_LOG_ENTRIES = 2000;
+
+const PROPERTY_NAMES: (keyof BluetoothCharacteristicProperties)[] = [
+    'broadcast', 'read', 'writeWithoutResponse', 'write', 'notify', 'indicate', 'authenticatedSignedWrites', 'reliableWrite', 'writableAuxiliaries'
+];
+
+// Names for the UUIDs the drivers know about
+const KNOWN_UUIDS: Record<string, string> = {
+    [PRINTER_SERVICES.PHOMEMO]: 'Phomemo',
+    [PRINTER_SERVICES.ALT_SERVICE]: 'Alt (FF00)',
+    [PRINTER_SERVICES.PROPRIETARY]: 'Proprietary',
+    [PRINTER_SERVICES.HM10_UART]: 'HM-10 UART',
+    [PRINTER_SERVICES.NORDIC_UART]: 'Nordic UART',
+    [PRINTER_SERVICES.BATTERY]: 'Battery',
+    [PRINTER_SERVICES.DEVICE_INFO]: 'Device Information',
+    [WRITE_CHARACTERISTICS.HM10_TX]: 'HM-10 TX/RX',
+    [WRITE_CHARACTERISTICS.NORDIC_TX]: 'Nordic TX',
+    [NOTIFY_CHARACTERISTICS.NORDIC_RX]: 'Nordic RX',
+    '00002a19-0000-1000-8000-00805f9b34fb': 'Battery Level',
+    '00002a24-0000-1000-8000-00805f9b34fb': 'Model Number',
+    '00002a26-0000-1000-8000-00805f9b34fb': 'Firmware Revision'
+};
+
+export const toHex = (bytes: ArrayLike<number>) =>
+    Array.from(bytes, b => b.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+
+/**
+ * Bytes from hex text. Accepts "1F 11 0A", "1f110a", "0x1F,0x11" and multiple lines.
+ */
+export const parseHex = (text: string): Uint8Array => {
+    const digits = text.replace(/0x/gi, '').replace(/[\s,:;-]+/g, '');
+    if (digits.length === 0) throw new Error('Nothing to send');
+    if (/[^0-9a-f]/i.test(digits)) throw new Error('Only hex digits are allowed');
+    if (digits.length % 2 !== 0) throw new Error('Odd number of hex digits');
+    return Uint8Array.from(digits.match(/../g)!, pair => parseInt(pair, 16));
+};
+
+export const getPropertyNames = (properties: BluetoothCharacteristicProperties): string[] =>
+    PROPERTY_NAMES.filter(name => properties[name]);
+
+const toBytes = (value: DataView) => new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+
+const key = (serviceUuid: string, characteristicUuid: string) => `${serviceUuid}/${characteristicUuid}`;
+
+export const createProtocolConsole = (device: BluetoothDevice): ProtocolConsole => {
+    let log: ConsoleLogEntry[] = [];
+    let services: GattServiceInfo[] = [];
+    const listeners = new Set<(log: ConsoleLogEntry[]) => void>();
+    const subscriptions = new Map<string, { characteristic: BluetoothRemoteGATTCharacteristic; handler: (event: Event) => void }>();
+
+    const append = (entry: Omit<ConsoleLogEntry, 'time'>) => {
+        log = [...log, { time: Date.now(), ...entry }].slice(-MAX_LOG_ENTRIES);
+        listeners.forEach(l => l(log));
+    };
+
+    const getServer = async () => {
+        if (!device.gatt) throw new Error('Device has no GATT server');
+        if (!device.gatt.connected) await device.gatt.connect();
+        return device.gatt;
+    };
+
+    const getCharacteristic = async (serviceUuid: string, characteristicUuid: string) => {
+        const service = await (await getServer()).getPrimaryService(serviceUuid);
+        return service.getCharacteristic(characteristicUuid);
+    };
+
+    // Failures are logged as well as thrown, so the capture shows what the printer refused
+    const logged = async (serviceUuid: string, characteristicUuid: string, action: () => Promise<void>) => {
+        try {
+            await action();
+        } catch (e: any) {
+            append({ direction: 'error', serviceUuid, characteristicUuid, hex: '', detail: e?.message || String(e) });
+            throw e;
+        }
+    };
+
+    return {
+        discover: async () => {
+            const server = await getServer();
+            const primary = await server.getPrimaryServices();
+            services = await Promise.all(primary.map(async service => {
+                let characteristics: BluetoothRemoteGATTCharacteristic[] = [];
+                try {
+                    characteristics = await service.getCharacteristics();
+                } catch (e) {
+                    console.debug("Characteristics not readable", service.uuid, e);
+                }
+                return {
+                    uuid: service.uuid,
+                    name: KNOWN_UUIDS[service.uuid],
+                    characteristics: characteristics.map(c => ({
+                        uuid: c.uuid,
+                        name: KNOWN_UUIDS[c.uuid],
+                        properties: getPropertyNames(c.properties)
+                    }))
+                };
+            }));
+            append({ direction: 'info', hex: '', detail: `Discovered ${services.length} services on ${device.name || device.id}` });
+            return services;
+        },
+
+        send: (serviceUuid, characteristicUuid, hex) => logged(serviceUuid, characteristicUuid, async () => {
+            const bytes = parseHex(hex);
+            const characteristic = await getCharacteristic(serviceUuid, characteristicUuid);
+            // Logged before writing so fast replies land after it
+            append({ direction: 'tx', serviceUuid, characteristicUuid, hex: toHex(bytes), detail: `${bytes.length} bytes` });
+            if (characteristic.properties.writeWithoutResponse) {
+                await characteristic.writeValueWithoutResponse(bytes as any);
+            } else {
+                await characteristic.writeValue(bytes as any);
+            }
+        }),
+
+        read: (serviceUuid, characteristicUuid) => logged(serviceUuid, characteristicUuid, async () => {
+            const characteristic = await getCharacteristic(serviceUuid, characteristicUuid);
+            const bytes = toBytes(await characteristic.readValue());
+            append({ direction: 'rx', serviceUuid, characteristicUuid, hex: toHex(bytes), detail: 'read' });
+        }),
+
+        subscribe: (serviceUuid, characteristicUuid) => logged(serviceUuid, characteristicUuid, async () => {
+            if (subscriptions.has(key(serviceUuid, characteristicUuid))) return;
+            const characteristic = await getCharacteristic(serviceUuid, characteristicUuid);
+            const handler = (event: Event) => {
+                const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+                if (value) append({ direction: 'rx', serviceUuid, characteristicUuid, hex: toHex(toBytes(value)), detail: 'notification' });
+            };
+            characteristic.addEventListener('characteristicvaluechanged', handler);
+            await characteristic.startNotifications();
+            subscriptions.set(key(serviceUuid, characteristicUuid), { characteristic, handler });
+            append({ direction: 'info', serviceUuid, characteristicUuid, hex: '', detail: 'Subscribed to notifications' });
+        }),
+
+        // Only our listener goes: printerService may rely on the same notifications for status
+        unsubscribe: (serviceUuid, characteristicUuid) => {
+            const subscription = subscriptions.get(key(serviceUuid, characteristicUuid));
+            if (!subscription) return;
+            subscription.characteristic.removeEventListener('characteristicvaluechanged', subscription.handler);
+            subscriptions.delete(key(serviceUuid, characteristicUuid));
+            append({ direction: 'info', serviceUuid, characteristicUuid, hex: '', detail: 'Unsubscribed' });
+        },
+
+        isSubscribed: (serviceUuid, characteristicUuid) => subscriptions.has(key(serviceUuid, characteristicUuid)),
+
+        getLog: () => log,
+
+        clearLog: () => {
+            log = [];
+            listeners.forEach(l => l(log));
+        },
+
+        onLog: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        exportCapture: () => {
+            const capture: ConsoleCapture = {
+                device: { id: device.id, name: device.name },
+                exportedAt: Date.now(),
+                services,
+                log
+            };
+            return JSON.stringify(capture, null, 2);
+        },
+
+        dispose: () => {
+            subscriptions.forEach(({ characteristic, handler }) =>
+                characteristic.removeEventListener('characteristicvaluechanged', handler));
+            subscriptions.clear();
+            listeners.clear();
+        }
+    };
+};
+
+/** Download the capture as a JSON file */
+export const downloadCapture = (protocolConsole: ProtocolConsole, deviceName = 'printer'): void => {
+    const blob = new Blob([protocolConsole.exportCapture()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${deviceName.replace(/[^a-z0-9-]+/gi, '_')}-capture-${new Date().toISOString().slice(0, 19).replace(/:/g, '')}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
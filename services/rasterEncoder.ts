@@ -0,0 +1,304 @@
+import { PrintSettings, LabelRotation } from '../types';
+import { PrinterDriver, toHeatLevel } from './printerDrivers';
+import { ditherGrayscale } from './dithering';
+
+/**
+ * Raster Encoder
+ * The label image -> printer bytes pipeline as pure functions over typed arrays:
+ * grayscale + density, offset shift, auto-rotation, dithering, bit packing and command framing.
+ * Only the canvas adapters at the bottom touch the DOM.
+ */
+
+export const PRINTER_DPI = 203;
+
+/** Labels shorter than this (in dots) are printed sideways so they fit the print head */
+export const AUTO_ROTATE_MAX_HEIGHT = 180;
+
+export const mmToDots = (mm: number) => Math.round((mm / 25.4) * PRINTER_DPI);
+
+export type RasterRotation = 0 | 90 | 180 | 270;
+
+export interface RasterImage {
+    widthBytes: number;
+    /** Width in dots (widthBytes * 8 minus padding) */
+    width: number;
+    height: number;
+    /** Clockwise rotation applied to the label image */
+    rotation: RasterRotation;
+    /** Rows of widthBytes, MSB first, 1 = black */
+    data: Uint8Array;
+}
+
+/** Bytes for one copy, in the order they are sent */
+export interface LabelCommands {
+    init: Uint8Array;
+    density: Uint8Array | null;
+    header: Uint8Array;
+    data: Uint8Array;
+    end: Uint8Array | null;
+}
+
+export type RasterSettings = Pick<PrintSettings, 'density' | 'printOffsetMm' | 'horizontalOffsetMm' | 'rasterMode' | 'rotation' | 'mirror'>;
+
+/**
+ * RGBA -> grayscale (0 = black, 255 = white) with the software density shift.
+ * Transparent pixels are paper white. 50 is neutral, 100 darkens by up to 200 levels.
+ */
+export const toGrayscale = (rgba: Uint8ClampedArray | Uint8Array, width: number, height: number, density = 50): Float32Array => {
+    const gray = new Float32Array(width * height);
+    const shift = (density - 50) * 4.0;
+
+    for (let i = 0; i < gray.length; i++) {
+        const r = rgba[i * 4];
+        const g = rgba[i * 4 + 1];
+        const b = rgba[i * 4 + 2];
+        const a = rgba[i * 4 + 3];
+
+        if (a < 128) {
+            gray[i] = 255;
+            continue;
+        }
+
+        let value = r * 0.299 + g * 0.587 + b * 0.114;
+        if (density !== 50) {
+            value = Math.max(0, Math.min(255, value - shift));
+        }
+        gray[i] = value;
+    }
+    return gray;
+};
+
+/**
+ * Move the image down (positive) or up (negative) by whole rows, filling with white.
+ * Returns the input unchanged for a zero offset.
+ */
+export const shiftRows = (gray: Float32Array, width: number, height: number, offsetPx: number): Float32Array => {
+    if (offsetPx === 0) return gray;
+
+    const shifted = new Float32Array(width * height).fill(255);
+    for (let y = 0; y < height; y++) {
+        const targetY = y + offsetPx;
+        if (targetY < 0 || targetY >= height) continue;
+        shifted.set(gray.subarray(y * width, (y + 1) * width), targetY * width);
+    }
+    return shifted;
+};
+
+/**
+ * Move the image right (positive) or left (negative) by whole columns, filling with white.
+ * Returns the input unchanged for a zero offset.
+ */
+export const shiftColumns = (gray: Float32Array, width: number, height: number, offsetPx: number): Float32Array => {
+    if (offsetPx === 0) return gray;
+
+    const shifted = new Float32Array(width * height).fill(255);
+    const from = Math.max(0, -offsetPx);
+    const to = Math.min(width, width - offsetPx);
+    for (let y = 0; y < height && from < to; y++) {
+        shifted.set(gray.subarray(y * width + from, y * width + to), y * width + from + offsetPx);
+    }
+    return shifted;
+};
+
+/** Flip left-right */
+export const mirrorColumns = (gray: Float32Array, width: number, height: number): Float32Array => {
+    const mirrored = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            mirrored[y * width + x] = gray[y * width + (width - 1 - x)];
+        }
+    }
+    return mirrored;
+};
+
+export const shouldAutoRotate = (width: number, height: number) =>
+    width > height && height < AUTO_ROTATE_MAX_HEIGHT;
+
+/** The rotation actually applied for a setting: auto turns short wide labels 90° */
+export const resolveRotation = (width: number, height: number, rotation: LabelRotation = 'auto'): RasterRotation =>
+    rotation === 'auto' ? (shouldAutoRotate(width, height) ? 90 : 0) : rotation;
+
+/**
+ * Rotate 90° clockwise: (x, y) -> (height - 1 - y, x). The result is height wide and width tall.
+ */
+export const rotateClockwise = <T extends Float32Array | Uint8Array>(pixels: T, width: number, height: number): T => {
+    const rotated = new (pixels.constructor as { new(length: number): T })(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            rotated[x * height + (height - 1 - y)] = pixels[y * width + x];
+        }
+    }
+    return rotated;
+};
+
+/**
+ * Rotate 90° counter-clockwise: (x, y) -> (y, width - 1 - x). The result is height wide and width tall.
+ */
+export const rotateCounterClockwise = <T extends Float32Array | Uint8Array>(pixels: T, width: number, height: number): T => {
+    const rotated = new (pixels.constructor as { new(length: number): T })(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            rotated[(width - 1 - x) * height + y] = pixels[y * width + x];
+        }
+    }
+    return rotated;
+};
+
+/** Rotate clockwise by a multiple of 90°; 90 and 270 swap width and height */
+export const rotatePixels = <T extends Float32Array | Uint8Array>(pixels: T, width: number, height: number, rotation: RasterRotation): T => {
+    if (rotation === 90) return rotateClockwise(pixels, width, height);
+    if (rotation === 270) return rotateCounterClockwise(pixels, width, height);
+    if (rotation === 180) return pixels.slice().reverse() as T;
+    return pixels;
+};
+
+/**
+ * A shift seen on the label (x right, y down in label orientation) as paper offsets for a
+ * rotation: x across the print head, y along the feed.
+ */
+export const toPaperShift = (shift: { x: number; y: number }, rotation: RasterRotation): { x: number; y: number } => {
+    if (rotation === 90) return { x: -shift.y, y: shift.x };
+    if (rotation === 270) return { x: shift.y, y: -shift.x };
+    if (rotation === 180) return { x: -shift.x, y: -shift.y };
+    return shift;
+};
+
+/**
+ * Offsets are set on the label as it feeds with its automatic rotation, so they follow the stock
+ * on the paper. This is the turn the artwork gets on top of that: 180° for an upside-down override,
+ * or for 270° where the label would turn 90°.
+ */
+export const getOffsetRotation = (width: number, height: number, rotation?: LabelRotation): RasterRotation =>
+    ((resolveRotation(width, height, rotation) - resolveRotation(width, height) + 360) % 360) as RasterRotation;
+
+/**
+ * One byte per dot (1 = black) -> rows of packed bytes, MSB first, padded with white
+ */
+export const packBits = (dots: Uint8Array, width: number, height: number): { widthBytes: number; data: Uint8Array } => {
+    const widthBytes = Math.ceil(width / 8);
+    const data = new Uint8Array(widthBytes * height);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (dots[y * width + x] === 1) {
+                data[y * widthBytes + (x >> 3)] |= 1 << (7 - (x & 7));
+            }
+        }
+    }
+    return { widthBytes, data };
+};
+
+export const unpackBits = (raster: RasterImage): Uint8Array => {
+    const dots = new Uint8Array(raster.width * raster.height);
+    for (let y = 0; y < raster.height; y++) {
+        for (let x = 0; x < raster.width; x++) {
+            dots[y * raster.width + x] = (raster.data[y * raster.widthBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        }
+    }
+    return dots;
+};
+
+/**
+ * Full pipeline for a label image of width x height pixels (label orientation)
+ */
+export const encodeRaster = (rgba: Uint8ClampedArray | Uint8Array, width: number, height: number, settings: RasterSettings): RasterImage => {
+    let gray = toGrayscale(rgba, width, height, settings.density);
+    if (settings.mirror) gray = mirrorColumns(gray, width, height);
+
+    const rotation = resolveRotation(width, height, settings.rotation);
+    const sideways = rotation === 90 || rotation === 270;
+    const finalWidth = sideways ? height : width;
+    const finalHeight = sideways ? width : height;
+    gray = rotatePixels(gray, width, height, rotation);
+
+    // Offsets correct where the print lands on the stock: they turn with the automatic rotation,
+    // like the label does, but not with an override or mirroring of the artwork
+    const shift = toPaperShift(
+        { x: mmToDots(settings.horizontalOffsetMm || 0), y: mmToDots(settings.printOffsetMm || 0) },
+        resolveRotation(width, height)
+    );
+    gray = shiftRows(gray, finalWidth, finalHeight, shift.y);
+    gray = shiftColumns(gray, finalWidth, finalHeight, shift.x);
+
+    const dots = ditherGrayscale(gray, finalWidth, finalHeight, settings.rasterMode);
+    const { widthBytes, data } = packBits(dots, finalWidth, finalHeight);
+
+    return { widthBytes, width: finalWidth, height: finalHeight, rotation, data };
+};
+
+/**
+ * Printer dots back in label orientation (1 = black). Only the quarter turn that fits the label
+ * to the head is undone, so a 180° rotation (and mirroring) stays visible in previews.
+ */
+export const rasterToLabelDots = (raster: RasterImage): { width: number; height: number; dots: Uint8Array } => {
+    const dots = unpackBits(raster);
+    if (raster.rotation !== 90 && raster.rotation !== 270) return { width: raster.width, height: raster.height, dots };
+
+    // 90° comes back upright, 270° comes back upside down
+    return { width: raster.height, height: raster.width, dots: rotateCounterClockwise(dots, raster.width, raster.height) };
+};
+
+/** Commands for one copy; the 0-100 density becomes the model's heat level */
+export const frameLabel = (driver: PrinterDriver, raster: RasterImage | Pick<RasterImage, 'widthBytes' | 'height' | 'data'>, density: number): LabelCommands => {
+    const heatLevel = toHeatLevel(driver, density);
+    return {
+        init: driver.init(),
+        density: heatLevel === null ? null : driver.density(heatLevel),
+        header: driver.rasterHeader(raster.widthBytes, raster.height),
+        data: raster.data,
+        end: driver.endOfLabel()
+    };
+};
+
+/** The commands for one copy as a single byte stream */
+export const concatCommands = (commands: LabelCommands): Uint8Array => {
+    const parts = [commands.init, commands.density, commands.header, commands.data, commands.end]
+        .filter((p): p is Uint8Array => !!p);
+    const stream = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    parts.forEach(p => {
+        stream.set(p, offset);
+        offset += p.length;
+    });
+    return stream;
+};
+
+// --- Canvas adapters ---
+
+/** RGBA pixels of a rendered label (ImageData or a composed strip) */
+export type LabelPixels = Pick<ImageData, 'width' | 'height' | 'data'>;
+
+/** A rendered label: an on-screen canvas or pixels from the offscreen renderer */
+export type LabelSource = HTMLCanvasElement | LabelPixels;
+
+export const encodeCanvas = (source: LabelSource, settings: RasterSettings): RasterImage => {
+    if (!('getContext' in source)) return encodeRaster(source.data, source.width, source.height, settings);
+
+    const ctx = source.getContext('2d');
+    if (!ctx) throw new Error("No canvas context");
+
+    const { data } = ctx.getImageData(0, 0, source.width, source.height);
+    return encodeRaster(data, source.width, source.height, settings);
+};
+
+/**
+ * Draw exactly the dots the printer receives, in the label's orientation
+ */
+export const renderRasterPreview = (source: HTMLCanvasElement, target: HTMLCanvasElement, settings: RasterSettings) => {
+    const { width, height, dots } = rasterToLabelDots(encodeCanvas(source, settings));
+
+    if (target.width !== width || target.height !== height) {
+        target.width = width;
+        target.height = height;
+    }
+    const ctx = target.getContext('2d');
+    if (!ctx) return;
+
+    const image = ctx.createImageData(width, height);
+    for (let i = 0; i < dots.length; i++) {
+        const value = dots[i] ? 17 : 255;
+        image.data[i * 4] = image.data[i * 4 + 1] = image.data[i * 4 + 2] = value;
+        image.data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(image, 0, 0);
+};
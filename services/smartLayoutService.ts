@@ -1,4 +1,5 @@
-import { FilamentData, LabelPreset, LABEL_PRESETS, PrintSettings, LabelTheme } from '../types';
+import { FilamentData, LabelPreset, PrintSettings, LabelTheme } from '../types';
+import { getLabelPresets, isLabelStock } from './labelStock';
 
 /**
  * AI-Powered Smart Layout Engine
@@ -12,10 +13,27 @@ interface LayoutRecommendation {
     reasoning: string;
 }
 
+// Size each content tier aims for; the closest stock on hand is recommended
+const COMPACT_SIZE = { widthMm: 30, heightMm: 14 };
+const MEDIUM_SIZE = { widthMm: 40, heightMm: 12 };
+const LONG_SIZE = { widthMm: 50, heightMm: 14 };
+
+const findClosestPreset = (presets: LabelPreset[], size: { widthMm: number; heightMm: number }): LabelPreset =>
+    presets.reduce((best, p) =>
+        Math.abs(p.widthMm - size.widthMm) + Math.abs(p.heightMm - size.heightMm)
+            < Math.abs(best.widthMm - size.widthMm) + Math.abs(best.heightMm - size.heightMm) ? p : best);
+
+/** Largest die-cut label; continuous tape only if there is nothing else */
+const findLargestPreset = (presets: LabelPreset[]): LabelPreset => {
+    const cut = presets.filter(p => !isLabelStock(p) || p.labelType !== 'continuous');
+    return (cut.length > 0 ? cut : presets).reduce((best, p) => p.widthMm * p.heightMm > best.widthMm * best.heightMm ? p : best);
+};
+
 /**
- * Analyze content and recommend optimal label layout
+ * Analyze content and recommend optimal label layout from the sizes available
+ * (built-in presets and the user's label stock)
  */
-export const recommendLayout = (data: FilamentData): LayoutRecommendation => {
+export const recommendLayout = (data: FilamentData, presets: LabelPreset[] = getLabelPresets()): LayoutRecommendation => {
     const brandLength = data.brand.length;
     const materialLength = data.material.length;
     const colorLength = data.colorName.length;
@@ -32,22 +50,22 @@ export const recommendLayout = (data: FilamentData): LayoutRecommendation => {
     // Smart sizing logic
     if (complexityScore < 30) {
         // Short content - use compact label
-        recommendedPreset = LABEL_PRESETS.find(p => p.id === '14x30') || LABEL_PRESETS[0];
+        recommendedPreset = findClosestPreset(presets, COMPACT_SIZE);
         theme = LabelTheme.MINIMAL;
         reasoning = 'Compact label recommended for short text. Saves paper and looks clean.';
     } else if (complexityScore < 50) {
         // Medium content - balanced
-        recommendedPreset = LABEL_PRESETS.find(p => p.id === '12x40') || LABEL_PRESETS[0];
+        recommendedPreset = findClosestPreset(presets, MEDIUM_SIZE);
         theme = data.hygroscopy === 'high' ? LabelTheme.MAINTENANCE : LabelTheme.SWATCH;
         reasoning = 'Balanced layout for standard filament info with color swatch.';
     } else if (complexityScore < 70) {
         // Long content - need more space
-        recommendedPreset = LABEL_PRESETS.find(p => p.id === '14x50') || LABEL_PRESETS[2];
+        recommendedPreset = findClosestPreset(presets, LONG_SIZE);
         theme = LabelTheme.TECHNICAL;
         reasoning = 'Extended label for detailed information including temperatures.';
     } else {
         // Very detailed - use largest
-        recommendedPreset = LABEL_PRESETS.find(p => p.id === '40x30') || LABEL_PRESETS[5];
+        recommendedPreset = findLargestPreset(presets);
         theme = LabelTheme.BOLD;
         reasoning = 'Large label for comprehensive filament documentation.';
     }
@@ -0,0 +1,131 @@
+import { PrintJob, PrintSettings } from '../types';
+import { LabelPixels, mmToDots } from './rasterEncoder';
+
+/**
+ * Tape Layout
+ * Packs several rendered labels end to end onto one continuous-tape strip that prints as a
+ * single raster job: one header and one feed instead of one per label.
+ * Labels run along the tape (label width = feed direction) with a gap between them that
+ * holds the separator. Pure functions over RGBA pixels, so they run anywhere.
+ */
+
+export type TapeSeparator = 'none' | 'cut-marks' | 'dotted';
+
+export interface TapeLayoutOptions {
+    gapMm: number;
+    separator: TapeSeparator;
+    /** Longer batches are split over several strips */
+    maxStripMm: number;
+}
+
+export const DEFAULT_TAPE_LAYOUT: TapeLayoutOptions = { gapMm: 3, separator: 'cut-marks', maxStripMm: 500 };
+
+export const TAPE_SEPARATORS: { id: TapeSeparator; name: string }[] = [
+    { id: 'cut-marks', name: 'Cut marks' },
+    { id: 'dotted', name: 'Dotted line' },
+    { id: 'none', name: 'None' }
+];
+
+/** Narrowest gap that holds a separator; smaller gaps are widened to it unless the separator is 'none' */
+export const MIN_SEPARATOR_GAP_MM = 0.25;
+
+const CUT_MARK_MM = 1.5;
+const SEPARATOR_WIDTH = mmToDots(MIN_SEPARATOR_GAP_MM);
+
+/** Raster settings that apply to a whole strip, so every label on it has to agree on them */
+const STRIP_SETTINGS: { key: keyof PrintSettings; name: string }[] = [
+    { key: 'density', name: 'density' },
+    { key: 'speed', name: 'speed' },
+    { key: 'rasterMode', name: 'raster mode' },
+    { key: 'mirror', name: 'mirroring' },
+    { key: 'printOffsetMm', name: 'vertical offset on the label' },
+    { key: 'horizontalOffsetMm', name: 'horizontal offset on the label' }
+];
+
+/** Gap between labels in dots, never too narrow for the separator */
+export const getStripGapDots = (options: Pick<TapeLayoutOptions, 'gapMm' | 'separator'>) =>
+    Math.max(mmToDots(options.gapMm), options.separator === 'none' ? 0 : SEPARATOR_WIDTH);
+
+/** Strip length for labels of the given widths (dots) */
+export const getStripLengthDots = (widths: number[], options: Pick<TapeLayoutOptions, 'gapMm' | 'separator'>) =>
+    widths.reduce((sum, w) => sum + w, 0) + Math.max(0, widths.length - 1) * getStripGapDots(options);
+
+/**
+ * Group labels into strips no longer than options.maxStripMm (a longer single label gets its own strip)
+ */
+export const packTapeStrips = <T extends Pick<LabelPixels, 'width'>>(labels: T[], options: TapeLayoutOptions): T[][] => {
+    const maxDots = mmToDots(options.maxStripMm);
+    const strips: T[][] = [];
+    let current: T[] = [];
+
+    labels.forEach(label => {
+        if (current.length > 0 && getStripLengthDots([...current, label].map(l => l.width), options) > maxDots) {
+            strips.push(current);
+            current = [];
+        }
+        current.push(label);
+    });
+    if (current.length > 0) strips.push(current);
+    return strips;
+};
+
+/**
+ * Print settings for strips of these jobs: one continuous label, always turned so the labels run
+ * along the tape. Throws when the jobs go to different printers or disagree on a strip setting.
+ */
+export const getTapeStripSettings = (jobs: Pick<PrintJob, 'settings' | 'printerId'>[]): PrintSettings => {
+    if (jobs.length === 0) throw new Error("No labels to lay out");
+    const [first, ...rest] = jobs;
+
+    if (rest.some(job => job.printerId !== first.printerId)) {
+        throw new Error("Labels on a tape strip must all go to the same printer");
+    }
+    const mismatched = STRIP_SETTINGS.filter(({ key }) => rest.some(job => job.settings[key] !== first.settings[key]));
+    if (mismatched.length > 0) {
+        throw new Error(`Labels on a tape strip need the same ${mismatched.map(s => s.name).join(', ')}`);
+    }
+
+    return { ...first.settings, labelType: 'continuous', copies: 1, rotation: 90 };
+};
+
+/**
+ * One strip image: labels side by side, vertically centered on the tallest, separators in the gaps
+ */
+export const composeTapeStrip = (labels: LabelPixels[], options: TapeLayoutOptions): LabelPixels => {
+    if (labels.length === 0) throw new Error("No labels to lay out");
+
+    const gap = getStripGapDots(options);
+    const height = Math.max(...labels.map(l => l.height));
+    const width = getStripLengthDots(labels.map(l => l.width), options);
+    const data = new Uint8ClampedArray(width * height * 4).fill(255);
+
+    const setBlack = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 0;
+    };
+
+    let x0 = 0;
+    labels.forEach((label, index) => {
+        const y0 = Math.floor((height - label.height) / 2);
+        for (let y = 0; y < label.height; y++) {
+            const from = y * label.width * 4;
+            data.set(label.data.subarray(from, from + label.width * 4), ((y0 + y) * width + x0) * 4);
+        }
+        x0 += label.width;
+
+        if (index === labels.length - 1) return;
+        const lineX = x0 + Math.max(0, Math.floor((gap - SEPARATOR_WIDTH) / 2));
+        const markLength = Math.min(mmToDots(CUT_MARK_MM), Math.floor(height / 3));
+        for (let dx = 0; dx < Math.min(SEPARATOR_WIDTH, gap); dx++) {
+            for (let y = 0; y < height; y++) {
+                const onLine = options.separator === 'dotted' ? y % 6 < 3
+                    : options.separator === 'cut-marks' ? y < markLength || y >= height - markLength
+                    : false;
+                if (onLine) setBlack(lineX + dx, y);
+            }
+        }
+        x0 += gap;
+    });
+
+    return { width, height, data };
+};
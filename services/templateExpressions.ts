@@ -0,0 +1,203 @@
+import { FilamentData } from '../types';
+
+/**
+ * Template Expressions
+ * Computed text for layout elements, e.g. "{brand} {material}", "{minTemp}-{maxTemp}°C",
+ * "{openDate|age}" or "{hygroscopy=high?DRY ME}". Parsed into parts and evaluated against a
+ * fixed list of filament fields; nothing is looked up dynamically or run as code.
+ *
+ *   {field}                    the field's value
+ *   {field|filter|filter:arg}  the value through filters (see EXPRESSION_FILTERS)
+ *   {field=value?then:else}    text by comparison (also != ); the else part is optional
+ *   {field?then:else}          text by whether the field has a value
+ *   {{ and }}                  literal braces
+ */
+
+/** Fields an expression can read */
+export const EXPRESSION_FIELDS = [
+    'brand', 'material', 'colorName', 'colorHex', 'minTemp', 'maxTemp', 'bedTempMin', 'bedTempMax',
+    'weight', 'notes', 'hygroscopy', 'source', 'referenceUrl', 'confidence', 'uuid',
+    'openDate', 'purchaseDate', 'remainingWeight', 'customQrCode'
+] as const;
+
+export type ExpressionField = typeof EXPRESSION_FIELDS[number];
+
+type Filter = (value: string, arg: string | undefined, data: FilamentData, now: number) => string;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Grams from "750g", "1kg" or "1.2 kg"; null if not a weight */
+const parseGrams = (text?: string): number | null => {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*(kg|g)\s*$/i.exec(text || '');
+    if (!match) return null;
+    return parseFloat(match[1]) * (match[2].toLowerCase() === 'kg' ? 1000 : 1);
+};
+
+export const EXPRESSION_FILTERS: Record<string, Filter> = {
+    upper: value => value.toUpperCase(),
+    lower: value => value.toLowerCase(),
+    /** Time since an ISO date: "12d", then "3mo" past 60 days */
+    age: (value, _arg, _data, now) => {
+        const time = Date.parse(value);
+        if (!value || isNaN(time)) return '';
+        const days = Math.max(0, Math.floor((now - time) / DAY_MS));
+        return days < 60 ? `${days}d` : `${Math.floor(days / 30)}mo`;
+    },
+    /** ISO date as YYYY-MM-DD */
+    date: value => (value && !isNaN(Date.parse(value)) ? new Date(value).toISOString().slice(0, 10) : ''),
+    /** Remaining weight as a share of the spool weight; "75%" stays as it is */
+    pct: (value, _arg, data) => {
+        if (/^\s*\d+(\.\d+)?\s*%\s*$/.test(value)) return `${Math.round(parseFloat(value))}%`;
+        const remaining = parseGrams(value);
+        const total = parseGrams(data.weight);
+        if (remaining === null || !total) return '';
+        return `${Math.round(remaining / total * 100)}%`;
+    },
+    /** Text to show when the value is empty */
+    default: (value, arg) => value || (arg ?? '')
+};
+
+/**
+ * Thrown for expressions that cannot be evaluated: unknown fields or filters, unbalanced braces
+ */
+export class TemplateExpressionError extends Error {
+    expression: string;
+
+    constructor(message: string, expression: string) {
+        super(message);
+        this.name = 'TemplateExpressionError';
+        this.expression = expression;
+    }
+}
+
+export type ExpressionPart =
+    | { kind: 'text'; text: string }
+    | { kind: 'value'; field: ExpressionField; filters: { name: string; arg?: string }[] }
+    | { kind: 'condition'; field: ExpressionField; op: '=' | '!=' | null; value: string; then: string; otherwise: string };
+
+const isField = (name: string): name is ExpressionField => (EXPRESSION_FIELDS as readonly string[]).includes(name);
+
+/** Edit distance, for suggesting the field that was probably meant */
+const distance = (a: string, b: string) => {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let previous = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+            previous = current;
+        }
+    }
+    return row[b.length];
+};
+
+const checkField = (name: string, expression: string): ExpressionField => {
+    if (isField(name)) return name;
+    const suggestion = EXPRESSION_FIELDS.find(field => distance(name, field) <= 2);
+    throw new TemplateExpressionError(
+        name ? `Unknown field "${name}"${suggestion ? `, did you mean "${suggestion}"?` : ''}` : 'Empty placeholder {}',
+        expression
+    );
+};
+
+const parsePlaceholder = (body: string, expression: string): ExpressionPart => {
+    const question = body.indexOf('?');
+    if (question >= 0) {
+        const condition = body.slice(0, question).trim();
+        const branches = body.slice(question + 1);
+        const colon = branches.indexOf(':');
+        const match = /^(\w*)\s*(?:(!=|=)\s*(.*))?$/.exec(condition);
+        if (!match) throw new TemplateExpressionError(`Cannot read the condition "${condition}"`, expression);
+        return {
+            kind: 'condition',
+            field: checkField(match[1], expression),
+            op: (match[2] as '=' | '!=') || null,
+            value: (match[3] || '').trim(),
+            then: colon >= 0 ? branches.slice(0, colon) : branches,
+            otherwise: colon >= 0 ? branches.slice(colon + 1) : ''
+        };
+    }
+
+    const [name, ...filterTexts] = body.split('|').map(s => s.trim());
+    const filters = filterTexts.map(text => {
+        const colon = text.indexOf(':');
+        const filter = colon >= 0 ? { name: text.slice(0, colon).trim(), arg: text.slice(colon + 1) } : { name: text };
+        if (!Object.prototype.hasOwnProperty.call(EXPRESSION_FILTERS, filter.name)) {
+            throw new TemplateExpressionError(`Unknown filter "${filter.name}", use ${Object.keys(EXPRESSION_FILTERS).join(', ')}`, expression);
+        }
+        return filter;
+    });
+    return { kind: 'value', field: checkField(name, expression), filters };
+};
+
+const MAX_COMPILED = 500;
+const compiled = new Map<string, ExpressionPart[]>();
+
+/** Parse an expression; throws TemplateExpressionError if it is not valid */
+export const compileExpression = (expression: string): ExpressionPart[] => {
+    const cached = compiled.get(expression);
+    if (cached) return cached;
+
+    const parts: ExpressionPart[] = [];
+    let text = '';
+    let i = 0;
+    while (i < expression.length) {
+        const char = expression[i];
+        if ((char === '{' || char === '}') && expression[i + 1] === char) {
+            text += char;
+            i += 2;
+        } else if (char === '{') {
+            const end = expression.indexOf('}', i + 1);
+            const nested = expression.indexOf('{', i + 1);
+            if (end < 0 || (nested >= 0 && nested < end)) throw new TemplateExpressionError('Missing } after {', expression);
+            if (text) parts.push({ kind: 'text', text });
+            text = '';
+            parts.push(parsePlaceholder(expression.slice(i + 1, end), expression));
+            i = end + 1;
+        } else if (char === '}') {
+            throw new TemplateExpressionError('} without a matching {', expression);
+        } else {
+            text += char;
+            i++;
+        }
+    }
+    if (text) parts.push({ kind: 'text', text });
+
+    if (compiled.size >= MAX_COMPILED) compiled.clear();
+    compiled.set(expression, parts);
+    return parts;
+};
+
+const getValue = (data: FilamentData, field: ExpressionField) => {
+    const value = data[field];
+    return value === undefined || value === null ? '' : String(value);
+};
+
+/** The expression's text for a filament; throws TemplateExpressionError if it is not valid */
+export const evaluateExpression = (expression: string, data: FilamentData, now = Date.now()): string => {
+    if (!expression.includes('{') && !expression.includes('}')) return expression;
+
+    return compileExpression(expression).map(part => {
+        if (part.kind === 'text') return part.text;
+        const value = getValue(data, part.field);
+        if (part.kind === 'value') {
+            return part.filters.reduce((text, filter) => EXPRESSION_FILTERS[filter.name](text, filter.arg, data, now), value);
+        }
+        const matches = part.op === null
+            ? value !== ''
+            : (value.toLowerCase() === part.value.toLowerCase()) === (part.op === '=');
+        return matches ? part.then : part.otherwise;
+    }).join('');
+};
+
+/** Why an expression cannot be used; empty when it is valid */
+export const getExpressionProblems = (expression: string): string[] => {
+    try {
+        compileExpression(expression);
+        return [];
+    } catch (e) {
+        if (e instanceof TemplateExpressionError) return [e.message];
+        throw e;
+    }
+};
@@ -32,6 +32,8 @@ export const PREMIUM_TEMPLATES: LabelTemplate[] = [
                 { type: 'text', field: 'material', x: 2, y: 6, fontSize: 8, align: 'left' },
                 { type: 'colorSwatch', field: 'colorHex', x: 30, y: 2, width: 8, height: 8 }
             ],
+            widthMm: 40,
+            heightMm: 12,
             backgroundColor: '#FFFFFF',
             borderStyle: 'none'
         },
@@ -55,6 +57,8 @@ export const PREMIUM_TEMPLATES: LabelTemplate[] = [
                 { type: 'colorSwatch', field: 'colorHex', x: 35, y: 1, width: 10, height: 10 },
                 { type: 'qr', field: 'custom', x: 48, y: 1, width: 10, height: 10 }
             ],
+            widthMm: 60,
+            heightMm: 16,
             backgroundColor: '#FFFFFF',
             borderStyle: 'solid',
             borderWidth: 1
@@ -76,6 +80,8 @@ export const PREMIUM_TEMPLATES: LabelTemplate[] = [
                 { type: 'text', field: 'colorName', x: 5, y: 18, fontSize: 8, align: 'center' },
                 { type: 'colorSwatch', field: 'colorHex', x: 15, y: 25, width: 20, height: 5 }
             ],
+            widthMm: 50,
+            heightMm: 30,
             backgroundColor: '#FFFFFF',
             borderStyle: 'rounded',
             borderWidth: 2
@@ -98,6 +104,8 @@ export const PREMIUM_TEMPLATES: LabelTemplate[] = [
                 { type: 'colorSwatch', field: 'colorHex', x: 25, y: 1, width: 12, height: 10 },
                 { type: 'icon', field: 'hygroscopy', x: 38, y: 1, icon: 'droplet' }
             ],
+            widthMm: 40,
+            heightMm: 12,
             backgroundColor: '#F5F5F5',
             borderStyle: 'dashed',
             borderWidth: 1
@@ -121,6 +129,8 @@ export const PREMIUM_TEMPLATES: LabelTemplate[] = [
                 { type: 'text', field: 'notes', x: 2, y: 16, fontSize: 7 },
                 { type: 'colorSwatch', field: 'colorHex', x: 35, y: 2, width: 10, height: 10 }
             ],
+            widthMm: 50,
+            heightMm: 20,
             backgroundColor: '#FFF3CD',
             borderStyle: 'solid',
             borderWidth: 2
@@ -131,6 +141,46 @@ export const PREMIUM_TEMPLATES: LabelTemplate[] = [
     }
 ];
 
+// --- User library ---
+
+export const USER_TEMPLATES_STORAGE_KEY = 'user_templates';
+
+/** Templates the user made or imported, kept in localStorage */
+export const loadUserTemplates = (): LabelTemplate[] => {
+    try {
+        const saved = localStorage.getItem(USER_TEMPLATES_STORAGE_KEY);
+        const templates = saved ? JSON.parse(saved) : [];
+        return Array.isArray(templates) ? templates : [];
+    } catch (e) {
+        console.warn("Discarding unreadable user templates", e);
+        return [];
+    }
+};
+
+const saveUserTemplates = (templates: LabelTemplate[]) => {
+    try {
+        localStorage.setItem(USER_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+    } catch (e) {
+        console.warn("Failed to persist user templates", e);
+    }
+};
+
+/** Add a template to the library, replacing one with the same id */
+export const saveUserTemplate = (template: LabelTemplate): LabelTemplate[] => {
+    const existing = loadUserTemplates();
+    const templates = existing.some(t => t.id === template.id)
+        ? existing.map(t => t.id === template.id ? template : t)
+        : [...existing, template];
+    saveUserTemplates(templates);
+    return templates;
+};
+
+export const removeUserTemplate = (id: string): LabelTemplate[] => {
+    const templates = loadUserTemplates().filter(t => t.id !== id);
+    saveUserTemplates(templates);
+    return templates;
+};
+
 /**
  * Export templates to JSON
  */
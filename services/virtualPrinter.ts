@@ -0,0 +1,504 @@
+import { PRINTER_SERVICES } from './printerDrivers';
+
+/**
+ * Virtual Printer
+ * A stand-in for a Phomemo D30 that implements the Web Bluetooth surface printerService uses.
+ * It decodes the command stream (ESC @, density / speed / label type, GS v 0 raster + chunks),
+ * rebuilds every printed label as a 1-bit image and keeps a log of the commands it received.
+ *
+ * Enable in the app with ?virtualPrinter or localStorage.virtual_printer = '1';
+ * the instance is then available as window.virtualPrinter.
+ */
+
+// Real D30 characteristics on the 0x18F0 service
+const WRITE_CHARACTERISTIC = '00002af1-0000-1000-8000-00805f9b34fb';
+const NOTIFY_CHARACTERISTIC = '00002af0-0000-1000-8000-00805f9b34fb';
+const BATTERY_LEVEL = '00002a19-0000-1000-8000-00805f9b34fb';
+const MODEL_NUMBER = '00002a24-0000-1000-8000-00805f9b34fb';
+const FIRMWARE_REVISION = '00002a26-0000-1000-8000-00805f9b34fb';
+
+export const VIRTUAL_PRINTER_STORAGE_KEY = 'virtual_printer';
+
+export interface VirtualPrinterState {
+    battery: number;
+    paperOut: boolean;
+    coverOpen: boolean;
+    overheat: boolean;
+}
+
+export interface EmulatedLabel {
+    index: number;
+    widthBytes: number;
+    /** Width in dots, including padding bits */
+    width: number;
+    height: number;
+    /** Raster rows as received (MSB first, 1 = black) */
+    data: Uint8Array;
+    /** Settings in effect when the raster arrived (null = never sent) */
+    density: number | null;
+    speed: number | null;
+    labelType: 'gap' | 'continuous' | 'mark' | null;
+    receivedAt: number;
+}
+
+export interface EmulatorLogEntry {
+    time: number;
+    command: string;
+    hex: string;
+    detail?: string;
+}
+
+export interface VirtualPrinterOptions {
+    name?: string;
+    id?: string;
+    /** Largest single write accepted (ATT MTU - 3); bigger writes are rejected like a real link */
+    maxWriteSize?: number;
+    state?: Partial<VirtualPrinterState>;
+}
+
+export interface VirtualPrinter {
+    device: BluetoothDevice;
+    labels: EmulatedLabel[];
+    log: EmulatorLogEntry[];
+    state: VirtualPrinterState;
+    /** Change the simulated hardware state; pushes notifications like the real printer */
+    setState: (update: Partial<VirtualPrinterState>) => void;
+    /** Simulate the link dropping (fires gattserverdisconnected) */
+    disconnect: () => void;
+    /** Forget printed labels and the command log */
+    reset: () => void;
+    /** Serializable summary of every label, with a PNG data URL (for e2e specs and the console) */
+    exportLabels: () => ExportedLabel[];
+}
+
+export interface ExportedLabel extends Omit<EmulatedLabel, 'data'> {
+    /** Number of black dots */
+    dots: number;
+    png: string;
+}
+
+const toHex = (bytes: ArrayLike<number>) =>
+    Array.from(bytes, b => b.toString(16).padStart(2, '0')).join(' ');
+
+const toBytes = (value: BufferSource): Uint8Array => {
+    if (value instanceof ArrayBuffer) return new Uint8Array(value);
+    return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+};
+
+const notFound = (what: string) => Object.assign(new Error(`No ${what} matching UUID found`), { name: 'NotFoundError' });
+
+const LABEL_TYPES: Record<number, EmulatedLabel['labelType']> = { 0x0A: 'gap', 0x0B: 'continuous', 0x26: 'mark' };
+
+export const createVirtualPrinter = (options: VirtualPrinterOptions = {}): VirtualPrinter => {
+    const maxWriteSize = options.maxWriteSize ?? 244;
+    const state: VirtualPrinterState = { battery: 85, paperOut: false, coverOpen: false, overheat: false, ...options.state };
+    const labels: EmulatedLabel[] = [];
+    const log: EmulatorLogEntry[] = [];
+
+    let connected = false;
+    let notifying = false;
+    let pending: number[] = [];
+    let raster: { widthBytes: number; height: number; data: Uint8Array; received: number } | null = null;
+    let settings: { density: number | null; speed: number | null; labelType: EmulatedLabel['labelType'] } = { density: null, speed: null, labelType: null };
+
+    const record = (command: string, bytes: ArrayLike<number>, detail?: string) => {
+        log.push({ time: Date.now(), command, hex: toHex(bytes), detail });
+    };
+
+    // --- GATT objects ---
+
+    const device = Object.assign(new EventTarget(), {
+        id: options.id || 'virtual-d30',
+        name: options.name || 'D30 Virtual',
+        watchAdvertisements: async () => { },
+        unwatchAdvertisements: () => { },
+        watchingAdvertisements: false
+    }) as unknown as BluetoothDevice;
+
+    const createCharacteristic = (
+        service: BluetoothRemoteGATTService,
+        uuid: string,
+        properties: Partial<BluetoothCharacteristicProperties>,
+        handlers: { read?: () => Uint8Array; write?: (bytes: Uint8Array) => void } = {}
+    ) => {
+        const write = async (value: BufferSource) => {
+            if (!connected) throw Object.assign(new Error('GATT Server is disconnected. Cannot perform GATT operations.'), { name: 'NetworkError' });
+            if (!handlers.write) throw Object.assign(new Error('GATT operation not permitted.'), { name: 'NotSupportedError' });
+            const bytes = toBytes(value);
+            if (bytes.length > maxWriteSize) throw Object.assign(new Error('GATT operation failed for unknown reason.'), { name: 'NotSupportedError' });
+            handlers.write(bytes);
+        };
+
+        return Object.assign(new EventTarget(), {
+            uuid,
+            service,
+            properties: {
+                broadcast: false, read: false, writeWithoutResponse: false, write: false, notify: false, indicate: false,
+                authenticatedSignedWrites: false, reliableWrite: false, writableAuxiliaries: false,
+                ...properties
+            },
+            value: undefined as DataView | undefined,
+            getDescriptor: async () => { throw notFound('Descriptor'); },
+            getDescriptors: async () => [],
+            readValue: async () => {
+                if (!handlers.read) throw Object.assign(new Error('GATT operation not permitted.'), { name: 'NotSupportedError' });
+                return new DataView(handlers.read().buffer);
+            },
+            writeValue: write,
+            writeValueWithResponse: write,
+            writeValueWithoutResponse: write,
+            startNotifications: async () => { notifying = true; return characteristicRef.notify; },
+            stopNotifications: async () => { notifying = false; return characteristicRef.notify; }
+        }) as unknown as BluetoothRemoteGATTCharacteristic;
+    };
+
+    const createService = (uuid: string, build: (service: BluetoothRemoteGATTService) => BluetoothRemoteGATTCharacteristic[]) => {
+        const service = Object.assign(new EventTarget(), {
+            uuid,
+            isPrimary: true,
+            device,
+            getIncludedService: async () => { throw notFound('Service'); },
+            getIncludedServices: async () => []
+        }) as unknown as BluetoothRemoteGATTService;
+        const characteristics = build(service);
+        service.getCharacteristics = async () => characteristics;
+        service.getCharacteristic = async (c: string | number) => {
+            const found = characteristics.find(ch => ch.uuid === c);
+            if (!found) throw notFound('Characteristic');
+            return found;
+        };
+        return service;
+    };
+
+    const characteristicRef: { notify: BluetoothRemoteGATTCharacteristic } = {} as any;
+
+    const services = [
+        createService(PRINTER_SERVICES.PHOMEMO, service => {
+            characteristicRef.notify = createCharacteristic(service, NOTIFY_CHARACTERISTIC, { notify: true });
+            return [
+                createCharacteristic(service, WRITE_CHARACTERISTIC, { write: true, writeWithoutResponse: true }, { write: bytes => receive(bytes) }),
+                characteristicRef.notify
+            ];
+        }),
+        createService(PRINTER_SERVICES.BATTERY, service => [
+            createCharacteristic(service, BATTERY_LEVEL, { read: true }, { read: () => new Uint8Array([state.battery]) })
+        ]),
+        createService(PRINTER_SERVICES.DEVICE_INFO, service => [
+            createCharacteristic(service, MODEL_NUMBER, { read: true }, { read: () => new TextEncoder().encode('D30') }),
+            createCharacteristic(service, FIRMWARE_REVISION, { read: true }, { read: () => new TextEncoder().encode('1.0.0-virtual') })
+        ])
+    ];
+
+    const server = {
+        device,
+        get connected() { return connected; },
+        connect: async () => { connected = true; return server; },
+        disconnect: () => disconnect(),
+        getPrimaryService: async (uuid: string | number) => {
+            if (!connected) throw Object.assign(new Error('GATT Server is disconnected.'), { name: 'NetworkError' });
+            const found = services.find(s => s.uuid === uuid);
+            if (!found) throw notFound('Service');
+            return found;
+        },
+        getPrimaryServices: async () => services
+    } as unknown as BluetoothRemoteGATTServer;
+    device.gatt = server;
+
+    // --- Notifications ---
+
+    const notify = (bytes: number[]) => {
+        if (!notifying || !connected) return;
+        const char = characteristicRef.notify;
+        // Delivered asynchronously, like a real notification
+        setTimeout(() => {
+            (char as any).value = new DataView(new Uint8Array(bytes).buffer);
+            char.dispatchEvent(new Event('characteristicvaluechanged'));
+        }, 0);
+    };
+
+    const sendStatus = () => {
+        notify([0x1A, 0x04, state.battery]);
+        notify([0x1A, 0x05, state.paperOut ? 0x88 : 0x89]);
+        notify([0x1A, 0x06, state.coverOpen ? 0x88 : 0x89]);
+        notify([0x1A, 0x03, state.overheat ? 0xA9 : 0xA8]);
+    };
+
+    // --- Command stream ---
+
+    const finishLabel = () => {
+        if (!raster) return;
+        labels.push({
+            index: labels.length,
+            widthBytes: raster.widthBytes,
+            width: raster.widthBytes * 8,
+            height: raster.height,
+            data: raster.data,
+            ...settings,
+            receivedAt: Date.now()
+        });
+        record('RASTER DATA', [], `${raster.data.length} bytes, label #${labels.length}`);
+        raster = null;
+        notify([0x1A, 0x0F, 0x0C]);
+    };
+
+    /**
+     * Decode one command at the start of the pending buffer.
+     * Returns the bytes consumed, or 0 if the command is not complete yet.
+     */
+    const parseCommand = (b: number[]): number => {
+        const need = (n: number) => b.length >= n;
+
+        if (b[0] === 0x1B) {
+            if (!need(2)) return 0;
+            if (b[1] === 0x40) { record('ESC @', b.slice(0, 2), 'initialize'); return 2; }
+            if (b[1] === 0x61) { if (!need(3)) return 0; record('ESC a', b.slice(0, 3), `justify ${['left', 'center', 'right'][b[2]] ?? b[2]}`); return 3; }
+            if (b[1] === 0x64) { if (!need(3)) return 0; record('ESC d', b.slice(0, 3), `feed ${b[2]} lines`); return 3; }
+            if (b[1] === 0x4E) {
+                if (!need(4)) return 0;
+                if (b[2] === 0x0D) { settings.speed = b[3]; record('SPEED', b.slice(0, 4), `speed ${b[3]}`); }
+                else if (b[2] === 0x04) { settings.density = b[3]; record('DENSITY', b.slice(0, 4), `heat ${b[3]}`); }
+                else record('UNKNOWN', b.slice(0, 4));
+                return 4;
+            }
+            record('UNKNOWN', b.slice(0, 2));
+            return 2;
+        }
+
+        if (b[0] === 0x1F) {
+            if (!need(2)) return 0;
+            if (b[1] === 0x11) {
+                if (!need(3)) return 0;
+                if (b[2] === 0x24) { if (!need(4)) return 0; settings.density = b[3]; record('DENSITY', b.slice(0, 4), `heat ${b[3]}`); return 4; }
+                if (b[2] === 0x11) { record('STATUS?', b.slice(0, 3), 'status query'); sendStatus(); return 3; }
+                if (LABEL_TYPES[b[2]]) { settings.labelType = LABEL_TYPES[b[2]]; record('LABEL TYPE', b.slice(0, 3), LABEL_TYPES[b[2]]!); return 3; }
+                record('UNKNOWN', b.slice(0, 3));
+                return 3;
+            }
+            if (b[1] === 0xF0) { if (!need(4)) return 0; record('FOOTER', b.slice(0, 4), b[2] === 0x05 ? 'end of label' : 'advance'); return 4; }
+            record('UNKNOWN', b.slice(0, 2));
+            return 2;
+        }
+
+        if (b[0] === 0x1D) {
+            if (!need(2)) return 0;
+            if (b[1] === 0x76) {
+                if (!need(8)) return 0;
+                const widthBytes = b[4] + b[5] * 256;
+                const height = b[6] + b[7] * 256;
+                record('GS v 0', b.slice(0, 8), `raster ${widthBytes * 8}x${height}`);
+                raster = { widthBytes, height, data: new Uint8Array(widthBytes * height), received: 0 };
+                if (raster.data.length === 0) finishLabel();
+                return 8;
+            }
+            record('UNKNOWN', b.slice(0, 2));
+            return 2;
+        }
+
+        if (b[0] === 0x10) {
+            if (!need(3)) return 0;
+            record('DLE EOT', b.slice(0, 3), 'status query');
+            if (b[1] === 0x04) notify([0x12 | (state.coverOpen ? 0x04 : 0) | (state.paperOut ? 0x20 : 0)]);
+            return 3;
+        }
+
+        record('UNKNOWN', b.slice(0, 1));
+        return 1;
+    };
+
+    const receive = (bytes: Uint8Array) => {
+        let input = Array.from(bytes);
+
+        while (input.length > 0 || (!raster && pending.length > 0)) {
+            if (raster) {
+                const take = Math.min(raster.data.length - raster.received, input.length);
+                raster.data.set(input.slice(0, take), raster.received);
+                raster.received += take;
+                input = input.slice(take);
+                if (raster.received === raster.data.length) finishLabel();
+                continue;
+            }
+
+            pending = pending.concat(input);
+            input = [];
+            const consumed = parseCommand(pending);
+            if (consumed === 0) break;
+
+            // Anything after the command goes back through the loop (it may be raster data)
+            input = pending.slice(consumed);
+            pending = [];
+        }
+    };
+
+    // --- Controls ---
+
+    const disconnect = () => {
+        if (!connected) return;
+        connected = false;
+        notifying = false;
+        pending = [];
+        raster = null;
+        record('DISCONNECT', []);
+        device.dispatchEvent(new Event('gattserverdisconnected'));
+    };
+
+    const setState = (update: Partial<VirtualPrinterState>) => {
+        Object.assign(state, update);
+        if (update.battery !== undefined) notify([0x1A, 0x04, state.battery]);
+        if (update.paperOut !== undefined) notify([0x1A, 0x05, state.paperOut ? 0x88 : 0x89]);
+        if (update.coverOpen !== undefined) notify([0x1A, 0x06, state.coverOpen ? 0x88 : 0x89]);
+        if (update.overheat !== undefined) notify([0x1A, 0x03, state.overheat ? 0xA9 : 0xA8]);
+    };
+
+    const reset = () => {
+        labels.length = 0;
+        log.length = 0;
+    };
+
+    const exportLabels = (): ExportedLabel[] => labels.map(({ data, ...label }) => ({
+        ...label,
+        dots: data.reduce((n, byte) => {
+            let bits = 0;
+            for (let b = byte; b; b &= b - 1) bits++;
+            return n + bits;
+        }, 0),
+        png: labelToDataUrl({ widthBytes: label.widthBytes, height: label.height, data })
+    }));
+
+    return { device, labels, log, state, setState, disconnect, reset, exportLabels };
+};
+
+// --- Label images ---
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array) => {
+    let a = 1, b = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        a = (a + bytes[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+};
+
+const writeUint32 = (target: Uint8Array, offset: number, value: number) => {
+    target[offset] = value >>> 24;
+    target[offset + 1] = (value >>> 16) & 0xFF;
+    target[offset + 2] = (value >>> 8) & 0xFF;
+    target[offset + 3] = value & 0xFF;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+    const chunk = new Uint8Array(12 + data.length);
+    writeUint32(chunk, 0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+// zlib stream made of uncompressed (stored) deflate blocks
+const zlibStore = (data: Uint8Array) => {
+    const blocks = Math.max(1, Math.ceil(data.length / 65535));
+    const out = new Uint8Array(2 + data.length + blocks * 5 + 4);
+    out[0] = 0x78;
+    out[1] = 0x01;
+    let pos = 2;
+    for (let i = 0; i < blocks; i++) {
+        const block = data.subarray(i * 65535, (i + 1) * 65535);
+        out[pos++] = i === blocks - 1 ? 1 : 0;
+        out[pos++] = block.length & 0xFF;
+        out[pos++] = block.length >>> 8;
+        out[pos++] = ~block.length & 0xFF;
+        out[pos++] = (~block.length >>> 8) & 0xFF;
+        out.set(block, pos);
+        pos += block.length;
+    }
+    writeUint32(out, pos, adler32(data));
+    return out;
+};
+
+/**
+ * 1-bit grayscale PNG of a printed label (as fed through the print head)
+ */
+export const labelToPng = (label: Pick<EmulatedLabel, 'widthBytes' | 'height' | 'data'>): Uint8Array => {
+    // PNG grayscale: 0 = black, so printer dots are inverted. Each row starts with filter type 0.
+    const rows = new Uint8Array((label.widthBytes + 1) * label.height);
+    for (let y = 0; y < label.height; y++) {
+        for (let x = 0; x < label.widthBytes; x++) {
+            rows[y * (label.widthBytes + 1) + 1 + x] = ~label.data[y * label.widthBytes + x] & 0xFF;
+        }
+    }
+
+    const header = new Uint8Array(13);
+    writeUint32(header, 0, label.widthBytes * 8);
+    writeUint32(header, 4, label.height);
+    header[8] = 1; // bit depth
+    header[9] = 0; // grayscale
+
+    const parts = [
+        new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', zlibStore(rows)),
+        pngChunk('IEND', new Uint8Array(0))
+    ];
+    const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    parts.forEach(p => { png.set(p, offset); offset += p.length; });
+    return png;
+};
+
+export const labelToDataUrl = (label: Pick<EmulatedLabel, 'widthBytes' | 'height' | 'data'>): string => {
+    const png = labelToPng(label);
+    let binary = '';
+    for (let i = 0; i < png.length; i++) binary += String.fromCharCode(png[i]);
+    return `data:image/png;base64,${btoa(binary)}`;
+};
+
+// --- App integration ---
+
+declare global {
+    interface Window {
+        virtualPrinter?: VirtualPrinter;
+    }
+}
+
+export const isVirtualPrinterRequested = (): boolean => {
+    try {
+        return new URLSearchParams(window.location.search).has('virtualPrinter') ||
+            localStorage.getItem(VIRTUAL_PRINTER_STORAGE_KEY) === '1';
+    } catch (e) {
+        return false;
+    }
+};
+
+/**
+ * Replace navigator.bluetooth so the app connects to the virtual printer
+ */
+export const installVirtualPrinter = (printer: VirtualPrinter = createVirtualPrinter()): VirtualPrinter => {
+    Object.defineProperty(navigator, 'bluetooth', {
+        value: {
+            requestDevice: async () => printer.device,
+            getDevices: async () => [printer.device],
+            getAvailability: async () => true
+        },
+        writable: true,
+        configurable: true
+    });
+    window.virtualPrinter = printer;
+    console.info("Virtual printer installed:", printer.device.name);
+    return printer;
+};
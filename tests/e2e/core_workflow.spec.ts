@@ -1,6 +1,7 @@
 
 import { test, expect } from '@playwright/test';
 import { MOCK_BLUETOOTH_DEVICE_NAME, mockBluetooth } from '../fixtures/mock-bluetooth';
+import { useVirtualPrinter, getPrintedLabels, getPrinterLog } from '../fixtures/virtual-printer';
 
 test.describe('Core Workflow', () => {
   test.beforeEach(async ({ page }) => {
@@ -64,3 +65,30 @@ test.describe('Core Workflow', () => {
     await expect(page.getByText('PETG-BATCH', { exact: true })).toBeVisible();
   });
 });
+
+test.describe('Core Workflow (virtual printer)', () => {
+  test.beforeEach(async ({ page }) => {
+    await useVirtualPrinter(page);
+    await page.goto('/');
+    await expect(page.locator('text=Filament ID')).toBeVisible({ timeout: 30000 });
+  });
+
+  test('Manual Entry -> Print produces the expected label', async ({ page }) => {
+    await page.getByText('Manual Entry').click();
+    await page.locator('label:has-text("Brand") + input').fill('Virtual Brand');
+    await page.locator('label:has-text("Material") + input').fill('PLA');
+
+    await page.getByText('CONNECT & PRINT').click();
+    await expect(page.getByText('Print complete!', { exact: false })).toBeVisible({ timeout: 15000 });
+
+    // Default 12x30mm preset is printed sideways: 96 dots across the head, 240 rows long
+    const labels = await getPrintedLabels(page);
+    expect(labels).toHaveLength(1);
+    expect(labels[0]).toMatchObject({ widthBytes: 12, height: 240 });
+    expect(labels[0].dots).toBeGreaterThan(0);
+
+    const commands = (await getPrinterLog(page)).map(entry => entry.command);
+    expect(commands).toContain('DENSITY');
+    expect(commands).toContain('GS v 0');
+  });
+});
@@ -0,0 +1,20 @@
+import { Page } from '@playwright/test';
+import type { EmulatorLogEntry, ExportedLabel } from '../../services/virtualPrinter';
+
+/**
+ * Run the app against the built-in virtual D30 instead of a Bluetooth mock,
+ * so specs can assert on what was actually printed.
+ */
+export const useVirtualPrinter = async (page: Page) => {
+  await page.addInitScript(() => {
+    localStorage.setItem('virtual_printer', '1');
+  });
+};
+
+export const getPrintedLabels = (page: Page): Promise<ExportedLabel[]> =>
+  page.evaluate(() => window.virtualPrinter?.exportLabels() ?? []);
+
+export const getPrinterLog = (page: Page): Promise<EmulatorLogEntry[]> =>
+  page.evaluate(() => window.virtualPrinter?.log ?? []);
+
+export const VIRTUAL_PRINTER_NAME = 'D30 Virtual';
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getCode128Values, encodeCode128, encodeEan13, encodeUpcA, getEanCheckDigit,
+    getDataMatrixCodewords, getReedSolomonCodewords, encodeDataMatrix, fitBarcode, BarcodeError
+} from '../../services/barcode';
+
+const bits = (modules: boolean[]) => modules.map(m => (m ? '1' : '0')).join('');
+
+describe('barcode', () => {
+    describe('Code 128', () => {
+        it('should encode text in code set B with a checksum', () => {
+            expect(getCode128Values('PJJ123C')).toEqual([104, 48, 42, 42, 17, 18, 19, 35, 55, 106]);
+        });
+
+        it('should pack digit runs two to a symbol in code set C', () => {
+            expect(getCode128Values('1234')).toEqual([105, 12, 34, 82, 106]);
+            // An odd digit goes first in set B
+            expect(getCode128Values('AB12345')).toEqual([104, 33, 34, 17, 99, 23, 45, 7, 106]);
+            expect(getCode128Values('AB123')).toEqual([104, 33, 34, 17, 18, 19, 11, 106]);
+        });
+
+        it('should be 11 modules per symbol plus a 13-module stop', () => {
+            const code = encodeCode128('PLA');
+            expect(code.kind === 'linear' && code.modules.length).toBe(11 * 5 + 13);
+            expect(code.kind === 'linear' && bits(code.modules).startsWith('11010010000')).toBe(true);
+            expect(code.kind === 'linear' && bits(code.modules).endsWith('1100011101011')).toBe(true);
+        });
+
+        it('should reject text outside printable ASCII', () => {
+            expect(() => encodeCode128('Grün')).toThrow(BarcodeError);
+            expect(() => encodeCode128('')).toThrow(BarcodeError);
+        });
+    });
+
+    describe('EAN-13 / UPC-A', () => {
+        it('should add or verify the check digit', () => {
+            expect(getEanCheckDigit('400638133393')).toBe(1);
+            expect(bits((encodeEan13('400638133393') as { modules: boolean[] }).modules))
+                .toBe(bits((encodeEan13('4006381333931') as { modules: boolean[] }).modules));
+            expect(() => encodeEan13('4006381333932')).toThrow('check digit should be 1');
+            expect(() => encodeEan13('PLA')).toThrow(BarcodeError);
+        });
+
+        it('should draw guards and halves over 95 modules', () => {
+            const code = bits((encodeEan13('4006381333931') as { modules: boolean[] }).modules);
+            expect(code).toHaveLength(95);
+            expect(code.slice(0, 3)).toBe('101');
+            expect(code.slice(45, 50)).toBe('01010');
+            // 4 sets the parity of the left half: 0 in L, 0 in G
+            expect(code.slice(3, 17)).toBe('0001101' + '0100111');
+        });
+
+        it('should encode UPC-A as EAN-13 with a leading zero', () => {
+            expect(bits((encodeUpcA('036000291452') as { modules: boolean[] }).modules))
+                .toBe(bits((encodeEan13('0036000291452') as { modules: boolean[] }).modules));
+            expect(() => encodeUpcA('036000291453')).toThrow('UPC-A check digit');
+        });
+    });
+
+    describe('DataMatrix', () => {
+        it('should match the ISO 16022 example codewords', () => {
+            const data = getDataMatrixCodewords('123456');
+            expect(data).toEqual([142, 164, 186]);
+            expect(getReedSolomonCodewords(data, 5)).toEqual([114, 25, 5, 88, 102]);
+        });
+
+        it('should shift bytes above 127', () => {
+            expect(getDataMatrixCodewords('a°')).toEqual([98, 235, 0xC2 - 127, 235, 0xB0 - 127]);
+        });
+
+        it('should frame the symbol with the finder pattern', () => {
+            const code = encodeDataMatrix('PLA 190-220');
+            if (code.kind !== 'matrix') throw new Error('not a matrix');
+            const { rows, cols, modules } = code;
+            expect(rows).toBe(cols);
+            expect(modules.every(row => row[0])).toBe(true);
+            expect(modules[rows - 1].every(Boolean)).toBe(true);
+            expect(modules[0].map((m, c) => m === (c % 2 === 0)).every(Boolean)).toBe(true);
+            expect(modules.map((row, r) => row[cols - 1] === (r % 2 === 1)).every(Boolean)).toBe(true);
+        });
+
+        it('should repeat the finder pattern between data regions', () => {
+            const code = encodeDataMatrix('X'.repeat(50));
+            if (code.kind !== 'matrix') throw new Error('not a matrix');
+            expect(code.rows).toBe(32);
+            // Solid column starting the second region, alternating one ending the first
+            expect(code.modules.every(row => row[16])).toBe(true);
+            expect(code.modules.map((row, r) => row[15] === (r % 16 % 2 === 1)).every(Boolean)).toBe(true);
+        });
+
+        it('should pick a rectangle for short, wide boxes', () => {
+            const code = encodeDataMatrix('PLA|21', { width: 160, height: 40 });
+            expect(code.kind === 'matrix' && [code.rows, code.cols]).toEqual([8, 18]);
+            // Six codewords outgrow the smallest rectangle
+            const longer = encodeDataMatrix('PLA|210', { width: 160, height: 40 });
+            expect(longer.kind === 'matrix' && [longer.rows, longer.cols]).toEqual([8, 32]);
+        });
+    });
+
+    describe('fitBarcode', () => {
+        it('should use the most whole dots per module that fit', () => {
+            // 68 modules and two 10-module quiet zones
+            expect(fitBarcode('code128', 'PLA', 180, 40).moduleDots).toBe(2);
+            expect(fitBarcode('code128', 'PLA', 263, 40).moduleDots).toBe(2);
+            expect(fitBarcode('code128', 'PLA', 264, 40).moduleDots).toBe(3);
+            // Matrix codes are limited by the shorter side
+            expect(fitBarcode('datamatrix', '123456', 200, 36).moduleDots).toBe(3);
+        });
+
+        it('should refuse codes that do not fit at one dot per module', () => {
+            expect(() => fitBarcode('code128', 'POLYMAKER|PLA|190-220', 160, 48)).toThrow(/needs \d+ dots wide/);
+        });
+    });
+});
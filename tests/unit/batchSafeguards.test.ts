@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { checkBatch, getBatchResources, getJobNeed, getTapeStripNeeds, JobNeed } from '../../services/batchSafeguards';
+import { PRINT_TELEMETRY_STORAGE_KEY } from '../../services/printTelemetry';
+import { PRINTER_REGISTRY_STORAGE_KEY } from '../../services/printerRegistry';
+import { PrintJob } from '../../types';
+
+// 40x30 gap labels: 30mm of tape plus 3mm feed each
+const label: JobNeed = { labels: 1, tapeMm: 33 };
+const batch = (count: number) => Array.from({ length: count }, () => label);
+
+describe('batchSafeguards', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+        storage = {};
+        vi.stubGlobal('localStorage', {
+            getItem: vi.fn((key: string) => storage[key] ?? null),
+            setItem: vi.fn((key: string, value: string) => { storage[key] = value; }),
+            removeItem: vi.fn((key: string) => { delete storage[key]; })
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should work out the tape a job feeds', () => {
+        const job = { settings: { widthMm: 40, heightMm: 30, copies: 2, labelType: 'gap' } } as PrintJob;
+        const need = getJobNeed(job);
+        expect(need.labels).toBe(2);
+        expect(need.tapeMm).toBeCloseTo(2 * (240 / (203 / 25.4) + 3));
+    });
+
+    it('should count the tape of the strips when labels print as tape strips', () => {
+        const job = { settings: { widthMm: 40, heightMm: 12, copies: 2, labelType: 'gap', rotation: 0 } } as PrintJob;
+        const needs = getTapeStripNeeds([job, job, job], { gapMm: 3, separator: 'none', maxStripMm: 90 });
+
+        // 40 + 3 + 40 fits under 90mm, the third label starts a second strip; no feed gap per label
+        expect(needs.map(n => n.labels)).toEqual([2, 1]);
+        expect(needs[0].tapeMm).toBeCloseTo((320 * 2 + 24) / (203 / 25.4));
+        expect(needs[1].tapeMm).toBeCloseTo(320 / (203 / 25.4));
+    });
+
+    it('should pass a batch the battery and roll can cover', () => {
+        expect(checkBatch(batch(40), { battery: 90, drainPerLabel: 0.5, rollRemainingMm: 5000 })).toEqual({ issues: [], fitJobs: 40 });
+        // Nothing known, nothing checked
+        expect(checkBatch(batch(40), { battery: null, drainPerLabel: null, rollRemainingMm: null }).issues).toEqual([]);
+    });
+
+    it('should keep a battery reserve when counting labels', () => {
+        // 18% - 10% reserve at 0.5% a label
+        const check = checkBatch(batch(40), { battery: 18, drainPerLabel: 0.5, rollRemainingMm: null });
+        expect(check.fitJobs).toBe(16);
+        expect(check.issues).toEqual([{ kind: 'battery', message: 'Battery at 18% lasts about 16 of 40 labels' }]);
+
+        const flat = checkBatch(batch(40), { battery: 8, drainPerLabel: 0.5, rollRemainingMm: null });
+        expect(flat.fitJobs).toBe(0);
+        expect(flat.issues[0].message).toMatch(/too low/);
+    });
+
+    it('should take the tighter of battery and roll', () => {
+        const check = checkBatch(batch(40), { battery: 18, drainPerLabel: 0.5, rollRemainingMm: 400 });
+        expect(check.fitJobs).toBe(12);
+        expect(check.issues.map(i => i.kind)).toEqual(['battery', 'roll']);
+        expect(check.issues[1].message).toBe('About 40 cm left on the roll, enough for 12 of 40 labels');
+    });
+
+    it('should read drain and roll remaining from telemetry and the registry', () => {
+        const now = Date.now();
+        storage[PRINTER_REGISTRY_STORAGE_KEY] = JSON.stringify([
+            { id: 'p1', name: 'D30', roll: { loadedAt: now - 1000, lengthMm: 1000 } }
+        ]);
+        storage[PRINT_TELEMETRY_STORAGE_KEY] = JSON.stringify([
+            { id: 't', printerId: 'p1', labelName: 'x', timestamp: now, copies: 4, batteryBefore: 50, batteryAfter: 48, bytesSent: 0, labelLengthMm: 132, durationMs: 0 }
+        ]);
+
+        expect(getBatchResources('p1', 40)).toEqual({ battery: 40, drainPerLabel: 0.5, rollRemainingMm: 868 });
+        expect(getBatchResources(undefined, 40)).toEqual({ battery: 40, drainPerLabel: null, rollRemainingMm: null });
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { BITMAP_FONTS, BitmapFontName, layoutBitmapText, fitBitmapText } from '../../services/bitmapFonts';
+
+/** The laid out text as rows of # and . */
+const render = (text: string, font: BitmapFontName, bold = false) => {
+    const layout = layoutBitmapText(text, font, bold)!;
+    const grid = Array.from({ length: layout.height }, () => Array<string>(layout.width).fill('.'));
+    layout.runs.forEach(run => {
+        for (let i = 0; i < run.length; i++) grid[run.y][run.x + i] = '#';
+    });
+    return grid.map(row => row.join(''));
+};
+
+describe('bitmapFonts', () => {
+    it('should define every glyph as a rectangle of rows at least as tall as the capitals', () => {
+        Object.values(BITMAP_FONTS).forEach(font => {
+            Object.entries(font.glyphs).forEach(([char, pattern]) => {
+                const rows = pattern.split(' ');
+                expect(rows.length, char).toBeGreaterThanOrEqual(font.capHeight);
+                expect(rows.length, char).toBeLessThanOrEqual(font.capHeight + 2);
+                expect(rows.every(row => row.length === rows[0].length && /^[#.]+$/.test(row)), char).toBe(true);
+            });
+        });
+    });
+
+    it('should draw glyphs dot for dot with one dot between them', () => {
+        expect(render('1°', 'regular')).toEqual([
+            '..#....#.',
+            '.##...#.#',
+            '..#....#.',
+            '..#......',
+            '..#......',
+            '..#......',
+            '.###.....'
+        ]);
+    });
+
+    it('should cover digits, temperatures and lowercase in every font', () => {
+        const sample = 'PLA+ 190-220°C 1.75mm 50%';
+        (['regular', 'condensed', 'small'] as BitmapFontName[]).forEach(font => {
+            expect(layoutBitmapText(sample, font), font).not.toBeNull();
+        });
+    });
+
+    it('should compose accented letters from a base and a mark', () => {
+        // Over lowercase the mark sits in the ascender rows, over capitals it adds rows above
+        const lower = layoutBitmapText('é', 'regular')!;
+        expect(lower.above).toBe(0);
+        expect(render('é', 'regular').slice(0, 3)).toEqual(['...#.', '..#..', '.###.']);
+        expect(layoutBitmapText('É', 'regular')!.above).toBe(2);
+        // The dot of the i makes way for the accent
+        expect(render('í', 'regular')[0]).toBe('..#');
+        // A cedilla hangs below the baseline
+        expect(layoutBitmapText('ç', 'regular')!.height).toBe(9);
+
+        expect(layoutBitmapText('ÀÁÂÃÄÅÇÈÉÊËÌÍÎÏÑÒÓÔÕÖØÙÚÛÜÝàáâãäåçèéêëìíîïñòóôõöøùúûüýÿßąęłśźżčřšž', 'regular')).not.toBeNull();
+    });
+
+    it('should draw text in capitals in the small font', () => {
+        expect(render('ß', 'small')).toEqual(render('SS', 'small'));
+        expect(render('pla', 'small')).toEqual(render('PLA', 'small'));
+    });
+
+    it('should thicken bold text by a dot per glyph', () => {
+        expect(layoutBitmapText('PLA', 'regular', true)!.width).toBe(layoutBitmapText('PLA', 'regular')!.width + 3);
+        expect(render('I', 'regular', true)[0]).toBe('####');
+    });
+
+    it('should not draw characters it has no glyph for', () => {
+        expect(layoutBitmapText('PLA ✨', 'regular')).toBeNull();
+        expect(layoutBitmapText('日本', 'condensed')).toBeNull();
+    });
+
+    describe('fitBitmapText', () => {
+        it('should prefer the regular font', () => {
+            expect(fitBitmapText('PLA', 100, 9)?.font).toBe('regular');
+        });
+
+        it('should use the condensed font for long names', () => {
+            const regular = layoutBitmapText('Polymaker', 'regular')!.width;
+            expect(fitBitmapText('Polymaker', regular - 1, 9)?.font).toBe('condensed');
+        });
+
+        it('should use the small font for short lines', () => {
+            expect(fitBitmapText('PETG', 100, 6)?.font).toBe('small');
+            expect(fitBitmapText('PETG', 100, 4)).toBeNull();
+            expect(fitBitmapText('Polymaker PolyTerra Matte', 40, 9)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { transmit, createLinkProfile, createFlowGate, formatThroughput, MIN_CHUNK_SIZE } from '../../services/bleTransmitter';
+
+const createCharacteristic = (props: { write?: boolean; writeWithoutResponse?: boolean }, maxWrite = 512) => {
+    const written: { bytes: number[]; withResponse: boolean }[] = [];
+    const record = (withResponse: boolean) => vi.fn(async (value: Uint8Array) => {
+        if (value.length > maxWrite) throw new Error('GATT operation failed');
+        written.push({ bytes: Array.from(value), withResponse });
+    });
+    return {
+        written,
+        char: {
+            properties: { write: false, writeWithoutResponse: false, ...props },
+            writeValue: record(true),
+            writeValueWithResponse: record(true),
+            writeValueWithoutResponse: record(false)
+        } as any
+    };
+};
+
+const payload = (length: number) => Uint8Array.from({ length }, (_, i) => i % 256);
+
+describe('bleTransmitter', () => {
+    it('should deliver every byte in order', async () => {
+        const { char, written } = createCharacteristic({ writeWithoutResponse: true });
+        const data = payload(1000);
+
+        const result = await transmit(char, data, { profile: createLinkProfile(128) });
+
+        expect(written.flatMap(w => w.bytes)).toEqual(Array.from(data));
+        expect(result.bytesSent).toBe(1000);
+        expect(written[0].bytes.length).toBe(128);
+    });
+
+    it('should shrink the chunk size when the link rejects a write', async () => {
+        const { char, written } = createCharacteristic({ writeWithoutResponse: true }, 60);
+        const profile = createLinkProfile(128);
+        const data = payload(300);
+
+        const result = await transmit(char, data, { profile });
+
+        expect(profile.chunkSize).toBe(32);
+        expect(result.retries).toBe(2);
+        expect(written.flatMap(w => w.bytes)).toEqual(Array.from(data));
+    });
+
+    it('should give up after repeated failures', async () => {
+        const { char } = createCharacteristic({ writeWithoutResponse: true }, MIN_CHUNK_SIZE - 1);
+
+        await expect(transmit(char, payload(100), { profile: createLinkProfile(MIN_CHUNK_SIZE) }))
+            .rejects.toThrow('GATT operation failed');
+    });
+
+    it('should speed up pacing on a clean link', async () => {
+        const { char } = createCharacteristic({ writeWithoutResponse: true });
+        const profile = createLinkProfile(MIN_CHUNK_SIZE);
+
+        await transmit(char, payload(MIN_CHUNK_SIZE * 40), { profile });
+
+        expect(profile.delayMs).toBeLessThan(20);
+    });
+
+    it('should insert write-with-response checkpoints when supported', async () => {
+        const { char, written } = createCharacteristic({ write: true, writeWithoutResponse: true });
+
+        await transmit(char, payload(2048), { profile: createLinkProfile(128) });
+
+        const checkpoints = written.filter(w => w.withResponse).length;
+        expect(checkpoints).toBe(2);
+        expect(written.length).toBe(16);
+    });
+
+    it('should only count bytes up to the last acknowledged write', async () => {
+        const checkpointed = createCharacteristic({ write: true, writeWithoutResponse: true });
+        const onProgress = vi.fn();
+        await transmit(checkpointed.char, payload(1536), { profile: createLinkProfile(128), onProgress });
+        const acknowledged = onProgress.mock.calls.map(([p]) => p.bytesAcknowledged);
+        expect(acknowledged[6]).toBe(0);
+        expect(acknowledged[7]).toBe(1024);
+        expect(acknowledged.at(-1)).toBe(1024);
+
+        const unacknowledged = createCharacteristic({ writeWithoutResponse: true });
+        onProgress.mockClear();
+        await transmit(unacknowledged.char, payload(512), { profile: createLinkProfile(128), onProgress });
+        expect(onProgress.mock.calls.at(-1)![0]).toMatchObject({ bytesSent: 512, bytesAcknowledged: 0 });
+    });
+
+    it('should stop when beforeChunk throws', async () => {
+        const { char, written } = createCharacteristic({ writeWithoutResponse: true });
+        let calls = 0;
+
+        await expect(transmit(char, payload(500), {
+            profile: createLinkProfile(100),
+            beforeChunk: () => { if (++calls === 3) throw new Error('Printer reports: Out of Paper'); }
+        })).rejects.toThrow('Out of Paper');
+
+        expect(written.length).toBe(2);
+    });
+
+    it('should wait while the printer has paused the flow', async () => {
+        const { char, written } = createCharacteristic({ writeWithoutResponse: true });
+        const gate = createFlowGate();
+        gate.pause();
+
+        const sending = transmit(char, payload(100), { profile: createLinkProfile(50), flowGate: gate });
+        await new Promise(r => setTimeout(r, 30));
+        expect(written.length).toBe(0);
+
+        gate.resume();
+        await sending;
+        expect(written.length).toBe(2);
+    });
+
+    it('should report progress with throughput', async () => {
+        const { char } = createCharacteristic({ writeWithoutResponse: true });
+        const onProgress = vi.fn();
+
+        await transmit(char, payload(200), { profile: createLinkProfile(100), onProgress });
+
+        expect(onProgress).toHaveBeenCalledTimes(2);
+        const last = onProgress.mock.calls[1][0];
+        expect(last.percent).toBe(100);
+        expect(last.bytesPerSecond).toBeGreaterThan(0);
+    });
+
+    it('should format throughput', () => {
+        expect(formatThroughput(512)).toBe('512 B/s');
+        expect(formatThroughput(3072)).toBe('3.0 KB/s');
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CalibrationData, PrintSettings } from '../../types';
+import {
+    createCalibrationPattern, getEdgeCorrectionMm, buildCalibration, applyCalibration,
+    CALIBRATION_TICKS, CALIBRATION_TICK_STEP_MM
+} from '../../services/calibration';
+import { mmToDots } from '../../services/rasterEncoder';
+import { phomemoD30Driver, toHeatLevel } from '../../services/printerDrivers';
+import { saveCalibration, registerPrinter } from '../../services/printerRegistry';
+import { printLabel, getPrinterCalibration } from '../../services/printerService';
+import { createVirtualPrinter } from '../../services/virtualPrinter';
+
+const isBlack = (rgba: Uint8ClampedArray, width: number, x: number, y: number) => rgba[(y * width + x) * 4] === 0;
+
+const calibration = (overrides: Partial<CalibrationData> = {}): CalibrationData => ({
+    labelWidthMm: 40,
+    labelHeightMm: 12,
+    densityOffset: 0,
+    horizontalOffsetMm: 0,
+    verticalOffsetMm: 0,
+    speedOptimal: 3,
+    lastCalibrated: 0,
+    calibratedBy: 'user',
+    ...overrides
+});
+
+const settings = { copies: 1, density: 50, printOffsetMm: 0.5 } as PrintSettings;
+
+describe('calibration', () => {
+    describe('pattern', () => {
+        const width = mmToDots(40), height = mmToDots(12);
+        const rgba = createCalibrationPattern(width, height);
+        const cy = Math.floor(height / 2), cx = Math.floor(width / 2);
+
+        it('should put a tick on every edge and every 0.5mm inwards', () => {
+            for (let tick = 0; tick < CALIBRATION_TICKS; tick++) {
+                const offset = mmToDots(tick * CALIBRATION_TICK_STEP_MM);
+                expect(isBlack(rgba, width, offset, cy)).toBe(true);
+                expect(isBlack(rgba, width, width - 1 - offset, cy)).toBe(true);
+                expect(isBlack(rgba, width, cx, offset)).toBe(true);
+                expect(isBlack(rgba, width, cx, height - 1 - offset)).toBe(true);
+            }
+            // Between two ticks is paper
+            expect(isBlack(rgba, width, 2, cy)).toBe(false);
+        });
+
+        it('should make each tick longer than the one before', () => {
+            const length = (x: number) => Array.from({ length: height }, (_, y) => y).filter(y => isBlack(rgba, width, x, y)).length;
+            const lengths = Array.from({ length: CALIBRATION_TICKS }, (_, t) => length(mmToDots(t * CALIBRATION_TICK_STEP_MM)));
+            lengths.slice(1).forEach((l, i) => expect(l).toBeGreaterThan(lengths[i]));
+        });
+
+        it('should skip the density blocks on labels too small for them', () => {
+            const tiny = createCalibrationPattern(mmToDots(22), mmToDots(6));
+            expect(tiny.length).toBe(mmToDots(22) * mmToDots(6) * 4);
+        });
+    });
+
+    describe('answers', () => {
+        it('should turn the tick on an edge into a correction towards the other edge', () => {
+            expect(getEdgeCorrectionMm({ edge: 'left', tick: 2 })).toBe(1);
+            expect(getEdgeCorrectionMm({ edge: 'right', tick: 3 })).toBe(-1.5);
+            expect(getEdgeCorrectionMm({ edge: 'top', tick: 1 })).toBe(0.5);
+            expect(getEdgeCorrectionMm({ edge: 'bottom', tick: 0 })).toBe(-0);
+            expect(getEdgeCorrectionMm(null)).toBe(0);
+        });
+
+        it('should add the answers to the previous calibration', () => {
+            const next = buildCalibration(
+                calibration({ densityOffset: 5, horizontalOffsetMm: 0.5, verticalOffsetMm: -1 }),
+                { widthMm: 40, heightMm: 12 },
+                { horizontal: { edge: 'right', tick: 2 }, vertical: null, darkness: 'faded', speed: 2 }
+            );
+
+            expect(next).toMatchObject({
+                labelWidthMm: 40, labelHeightMm: 12,
+                densityOffset: 15, horizontalOffsetMm: -0.5, verticalOffsetMm: -1, speedOptimal: 2, calibratedBy: 'user'
+            });
+        });
+
+        it('should keep corrections within range', () => {
+            const next = buildCalibration(
+                calibration({ densityOffset: 45, horizontalOffsetMm: 4.5 }),
+                { widthMm: 40, heightMm: 12 },
+                { horizontal: { edge: 'left', tick: 6 }, vertical: null, darkness: 'faded', speed: 3 }
+            );
+            expect(next.densityOffset).toBe(50);
+            expect(next.horizontalOffsetMm).toBe(5);
+        });
+    });
+
+    describe('applying', () => {
+        it('should correct density and offsets and replace the speed', () => {
+            const applied = applyCalibration({ ...settings, speed: 5 }, calibration({ densityOffset: 60, verticalOffsetMm: -1, horizontalOffsetMm: 0.75, speedOptimal: 2 }));
+            expect(applied).toMatchObject({ density: 100, printOffsetMm: -0.5, horizontalOffsetMm: 0.75, speed: 2 });
+            expect(applyCalibration(settings, null)).toBe(settings);
+        });
+    });
+
+    describe('printing', () => {
+        let storage: Record<string, string>;
+
+        beforeEach(() => {
+            storage = {};
+            vi.stubGlobal('localStorage', {
+                getItem: vi.fn((key: string) => storage[key] ?? null),
+                setItem: vi.fn((key: string, value: string) => { storage[key] = value; }),
+                removeItem: vi.fn((key: string) => { delete storage[key]; })
+            });
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        // Canvas stand-in: jsdom has no 2D context
+        const createCanvas = (width: number, height: number) => ({
+            width,
+            height,
+            getContext: () => ({ getImageData: () => ({ data: new Uint8ClampedArray(width * height * 4).fill(255) }) })
+        }) as unknown as HTMLCanvasElement;
+
+        it('should apply the calibration for the printer and label size automatically', async () => {
+            const printer = createVirtualPrinter({ id: 'calibrated-d30' });
+            await printer.device.gatt!.connect();
+            registerPrinter(printer.device);
+            saveCalibration(printer.device.id, calibration({ densityOffset: 20, speedOptimal: 1 }));
+
+            expect(getPrinterCalibration(printer.device, mmToDots(40), mmToDots(12))).not.toBeNull();
+            expect(getPrinterCalibration(printer.device, mmToDots(30), mmToDots(12))).toBeNull();
+
+            await printLabel(printer.device, createCanvas(mmToDots(40), mmToDots(12)), settings);
+            await printLabel(printer.device, createCanvas(mmToDots(30), mmToDots(12)), settings);
+
+            expect(printer.labels[0]).toMatchObject({ density: toHeatLevel(phomemoD30Driver, 70), speed: 1 });
+            expect(printer.labels[1].density).toBe(toHeatLevel(phomemoD30Driver, 50));
+        });
+    });
+});
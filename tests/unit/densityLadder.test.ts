@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { getLadderSteps, createLadderPattern } from '../../services/densityLadder';
+import { phomemoD30Driver, genericEscPosDriver } from '../../services/printerDrivers';
+import { sendDensityLadder } from '../../services/printerService';
+import { createVirtualPrinter } from '../../services/virtualPrinter';
+
+const countDark = (rgba: Uint8ClampedArray) => {
+    let dark = 0;
+    for (let i = 0; i < rgba.length; i += 4) if (rgba[i] === 0) dark++;
+    return dark;
+};
+
+describe('densityLadder', () => {
+    describe('getLadderSteps', () => {
+        it('should centre the steps on the current heat level', () => {
+            expect(getLadderSteps(phomemoD30Driver, 50)).toEqual([6, 7, 8, 9, 10]);
+        });
+
+        it('should shift the steps to stay inside the model range', () => {
+            expect(getLadderSteps(phomemoD30Driver, 0)).toEqual([1, 2, 3, 4, 5]);
+            expect(getLadderSteps(phomemoD30Driver, 100)).toEqual([11, 12, 13, 14, 15]);
+            expect(getLadderSteps(phomemoD30Driver, 50, 20)).toHaveLength(15);
+        });
+
+        it('should have no steps for models without hardware density', () => {
+            expect(getLadderSteps(genericEscPosDriver, 50)).toEqual([]);
+        });
+    });
+
+    describe('createLadderPattern', () => {
+        it('should mark each label with one more tally bar than the last', () => {
+            // Too narrow for the test blocks: only the tally bars are drawn
+            const bars = [1, 2, 3].map(mark => countDark(createLadderPattern(40, 96, mark)));
+
+            // Each bar is two dots wide and runs between the margins
+            expect(bars).toEqual([1, 2, 3].map(n => n * 2 * (96 - 2 * 14)));
+        });
+
+        it('should include a solid block, a checkerboard and one-dot lines', () => {
+            const width = 320;
+            const height = 96;
+            const rgba = createLadderPattern(width, height, 1);
+            const row = Array.from({ length: width }, (_, x) => rgba[(height / 2 * width + x) * 4] === 0);
+
+            const runs: number[] = [];
+            let run = 0;
+            for (const dark of row) {
+                if (dark) run++;
+                else if (run > 0) { runs.push(run); run = 0; }
+            }
+            // Tally bar, a long solid run, then single dots only
+            expect(runs[0]).toBe(2);
+            expect(runs[1]).toBeGreaterThan(50);
+            expect(runs.slice(2).every(r => r === 1)).toBe(true);
+        });
+    });
+
+    describe('sendDensityLadder', () => {
+        it('should print one label per heat level at that level', async () => {
+            const printer = createVirtualPrinter({ id: 'ladder-d30' });
+            await printer.device.gatt!.connect();
+
+            await sendDensityLadder(printer.device, { widthMm: 40, heightMm: 12 }, [6, 7, 8]);
+
+            expect(printer.labels.map(l => l.density)).toEqual([6, 7, 8]);
+        });
+    });
+});
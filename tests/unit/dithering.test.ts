@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+    ditherGrayscale, thresholdDither, floydSteinbergDither, atkinsonDither, bayerDither,
+    textSharpDither, detectImageAreas, RASTER_MODES
+} from '../../services/dithering';
+
+const fill = (width: number, height: number, value: number) => new Float32Array(width * height).fill(value);
+const coverage = (dots: Uint8Array) => dots.reduce((sum, d) => sum + d, 0) / dots.length;
+
+// Left half: 50% gray swatch. Right half: black vertical bar on white (text-like line art)
+const createMixedImage = (width: number, height: number) => {
+    const gray = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (x < width / 2) gray[y * width + x] = 128;
+            else gray[y * width + x] = x >= width * 0.75 && x < width * 0.75 + 3 ? 0 : 255;
+        }
+    }
+    return gray;
+};
+
+describe('dithering', () => {
+    it('should map solid black and white the same in every mode', () => {
+        RASTER_MODES.forEach(({ id }) => {
+            expect(coverage(ditherGrayscale(fill(16, 16, 0), 16, 16, id))).toBe(1);
+            expect(coverage(ditherGrayscale(fill(16, 16, 255), 16, 16, id))).toBe(0);
+        });
+    });
+
+    it('should threshold without shading', () => {
+        expect(coverage(thresholdDither(fill(8, 8, 100), 8, 8))).toBe(1);
+        expect(coverage(thresholdDither(fill(8, 8, 200), 8, 8))).toBe(0);
+        expect(coverage(thresholdDither(fill(8, 8, 100), 8, 8, 90))).toBe(0);
+    });
+
+    it('should reproduce mid-gray as roughly half coverage with error diffusion and Bayer', () => {
+        const gray = fill(32, 32, 128);
+        expect(coverage(floydSteinbergDither(gray, 32, 32))).toBeCloseTo(0.5, 1);
+        expect(coverage(bayerDither(gray, 32, 32))).toBeCloseTo(0.5, 1);
+    });
+
+    it('should render Atkinson lighter than Floyd–Steinberg in the highlights', () => {
+        const gray = fill(32, 32, 230);
+        expect(coverage(atkinsonDither(gray, 32, 32))).toBeLessThan(coverage(floydSteinbergDither(gray, 32, 32)));
+    });
+
+    it('should not modify the input buffer', () => {
+        const gray = fill(8, 8, 128);
+        floydSteinbergDither(gray, 8, 8);
+        expect(Array.from(gray).every(v => v === 128)).toBe(true);
+    });
+
+    it('should tile the Bayer pattern every 8 pixels', () => {
+        const dots = bayerDither(fill(16, 16, 100), 16, 16);
+        for (let y = 0; y < 8; y++) {
+            for (let x = 0; x < 8; x++) {
+                expect(dots[y * 16 + x]).toBe(dots[(y + 8) * 16 + x + 8]);
+            }
+        }
+    });
+
+    it('should detect swatches as image areas but not line art', () => {
+        const gray = createMixedImage(32, 16);
+        const mask = detectImageAreas(gray, 32, 16);
+        expect(mask[8 * 32 + 4]).toBe(1);
+        expect(mask[8 * 32 + 25]).toBe(0);
+    });
+
+    it('should keep line art crisp and dither swatches in text-sharp mode', () => {
+        const width = 32, height = 16;
+        const gray = createMixedImage(width, height);
+        const dots = textSharpDither(gray, width, height);
+
+        // The bar is solid and nothing bleeds around it
+        for (let y = 0; y < height; y++) {
+            expect(Array.from(dots.slice(y * width + 20, y * width + 32))).toEqual(
+                Array.from({ length: 12 }, (_, i) => (i + 20 >= 24 && i + 20 < 27 ? 1 : 0))
+            );
+        }
+
+        // The swatch is shaded, not solid
+        const swatch = new Uint8Array(Array.from({ length: height }, (_, y) => Array.from(dots.slice(y * width, y * width + 12))).flat());
+        expect(coverage(swatch)).toBeGreaterThan(0.3);
+        expect(coverage(swatch)).toBeLessThan(0.7);
+    });
+
+    it('should fall back to Floyd–Steinberg by default', () => {
+        const gray = fill(16, 16, 90);
+        expect(Array.from(ditherGrayscale(gray, 16, 16))).toEqual(Array.from(floydSteinbergDither(gray, 16, 16)));
+    });
+});
@@ -0,0 +1,309 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { FilamentData, LabelTheme, PrintSettings, AppliedTemplate, LABEL_PRESETS } from '../../types';
+import { drawLabel, getLabelPixelSize, getElementText, getQrPayload, DEFAULT_LABEL_SETTINGS, LabelContext } from '../../services/labelRenderer';
+import { PREMIUM_TEMPLATES } from '../../services/templateService';
+import { BarcodeError } from '../../services/barcode';
+import { encodeRaster, frameLabel, concatCommands } from '../../services/rasterEncoder';
+import { phomemoD30Driver } from '../../services/printerDrivers';
+
+const FILAMENT: FilamentData = {
+    brand: 'Polymaker', material: 'PLA', colorName: 'Teal', colorHex: '#008080',
+    minTemp: 200, maxTemp: 220, bedTempMin: 50, bedTempMax: 60, weight: '1kg',
+    notes: '', hygroscopy: 'high', source: 'test'
+};
+
+/** Records fillRect / fillText calls; every other 2D call is a no-op */
+const createRecordingContext = () => {
+    const rects: { x: number; y: number; w: number; h: number; style: string }[] = [];
+    const texts: string[] = [];
+    const state: Record<string, unknown> = {};
+    const ctx = new Proxy(state, {
+        get: (target, prop: string) => {
+            if (prop === 'fillRect') return (x: number, y: number, w: number, h: number) => rects.push({ x, y, w, h, style: String(target.fillStyle) });
+            if (prop === 'fillText') return (text: string) => texts.push(text);
+            if (prop === 'measureText') return (text: string) => ({ width: text.length * 10 });
+            if (prop === 'createRadialGradient' || prop === 'createLinearGradient') return () => ({ addColorStop: () => {} });
+            if (prop in target) return target[prop];
+            return () => {};
+        },
+        set: (target, prop: string, value) => { target[prop] = value; return true; }
+    });
+    return { ctx: ctx as unknown as LabelContext, rects, texts };
+};
+
+/**
+ * Paints solid fillRect calls into RGBA pixels, the only drawing bitmap text, QR codes and barcodes
+ * use. Text is measured from the font size alone; anything that would need a system font or
+ * antialiasing throws, so a golden cannot quietly depend on the machine.
+ */
+const createPixelContext = (width: number, height: number) => {
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    const parseColor = (style: unknown): [number, number, number] => {
+        if (style === 'white') return [255, 255, 255];
+        if (style === 'black') return [0, 0, 0];
+        const hex = String(style).replace('#', '');
+        const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+        if (!/^[0-9a-f]{6}$/i.test(full)) throw new Error(`Unsupported fill ${String(style)}`);
+        return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+    };
+    const fillRect = (x: number, y: number, w: number, h: number, color: [number, number, number]) => {
+        for (let py = Math.max(0, Math.round(y)); py < Math.min(height, Math.round(y + h)); py++) {
+            for (let px = Math.max(0, Math.round(x)); px < Math.min(width, Math.round(x + w)); px++) {
+                rgba.set([...color, 255], (py * width + px) * 4);
+            }
+        }
+    };
+    const state: Record<string, unknown> = {};
+    const ctx = new Proxy(state, {
+        get: (target, prop: string) => {
+            if (prop === 'fillRect') return (x: number, y: number, w: number, h: number) => fillRect(x, y, w, h, parseColor(target.fillStyle));
+            if (prop === 'measureText') return (text: string) => ({ width: text.length * parseFloat(String(target.font).split(' ')[1]) * 0.6 });
+            if (prop in target) return target[prop];
+            return () => { throw new Error(`${prop} is not drawn in whole pixels`); };
+        },
+        set: (target, prop: string, value) => { target[prop] = value; return true; }
+    });
+    return { ctx: ctx as unknown as LabelContext, rgba };
+};
+
+/** QR code on the left, bitmap-size text and a barcode beside it, fitted to the label */
+const codesLayout = (widthMm: number, heightMm: number): AppliedTemplate => {
+    const codeMm = heightMm - 1;
+    const textX = codeMm + 1.5;
+    const elements: AppliedTemplate['layout']['elements'] = [
+        { type: 'qr', x: 0.5, y: 0.5, width: codeMm, height: codeMm },
+        { type: 'text', field: 'custom', customText: '{brand} {material}', x: textX, y: 0.5, fontSize: 2.5, fontWeight: 'bold' },
+        { type: 'text', field: 'custom', customText: '{minTemp}-{maxTemp}', x: textX, y: 3.5, fontSize: 2 }
+    ];
+    if (heightMm >= 12) elements.push({ type: 'barcode', field: 'custom', customText: '{material}', x: textX, y: 6.5, width: widthMm - textX - 0.5, height: heightMm - 7 });
+    return { id: 'codes', name: 'Codes', layout: { backgroundColor: '#FFFFFF', elements } };
+};
+
+const settings = (overrides: Partial<PrintSettings>): PrintSettings => ({ ...DEFAULT_LABEL_SETTINGS, ...overrides });
+
+describe('labelRenderer', () => {
+    // Framed D30 byte stream per preset at density 50: a layout of bitmap-font text, a QR code
+    // and a barcode, drawn by the renderer into whole-dot pixels and encoded like a print.
+    // Nothing goes through system fonts, so the bytes are the same on every machine.
+    // Update only for intentional output changes, and check a real print when you do.
+    describe('printed bytes', () => {
+        const GOLDEN: Record<string, { length: number; sha256: string }> = {
+            '12x30': { length: 2894, sha256: 'c24b794ac47ff7c53f1ccfc482126aacd7691dfee34857df33619908bbc5987d' },
+            '12x40': { length: 3854, sha256: '51650318712839d9f34da623ae196373dca62b8fa0486fb7a88af03df34fbf65' },
+            '14x30': { length: 3374, sha256: '2edadda512741dc7a068cc0177acd850329f805acf8e757a5ed37e1243089207' },
+            '14x40': { length: 4494, sha256: '18c381bcae2a528781d97040abf527deaa942f1dcf8883c1670bb6b20f0bb4da' },
+            '14x50': { length: 5614, sha256: '65512bd8479c1d970d205675618f6e70cc7a34cf42c7130e7a6dc55013cf2296' },
+            '15x30': { length: 3614, sha256: '5b857f5a3c257640026f29a3db0e77ea816e18abc0ba832650ca4976f63c05f1' },
+            '15x50': { length: 6014, sha256: '7996095057045fa5cc353ed8936fb9a1ffac866ee9b4713756f546f971b07790' },
+            '6x22': { length: 1070, sha256: '75319cbadd6639391c8f85e39dd79cd8d5860a80cad6b71d069827da1bb55cc0' },
+            '6x100': { length: 4808, sha256: '316d31046a285d4c91d04a16030057510b8dd11b68febed29aa3b307ead92e97' }
+        };
+
+        LABEL_PRESETS.forEach(preset => {
+            it(`should print ${preset.id} unchanged`, () => {
+                const size = { widthMm: preset.widthMm, heightMm: preset.heightMm };
+                const { width, height } = getLabelPixelSize(size);
+                const { ctx, rgba } = createPixelContext(width, height);
+                drawLabel(ctx, FILAMENT, settings({ template: codesLayout(preset.widthMm, preset.heightMm) }), size);
+
+                const raster = encodeRaster(rgba, width, height, { density: 50 });
+                const stream = concatCommands(frameLabel(phomemoD30Driver, raster, 50));
+                expect({ length: stream.length, sha256: createHash('sha256').update(stream).digest('hex') }).toEqual(GOLDEN[preset.id]);
+            });
+        });
+    });
+
+    it('should size the label in printer dots times the scale', () => {
+        expect(getLabelPixelSize({ widthMm: 40, heightMm: 12 })).toEqual({ width: 320, height: 96 });
+        expect(getLabelPixelSize({ widthMm: 40, heightMm: 12, scale: 0.5 })).toEqual({ width: 160, height: 48 });
+    });
+
+    it('should draw every theme without a DOM', () => {
+        Object.values(LabelTheme).forEach(theme => {
+            [{ widthMm: 40, heightMm: 12 }, { widthMm: 50, heightMm: 30 }, { widthMm: 22, heightMm: 6 }].forEach(size => {
+                const { ctx, rects, texts } = createRecordingContext();
+                drawLabel(ctx, FILAMENT, settings({ theme, includeQr: true }), size);
+
+                // Background first, then content (tiny text comes out as bitmap runs, not fillText)
+                const { width, height } = getLabelPixelSize(size);
+                expect(rects[0]).toMatchObject({ x: 0, y: 0, w: width, h: height });
+                expect(texts.length + rects.filter(r => r.h === 1).length).toBeGreaterThan(0);
+            });
+        });
+    });
+
+    it('should draw QR modules snapped to whole pixels', () => {
+        const { ctx, rects } = createRecordingContext();
+        drawLabel(ctx, FILAMENT, settings({ theme: LabelTheme.SWATCH }), { widthMm: 40, heightMm: 12 });
+
+        const modules = rects.filter(r => r.style === '#000000');
+        expect(modules.length).toBeGreaterThan(50);
+        expect(modules.every(r => Number.isInteger(r.x) && Number.isInteger(r.y) && r.w > 0 && r.h > 0)).toBe(true);
+    });
+
+    it('should draw QR modules white on inverted labels', () => {
+        const { ctx, rects } = createRecordingContext();
+        drawLabel(ctx, FILAMENT, settings({ theme: LabelTheme.SWATCH, invert: true }), { widthMm: 40, heightMm: 12 });
+
+        expect(rects.filter(r => r.style === '#FFFFFF').length).toBeGreaterThan(50);
+    });
+
+    describe('bitmap text', () => {
+        // 2.5pt is about 7 dots
+        const tinyText = (customText: string, fontSize = 2.5): AppliedTemplate => ({
+            id: 'tiny', name: 'Tiny',
+            layout: { backgroundColor: '#FFFFFF', elements: [{ type: 'text', field: 'custom', customText, x: 1, y: 1, fontSize }] }
+        });
+
+        it('should draw text under the legibility threshold in whole dots', () => {
+            const { ctx, rects, texts } = createRecordingContext();
+            drawLabel(ctx, FILAMENT, settings({ template: tinyText('PLA 200°C') }), { widthMm: 22, heightMm: 6, scale: 2 });
+
+            const runs = rects.filter(r => r.style === 'black');
+            expect(texts).toEqual([]);
+            expect(runs.length).toBeGreaterThan(20);
+            expect(runs.every(r => r.x % 2 === 0 && r.y % 2 === 0 && r.h === 2 && r.w % 2 === 0)).toBe(true);
+        });
+
+        it('should keep vector fonts for legible sizes and for characters it lacks', () => {
+            const { ctx, texts } = createRecordingContext();
+            drawLabel(ctx, FILAMENT, settings({ template: tinyText('PLA', 8) }), { widthMm: 40, heightMm: 12 });
+            drawLabel(ctx, FILAMENT, settings({ template: tinyText('PLA ✨') }), { widthMm: 22, heightMm: 6 });
+
+            expect(texts).toEqual(['PLA', 'PLA ✨']);
+        });
+    });
+
+    describe('template layouts', () => {
+        const MM = 203 / 25.4;
+        const applied = (id: string): AppliedTemplate => {
+            const { name, layout } = PREMIUM_TEMPLATES.find(t => t.id === id)!;
+            return { id, name, layout };
+        };
+
+        it('should report the template\'s own code payload, not the theme\'s', () => {
+            const layout = (elements: AppliedTemplate['layout']['elements']): AppliedTemplate =>
+                ({ id: 'codes', name: 'Codes', layout: { backgroundColor: '#FFFFFF', elements } });
+            const text = { type: 'text' as const, field: 'brand' as const, x: 1, y: 1 };
+
+            // The swatch theme has a QR code; a template without one does not
+            expect(getQrPayload(FILAMENT, settings({ theme: LabelTheme.SWATCH, template: layout([text]) }))).toBeNull();
+            // A theme without a QR code, a template with a barcode
+            expect(getQrPayload(FILAMENT, settings({
+                theme: LabelTheme.MINIMAL, includeQr: false,
+                template: layout([text, { type: 'barcode', field: 'custom', customText: 'SPOOL-{material}', x: 1, y: 5 }])
+            }))).toBe('SPOOL-PLA');
+            expect(getQrPayload(FILAMENT, settings({ template: layout([{ type: 'qr', field: 'colorHex', x: 1, y: 1 }]) }))).toBe('#008080');
+            expect(getQrPayload(FILAMENT, settings({ template: layout([{ type: 'qr', field: 'custom', customText: '{brnad}', x: 1, y: 1 }]) }))).toBeNull();
+        });
+
+        it('should draw the layout elements instead of the theme', () => {
+            const { ctx, texts } = createRecordingContext();
+            drawLabel(ctx, FILAMENT, settings({ theme: LabelTheme.SWATCH, template: applied('minimal-pro') }), { widthMm: 40, heightMm: 12 });
+
+            // Fields as given, not the theme's upper-cased brand
+            expect(texts).toEqual(['Polymaker', 'PLA']);
+        });
+
+        it('should scale element positions from the design size to the label', () => {
+            const { ctx, rects } = createRecordingContext();
+            // Designed for 60x16, printed at half the size
+            drawLabel(ctx, FILAMENT, settings({ template: applied('tech-detailed') }), { widthMm: 30, heightMm: 8 });
+
+            const swatch = rects.find(r => r.style === '#008080')!;
+            expect(swatch.x).toBeCloseTo(35 * 0.5 * MM);
+            expect(swatch.y).toBeCloseTo(1 * 0.5 * MM);
+            expect(swatch.w).toBeCloseTo(10 * 0.5 * MM);
+        });
+
+        it('should fill the layout background', () => {
+            const { ctx, rects } = createRecordingContext();
+            drawLabel(ctx, FILAMENT, settings({ template: applied('warning-maintenance') }), { widthMm: 50, heightMm: 20 });
+
+            expect(rects.some(r => r.style === '#FFF3CD' && r.w === getLabelPixelSize({ widthMm: 50, heightMm: 20 }).width)).toBe(true);
+        });
+
+        it('should draw QR elements from the default payload', () => {
+            const { ctx, rects } = createRecordingContext();
+            drawLabel(ctx, FILAMENT, settings({ template: applied('tech-detailed') }), { widthMm: 60, heightMm: 16 });
+
+            expect(rects.filter(r => r.style === '#000000').length).toBeGreaterThan(50);
+        });
+
+        it('should evaluate expressions in custom text', () => {
+            const { ctx, texts } = createRecordingContext();
+            const template: AppliedTemplate = {
+                id: 'expr', name: 'Expressions',
+                layout: {
+                    widthMm: 40, heightMm: 12, backgroundColor: '#FFFFFF',
+                    elements: [
+                        { type: 'text', field: 'custom', customText: '{brand} {material}', x: 1, y: 1 },
+                        { type: 'text', field: 'custom', customText: '{hygroscopy=high?DRY ME}', x: 1, y: 6 }
+                    ]
+                }
+            };
+            drawLabel(ctx, FILAMENT, settings({ template }), { widthMm: 40, heightMm: 12 });
+
+            expect(texts).toEqual(['Polymaker PLA', 'DRY ME']);
+        });
+
+        it('should draw barcodes in whole printer dots', () => {
+            const { ctx, rects } = createRecordingContext();
+            const template: AppliedTemplate = {
+                id: 'barcode', name: 'Barcode',
+                layout: {
+                    widthMm: 40, heightMm: 12, backgroundColor: '#FFFFFF',
+                    elements: [{ type: 'barcode', field: 'custom', customText: 'PLA-0042', x: 2, y: 2, width: 36, height: 8 }]
+                }
+            };
+            drawLabel(ctx, FILAMENT, settings({ template }), { widthMm: 40, heightMm: 12, scale: 2 });
+
+            const bars = rects.filter(r => r.style === 'black');
+            expect(bars.length).toBeGreaterThan(10);
+            // Every edge and width on the dot grid (2px per dot at this scale), bars as tall as the box
+            expect(bars.every(r => r.x % 2 === 0 && r.w % 2 === 0 && r.w > 0)).toBe(true);
+            expect(new Set(bars.map(r => r.h))).toEqual(new Set([Math.round(8 * MM) * 2]));
+        });
+
+        it('should fit DataMatrix codes on tiny labels', () => {
+            const { ctx, rects } = createRecordingContext();
+            const template: AppliedTemplate = {
+                id: 'dm', name: 'DataMatrix',
+                layout: { backgroundColor: '#FFFFFF', elements: [{ type: 'barcode', symbology: 'datamatrix', x: 0.5, y: 0.5, width: 5, height: 5 }] }
+            };
+            drawLabel(ctx, FILAMENT, settings({ template }), { widthMm: 22, heightMm: 6 });
+
+            const modules = rects.filter(r => r.style === 'black');
+            expect(modules.length).toBeGreaterThan(20);
+            expect(new Set(modules.map(r => r.w)).size).toBe(1);
+        });
+
+        it('should fail on barcodes that do not fit rather than print them blank', () => {
+            const { ctx } = createRecordingContext();
+            const template: AppliedTemplate = {
+                id: 'tight', name: 'Tight',
+                layout: { backgroundColor: '#FFFFFF', elements: [{ type: 'barcode', x: 1, y: 1, width: 10, height: 6 }] }
+            };
+
+            expect(() => drawLabel(ctx, FILAMENT, settings({ template }), { widthMm: 40, heightMm: 12 })).toThrow(BarcodeError);
+        });
+
+        it('should fail on unknown fields rather than print a broken label', () => {
+            const { ctx } = createRecordingContext();
+            const template: AppliedTemplate = {
+                id: 'broken', name: 'Broken',
+                layout: { backgroundColor: '#FFFFFF', elements: [{ type: 'text', field: 'custom', customText: '{brnad}', x: 1, y: 1 }] }
+            };
+
+            expect(() => drawLabel(ctx, FILAMENT, settings({ template }), { widthMm: 40, heightMm: 12 })).toThrow('Unknown field "brnad"');
+        });
+
+        it('should format bound fields for the label', () => {
+            expect(getElementText(FILAMENT, { field: 'minTemp' })).toBe('200°C');
+            expect(getElementText(FILAMENT, { field: 'brand' })).toBe('Polymaker');
+            expect(getElementText(FILAMENT, { field: 'custom', customText: 'DRY' })).toBe('DRY');
+            expect(getElementText(FILAMENT, { field: 'notes' })).toBe('');
+        });
+    });
+});
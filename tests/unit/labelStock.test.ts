@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    addLabelStock, loadLabelStock, removeLabelStock, getLabelPresets, findLabelPreset, getLabelStockProblems,
+    exportLabelStock, importLabelStock, LabelStockInput, LABEL_STOCK_STORAGE_KEY
+} from '../../services/labelStock';
+import { LABEL_PRESETS } from '../../types';
+
+const input = (overrides: Partial<LabelStockInput> = {}): LabelStockInput => ({
+    name: '40x30 White', description: '', widthMm: 40, heightMm: 30, gapMm: 3, cornerRadiusMm: 1,
+    labelType: 'gap', printableWidthMm: 38, printableHeightMm: 28, printerModel: '', ...overrides
+});
+
+describe('labelStock', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+        storage = {};
+        vi.stubGlobal('localStorage', {
+            getItem: vi.fn((key: string) => storage[key] ?? null),
+            setItem: vi.fn((key: string, value: string) => { storage[key] = value; }),
+            removeItem: vi.fn((key: string) => { delete storage[key]; })
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should persist stock and list it after the built-in presets', () => {
+        const stock = addLabelStock(input());
+
+        expect(stock).toMatchObject({ name: '40x30 White', group: 'Custom', description: 'Custom stock' });
+        expect(loadLabelStock()).toEqual([stock]);
+        expect(getLabelPresets()).toEqual([...LABEL_PRESETS, stock]);
+        expect(findLabelPreset(stock.id)).toEqual(stock);
+
+        removeLabelStock(stock.id);
+        expect(getLabelPresets()).toEqual(LABEL_PRESETS);
+
+        storage[LABEL_STOCK_STORAGE_KEY] = '{oops';
+        expect(loadLabelStock()).toEqual([]);
+    });
+
+    it('should reject definitions that cannot be printed', () => {
+        expect(getLabelStockProblems(input())).toEqual([]);
+        expect(getLabelStockProblems(input({ name: ' ', widthMm: 0 }))).toEqual([
+            'Name is required', 'Width and height must be above 0', 'Corner radius must fit the label', 'Printable area must fit the label'
+        ]);
+        expect(getLabelStockProblems(input({ cornerRadiusMm: 20 }))).toEqual(['Corner radius must fit the label']);
+        expect(() => addLabelStock(input({ printableHeightMm: 31 }))).toThrow('Printable area must fit the label');
+        expect(loadLabelStock()).toEqual([]);
+    });
+
+    it('should leave out stock made for another printer', () => {
+        const d30 = addLabelStock(input({ name: 'D30 only', printerModel: 'phomemo-d30' }));
+        const any = addLabelStock(input({ name: 'Any' }));
+
+        expect(getLabelPresets('phomemo-m110').slice(LABEL_PRESETS.length)).toEqual([any]);
+        expect(getLabelPresets('phomemo-d30').slice(LABEL_PRESETS.length)).toEqual([d30, any]);
+    });
+
+    it('should export and import definitions, skipping invalid ones', () => {
+        addLabelStock(input({ labelType: 'continuous' }));
+        const exported = exportLabelStock();
+        expect(JSON.parse(exported).stock[0]).toEqual({ ...input({ labelType: 'continuous', gapMm: 0 }), description: 'Custom stock' });
+
+        storage = {};
+        const data = JSON.parse(exported);
+        data.stock.push({ ...input(), widthMm: -1 });
+        const added = importLabelStock(JSON.stringify(data));
+
+        expect(added).toHaveLength(1);
+        expect(loadLabelStock()).toEqual(added);
+        expect(() => importLabelStock('not json')).toThrow('Invalid label stock file');
+    });
+});
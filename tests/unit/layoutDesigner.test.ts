@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createEmptyLayout, createLayoutHistory, commitLayout, undoLayout, redoLayout, snapToGrid,
+    getElementBox, createLayoutElement, addElement, updateElement, removeElement, moveElement, resizeElement
+} from '../../services/layoutDesigner';
+
+const withElements = (...types: Parameters<typeof createLayoutElement>[0][]) =>
+    types.reduce((layout, type) => addElement(layout, createLayoutElement(type)), createEmptyLayout(40, 12));
+
+describe('layoutDesigner', () => {
+    describe('history', () => {
+        it('should undo and redo committed layouts', () => {
+            const empty = createEmptyLayout(40, 12);
+            const one = addElement(empty, createLayoutElement('text'));
+            const two = addElement(one, createLayoutElement('qr'));
+
+            let history = commitLayout(commitLayout(createLayoutHistory(empty), one), two);
+            history = undoLayout(history);
+            expect(history.present).toBe(one);
+            history = undoLayout(undoLayout(history));
+            expect(history.present).toBe(empty);
+
+            history = redoLayout(history);
+            expect(history.present).toBe(one);
+            expect(history.future).toEqual([two]);
+        });
+
+        it('should drop redo steps after a new change', () => {
+            const empty = createEmptyLayout(40, 12);
+            const one = addElement(empty, createLayoutElement('text'));
+            const other = addElement(empty, createLayoutElement('divider'));
+
+            const history = commitLayout(undoLayout(commitLayout(createLayoutHistory(empty), one)), other);
+
+            expect(history.present).toBe(other);
+            expect(history.future).toEqual([]);
+            expect(redoLayout(history)).toBe(history);
+        });
+
+        it('should ignore commits of the present layout', () => {
+            const history = createLayoutHistory(createEmptyLayout(40, 12));
+            expect(commitLayout(history, history.present)).toBe(history);
+        });
+    });
+
+    describe('geometry', () => {
+        it('should snap to the grid without float noise', () => {
+            expect(snapToGrid(3.26, 0.5)).toBe(3.5);
+            expect(snapToGrid(3.24, 1)).toBe(3);
+            expect(snapToGrid(0.3 * 3, 0.1)).toBe(0.9);
+        });
+
+        it('should give unsized text the rest of the label and sized elements their own box', () => {
+            const layout = withElements('text', 'qr');
+
+            expect(getElementBox(layout.elements[0], layout)).toMatchObject({ x: 1, y: 1, width: 39 });
+            expect(getElementBox(layout.elements[1], layout)).toEqual({ x: 1, y: 1, width: 10, height: 10 });
+        });
+
+        it('should move elements to snapped positions that stay on the label', () => {
+            const layout = withElements('qr');
+
+            expect(moveElement(layout, 0, 5.3, 1.6, 1).elements[0]).toMatchObject({ x: 5, y: 2 });
+            // A 10x10 QR code on a 40x12 label can go no further than 30, 2
+            expect(moveElement(layout, 0, 50, 50, 1).elements[0]).toMatchObject({ x: 30, y: 2 });
+            expect(moveElement(layout, 0, -4, -4, 1).elements[0]).toMatchObject({ x: 0, y: 0 });
+        });
+
+        it('should resize to at least one grid step within the label', () => {
+            const layout = withElements('colorSwatch');
+
+            expect(resizeElement(layout, 0, 6.2, 4.8, 0.5).elements[0]).toMatchObject({ width: 6, height: 5 });
+            expect(resizeElement(layout, 0, 0, 0, 0.5).elements[0]).toMatchObject({ width: 0.5, height: 0.5 });
+            expect(resizeElement(layout, 0, 80, 80, 1).elements[0]).toMatchObject({ width: 39, height: 11 });
+        });
+
+        it('should only change the width of text', () => {
+            const layout = withElements('text');
+            const resized = resizeElement(layout, 0, 20, 9, 1).elements[0];
+
+            expect(resized.width).toBe(20);
+            expect(resized.height).toBeUndefined();
+        });
+    });
+
+    describe('elements', () => {
+        it('should update and remove elements without touching the original layout', () => {
+            const layout = withElements('text', 'divider');
+            const updated = updateElement(layout, 0, { fontSize: 12, fontWeight: 'bold' });
+            const removed = removeElement(updated, 1);
+
+            expect(updated.elements[0]).toMatchObject({ fontSize: 12, fontWeight: 'bold' });
+            expect(layout.elements[0].fontSize).toBe(8);
+            expect(removed.elements.map(e => e.type)).toEqual(['text']);
+        });
+    });
+});
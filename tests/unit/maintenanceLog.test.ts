@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { addMaintenanceEntry, loadMaintenanceLog, getLastMaintenance, MAINTENANCE_LOG_STORAGE_KEY } from '../../services/maintenanceLog';
+
+describe('maintenanceLog', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+        storage = {};
+        vi.stubGlobal('localStorage', {
+            getItem: vi.fn((key: string) => storage[key] ?? null),
+            setItem: vi.fn((key: string, value: string) => { storage[key] = value; })
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should keep entries newest first and filter by printer', () => {
+        addMaintenanceEntry({ type: 'calibration', result: 'success', printerId: 'a' });
+        addMaintenanceEntry({ type: 'test', result: 'warning', printerId: 'b' });
+        addMaintenanceEntry({ type: 'calibration', result: 'success', printerId: 'b', notes: 'second' });
+
+        expect(loadMaintenanceLog().map(e => e.type)).toEqual(['calibration', 'test', 'calibration']);
+        expect(loadMaintenanceLog('a')).toHaveLength(1);
+        expect(getLastMaintenance('calibration', 'b')?.notes).toBe('second');
+        expect(getLastMaintenance('cleaning')).toBeNull();
+    });
+
+    it('should cap the log and survive corrupt storage', () => {
+        for (let i = 0; i < 205; i++) addMaintenanceEntry({ type: 'test', result: 'success' });
+        expect(loadMaintenanceLog()).toHaveLength(200);
+
+        storage[MAINTENANCE_LOG_STORAGE_KEY] = 'nope';
+        expect(loadMaintenanceLog()).toEqual([]);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FilamentData } from '../../types';
+import { createLabelRenderer, LabelRenderRequest, LabelRenderResponse, RenderWorker } from '../../services/offscreenRenderer';
+import { DEFAULT_LABEL_SETTINGS } from '../../services/labelRenderer';
+
+const request = (brand: string): LabelRenderRequest => ({
+    data: { brand, material: 'PLA' } as FilamentData,
+    settings: DEFAULT_LABEL_SETTINGS,
+    size: { widthMm: 40, heightMm: 12 }
+});
+
+const image = (brand: string) => ({ width: 1, height: 1, data: new Uint8ClampedArray(4), brand }) as unknown as ImageData;
+
+/** A worker that answers when told to */
+const createFakeWorker = () => {
+    const posted: { id: number; request: LabelRenderRequest }[] = [];
+    const worker: RenderWorker = {
+        postMessage: (message) => { posted.push(message); },
+        onmessage: null,
+        onerror: null,
+        terminate: vi.fn()
+    };
+    const reply = (response: LabelRenderResponse) => worker.onmessage!({ data: response } as MessageEvent<LabelRenderResponse>);
+    return { worker, posted, reply };
+};
+
+describe('offscreenRenderer', () => {
+    it('should render in the worker and match replies by id', async () => {
+        const { worker, posted, reply } = createFakeWorker();
+        const renderer = createLabelRenderer({ createWorker: () => worker });
+
+        const a = renderer.render(request('A'));
+        const b = renderer.render(request('B'));
+        reply({ id: posted[1].id, image: image('B') });
+        reply({ id: posted[0].id, error: 'Font missing' });
+
+        expect(await b).toMatchObject({ brand: 'B' });
+        await expect(a).rejects.toThrow('Font missing');
+    });
+
+    it('should render on the main thread without a worker', async () => {
+        const renderOnMainThread = vi.fn((r: LabelRenderRequest) => image(r.data.brand));
+        const renderer = createLabelRenderer({ createWorker: () => null, renderOnMainThread });
+
+        expect(await renderer.render(request('A'))).toMatchObject({ brand: 'A' });
+        expect(renderOnMainThread).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hand out pre-rendered labels once', async () => {
+        const renderOnMainThread = vi.fn((r: LabelRenderRequest) => image(r.data.brand));
+        const renderer = createLabelRenderer({ createWorker: () => null, renderOnMainThread });
+
+        renderer.prerender([request('A'), request('B')]);
+        expect(renderOnMainThread).toHaveBeenCalledTimes(2);
+
+        await renderer.render(request('B'));
+        await renderer.render(request('A'));
+        expect(renderOnMainThread).toHaveBeenCalledTimes(2);
+
+        await renderer.render(request('A'));
+        expect(renderOnMainThread).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep only the newest pre-rendered labels', async () => {
+        const renderOnMainThread = vi.fn((r: LabelRenderRequest) => image(r.data.brand));
+        const renderer = createLabelRenderer({ createWorker: () => null, renderOnMainThread, maxPrerendered: 2 });
+
+        renderer.prerender([request('A'), request('B')]);
+        renderer.prerender([request('C')]);
+        await renderer.render(request('A'));
+
+        expect(renderOnMainThread).toHaveBeenCalledTimes(4);
+    });
+
+    it('should fall back to the main thread when the worker dies', async () => {
+        const { worker } = createFakeWorker();
+        const renderOnMainThread = vi.fn((r: LabelRenderRequest) => image(r.data.brand));
+        const renderer = createLabelRenderer({ createWorker: () => worker, renderOnMainThread });
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const inFlight = renderer.render(request('A'));
+        worker.onerror!({ message: 'OffscreenCanvas unsupported' } as ErrorEvent);
+
+        expect(await inFlight).toMatchObject({ brand: 'A' });
+        expect(await renderer.render(request('B'))).toMatchObject({ brand: 'B' });
+        expect(worker.terminate).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    getRasterSize, getCopyBytes, estimateLabelPrint, estimateRasterPrint, estimateTapeStrips,
+    recordPrintTiming, loadPrintTimings, formatEstimate, PrintTiming, PRINT_TIMINGS_STORAGE_KEY
+} from '../../services/printEstimator';
+import { createVirtualPrinter } from '../../services/virtualPrinter';
+import { printLabel } from '../../services/printerService';
+import { DEFAULT_TAPE_LAYOUT } from '../../services/tapeLayout';
+import { PrintSettings } from '../../types';
+
+const timing = (overrides: Partial<PrintTiming>): PrintTiming => ({
+    printerId: 'a', widthBytes: 12, height: 320, speed: 3, durationMs: 4000, timestamp: 0, ...overrides
+});
+
+describe('printEstimator', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+        storage = {};
+        vi.stubGlobal('localStorage', {
+            getItem: vi.fn((key: string) => storage[key] ?? null),
+            setItem: vi.fn((key: string, value: string) => { storage[key] = value; }),
+            removeItem: vi.fn((key: string) => { delete storage[key]; })
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should size the raster the way the encoder rotates it', () => {
+        // 40x12 prints sideways: 96 dots across the head, 320 rows
+        expect(getRasterSize(40, 12)).toEqual({ widthBytes: 12, height: 320 });
+        expect(getRasterSize(40, 12, 0)).toEqual({ widthBytes: 40, height: 96 });
+        expect(getCopyBytes({ widthBytes: 12, height: 320 })).toBe(12 * 320 + 32);
+    });
+
+    it('should model time from bytes, pacing and speed, and tape from the fed rows', () => {
+        const settings = { speed: 3, copies: 1, labelType: 'gap' } as const;
+        const base = estimateLabelPrint(40, 12, settings, { timings: [] });
+
+        expect(base.bytes).toBe(12 * 320 + 32);
+        expect(base.measured).toBe(false);
+        // 40mm of label plus the gap
+        expect(base.tapeMm).toBeCloseTo(43, 0);
+
+        expect(estimateLabelPrint(40, 12, { ...settings, speed: 1 }, { timings: [] }).seconds).toBeGreaterThan(base.seconds);
+        expect(estimateLabelPrint(40, 12, settings, { timings: [], link: { chunkSize: 20, delayMs: 50 } }).seconds).toBeGreaterThan(base.seconds);
+
+        const three = estimateLabelPrint(40, 12, { ...settings, copies: 3 }, { timings: [] });
+        expect(three.tapeMm).toBeCloseTo(base.tapeMm * 3);
+        // Two extra copies plus the pause before each
+        expect(three.seconds).toBeCloseTo(base.seconds + 2 * (base.seconds - 1) + 2);
+    });
+
+    it('should use measured copies of the same printer and size', () => {
+        const timings = [timing({ durationMs: 4000 }), timing({ durationMs: 5000 }), timing({ durationMs: 4200 })];
+        const settings = { speed: 3, copies: 1 } as const;
+
+        expect(estimateLabelPrint(40, 12, settings, { printerId: 'a', timings })).toMatchObject({ seconds: 1 + 4.2, measured: true });
+        expect(estimateLabelPrint(40, 12, settings, { printerId: 'b', timings }).measured).toBe(false);
+        // Measured at another speed only scales the model
+        expect(estimateLabelPrint(40, 12, { ...settings, speed: 5 }, { printerId: 'a', timings }).seconds).not.toBeCloseTo(5.2);
+    });
+
+    it('should scale the model for other sizes by how the printer compared to it', () => {
+        const settings = { speed: 3, copies: 1 } as const;
+        const modelledCopyMs = (raster: { widthBytes: number; height: number }) =>
+            (estimateRasterPrint(raster, settings, { timings: [] }).seconds - 1) * 1000;
+
+        // This printer took twice as long as modelled on 40x12 labels
+        const timings = [timing({ durationMs: 2 * modelledCopyMs({ widthBytes: 12, height: 320 }) })];
+        const other = getRasterSize(50, 30);
+        const estimate = estimateRasterPrint(other, settings, { printerId: 'a', timings });
+
+        expect(estimate.measured).toBe(true);
+        expect((estimate.seconds - 1) * 1000).toBeCloseTo(2 * modelledCopyMs(other));
+    });
+
+    it('should estimate tape strips as continuous jobs', () => {
+        const labels = [{ widthMm: 40, heightMm: 12 }, { widthMm: 40, heightMm: 12 }, { widthMm: 40, heightMm: 12 }];
+        const estimate = estimateTapeStrips(labels, DEFAULT_TAPE_LAYOUT, { speed: 3, copies: 2, labelType: 'gap' }, { timings: [] });
+
+        // One strip: three labels and two 3mm gaps, no feed gap on continuous tape
+        expect(estimate.tapeMm).toBeCloseTo((3 * 320 + 2 * 24) / (203 / 25.4));
+        expect(estimate.bytes).toBe(12 * (3 * 320 + 2 * 24) + 32);
+    });
+
+    it('should persist timings newest first and ignore unreadable storage', () => {
+        recordPrintTiming({ printerId: 'a', widthBytes: 12, height: 320, speed: 3, durationMs: 4000 });
+        recordPrintTiming({ printerId: 'b', widthBytes: 12, height: 320, speed: 3, durationMs: 3000 });
+        recordPrintTiming({ printerId: 'c', widthBytes: 12, height: 320, speed: 3, durationMs: 0 });
+        expect(loadPrintTimings().map(t => t.printerId)).toEqual(['b', 'a']);
+
+        storage[PRINT_TIMINGS_STORAGE_KEY] = '{bad';
+        expect(loadPrintTimings()).toEqual([]);
+    });
+
+    it('should record each printed copy', async () => {
+        const printer = createVirtualPrinter({ id: 'virtual-timing' });
+        await printer.device.gatt!.connect();
+        const label = { width: 320, height: 96, data: new Uint8ClampedArray(320 * 96 * 4).fill(255) };
+
+        await printLabel(printer.device, label, { copies: 2, speed: 4, density: 50 } as PrintSettings);
+
+        expect(loadPrintTimings()).toHaveLength(2);
+        expect(loadPrintTimings()[0]).toMatchObject({ printerId: 'virtual-timing', widthBytes: 12, height: 320, speed: 4 });
+    }, 15000);
+
+    it('should format time and tape for people', () => {
+        expect(formatEstimate({ seconds: 180, tapeMm: 1200 })).toBe('about 3 min, 1.2 m of tape');
+        expect(formatEstimate({ seconds: 20, tapeMm: 430 })).toBe('about 20 s, 43 cm of tape');
+    });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PrintJobRecord, PrintSettings } from '../../types';
+import {
+    saveJobRecord, loadJobRecord, clearJobRecord, encodeRasterData, decodeRasterData,
+    getResumeOptions, getResumeCopies, PRINT_JOB_STORAGE_KEY
+} from '../../services/printJobRecovery';
+import { printLabel, resumePrintJob, getInterruptedPrintJob } from '../../services/printerService';
+
+const settings: PrintSettings = {
+    copies: 3,
+    invert: false,
+    includeQr: false,
+    density: 50,
+    theme: 'modern' as any,
+    marginMm: 2,
+    visibleFields: {} as any
+};
+
+const createRecord = (overrides: Partial<PrintJobRecord> = {}): PrintJobRecord => ({
+    id: 'job-1',
+    deviceId: 'device-1',
+    labelName: 'Bambu PLA',
+    settings,
+    raster: { widthBytes: 4, height: 50, data: encodeRasterData(new Uint8Array(200).fill(0xAA)) },
+    totalCopies: 3,
+    copiesCompleted: 1,
+    rowsConfirmed: 20,
+    startedAt: 0,
+    ...overrides
+});
+
+// D30 whose write characteristic records every write; fails once `failAfter` raster chunks went through.
+// Writes are acknowledged only on a characteristic without write-without-response.
+const createDevice = (failAfter = Infinity, { acknowledged = false } = {}) => {
+    const writes: number[][] = [];
+    let rasterWrites = 0;
+    const write = vi.fn(async (value: Uint8Array) => {
+        const bytes = Array.from(value);
+        if (bytes.length > 4 && bytes[0] === 0xAA && ++rasterWrites > failAfter) {
+            throw new Error('GATT Server is disconnected');
+        }
+        writes.push(bytes);
+    });
+    const writeChar = {
+        uuid: 'write',
+        properties: acknowledged ? { write: true } : { writeWithoutResponse: true },
+        writeValue: write,
+        writeValueWithoutResponse: write
+    };
+    const service = {
+        getCharacteristics: vi.fn().mockResolvedValue([writeChar]),
+        getCharacteristic: vi.fn().mockRejectedValue(new Error('not found'))
+    };
+    const device = {
+        id: 'device-2',
+        name: 'D30',
+        gatt: { connected: true, getPrimaryService: vi.fn().mockResolvedValue(service) }
+    } as any;
+    const headers = () => writes.filter(w => w[0] === 0x1D && w[1] === 0x76 && w[2] === 0x30).length;
+    return { device, writes, headers };
+};
+
+describe('printJobRecovery', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        store = {};
+        vi.stubGlobal('localStorage', {
+            getItem: vi.fn((key: string) => store[key] ?? null),
+            setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+            removeItem: vi.fn((key: string) => { delete store[key]; })
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should round-trip raster data', () => {
+        const data = Uint8Array.from([0, 1, 127, 128, 255]);
+        expect(Array.from(decodeRasterData(encodeRasterData(data)))).toEqual([0, 1, 127, 128, 255]);
+    });
+
+    it('should persist and clear the job record', () => {
+        saveJobRecord(createRecord());
+        expect(loadJobRecord()?.labelName).toBe('Bambu PLA');
+
+        clearJobRecord();
+        expect(loadJobRecord()).toBeNull();
+    });
+
+    it('should ignore finished or corrupt records', () => {
+        saveJobRecord(createRecord({ copiesCompleted: 3 }));
+        expect(loadJobRecord()).toBeNull();
+
+        store[PRINT_JOB_STORAGE_KEY] = '{not json';
+        expect(loadJobRecord()).toBeNull();
+    });
+
+    it('should describe where the job stopped', () => {
+        const options = getResumeOptions(createRecord());
+        expect(options.currentCopy).toBe(2);
+        expect(options.copiesLeft).toBe(2);
+        expect(options.currentProgress).toBeCloseTo(0.4);
+        expect(options.currentLikelyPrinted).toBe(false);
+        expect(options.isLastCopy).toBe(false);
+
+        expect(getResumeOptions(createRecord({ rowsConfirmed: 50 })).currentLikelyPrinted).toBe(true);
+    });
+
+    it('should restart from the interrupted copy in both modes', () => {
+        expect(getResumeCopies(createRecord(), 'resume')).toEqual({ start: 1, end: 3 });
+        expect(getResumeCopies(createRecord(), 'reprint')).toEqual({ start: 1, end: 2 });
+        expect(getResumeCopies(createRecord({ copiesCompleted: 2 }), 'reprint')).toEqual({ start: 2, end: 3 });
+    });
+
+    it('should print the interrupted copy again and finish the job when resuming', async () => {
+        saveJobRecord(createRecord());
+        const { device, headers } = createDevice();
+
+        await resumePrintJob(device, 'resume');
+
+        expect(headers()).toBe(2);
+        expect(loadJobRecord()).toBeNull();
+    });
+
+    it('should print only the interrupted copy when reprinting', async () => {
+        saveJobRecord(createRecord());
+        const { device, headers } = createDevice();
+
+        await resumePrintJob(device, 'reprint');
+
+        expect(headers()).toBe(1);
+        expect(loadJobRecord()).toBeNull();
+    });
+
+    it('should keep the record with confirmed rows when the link drops again', async () => {
+        saveJobRecord(createRecord({ totalCopies: 2 }));
+        const { device } = createDevice(1, { acknowledged: true });
+
+        await expect(resumePrintJob(device, 'reprint')).rejects.toThrow('disconnected');
+
+        const record = getInterruptedPrintJob();
+        expect(record?.copiesCompleted).toBe(1);
+        expect(record?.rowsConfirmed).toBe(32);
+        expect(record?.error).toContain('disconnected');
+        expect(record?.deviceId).toBe('device-2');
+    });
+
+    it('should not count rows sent without an acknowledgement as confirmed', async () => {
+        saveJobRecord(createRecord({ totalCopies: 2 }));
+        const { device } = createDevice(1);
+
+        await expect(resumePrintJob(device, 'reprint')).rejects.toThrow('disconnected');
+
+        expect(getInterruptedPrintJob()?.rowsConfirmed).toBe(0);
+    });
+
+    it('should leave nothing to resume when a non-resumable print drops', async () => {
+        saveJobRecord(createRecord({ id: 'earlier' }));
+        const { device } = createDevice(1);
+        // Alternating black and white columns, so every raster row is 0xAA
+        const data = new Uint8ClampedArray(32 * 50 * 4).map((_, i) => (i % 4 === 3 || Math.floor(i / 4) % 2 === 1 ? 255 : 0));
+
+        await expect(printLabel(device, { data, width: 32, height: 50 }, { ...settings, copies: 1 }, 'Queued', { resumable: false }))
+            .rejects.toThrow('disconnected');
+
+        expect(getInterruptedPrintJob()?.id).toBe('earlier');
+    });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PrintJob } from '../../types';
+import { createPrintQueue, createMemoryQueueStore, QueuedPrintJob, QueueOptions } from '../../services/printQueue';
+
+const createJob = (id: string): PrintJob => ({
+    id,
+    label: { brand: id, material: 'PLA' } as PrintJob['label'],
+    settings: {} as PrintJob['settings'],
+    status: 'queued',
+    progress: 0,
+    estimatedTime: 5,
+    createdAt: 0
+});
+
+const setup = (printJob: (job: QueuedPrintJob) => Promise<void> = async () => {}, store = createMemoryQueueStore()) => {
+    const printed: string[] = [];
+    const sleep = vi.fn(async () => {});
+    const queue = createPrintQueue({
+        store,
+        printJob: async (job) => {
+            printed.push(job.id);
+            await printJob(job);
+        },
+        sleep
+    });
+    return { queue, store, printed, sleep };
+};
+
+const keepGoing: QueueOptions = { pauseBetweenJobs: 0, continueOnError: true };
+
+describe('printQueue', () => {
+    it('should print jobs in order and log them as complete', async () => {
+        const { queue, printed } = setup();
+
+        await queue.enqueue([createJob('a'), createJob('b')]);
+
+        expect(printed).toEqual(['a', 'b']);
+        const state = queue.getState();
+        expect(state.jobs).toEqual([]);
+        expect(state.log.map(j => [j.id, j.status, j.attempts])).toEqual([['b', 'complete', 1], ['a', 'complete', 1]]);
+        expect(state.running).toBe(false);
+    });
+
+    it('should wait between jobs but not after the last one', async () => {
+        const { queue, sleep } = setup();
+
+        await queue.enqueue([createJob('a'), createJob('b'), createJob('c')], { pauseBetweenJobs: 2, continueOnError: false });
+
+        expect(sleep).toHaveBeenCalledTimes(2);
+        expect(sleep).toHaveBeenCalledWith(2000);
+    });
+
+    it('should pause on a failure unless continueOnError is set', async () => {
+        const failB = async (job: QueuedPrintJob) => { if (job.id === 'b') throw new Error('Out of paper'); };
+
+        const stopping = setup(failB);
+        await stopping.queue.enqueue([createJob('a'), createJob('b'), createJob('c')]);
+        expect(stopping.printed).toEqual(['a', 'b']);
+        expect(stopping.queue.getState()).toMatchObject({ paused: true });
+        expect(stopping.queue.getState().jobs.map(j => [j.id, j.status, j.error])).toEqual([['b', 'error', 'Out of paper'], ['c', 'queued', undefined]]);
+
+        const continuing = setup(failB);
+        await continuing.queue.enqueue([createJob('a'), createJob('b'), createJob('c')], keepGoing);
+        expect(continuing.printed).toEqual(['a', 'b', 'c']);
+        expect(continuing.queue.getState().jobs.map(j => j.id)).toEqual(['b']);
+    });
+
+    it('should report failed jobs when it runs out of work', async () => {
+        const onDrained = vi.fn();
+        const queue = createPrintQueue({
+            store: createMemoryQueueStore(),
+            printJob: async (job) => { if (job.id === 'b') throw new Error('Out of paper'); },
+            onDrained
+        });
+
+        await queue.enqueue([createJob('a'), createJob('b'), createJob('c')], keepGoing);
+        expect(onDrained).toHaveBeenLastCalledWith(1);
+
+        await queue.enqueue([createJob('d')]);
+        await queue.cancel('b');
+        await queue.enqueue([createJob('e')]);
+        expect(onDrained).toHaveBeenLastCalledWith(0);
+    });
+
+    it('should fail a job whose printer was not picked rather than log it as printed', async () => {
+        const onDrained = vi.fn();
+        const queue = createPrintQueue({
+            store: createMemoryQueueStore(),
+            // What requestDevice rejects with when the chooser is dismissed
+            printJob: async () => { throw new DOMException('User cancelled the requestDevice() chooser.', 'NotFoundError'); },
+            onDrained
+        });
+
+        await queue.enqueue([createJob('a'), createJob('b')], keepGoing);
+
+        expect(queue.getState().jobs.map(j => [j.id, j.status])).toEqual([['a', 'error'], ['b', 'error']]);
+        expect(queue.getState().log).toEqual([]);
+        expect(onDrained).toHaveBeenLastCalledWith(2);
+    });
+
+    it('should retry failed jobs in place', async () => {
+        let fail = true;
+        const { queue, printed } = setup(async (job) => { if (job.id === 'a' && fail) throw new Error('Disconnected'); });
+
+        await queue.enqueue([createJob('a'), createJob('b')]);
+        fail = false;
+        await queue.retryFailed();
+
+        expect(printed).toEqual(['a', 'a', 'b']);
+        expect(queue.getState().log.find(j => j.id === 'a')?.attempts).toBe(2);
+    });
+
+    it('should pause after the current job and resume where it stopped', async () => {
+        const { queue, printed } = setup(async (job) => { if (job.id === 'a') await queue.pause(); });
+
+        await queue.enqueue([createJob('a'), createJob('b')]);
+        expect(printed).toEqual(['a']);
+        expect(queue.getState().jobs.map(j => j.id)).toEqual(['b']);
+
+        await queue.resume();
+        expect(printed).toEqual(['a', 'b']);
+    });
+
+    it('should hold the rest of a split batch until resumed', async () => {
+        const { queue, printed } = setup();
+
+        await queue.enqueue([createJob('a'), createJob('b'), createJob('c')], keepGoing, 1);
+        expect(printed).toEqual(['a']);
+        expect(queue.getState()).toMatchObject({ paused: true, running: false });
+
+        await queue.resume();
+        expect(printed).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should reorder and cancel waiting jobs', async () => {
+        const { queue, printed } = setup(async (job) => { if (job.id === 'a') await queue.pause(); });
+        await queue.enqueue([createJob('a'), createJob('b'), createJob('c'), createJob('d')]);
+
+        await queue.move('d', 0);
+        await queue.cancel('c');
+        expect(queue.getState().jobs.map(j => j.id)).toEqual(['d', 'b']);
+        expect(queue.getState().log[0]).toMatchObject({ id: 'c', status: 'cancelled' });
+
+        await queue.resume();
+        expect(printed).toEqual(['a', 'd', 'b']);
+    });
+
+    it('should let the printing job finish when everything is cancelled', async () => {
+        const { queue, printed } = setup(async (job) => { if (job.id === 'a') await queue.cancelAll(); });
+
+        await queue.enqueue([createJob('a'), createJob('b')]);
+
+        expect(printed).toEqual(['a']);
+        expect(queue.getState().log.map(j => [j.id, j.status])).toEqual([['a', 'complete'], ['b', 'cancelled']]);
+    });
+
+    it('should restore a persisted queue paused, with the interrupted job queued again', async () => {
+        const first = setup(async (job) => { if (job.id === 'b') throw new Error('Tab closed'); });
+        await first.queue.enqueue([createJob('a'), createJob('b')]);
+        // Simulate a reload while b was printing
+        first.store.snapshot!.jobs[0].status = 'printing';
+
+        const second = setup(async () => {}, first.store);
+        await second.queue.load();
+
+        expect(second.queue.getState()).toMatchObject({ paused: true, running: false });
+        expect(second.queue.getState().jobs.map(j => [j.id, j.status])).toEqual([['b', 'queued']]);
+        expect(second.queue.getState().log.map(j => j.id)).toEqual(['a']);
+        expect(second.printed).toEqual([]);
+
+        await second.queue.resume();
+        expect(second.printed).toEqual(['b']);
+    });
+
+    it('should keep jobs queued while the saved queue is still loading', async () => {
+        const first = setup(async () => { throw new Error('Tab closed'); });
+        await first.queue.enqueue([createJob('a')]);
+
+        const second = setup(async () => {}, first.store);
+        const loading = second.queue.load();
+        await second.queue.enqueue([createJob('b')]);
+        await loading;
+
+        expect(second.printed).toEqual(['b']);
+        expect(second.queue.getState().jobs.map(j => [j.id, j.status])).toEqual([['a', 'error']]);
+        expect(second.queue.getState().log.map(j => j.id)).toEqual(['b']);
+    });
+
+    it('should notify subscribers on every change', async () => {
+        const { queue } = setup();
+        const listener = vi.fn();
+        const unsubscribe = queue.subscribe(listener);
+
+        await queue.enqueue([createJob('a')]);
+        expect(listener.mock.calls.some(([state]) => state.jobs[0]?.status === 'printing')).toBe(true);
+
+        unsubscribe();
+        listener.mockClear();
+        await queue.clearLog();
+        expect(listener).not.toHaveBeenCalled();
+        expect(queue.getState().log).toEqual([]);
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    addTelemetryRecord, loadTelemetry, computePrinterStats, getBatteryDrainPerLabel, getTapeUsageByDay, getRollForecast,
+    PRINT_TELEMETRY_STORAGE_KEY
+} from '../../services/printTelemetry';
+import { createVirtualPrinter } from '../../services/virtualPrinter';
+import { printLabel } from '../../services/printerService';
+import { PrintSettings, PrintTelemetry } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 12).getTime();
+
+const record = (overrides: Partial<PrintTelemetry>): PrintTelemetry => ({
+    id: 'r', printerId: 'a', labelName: 'PLA', timestamp: NOW, copies: 1,
+    batteryBefore: 80, batteryAfter: 79, bytesSent: 3872, labelLengthMm: 43, durationMs: 4000, ...overrides
+});
+
+describe('printTelemetry', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+        storage = {};
+        vi.stubGlobal('localStorage', {
+            getItem: vi.fn((key: string) => storage[key] ?? null),
+            setItem: vi.fn((key: string, value: string) => { storage[key] = value; }),
+            removeItem: vi.fn((key: string) => { delete storage[key]; })
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should keep records newest first, per printer, and survive corrupt storage', () => {
+        const { id, timestamp, ...fields } = record({});
+        addTelemetryRecord({ ...fields, printerId: 'a' });
+        addTelemetryRecord({ ...fields, printerId: 'b' });
+
+        expect(loadTelemetry().map(r => r.printerId)).toEqual(['b', 'a']);
+        expect(loadTelemetry('a')).toHaveLength(1);
+
+        storage[PRINT_TELEMETRY_STORAGE_KEY] = '[oops';
+        expect(loadTelemetry()).toEqual([]);
+    });
+
+    it('should work out battery drain per label, skipping charging and missing readings', () => {
+        const records = [
+            record({ copies: 4, batteryBefore: 80, batteryAfter: 78 }),
+            record({ copies: 1, batteryBefore: 78, batteryAfter: 90 }),
+            record({ copies: 2, batteryBefore: null, batteryAfter: 70 }),
+            record({ copies: 1, batteryBefore: 70, batteryAfter: 69 })
+        ];
+        expect(getBatteryDrainPerLabel(records)).toBeCloseTo(3 / 5);
+        expect(getBatteryDrainPerLabel([record({ batteryBefore: null })])).toBeNull();
+    });
+
+    it('should fill PrinterStats from the records', () => {
+        const records = [
+            record({ timestamp: NOW, copies: 2, labelLengthMm: 86 }),
+            record({ timestamp: NOW - DAY, copies: 1, labelLengthMm: 254 * 2 - 86, error: 'Out of paper' })
+        ];
+        expect(computePrinterStats(records, 123)).toEqual({
+            totalPrints: 2,
+            totalLabels: 3,
+            totalInches: 20,
+            batteryHealth: 100,
+            printHeadWear: 0,
+            lastMaintenance: 123,
+            averageQuality: 50,
+            firstPrintDate: NOW - DAY
+        });
+    });
+
+    it('should lower battery health when labels cost more battery than they used to', () => {
+        const recent = Array.from({ length: 20 }, () => record({ batteryBefore: 80, batteryAfter: 78 }));
+        const early = Array.from({ length: 20 }, () => record({ batteryBefore: 80, batteryAfter: 79 }));
+        expect(computePrinterStats([...recent, ...early]).batteryHealth).toBe(50);
+    });
+
+    it('should sum tape per day', () => {
+        const usage = getTapeUsageByDay([
+            record({ timestamp: NOW, labelLengthMm: 40 }),
+            record({ timestamp: NOW - 60 * 1000, labelLengthMm: 3 }),
+            record({ timestamp: NOW - 2 * DAY, labelLengthMm: 100 }),
+            record({ timestamp: NOW - 40 * DAY, labelLengthMm: 999 })
+        ], 7, NOW);
+
+        expect(usage).toHaveLength(7);
+        expect(usage.map(u => u.mm)).toEqual([0, 0, 0, 0, 100, 0, 43]);
+    });
+
+    it('should forecast when the roll runs out', () => {
+        const roll = { loadedAt: NOW - 10 * DAY, lengthMm: 7000 };
+        // 500mm a day for the 10 days since the roll went in
+        const records = Array.from({ length: 10 }, (_, i) => record({ timestamp: NOW - i * DAY - 1000, labelLengthMm: 500 }));
+
+        const forecast = getRollForecast(records, roll, NOW);
+        expect(forecast).toMatchObject({ usedMm: 5000, remainingMm: 2000, replaceSoon: true });
+        expect(forecast.mmPerDay).toBeCloseTo(500);
+        expect(forecast.daysLeft).toBeCloseTo(4);
+
+        const fresh = getRollForecast(records, { loadedAt: NOW, lengthMm: 7000 }, NOW);
+        expect(fresh).toMatchObject({ usedMm: 0, remainingMm: 7000, daysLeft: null, replaceSoon: false });
+    });
+
+    it('should record each job sent through printerService', async () => {
+        const printer = createVirtualPrinter({ id: 'virtual-telemetry', state: { battery: 64 } });
+        await printer.device.gatt!.connect();
+        const label = { width: 320, height: 96, data: new Uint8ClampedArray(320 * 96 * 4).fill(255) };
+
+        await printLabel(printer.device, label, { copies: 2, density: 50, labelType: 'gap' } as PrintSettings, 'Test PLA');
+
+        const [logged] = loadTelemetry('virtual-telemetry');
+        expect(logged).toMatchObject({ labelName: 'Test PLA', copies: 2, batteryBefore: 64, batteryAfter: 64, bytesSent: 2 * 12 * 320 });
+        expect(logged.labelLengthMm).toBeCloseTo(2 * (320 / (203 / 25.4) + 3));
+        expect(logged.error).toBeUndefined();
+    }, 15000);
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+    measureDesignInk, measureCapturedInk, suggestCorrection, verifyPrint, getQrModuleDots, InkProfile
+} from '../../services/printVerification';
+
+/** width x height image of `paper` gray with a `ink` gray block */
+const image = (width: number, height: number, block: { x0: number; y0: number; x1: number; y1: number }, paper = 255, ink = 0) => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const inside = x >= block.x0 && x < block.x1 && y >= block.y0 && y < block.y1;
+            const i = (y * width + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = inside ? ink : paper;
+            data[i + 3] = 255;
+        }
+    }
+    return { width, height, data };
+};
+
+const size = { widthMm: 40, heightMm: 12 };
+const settings = { density: 50, horizontalOffsetMm: 0, printOffsetMm: 0 };
+// Design: a block over the middle half
+const design: InkProfile = { coverage: 0.25, contrast: 1, bounds: { left: 0.25, top: 0.25, right: 0.75, bottom: 0.75 } };
+
+describe('printVerification', () => {
+    it('should measure coverage and bounds of the design', () => {
+        const ink = measureDesignInk(image(100, 40, { x0: 25, y0: 10, x1: 75, y1: 30 }));
+        expect(ink.coverage).toBeCloseTo(0.25);
+        expect(ink.bounds).toEqual({ left: 0.25, top: 0.25, right: 0.75, bottom: 0.75 });
+        expect(measureDesignInk(image(10, 10, { x0: 0, y0: 0, x1: 0, y1: 0 })).bounds).toBeNull();
+    });
+
+    it('should adapt the threshold to the lighting of a photo', () => {
+        // Dim photo: gray paper, dark gray ink
+        const ink = measureCapturedInk(image(100, 40, { x0: 25, y0: 10, x1: 75, y1: 30 }, 140, 60));
+        expect(ink.coverage).toBeCloseTo(0.25);
+        expect(ink.contrast).toBeCloseTo(80 / 255);
+    });
+
+    it('should suggest more density for a faint print and less for a bleeding one', () => {
+        const faint = suggestCorrection(design, { ...design, coverage: 0.08 }, size, settings);
+        expect(faint?.settings).toEqual({ density: 70 });
+
+        const lowContrast = suggestCorrection(design, { ...design, contrast: 0.1 }, size, settings);
+        expect(lowContrast?.settings).toEqual({ density: 60 });
+
+        const bleeding = suggestCorrection(design, { ...design, coverage: 0.5 }, size, settings);
+        expect(bleeding?.settings).toEqual({ density: 40 });
+
+        expect(suggestCorrection(design, { ...design, coverage: 0.23, contrast: 0.8 }, size, settings)).toBeNull();
+    });
+
+    it('should move the print away from an edge that cut it off', () => {
+        // Printed 4mm (0.1 of 40mm) too far right: the right side runs off the label
+        const shifted = { ...design, bounds: { left: 0.35, top: 0.25, right: 1, bottom: 0.75 } };
+        expect(suggestCorrection(design, shifted, size, settings)).toEqual({
+            settings: { horizontalOffsetMm: -4 },
+            reasons: ['Content is cut off on the right']
+        });
+
+        // Cut off at the top by 1.2mm, on top of an existing offset
+        const high = { ...design, bounds: { left: 0.25, top: 0, right: 0.75, bottom: 0.65 } };
+        expect(suggestCorrection(design, high, size, { ...settings, printOffsetMm: 0.5 })?.settings).toEqual({ printOffsetMm: 1.75 });
+
+        // Printed upside down (270° where 40x12 turns 90°): the offsets stay with the stock, so they flip
+        const upsideDown = suggestCorrection(design, shifted, size, { ...settings, rotation: 270 });
+        expect(upsideDown?.settings).toEqual({ horizontalOffsetMm: 4 });
+
+        // Framing slop without anything cut off is not a correction
+        const loose = { ...design, bounds: { left: 0.3, top: 0.2, right: 0.8, bottom: 0.7 } };
+        expect(suggestCorrection(design, loose, size, settings)).toBeNull();
+    });
+
+    it('should compare the decoded payload with what was printed', () => {
+        const base = { expected: 'BAMBU|PLA|190-220', design, captured: null, size, settings };
+
+        expect(verifyPrint({ ...base, decoded: ['BAMBU|PLA|190-220'] }).status).toBe('verified');
+        expect(verifyPrint({ ...base, decoded: ['OTHER'] }).status).toBe('mismatch');
+        expect(verifyPrint({ ...base, decoded: [] })).toMatchObject({ status: 'unreadable', correction: null });
+    });
+
+    it('should explain QR codes too small for the tape', () => {
+        // 12mm = 96 dots over 37 modules: about 2.6 dots each
+        expect(getQrModuleDots(12, 37)).toBeCloseTo(96 / 37);
+        const result = verifyPrint({ expected: 'x', decoded: [], design, captured: { ...design, coverage: 0.1 }, size, settings, qrModules: 37 });
+
+        expect(result.status).toBe('unreadable');
+        expect(result.correction?.settings).toEqual({ density: 60 });
+        expect(result.correction?.reasons[1]).toMatch(/QR modules/);
+    });
+
+    it('should check labels without a QR code by their ink alone', () => {
+        const base = { expected: null, decoded: [], design, size, settings };
+        expect(verifyPrint({ ...base, captured: design }).status).toBe('verified');
+        expect(verifyPrint({ ...base, captured: { ...design, coverage: 0.05 } }).status).toBe('unreadable');
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+    selectPrinterDriver,
+    phomemoD30Driver,
+    phomemoM110Driver,
+    genericEscPosDriver,
+    PRINTER_SERVICES,
+    toHeatLevel,
+    fromHeatLevel,
+    resolveDensity
+} from '../../services/printerDrivers';
+
+describe('printerDrivers', () => {
+    describe('selectPrinterDriver', () => {
+        it('should pick the D30 driver from the device name', () => {
+            expect(selectPrinterDriver('D30_1A2B').id).toBe('phomemo-d30');
+            expect(selectPrinterDriver('q30s').id).toBe('phomemo-d30');
+        });
+
+        it('should pick the M-series driver from the device name', () => {
+            expect(selectPrinterDriver('M110').id).toBe('phomemo-m110');
+            expect(selectPrinterDriver('M02 Pro').id).toBe('phomemo-m110');
+        });
+
+        it('should fall back to the GATT service when the name is unknown', () => {
+            expect(selectPrinterDriver('Label Maker', PRINTER_SERVICES.PHOMEMO).id).toBe('phomemo-d30');
+            expect(selectPrinterDriver('Label Maker', PRINTER_SERVICES.NORDIC_UART).id).toBe('generic-escpos');
+        });
+
+        it('should default to generic ESC/POS', () => {
+            expect(selectPrinterDriver(undefined, undefined)).toBe(genericEscPosDriver);
+            expect(selectPrinterDriver('Mock Printer D30', PRINTER_SERVICES.HM10_UART)).toBe(genericEscPosDriver);
+        });
+    });
+
+    describe('commands', () => {
+        it('should build the GS v 0 raster header', () => {
+            expect(Array.from(phomemoD30Driver.rasterHeader(12, 300)))
+                .toEqual([0x1D, 0x76, 0x30, 0x00, 12, 0, 300 % 256, 1]);
+        });
+
+        it('should send the heat level in each model\'s density command', () => {
+            expect(Array.from(phomemoD30Driver.density(15)!)).toEqual([0x1F, 0x11, 0x24, 15]);
+            expect(Array.from(phomemoM110Driver.density(8)!)).toEqual([0x1B, 0x4E, 0x04, 8]);
+        });
+
+        it('should return null for commands the generic driver does not support', () => {
+            expect(genericEscPosDriver.density(50)).toBeNull();
+            expect(genericEscPosDriver.speed(3)).toBeNull();
+            expect(genericEscPosDriver.labelType('gap')).toBeNull();
+        });
+
+        it('should encode label types', () => {
+            expect(Array.from(phomemoM110Driver.labelType('continuous')!)).toEqual([0x1F, 0x11, 0x0B]);
+            expect(Array.from(phomemoM110Driver.labelType('mark')!)).toEqual([0x1F, 0x11, 0x26]);
+        });
+    });
+
+    describe('density', () => {
+        it('should map 0-100 density onto each model\'s heat range', () => {
+            expect(toHeatLevel(phomemoD30Driver, 0)).toBe(1);
+            expect(toHeatLevel(phomemoD30Driver, 50)).toBe(8);
+            expect(toHeatLevel(phomemoD30Driver, 100)).toBe(15);
+            expect(toHeatLevel(genericEscPosDriver, 50)).toBeNull();
+        });
+
+        it('should turn every heat level back into a density that selects it', () => {
+            for (let level = 1; level <= 15; level++) {
+                expect(toHeatLevel(phomemoD30Driver, fromHeatLevel(phomemoD30Driver, level))).toBe(level);
+            }
+            expect(fromHeatLevel(genericEscPosDriver, 5)).toBe(50);
+        });
+
+        it('should keep heat and software darkness separate on models with a heat command', () => {
+            expect(resolveDensity(phomemoD30Driver, { density: 80 })).toEqual({ heatLevel: 12, rasterDensity: 50 });
+            expect(resolveDensity(phomemoD30Driver, { density: 50, darkness: 20 })).toEqual({ heatLevel: 8, rasterDensity: 60 });
+        });
+
+        it('should limit darkness to the model\'s range', () => {
+            expect(resolveDensity(phomemoD30Driver, { density: 50, darkness: 100 }).rasterDensity).toBe(50 + phomemoD30Driver.maxDarkness / 2);
+            expect(resolveDensity(phomemoM110Driver, { density: 50, darkness: 100 }).rasterDensity).toBe(50 + phomemoM110Driver.maxDarkness / 2);
+        });
+
+        it('should darken in software when the model has no heat command', () => {
+            expect(resolveDensity(genericEscPosDriver, { density: 70, darkness: 20 })).toEqual({ heatLevel: null, rasterDensity: 80 });
+            expect(resolveDensity(genericEscPosDriver, { density: 100, darkness: 100 }).rasterDensity).toBe(100);
+        });
+    });
+
+    describe('status', () => {
+        it('should decode Phomemo status notifications', () => {
+            expect(phomemoD30Driver.parseStatus(new Uint8Array([0x1A, 0x05, 0x88]))).toEqual({ paperOut: true });
+            expect(phomemoD30Driver.parseStatus(new Uint8Array([0x1A, 0x06, 0x89]))).toEqual({ coverOpen: false });
+            expect(phomemoD30Driver.parseStatus(new Uint8Array([0x1A, 0x03, 0xA9]))).toEqual({ overheat: true });
+            expect(phomemoD30Driver.parseStatus(new Uint8Array([0x1A, 0x04, 8]))).toEqual({ battery: 8, lowBattery: true });
+        });
+
+        it('should ignore notifications that are not status messages', () => {
+            expect(phomemoD30Driver.parseStatus(new Uint8Array([0x01, 0x02]))).toBeNull();
+            expect(phomemoD30Driver.parseStatus(new Uint8Array([0x1A, 0x7F, 0x00]))).toBeNull();
+            expect(genericEscPosDriver.parseStatus(new Uint8Array([0xFF]))).toBeNull();
+        });
+
+        it('should decode the ESC/POS offline status byte', () => {
+            expect(genericEscPosDriver.parseStatus(new Uint8Array([0x12 | 0x20]))).toEqual({ coverOpen: false, busy: false, paperOut: true });
+            expect(genericEscPosDriver.parseStatus(new Uint8Array([0x12 | 0x04]))).toEqual({ coverOpen: true, busy: false, paperOut: false });
+        });
+
+        it('should decode XON / XOFF flow control on ESC/POS bridges', () => {
+            expect(genericEscPosDriver.flowControl(new Uint8Array([0x13]))).toBe('pause');
+            expect(genericEscPosDriver.flowControl(new Uint8Array([0x11]))).toBe('resume');
+            expect(genericEscPosDriver.parseStatus(new Uint8Array([0x13]))).toBeNull();
+            expect(phomemoD30Driver.flowControl(new Uint8Array([0x13]))).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PrintSettings } from '../../types';
+import {
+    loadPrinters, registerPrinter, updatePrinter, removePrinter, getRegisteredPrinter,
+    getDefaultLabel, applyPrinterDefaults, saveCalibration, findCalibration, PRINTER_REGISTRY_STORAGE_KEY
+} from '../../services/printerRegistry';
+import { mmToDots } from '../../services/rasterEncoder';
+
+describe('printerRegistry', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+        storage = {};
+        vi.stubGlobal('localStorage', {
+            getItem: vi.fn((key: string) => storage[key] ?? null),
+            setItem: vi.fn((key: string, value: string) => { storage[key] = value; }),
+            removeItem: vi.fn((key: string) => { delete storage[key]; })
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    it('should register new printers with the model detected from the name', () => {
+        const d30 = registerPrinter({ id: 'a', name: 'D30-1234' });
+        const m110 = registerPrinter({ id: 'b', name: 'M110' });
+
+        expect(d30).toMatchObject({ id: 'a', name: 'D30-1234', model: 'phomemo-d30', density: 50, speed: 3, calibrations: [] });
+        expect(m110.model).toBe('phomemo-m110');
+        expect(loadPrinters()).toHaveLength(2);
+    });
+
+    it('should keep user edits when a known printer connects again', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1000);
+        registerPrinter({ id: 'a', name: 'D30-1234' });
+        updatePrinter('a', { name: 'Dry box', density: 70, defaultLabelId: '14x50' });
+
+        vi.setSystemTime(2000);
+        const printer = registerPrinter({ id: 'a', name: 'D30-1234' });
+
+        expect(printer).toMatchObject({ name: 'Dry box', density: 70, defaultLabelId: '14x50', addedAt: 1000, lastUsedAt: 2000 });
+        expect(loadPrinters()).toHaveLength(1);
+    });
+
+    it('should list the most recently used printer first', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1000);
+        registerPrinter({ id: 'a', name: 'D30' });
+        vi.setSystemTime(2000);
+        registerPrinter({ id: 'b', name: 'M110' });
+        vi.setSystemTime(3000);
+        registerPrinter({ id: 'a', name: 'D30' });
+
+        expect(loadPrinters().map(p => p.id)).toEqual(['a', 'b']);
+    });
+
+    it('should remove printers and ignore updates for unknown ones', () => {
+        registerPrinter({ id: 'a', name: 'D30' });
+
+        expect(updatePrinter('missing', { name: 'x' })).toBeNull();
+        removePrinter('a');
+        expect(getRegisteredPrinter('a')).toBeNull();
+    });
+
+    it('should keep one calibration per label size', () => {
+        registerPrinter({ id: 'a', name: 'D30' });
+        const calibration = {
+            labelWidthMm: 40, labelHeightMm: 12, densityOffset: 5, horizontalOffsetMm: 0, verticalOffsetMm: 0.5,
+            speedOptimal: 3 as const, lastCalibrated: 0, calibratedBy: 'user' as const
+        };
+        saveCalibration('a', calibration);
+        saveCalibration('a', { ...calibration, labelWidthMm: 30 });
+        saveCalibration('a', { ...calibration, densityOffset: -5 });
+
+        const printer = getRegisteredPrinter('a')!;
+        expect(printer.calibrations).toHaveLength(2);
+        expect(findCalibration(printer, mmToDots(40), mmToDots(12))?.densityOffset).toBe(-5);
+        expect(findCalibration(printer, mmToDots(50), mmToDots(12))).toBeNull();
+    });
+
+    it('should survive a corrupt registry', () => {
+        storage[PRINTER_REGISTRY_STORAGE_KEY] = '{not json';
+        expect(loadPrinters()).toEqual([]);
+    });
+
+    it('should resolve the default label and apply density and speed', () => {
+        const printer = updatePrinter(registerPrinter({ id: 'a', name: 'D30' }).id, { defaultLabelId: '15x50', density: 65, speed: 2 })!;
+        const settings = { copies: 2, density: 50, speed: 4 } as PrintSettings;
+
+        expect(getDefaultLabel(printer).id).toBe('15x50');
+        expect(applyPrinterDefaults(settings, printer)).toMatchObject({ copies: 2, density: 65, speed: 2 });
+        expect(getDefaultLabel({ ...printer, defaultLabelId: 'gone' }).id).toBe('12x30');
+    });
+});
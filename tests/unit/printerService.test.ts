@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { tryReconnect, connectPrinter } from '../../services/printerService';
+import { tryReconnect, connectPrinter, disconnectPrinter, checkPrinterStatus, summarizeStatus, PrinterFaultError } from '../../services/printerService';
+import { getRegisteredPrinter } from '../../services/printerRegistry';
 
 // Mock types
 type MockBluetoothDevice = {
@@ -64,6 +65,49 @@ describe('printerService', () => {
         expect(localStorage.setItem).toHaveBeenCalledWith('last_printer_id', 'device-123');
     });
 
+    it('connectPrinter should register the printer', async () => {
+        mockDevices = [{
+            id: 'device-456',
+            name: 'M110-A1',
+            gatt: { connected: false, connect: vi.fn(), disconnect: vi.fn() },
+            addEventListener: vi.fn(),
+            removeEventListener: vi.fn()
+        } as MockBluetoothDevice];
+
+        await connectPrinter();
+
+        expect(getRegisteredPrinter('device-456')).toMatchObject({ name: 'M110-A1', model: 'phomemo-m110' });
+    });
+
+    it('connectPrinter should switch to an authorized printer by id without the chooser', async () => {
+        const createDevice = (id: string, connected: boolean) => {
+            const gatt = {
+                connected,
+                connect: vi.fn(async () => { gatt.connected = true; return gatt; }),
+                disconnect: vi.fn(() => { gatt.connected = false; })
+            };
+            return { id, name: `D30-${id}`, gatt, addEventListener: vi.fn(), removeEventListener: vi.fn() };
+        };
+        const current = createDevice('dry-box', false);
+        const target = createDevice('shelf', false);
+        mockDevices = [current, target];
+
+        disconnectPrinter();
+        await connectPrinter();
+        current.gatt.connected = true;
+
+        const device = await connectPrinter('shelf');
+
+        expect(device.id).toBe('shelf');
+        expect(current.gatt.disconnect).toHaveBeenCalled();
+        expect(target.gatt.connect).toHaveBeenCalled();
+        expect(navigator.bluetooth.requestDevice).toHaveBeenCalledTimes(1);
+        expect(mockLocalStorage['last_printer_id']).toBe('shelf');
+        // Already connected to the requested printer: reused
+        expect(await connectPrinter('shelf')).toBe(device);
+        disconnectPrinter();
+    });
+
     it('tryReconnect should prioritize cached device ID', async () => {
         const device1: MockBluetoothDevice = {
             id: 'device-1',
@@ -182,4 +226,69 @@ describe('printerService', () => {
         expect(connectSpy1).toHaveBeenCalled();
         expect(connectSpy2).not.toHaveBeenCalled();
     });
+
+    describe('printer status', () => {
+        // Phomemo-style device: a write characteristic plus a notify characteristic that answers
+        // queries with one notification per reply
+        const createStatusDevice = (...replies: number[][]) => {
+            let onValue: ((event: any) => void) | null = null;
+            const notifyChar = {
+                uuid: 'notify',
+                properties: { notify: true },
+                addEventListener: vi.fn((_type: string, listener: any) => { onValue = listener; }),
+                startNotifications: vi.fn().mockResolvedValue(undefined)
+            };
+            const writeChar = {
+                uuid: 'write',
+                properties: { write: true, writeWithoutResponse: true },
+                writeValueWithoutResponse: vi.fn(async () => {
+                    replies.forEach((reply, i) => {
+                        const value = new DataView(new Uint8Array(reply).buffer);
+                        setTimeout(() => onValue?.({ target: { value } }), i * 10);
+                    });
+                })
+            };
+            const service = {
+                getCharacteristics: vi.fn().mockResolvedValue([writeChar, notifyChar]),
+                getCharacteristic: vi.fn().mockRejectedValue(new Error('not found'))
+            };
+            return {
+                id: `status-${Math.random()}`,
+                name: 'D30',
+                gatt: {
+                    connected: true,
+                    getPrimaryService: vi.fn().mockResolvedValue(service)
+                }
+            } as any;
+        };
+
+        it('should report paper out from the notify characteristic', async () => {
+            const device = createStatusDevice([0x1A, 0x05, 0x88]);
+            expect(await checkPrinterStatus(device)).toBe('paper_out');
+        });
+
+        it('should read the whole reply burst, not just its first notification', async () => {
+            // Battery first, paper state in a later notification
+            const device = createStatusDevice([0x1A, 0x04, 0x50], [0x1A, 0x06, 0x89], [0x1A, 0x05, 0x88]);
+            expect(await checkPrinterStatus(device)).toBe('paper_out');
+        });
+
+        it('should assume ready when the printer does not answer', async () => {
+            const device = createStatusDevice();
+            expect(await checkPrinterStatus(device)).toBe('ready');
+        });
+
+        it('should prioritize faults over warnings', () => {
+            const base = { paperOut: false, coverOpen: false, overheat: false, lowBattery: true, busy: false, updatedAt: 0 };
+            expect(summarizeStatus(base)).toBe('low_battery');
+            expect(summarizeStatus({ ...base, overheat: true, coverOpen: true })).toBe('cover_open');
+            expect(summarizeStatus(null)).toBe('unknown');
+        });
+
+        it('should expose the fault on PrinterFaultError', () => {
+            const error = new PrinterFaultError('cover_open');
+            expect(error.status).toBe('cover_open');
+            expect(error.message).toBe('Printer reports: Cover Open');
+        });
+    });
 });
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { createProtocolConsole, parseHex, toHex, ConsoleCapture } from '../../services/protocolConsole';
+import { createVirtualPrinter } from '../../services/virtualPrinter';
+import { PRINTER_SERVICES } from '../../services/printerDrivers';
+
+const WRITE = '00002af1-0000-1000-8000-00805f9b34fb';
+const NOTIFY = '00002af0-0000-1000-8000-00805f9b34fb';
+const BATTERY_LEVEL = '00002a19-0000-1000-8000-00805f9b34fb';
+
+const tick = () => new Promise(r => setTimeout(r, 0));
+
+describe('protocolConsole', () => {
+    it('should parse the usual ways of writing hex', () => {
+        expect(Array.from(parseHex('1F 11 0a'))).toEqual([0x1F, 0x11, 0x0A]);
+        expect(Array.from(parseHex('0x1B,0x40\n1f1111'))).toEqual([0x1B, 0x40, 0x1F, 0x11, 0x11]);
+        expect(toHex([0x1b, 0x40])).toBe('1B 40');
+
+        expect(() => parseHex('')).toThrow('Nothing to send');
+        expect(() => parseHex('1G')).toThrow('Only hex digits');
+        expect(() => parseHex('1F 1')).toThrow('Odd number');
+    });
+
+    it('should list services and characteristics with their properties', async () => {
+        const printer = createVirtualPrinter();
+        const services = await createProtocolConsole(printer.device).discover();
+
+        expect(services.map(s => s.name)).toEqual(['Phomemo', 'Battery', 'Device Information']);
+        expect(services[0].characteristics).toEqual([
+            { uuid: WRITE, name: undefined, properties: ['writeWithoutResponse', 'write'] },
+            { uuid: NOTIFY, name: undefined, properties: ['notify'] }
+        ]);
+        expect(services[1].characteristics[0]).toEqual({ uuid: BATTERY_LEVEL, name: 'Battery Level', properties: ['read'] });
+    });
+
+    it('should log what is sent, read and notified in order', async () => {
+        const printer = createVirtualPrinter({ state: { battery: 42 } });
+        const probe = createProtocolConsole(printer.device);
+        await probe.discover();
+
+        await probe.subscribe(PRINTER_SERVICES.PHOMEMO, NOTIFY);
+        await probe.send(PRINTER_SERVICES.PHOMEMO, WRITE, '1F 11 11');
+        await tick();
+        await probe.read(PRINTER_SERVICES.BATTERY, BATTERY_LEVEL);
+
+        const traffic = probe.getLog().filter(e => e.direction !== 'info');
+        expect(traffic.map(e => [e.direction, e.hex])).toEqual([
+            ['tx', '1F 11 11'],
+            ['rx', '1A 04 2A'],
+            ['rx', '1A 05 89'],
+            ['rx', '1A 06 89'],
+            ['rx', '1A 03 A8'],
+            ['rx', '2A']
+        ]);
+        expect(printer.log.map(e => e.command)).toEqual(['STATUS?']);
+
+        probe.unsubscribe(PRINTER_SERVICES.PHOMEMO, NOTIFY);
+        await probe.send(PRINTER_SERVICES.PHOMEMO, WRITE, '1F 11 11');
+        await tick();
+        expect(probe.getLog().filter(e => e.direction === 'rx')).toHaveLength(5);
+    });
+
+    it('should log refused operations and export a capture', async () => {
+        const printer = createVirtualPrinter();
+        const probe = createProtocolConsole(printer.device);
+        await probe.discover();
+
+        await expect(probe.send(PRINTER_SERVICES.BATTERY, BATTERY_LEVEL, '01')).rejects.toThrow('not permitted');
+        expect(probe.getLog().at(-1)).toMatchObject({ direction: 'error', characteristicUuid: BATTERY_LEVEL });
+
+        const capture: ConsoleCapture = JSON.parse(probe.exportCapture());
+        expect(capture.device).toEqual({ id: 'virtual-d30', name: 'D30 Virtual' });
+        expect(capture.services).toHaveLength(3);
+        expect(capture.log.map(e => e.direction)).toEqual(['info', 'tx', 'error']);
+    });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { LABEL_PRESETS } from '../../types';
+import { phomemoD30Driver, phomemoM110Driver } from '../../services/printerDrivers';
+import {
+    mmToDots, toGrayscale, shiftRows, shiftColumns, mirrorColumns, shouldAutoRotate, resolveRotation, rotateClockwise,
+    rotatePixels, packBits, unpackBits, encodeRaster, rasterToLabelDots, toPaperShift, getOffsetRotation, frameLabel, concatCommands
+} from '../../services/rasterEncoder';
+
+/**
+ * Deterministic label image, asymmetric so a wrong rotation or flip changes the bytes:
+ * white paper, 2 dot black border, solid black block in the top-left corner,
+ * a horizontal gray ramp across the bottom third and a transparent strip on the right.
+ */
+const createFixture = (width: number, height: number): Uint8ClampedArray => {
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    const block = Math.floor(Math.min(width, height) / 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            let value = 255;
+            let alpha = 255;
+            if (x < 2 || y < 2 || x >= width - 2 || y >= height - 2) value = 0;
+            else if (x < 2 + block && y < 2 + block) value = 0;
+            else if (y >= Math.floor(height * 2 / 3)) value = Math.round((x / width) * 255);
+            if (x >= width - 6 && x < width - 2) alpha = 0;
+            rgba[i] = rgba[i + 1] = rgba[i + 2] = value;
+            rgba[i + 3] = alpha;
+        }
+    }
+    return rgba;
+};
+
+const sha256 = (bytes: Uint8Array) => createHash('sha256').update(bytes).digest('hex');
+
+// Framed D30 byte stream (init, density, header, raster) per preset at density 50, Floyd–Steinberg,
+// for the synthetic fixture above: pins the encoder alone, without fonts. Rendered labels are pinned
+// in labelRenderer.test.ts. Update only for intentional output changes, and check a real print when you do.
+const GOLDEN: Record<string, { length: number; sha256: string }> = {
+    '12x30': { length: 2894, sha256: '112686e6218a9fdbcef39fe11a9b0ca3aa565e12c646f446832cb377bffb27b0' },
+    '12x40': { length: 3854, sha256: '376eb0c9ffca1a204b77cbd84520423888529f7b6c4afe95aae09942addffd8e' },
+    '14x30': { length: 3374, sha256: 'a0c6cc2e7d0be824cc59227fa4ff0050c98d6c452a866129a6d6dad212b86db3' },
+    '14x40': { length: 4494, sha256: '563b09216c03b45b9a808a90d5649e2d0ec518976df817a09989066522767d2f' },
+    '14x50': { length: 5614, sha256: 'f06b15193e984fba5e595f600abf6dd203aca73f73b75d79623a0d37ed75c4bf' },
+    '15x30': { length: 3614, sha256: '428545871477ad23652f062a41b7072f7e7aa7cfc9ba067483560c82695f815c' },
+    '15x50': { length: 6014, sha256: '7c23dc7b36fad6bde5870a712822ae3ced9d4bb85938a5486fcd0eaf7df25e23' },
+    '6x22': { length: 1070, sha256: '4e9b133a61d160818c7f6c881317dcc0912b65f8874dc6b3862aa5809bdbbfc1' },
+    '6x100': { length: 4808, sha256: '1b3a795dc66b3edab5d824e761011d904034122e738c41ab6247cd0e05e01e0b' }
+};
+
+describe('rasterEncoder', () => {
+    describe('golden bytes', () => {
+        LABEL_PRESETS.forEach(preset => {
+            it(`should encode ${preset.id} unchanged`, () => {
+                const width = mmToDots(preset.widthMm);
+                const height = mmToDots(preset.heightMm);
+                const raster = encodeRaster(createFixture(width, height), width, height, { density: 50 });
+                const stream = concatCommands(frameLabel(phomemoD30Driver, raster, 50));
+
+                expect({ length: stream.length, sha256: sha256(stream) }).toEqual(GOLDEN[preset.id]);
+            });
+        });
+    });
+
+    describe('orientation', () => {
+        it('should rotate short labels so the label top-left lands on the first row, right end', () => {
+            const width = mmToDots(40), height = mmToDots(12);
+            const raster = encodeRaster(createFixture(width, height), width, height, { density: 50 });
+
+            expect(raster.rotation).toBe(90);
+            expect(raster.width).toBe(height);
+            expect(raster.height).toBe(width);
+
+            const dots = unpackBits(raster);
+            // Corner block interior: label (4, 4) -> raster (height - 1 - 4, 4)
+            expect(dots[4 * raster.width + (height - 1 - 4)]).toBe(1);
+            // Same row, left half of the raster is the blank middle of the label (a flip would put the block here)
+            expect(dots[4 * raster.width + 40]).toBe(0);
+        });
+
+        it('should keep tall labels upright', () => {
+            const width = mmToDots(40), height = mmToDots(30);
+            const raster = encodeRaster(createFixture(width, height), width, height, { density: 50 });
+
+            expect(raster.rotation).toBe(0);
+            expect(raster.widthBytes).toBe(Math.ceil(width / 8));
+            expect(unpackBits(raster)[4 * width + 4]).toBe(1);
+        });
+
+        it('should turn the raster back into the label orientation for previews', () => {
+            const width = mmToDots(30), height = mmToDots(14);
+            const rgba = createFixture(width, height);
+            const raster = encodeRaster(rgba, width, height, { density: 50, rasterMode: 'threshold' });
+            const label = rasterToLabelDots(raster);
+
+            expect(label.width).toBe(width);
+            expect(label.height).toBe(height);
+            // Threshold mode: each dot is exactly the thresholded source pixel
+            const gray = toGrayscale(rgba, width, height);
+            for (let i = 0; i < gray.length; i++) {
+                expect(label.dots[i]).toBe(gray[i] < 128 ? 1 : 0);
+            }
+        });
+
+        it('should print short labels turned the other way when rotation is 270', () => {
+            const width = mmToDots(40), height = mmToDots(12);
+            const raster = encodeRaster(createFixture(width, height), width, height, { density: 50, rotation: 270 });
+
+            expect(raster.rotation).toBe(270);
+            expect(raster.width).toBe(height);
+            // Corner block interior: label (4, 4) -> raster (4, width - 1 - 4)
+            expect(unpackBits(raster)[(width - 1 - 4) * raster.width + 4]).toBe(1);
+            expect(unpackBits(raster)[4 * raster.width + (height - 1 - 4)]).toBe(0);
+        });
+
+        it('should keep 180° and mirroring visible in the preview', () => {
+            const width = mmToDots(30), height = mmToDots(14);
+            const rgba = createFixture(width, height);
+            const gray = toGrayscale(rgba, width, height);
+            const expected = (g: Float32Array) => Array.from(g, v => (v < 128 ? 1 : 0));
+
+            const flipped = rasterToLabelDots(encodeRaster(rgba, width, height, { density: 50, rasterMode: 'threshold', rotation: 180 }));
+            expect(Array.from(flipped.dots)).toEqual(expected(gray.slice().reverse()));
+
+            const mirrored = rasterToLabelDots(encodeRaster(rgba, width, height, { density: 50, rasterMode: 'threshold', mirror: true }));
+            expect(Array.from(mirrored.dots)).toEqual(expected(mirrorColumns(gray, width, height)));
+
+            // Sideways 270° comes back upside down, like the label leaves the printer
+            const sideways = rasterToLabelDots(encodeRaster(rgba, width, height, { density: 50, rasterMode: 'threshold', rotation: 270 }));
+            expect(sideways.width).toBe(width);
+            expect(Array.from(sideways.dots)).toEqual(expected(gray.slice().reverse()));
+        });
+
+        it('should keep offsets on the paper when mirroring', () => {
+            const width = 8, height = 1;
+            const rgba = new Uint8ClampedArray(width * 4).fill(255);
+            rgba.fill(0, 0, 3); // black dot at x = 0
+            const raster = encodeRaster(rgba, width, height, { density: 50, rasterMode: 'threshold', mirror: true, horizontalOffsetMm: 0.25 });
+
+            // Mirrored to x = 7, then moved 2 dots right: off the paper, nothing left
+            expect(Array.from(unpackBits(raster))).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+        });
+
+        it('should keep offsets on the paper when the artwork is turned', () => {
+            const width = 8, height = 8;
+            const rgba = new Uint8ClampedArray(width * height * 4).fill(255);
+            rgba.fill(0, 4 * 4, 4 * 4 + 3); // black dot at (4, 0)
+            const raster = encodeRaster(rgba, width, height, {
+                density: 50, rasterMode: 'threshold', rotation: 180, horizontalOffsetMm: 0.25, printOffsetMm: -0.25
+            });
+
+            // Turned to (3, 7), then 2 dots right and 2 rows up, as on an upright label
+            const dots = unpackBits(raster);
+            expect(dots[5 * width + 5]).toBe(1);
+            expect(dots.reduce((n, d) => n + d, 0)).toBe(1);
+        });
+
+        it('should turn offsets with the automatic rotation', () => {
+            const width = 8, height = 4;
+            const rgba = new Uint8ClampedArray(width * height * 4).fill(255);
+            rgba.fill(0, 4 * 4, 4 * 4 + 3); // black dot at (4, 0)
+            const raster = encodeRaster(rgba, width, height, { density: 50, rasterMode: 'threshold', printOffsetMm: 0.25 });
+
+            // 2 dots down the label is (4, 2), which turns 90° clockwise to (1, 4) on the 4 dot wide paper
+            const dots = unpackBits(raster);
+            expect(raster.width).toBe(4);
+            expect(dots[4 * 4 + 1]).toBe(1);
+            expect(dots.reduce((n, d) => n + d, 0)).toBe(1);
+        });
+
+        it('should turn shifts seen on the label into paper offsets', () => {
+            expect(toPaperShift({ x: 1, y: 2 }, 0)).toEqual({ x: 1, y: 2 });
+            expect(toPaperShift({ x: 1, y: 2 }, 90)).toEqual({ x: -2, y: 1 });
+            expect(toPaperShift({ x: 1, y: 2 }, 180)).toEqual({ x: -1, y: -2 });
+            expect(toPaperShift({ x: 1, y: 2 }, 270)).toEqual({ x: 2, y: -1 });
+        });
+
+        it('should measure a rotation override against the automatic rotation', () => {
+            expect(getOffsetRotation(320, 96)).toBe(0);
+            expect(getOffsetRotation(320, 96, 90)).toBe(0);
+            expect(getOffsetRotation(320, 96, 270)).toBe(180);
+            expect(getOffsetRotation(320, 96, 0)).toBe(270);
+            expect(getOffsetRotation(96, 320, 180)).toBe(180);
+        });
+    });
+
+    describe('stages', () => {
+        it('should treat transparent pixels as paper and apply the density shift', () => {
+            const rgba = Uint8ClampedArray.from([100, 100, 100, 255, 0, 0, 0, 0, 10, 10, 10, 255]);
+            expect(Array.from(toGrayscale(rgba, 3, 1))).toEqual([100, 255, 10]);
+            expect(Array.from(toGrayscale(rgba, 3, 1, 75))).toEqual([0, 255, 0]);
+            expect(Array.from(toGrayscale(rgba, 3, 1, 25))).toEqual([200, 255, 110]);
+        });
+
+        it('should shift rows and fill with white', () => {
+            const gray = Float32Array.from([1, 1, 2, 2, 3, 3]);
+            expect(Array.from(shiftRows(gray, 2, 3, 1))).toEqual([255, 255, 1, 1, 2, 2]);
+            expect(Array.from(shiftRows(gray, 2, 3, -1))).toEqual([2, 2, 3, 3, 255, 255]);
+            expect(shiftRows(gray, 2, 3, 0)).toBe(gray);
+        });
+
+        it('should shift columns and fill with white', () => {
+            const gray = Float32Array.from([1, 2, 3, 4, 5, 6]);
+            expect(Array.from(shiftColumns(gray, 3, 2, 1))).toEqual([255, 1, 2, 255, 4, 5]);
+            expect(Array.from(shiftColumns(gray, 3, 2, -2))).toEqual([3, 255, 255, 6, 255, 255]);
+            expect(Array.from(shiftColumns(gray, 3, 2, 5))).toEqual([255, 255, 255, 255, 255, 255]);
+            expect(shiftColumns(gray, 3, 2, 0)).toBe(gray);
+        });
+
+        it('should convert the offset from mm at 203 DPI', () => {
+            expect(mmToDots(1)).toBe(8);
+            expect(mmToDots(25.4)).toBe(203);
+        });
+
+        it('should only auto-rotate wide labels shorter than the print head', () => {
+            expect(shouldAutoRotate(320, 96)).toBe(true);
+            expect(shouldAutoRotate(320, 240)).toBe(false);
+            expect(shouldAutoRotate(96, 320)).toBe(false);
+        });
+
+        it('should resolve auto rotation and honor overrides', () => {
+            expect(resolveRotation(320, 96)).toBe(90);
+            expect(resolveRotation(320, 240, 'auto')).toBe(0);
+            expect(resolveRotation(320, 96, 0)).toBe(0);
+            expect(resolveRotation(96, 320, 180)).toBe(180);
+        });
+
+        it('should mirror columns', () => {
+            const gray = Float32Array.from([1, 2, 3, 4, 5, 6]);
+            expect(Array.from(mirrorColumns(gray, 3, 2))).toEqual([3, 2, 1, 6, 5, 4]);
+        });
+
+        it('should rotate by any quarter turn', () => {
+            const pixels = Uint8Array.from([1, 2, 3, 4, 5, 6]);
+            expect(Array.from(rotatePixels(pixels, 3, 2, 0))).toEqual([1, 2, 3, 4, 5, 6]);
+            expect(Array.from(rotatePixels(pixels, 3, 2, 180))).toEqual([6, 5, 4, 3, 2, 1]);
+            // 3x2 -> 2x3:  c f / b e / a d
+            expect(Array.from(rotatePixels(pixels, 3, 2, 270))).toEqual([3, 6, 2, 5, 1, 4]);
+        });
+
+        it('should rotate 90° clockwise', () => {
+            // 3x2:  a b c      rotated 2x3:  d a
+            //       d e f                    e b
+            //                                f c
+            const pixels = Uint8Array.from([1, 2, 3, 4, 5, 6]);
+            expect(Array.from(rotateClockwise(pixels, 3, 2))).toEqual([4, 1, 5, 2, 6, 3]);
+        });
+
+        it('should pack bits MSB first and pad rows', () => {
+            const dots = Uint8Array.from([1, 0, 0, 0, 0, 0, 0, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+            const { widthBytes, data } = packBits(dots, 10, 2);
+            expect(widthBytes).toBe(2);
+            expect(Array.from(data)).toEqual([0x81, 0xC0, 0x00, 0x00]);
+        });
+
+        it('should frame one copy in send order', () => {
+            const raster = { widthBytes: 1, width: 8, height: 2, rotation: 0 as const, data: Uint8Array.from([0xFF, 0x00]) };
+            expect(Array.from(concatCommands(frameLabel(phomemoM110Driver, raster, 50)))).toEqual([
+                0x1B, 0x40,
+                0x1B, 0x4E, 0x04, 8,
+                0x1D, 0x76, 0x30, 0x00, 1, 0, 2, 0,
+                0xFF, 0x00,
+                0x1F, 0xF0, 0x05, 0x00, 0x1F, 0xF0, 0x03, 0x00
+            ]);
+        });
+    });
+});
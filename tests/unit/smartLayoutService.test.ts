@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { recommendLayout, analyzeBatchContent, recommendPrintSettings } from '../../services/smartLayoutService';
-import { FilamentData, LabelTheme, LABEL_PRESETS } from '../../types';
+import { FilamentData, LabelTheme, LABEL_PRESETS, LabelStock } from '../../types';
 
 const createFilament = (brand: string, material: string, hygroscopy: 'low' | 'medium' | 'high' = 'low', notes = ''): FilamentData => ({
     brand,
@@ -56,6 +56,20 @@ describe('Smart Layout Service', () => {
             // The current code puts Premium LAST.
             expect(result.theme).toBe(LabelTheme.BOLD);
         });
+
+        it('should only recommend sizes that exist, including custom stock', () => {
+            const detailed = createFilament('Generic Industrial Supplies Co', 'Polycarbonate Blend', 'low', 'Dry at 80C for 6 hours before printing');
+
+            const builtIn = recommendLayout(detailed, LABEL_PRESETS);
+            expect(LABEL_PRESETS).toContain(builtIn.preset);
+            expect(builtIn.preset.id).toBe('15x50');
+
+            const stock40x30: LabelStock = {
+                ...LABEL_PRESETS[0], id: 'stock-1', name: '40x30 White', widthMm: 40, heightMm: 30, group: 'Custom',
+                gapMm: 3, cornerRadiusMm: 1, labelType: 'gap', printableWidthMm: 38, printableHeightMm: 28, printerModel: ''
+            };
+            expect(recommendLayout(detailed, [...LABEL_PRESETS, stock40x30]).preset.id).toBe('stock-1');
+        });
     });
 
     describe('analyzeBatchContent', () => {
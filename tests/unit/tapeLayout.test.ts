@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LabelPixels, mmToDots } from '../../services/rasterEncoder';
+import { composeTapeStrip, packTapeStrips, getStripLengthDots, getTapeStripSettings, TapeLayoutOptions } from '../../services/tapeLayout';
+import { createVirtualPrinter } from '../../services/virtualPrinter';
+import { printLabel } from '../../services/printerService';
+import { LabelTheme, PrintSettings } from '../../types';
+
+/** Solid label of one gray value */
+const createLabel = (width: number, height: number, value = 0): LabelPixels => {
+    const data = new Uint8ClampedArray(width * height * 4).fill(value);
+    for (let i = 3; i < data.length; i += 4) data[i] = 255;
+    return { width, height, data };
+};
+
+const isBlack = (strip: LabelPixels, x: number, y: number) => strip.data[(y * strip.width + x) * 4] === 0;
+
+const layout = (overrides: Partial<TapeLayoutOptions> = {}): TapeLayoutOptions => ({ gapMm: 2, separator: 'none', maxStripMm: 500, ...overrides });
+
+describe('tapeLayout', () => {
+    it('should place labels end to end with the gap between them', () => {
+        const gap = mmToDots(2);
+        const strip = composeTapeStrip([createLabel(10, 8), createLabel(20, 8)], layout());
+
+        expect(strip.width).toBe(30 + gap);
+        expect(strip.height).toBe(8);
+        expect(isBlack(strip, 9, 4)).toBe(true);
+        expect(isBlack(strip, 10, 4)).toBe(false);
+        expect(isBlack(strip, 10 + gap, 4)).toBe(true);
+        expect(isBlack(strip, strip.width - 1, 7)).toBe(true);
+    });
+
+    it('should center shorter labels on the tallest', () => {
+        const strip = composeTapeStrip([createLabel(4, 10), createLabel(4, 4)], layout({ gapMm: 0 }));
+
+        expect([0, 2, 3, 6, 7, 9].map(y => isBlack(strip, 5, y))).toEqual([false, false, true, true, false, false]);
+    });
+
+    it('should draw separators only in the gaps', () => {
+        const height = 60;
+        const gap = mmToDots(3);
+        const lineX = 10 + Math.floor((gap - 2) / 2);
+
+        const cut = composeTapeStrip([createLabel(10, height, 255), createLabel(10, height, 255)], layout({ gapMm: 3, separator: 'cut-marks' }));
+        expect(isBlack(cut, lineX, 0)).toBe(true);
+        expect(isBlack(cut, lineX, height - 1)).toBe(true);
+        expect(isBlack(cut, lineX, height / 2)).toBe(false);
+
+        const dotted = composeTapeStrip([createLabel(10, height, 255), createLabel(10, height, 255)], layout({ gapMm: 3, separator: 'dotted' }));
+        expect([0, 3, 6].map(y => isBlack(dotted, lineX, y))).toEqual([true, false, true]);
+
+        const none = composeTapeStrip([createLabel(10, height, 255), createLabel(10, height, 255)], layout({ gapMm: 3 }));
+        expect(none.data.every(v => v === 255)).toBe(true);
+    });
+
+    it('should widen gaps too narrow for the separator, and only then', () => {
+        // 0.125mm is a single dot: the 2 dot line gets a gap of its own, starting right after the label
+        [0, 0.125].forEach(gapMm => {
+            const strip = composeTapeStrip([createLabel(10, 60, 255), createLabel(10, 60, 255)], layout({ gapMm, separator: 'cut-marks' }));
+            expect(strip.width).toBe(22);
+            expect([9, 10, 11, 12].map(x => isBlack(strip, x, 0))).toEqual([false, true, true, false]);
+        });
+
+        expect(composeTapeStrip([createLabel(10, 8), createLabel(10, 8)], layout({ gapMm: 0.125 })).width).toBe(21);
+        expect(getStripLengthDots([10, 10, 10], layout({ gapMm: 0, separator: 'dotted' }))).toBe(34);
+    });
+
+    it('should split long batches into strips', () => {
+        const labels = Array.from({ length: 5 }, () => createLabel(mmToDots(30), 8));
+        const strips = packTapeStrips(labels, layout({ maxStripMm: 100 }));
+
+        expect(strips.map(s => s.length)).toEqual([3, 2]);
+        expect(getStripLengthDots(strips[0].map(l => l.width), layout())).toBeLessThanOrEqual(mmToDots(100));
+    });
+
+    describe('strip settings', () => {
+        const settings = { copies: 3, density: 60, speed: 3, rotation: 180 } as PrintSettings;
+
+        it('should print one continuous copy turned along the tape, whatever the labels asked for', () => {
+            expect(getTapeStripSettings([{ settings }, { settings: { ...settings, rotation: 0 } }]))
+                .toMatchObject({ density: 60, speed: 3, labelType: 'continuous', copies: 1, rotation: 90 });
+        });
+
+        it('should refuse labels that disagree on strip-wide settings or printers', () => {
+            expect(() => getTapeStripSettings([{ settings }, { settings: { ...settings, density: 40, mirror: true } }]))
+                .toThrow('same density, mirroring');
+            expect(() => getTapeStripSettings([{ settings, printerId: 'a' }, { settings, printerId: 'b' }]))
+                .toThrow('same printer');
+        });
+    });
+
+    describe('printing', () => {
+        beforeEach(() => {
+            const storage: Record<string, string> = {};
+            vi.stubGlobal('localStorage', {
+                getItem: vi.fn((key: string) => storage[key] ?? null),
+                setItem: vi.fn((key: string, value: string) => { storage[key] = value; }),
+                removeItem: vi.fn((key: string) => { delete storage[key]; })
+            });
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        it('should send a strip as one continuous label', async () => {
+            const printer = createVirtualPrinter();
+            await printer.device.gatt!.connect();
+            const labels = Array.from({ length: 3 }, () => createLabel(mmToDots(30), mmToDots(12)));
+            const strip = composeTapeStrip(labels, layout());
+            const settings = getTapeStripSettings([{
+                settings: {
+                    copies: 1, invert: false, includeQr: false, density: 50, theme: LabelTheme.MINIMAL, marginMm: 2,
+                    visibleFields: { brand: true, weight: true, notes: true, date: false, source: false },
+                    rotation: 0
+                }
+            }]);
+
+            await printLabel(printer.device, strip, settings, 'Tape strip');
+
+            expect(printer.labels).toHaveLength(1);
+            // Sideways: the tape height goes across the head, the strip runs along the feed
+            expect(printer.labels[0]).toMatchObject({ labelType: 'continuous', widthBytes: 12, height: strip.width });
+        });
+    });
+});
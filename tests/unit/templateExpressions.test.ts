@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { FilamentData } from '../../types';
+import { evaluateExpression, getExpressionProblems, TemplateExpressionError } from '../../services/templateExpressions';
+
+const FILAMENT: FilamentData = {
+    brand: 'Polymaker', material: 'PETG', colorName: 'Teal', colorHex: '#008080',
+    minTemp: 230, maxTemp: 250, bedTempMin: 70, bedTempMax: 80, weight: '1kg',
+    notes: '', hygroscopy: 'high', openDate: '2026-01-01T00:00:00Z', remainingWeight: '750g'
+};
+
+const NOW = Date.parse('2026-01-13T12:00:00Z');
+const evaluate = (expression: string, data: Partial<FilamentData> = {}) =>
+    evaluateExpression(expression, { ...FILAMENT, ...data }, NOW);
+
+describe('templateExpressions', () => {
+    it('should combine fields with literal text', () => {
+        expect(evaluate('{brand} {material}')).toBe('Polymaker PETG');
+        expect(evaluate('{minTemp}-{maxTemp}°C')).toBe('230-250°C');
+        expect(evaluate('No placeholders')).toBe('No placeholders');
+        expect(evaluate('{{literal}}')).toBe('{literal}');
+    });
+
+    it('should apply filters in order', () => {
+        expect(evaluate('{brand|upper}')).toBe('POLYMAKER');
+        expect(evaluate('{openDate|age}')).toBe('12d');
+        expect(evaluate('{openDate|age}', { openDate: '2025-09-01' })).toBe('4mo');
+        expect(evaluate('{openDate|date}')).toBe('2026-01-01');
+        expect(evaluate('{remainingWeight|pct}')).toBe('75%');
+        expect(evaluate('{remainingWeight|pct}', { remainingWeight: '60%' })).toBe('60%');
+        expect(evaluate('{notes|default:n/a|upper}')).toBe('N/A');
+        expect(evaluate('{purchaseDate|age|default:new}')).toBe('new');
+    });
+
+    it('should choose text by condition', () => {
+        expect(evaluate('{hygroscopy=high?DRY ME}')).toBe('DRY ME');
+        expect(evaluate('{hygroscopy=high?DRY ME}', { hygroscopy: 'low' })).toBe('');
+        expect(evaluate('{hygroscopy!=low?Keep dry:Fine}', { hygroscopy: 'low' })).toBe('Fine');
+        expect(evaluate('{material} {notes?*}')).toBe('PETG ');
+        expect(evaluate('{notes?*:-}', { notes: 'x' })).toBe('*');
+    });
+
+    it('should reject unknown fields with a suggestion', () => {
+        expect(() => evaluate('{brnad} {material}')).toThrow(TemplateExpressionError);
+        expect(() => evaluate('{brnad}')).toThrow('Unknown field "brnad", did you mean "brand"?');
+        expect(getExpressionProblems('{spoolId}')).toEqual(['Unknown field "spoolId"']);
+    });
+
+    it('should not read anything outside the filament fields', () => {
+        expect(getExpressionProblems('{constructor}')).toHaveLength(1);
+        expect(getExpressionProblems('{__proto__}')).toHaveLength(1);
+        expect(getExpressionProblems('{brand|constructor}')[0]).toMatch(/^Unknown filter "constructor"/);
+    });
+
+    it('should report unbalanced braces', () => {
+        expect(getExpressionProblems('{brand')).toEqual(['Missing } after {']);
+        expect(getExpressionProblems('brand}')).toEqual(['} without a matching {']);
+        expect(getExpressionProblems('{brand {material}}')).toEqual(['Missing } after {']);
+        expect(getExpressionProblems('{brand} {material}')).toEqual([]);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createCustomTemplate, loadUserTemplates, saveUserTemplate, removeUserTemplate, USER_TEMPLATES_STORAGE_KEY } from '../../services/templateService';
+import { createEmptyLayout } from '../../services/layoutDesigner';
+
+describe('templateService', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+        storage = {};
+        vi.stubGlobal('localStorage', {
+            getItem: vi.fn((key: string) => storage[key] ?? null),
+            setItem: vi.fn((key: string, value: string) => { storage[key] = value; }),
+            removeItem: vi.fn((key: string) => { delete storage[key]; })
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should keep designed templates in the user library', () => {
+        const template = createCustomTemplate('Shelf tag', 'Big material name', createEmptyLayout(40, 12), ['12x40']);
+
+        saveUserTemplate(template);
+        expect(loadUserTemplates()).toEqual([template]);
+
+        // Saving again replaces rather than duplicates
+        saveUserTemplate({ ...template, name: 'Shelf tag v2' });
+        expect(loadUserTemplates().map(t => t.name)).toEqual(['Shelf tag v2']);
+
+        expect(removeUserTemplate(template.id)).toEqual([]);
+    });
+
+    it('should discard an unreadable library', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        storage[USER_TEMPLATES_STORAGE_KEY] = '{oops';
+
+        expect(loadUserTemplates()).toEqual([]);
+    });
+});
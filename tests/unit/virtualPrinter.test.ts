@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import { inflateSync } from 'node:zlib';
+import { createVirtualPrinter, labelToPng, labelToDataUrl } from '../../services/virtualPrinter';
+import { phomemoD30Driver } from '../../services/printerDrivers';
+import { frameLabel, concatCommands } from '../../services/rasterEncoder';
+import { checkPrinterStatus, sendCalibrationPattern, detectPrinterDriver } from '../../services/printerService';
+
+const getWriteCharacteristic = async (printer: ReturnType<typeof createVirtualPrinter>) => {
+    await printer.device.gatt!.connect();
+    const service = await printer.device.gatt!.getPrimaryService('000018f0-0000-1000-8000-00805f9b34fb');
+    const chars = await service.getCharacteristics();
+    return chars.find(c => c.properties.write)!;
+};
+
+const raster = { widthBytes: 2, width: 16, height: 3, rotation: 0 as const, data: Uint8Array.from([0xFF, 0x00, 0x81, 0x81, 0x00, 0xFF]) };
+
+describe('virtualPrinter', () => {
+    it('should rebuild a label from a chunked command stream', async () => {
+        const printer = createVirtualPrinter();
+        const char = await getWriteCharacteristic(printer);
+        const stream = concatCommands(frameLabel(phomemoD30Driver, raster, 100));
+
+        // Split mid-command and mid-raster
+        for (const [start, end] of [[0, 3], [3, 13], [13, stream.length]]) {
+            await char.writeValueWithoutResponse(stream.slice(start, end));
+        }
+
+        expect(printer.labels).toHaveLength(1);
+        expect(printer.labels[0]).toMatchObject({ widthBytes: 2, width: 16, height: 3, density: 15 });
+        expect(Array.from(printer.labels[0].data)).toEqual(Array.from(raster.data));
+        expect(printer.log.map(e => e.command)).toEqual(['ESC @', 'DENSITY', 'GS v 0', 'RASTER DATA']);
+    });
+
+    it('should record speed and label type in effect for the label', async () => {
+        const printer = createVirtualPrinter();
+        const char = await getWriteCharacteristic(printer);
+
+        await char.writeValue(phomemoD30Driver.speed(2)!);
+        await char.writeValue(phomemoD30Driver.labelType('continuous')!);
+        await char.writeValue(concatCommands(frameLabel(phomemoD30Driver, raster, 50)));
+
+        expect(printer.labels[0]).toMatchObject({ speed: 2, labelType: 'continuous', density: 8 });
+    });
+
+    it('should reject writes larger than the link allows', async () => {
+        const printer = createVirtualPrinter({ maxWriteSize: 20 });
+        const char = await getWriteCharacteristic(printer);
+
+        await expect(char.writeValueWithoutResponse(new Uint8Array(21))).rejects.toThrow();
+    });
+
+    it('should work as the device behind printerService', async () => {
+        const printer = createVirtualPrinter({ id: 'virtual-1' });
+        await printer.device.gatt!.connect();
+
+        expect((await detectPrinterDriver(printer.device)).id).toBe('phomemo-d30');
+
+        await sendCalibrationPattern(printer.device, { widthMm: 40, heightMm: 12 }, { speed: 2 });
+
+        // 12x40 prints sideways: 96 dots across the head, 320 rows
+        expect(printer.labels).toHaveLength(1);
+        expect(printer.labels[0]).toMatchObject({ widthBytes: 12, height: 320, speed: 2 });
+        // The label's left edge is the first row: it carries the edge tick
+        expect(printer.labels[0].data.slice(0, 12).some(b => b !== 0)).toBe(true);
+    });
+
+    it('should answer status queries from its simulated state', async () => {
+        const printer = createVirtualPrinter({ id: 'virtual-2', state: { paperOut: true } });
+        await printer.device.gatt!.connect();
+
+        expect(await checkPrinterStatus(printer.device)).toBe('paper_out');
+
+        printer.setState({ paperOut: false });
+        expect(await checkPrinterStatus(printer.device)).toBe('ready');
+    });
+
+    it('should fire gattserverdisconnected and refuse writes when the link drops', async () => {
+        const printer = createVirtualPrinter();
+        const char = await getWriteCharacteristic(printer);
+        const onDisconnect = vi.fn();
+        printer.device.addEventListener('gattserverdisconnected', onDisconnect);
+
+        printer.disconnect();
+
+        expect(onDisconnect).toHaveBeenCalled();
+        expect(printer.device.gatt!.connected).toBe(false);
+        await expect(char.writeValue(new Uint8Array([0x1B, 0x40]))).rejects.toThrow('disconnected');
+    });
+
+    it('should encode labels as 1-bit PNG', () => {
+        const png = labelToPng(raster);
+
+        expect(Array.from(png.slice(0, 8))).toEqual([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+        const view = new DataView(png.buffer);
+        expect(view.getUint32(16)).toBe(16);
+        expect(view.getUint32(20)).toBe(3);
+
+        // IDAT starts after the 8 byte signature and 25 byte IHDR chunk
+        const idatLength = view.getUint32(33);
+        const rows = inflateSync(png.slice(41, 41 + idatLength));
+        expect(Array.from(rows)).toEqual([0, 0x00, 0xFF, 0, 0x7E, 0x7E, 0, 0xFF, 0x00]);
+
+        expect(labelToDataUrl(raster).startsWith('data:image/png;base64,iVBORw0KGgo')).toBe(true);
+    });
+
+    it('should export a serializable summary of printed labels', async () => {
+        const printer = createVirtualPrinter();
+        const char = await getWriteCharacteristic(printer);
+        await char.writeValue(concatCommands(frameLabel(phomemoD30Driver, raster, 50)));
+
+        const [label] = printer.exportLabels();
+        expect(label.dots).toBe(8 + 4 + 8);
+        expect(label.png).toBe(labelToDataUrl(raster));
+        expect(label).not.toHaveProperty('data');
+    });
+});
@@ -56,11 +56,18 @@ export enum LabelTheme {
   MINIMAL = 'minimal'
 }
 
+// How grayscale is turned into printer dots
+export type RasterMode = 'threshold' | 'floyd-steinberg' | 'atkinson' | 'bayer' | 'text-sharp';
+
+// Clockwise rotation of the label on the print head; auto turns short labels 90° to fit
+export type LabelRotation = 'auto' | 0 | 90 | 180 | 270;
+
 export interface PrintSettings {
   copies: number;
   invert: boolean;
   includeQr: boolean;
-  density: number; // 0-100
+  density: number; // 0-100, hardware heat where the printer supports it
+  darkness?: number; // 0-100 software darkening of the raster, limited per printer model
   theme: LabelTheme;
   marginMm: number;
   visibleFields: {
@@ -73,10 +80,15 @@ export interface PrintSettings {
   speed?: 1 | 2 | 3 | 4 | 5;
   labelType?: 'gap' | 'continuous' | 'mark';
   autoCalibrate?: boolean;
-  printOffsetMm?: number;
+  printOffsetMm?: number; // Positive moves the print down (label orientation, as fed with the automatic rotation)
+  horizontalOffsetMm?: number; // Positive moves the print right (label orientation, as fed with the automatic rotation)
   includeRuler?: boolean;
   widthMm?: number;
   heightMm?: number;
+  rasterMode?: RasterMode; // Default: floyd-steinberg
+  rotation?: LabelRotation; // Default: auto
+  mirror?: boolean; // Flip left-right, for transparent tape read from the back
+  template?: AppliedTemplate; // Drawn instead of the theme when set
 }
 
 export interface AdvancedPrintSettings extends PrintSettings {
@@ -97,6 +109,19 @@ export interface PrinterInfo {
   battery?: number;
 }
 
+export type PrinterStatus = 'ready' | 'paper_out' | 'cover_open' | 'overheat' | 'low_battery' | 'busy' | 'unknown';
+
+// Latest state decoded from the printer's notify characteristic
+export interface PrinterStatusReport {
+  paperOut: boolean;
+  coverOpen: boolean;
+  overheat: boolean;
+  lowBattery: boolean;
+  busy: boolean;
+  battery?: number; // 0-100 if the printer reports it over the print channel
+  updatedAt: number;
+}
+
 export enum AppState {
   HOME,
   CAMERA,
@@ -111,11 +136,23 @@ export interface LabelPreset {
   widthMm: number;
   heightMm: number;
   description: string;
-  group?: 'Standard' | 'D30/Small';
+  group?: 'Standard' | 'D30/Small' | 'Custom';
   deviceId: string;
   gatt?: BluetoothRemoteGATTServer;
 }
 
+/** Label stock defined by the user, listed alongside LABEL_PRESETS */
+export interface LabelStock extends LabelPreset {
+  gapMm: number;
+  cornerRadiusMm: number;
+  labelType: 'gap' | 'continuous' | 'mark';
+  /** Area the print head can reach, centred on the label */
+  printableWidthMm: number;
+  printableHeightMm: number;
+  /** Printer driver id the stock fits, '' for any printer */
+  printerModel: string;
+}
+
 export const LABEL_PRESETS: LabelPreset[] = [
   // D30 Series (Standard)
   { id: '12x30', name: '12x30mm', widthMm: 30, heightMm: 12, description: 'Small Tag', group: 'D30/Small', deviceId: '' },
@@ -230,11 +267,29 @@ export interface PrintJob {
   id: string;
   label: FilamentData;
   settings: PrintSettings;
-  status: 'queued' | 'printing' | 'complete' | 'error';
+  status: 'queued' | 'printing' | 'complete' | 'error' | 'cancelled';
   progress: number;
   estimatedTime: number;
   createdAt: number;
   error?: string;
+  printerId?: string; // Registered printer to print on (default: the connected one)
+}
+
+// A label job persisted while it prints so it can be resumed after a disconnect
+export interface PrintJobRecord {
+  id: string;
+  deviceId: string;
+  labelName: string;
+  settings: PrintSettings;
+  // Encoded 1-bit raster (base64), so resuming doesn't need the canvas
+  raster: { widthBytes: number; height: number; data: string };
+  totalCopies: number;
+  copiesCompleted: number;
+  // Raster rows of the copy in progress that the printer acknowledged
+  rowsConfirmed: number;
+  startedAt: number;
+  interruptedAt?: number;
+  error?: string;
 }
 
 // Label Template System
@@ -252,13 +307,20 @@ export interface LabelTemplate {
   createdAt: number;
 }
 
+// The parts of a template the renderer needs, carried in PrintSettings
+export type AppliedTemplate = Pick<LabelTemplate, 'id' | 'name' | 'layout'>;
+
 export interface TemplateLayout {
   elements: TemplateElement[];
   backgroundColor: string;
   borderStyle?: 'none' | 'solid' | 'dashed' | 'rounded';
-  borderWidth?: number;
+  borderWidth?: number; // pt
+  // Label size the positions are given for; scaled to the label printed on (as-is when unset)
+  widthMm?: number;
+  heightMm?: number;
 }
 
+// Positions and sizes in mm from the top left of the layout
 export interface TemplateElement {
   type: 'text' | 'qr' | 'icon' | 'divider' | 'colorSwatch' | 'barcode';
   field?: keyof FilamentData | 'custom';
@@ -266,14 +328,17 @@ export interface TemplateElement {
   y: number;
   width?: number;
   height?: number;
-  fontSize?: number;
+  fontSize?: number; // pt
   fontWeight?: 'normal' | 'bold' | 'light';
   align?: 'left' | 'center' | 'right';
   color?: string;
   customText?: string;
   icon?: string;
+  symbology?: BarcodeSymbology; // barcode elements; code128 when unset
 }
 
+export type BarcodeSymbology = 'code128' | 'ean13' | 'upca' | 'datamatrix';
+
 // Printer Statistics & Analytics
 export interface PrinterStats {
   totalPrints: number;
@@ -288,10 +353,29 @@ export interface PrinterStats {
   mostPrintedMaterial?: string;
 }
 
-// Printer Calibration Data
+// One print job as it went: battery, bytes and tape, for per-printer usage history
+export interface PrintTelemetry {
+  id: string;
+  printerId: string;
+  firmware?: string;
+  labelName: string;
+  timestamp: number;
+  copies: number; // Copies actually printed
+  batteryBefore: number | null;
+  batteryAfter: number | null;
+  bytesSent: number;
+  labelLengthMm: number; // Tape fed for all copies
+  durationMs: number;
+  error?: string;
+}
+
+// Printer Calibration Data (per printer and label size)
 export interface CalibrationData {
   labelWidthMm: number;
+  labelHeightMm: number;
   densityOffset: number;
+  horizontalOffsetMm: number; // Positive moves the print right
+  verticalOffsetMm: number; // Positive moves the print down
   speedOptimal: 1 | 2 | 3 | 4 | 5;
   lastCalibrated: number;
   calibratedBy: 'user' | 'auto';
@@ -311,7 +395,7 @@ export interface QRCodeConfig {
 export interface BatchPrintConfig {
   jobs: PrintJob[];
   optimizeOrder: boolean;
-  pauseBetweenJobs: number;
+  pauseBetweenJobs: number; // Seconds
   continueOnError: boolean;
   totalEstimatedTime: number;
 }
@@ -324,4 +408,5 @@ export interface MaintenanceLog {
   notes?: string;
   result: 'success' | 'warning' | 'error';
   details?: any;
+  printerId?: string;
 }